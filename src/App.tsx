@@ -2,16 +2,20 @@ import { lazy, Suspense, useState, useEffect } from 'react'
 import { Routes, Route } from 'react-router-dom'
 import { Header } from '@/components/layout/Header'
 import { Sidebar } from '@/components/layout/Sidebar'
+import { PersistenceNotices } from '@/components/layout/PersistenceNotices'
 import { LoginModal, SignupModal, OnboardingModal } from '@/components/auth'
 import { CheckoutModal, AdBanner } from '@/components/payment'
 import { PageErrorBoundary } from '@/components/ErrorBoundary'
 import { useThemeStore } from '@/stores/themeStore'
+import { useAssetStore } from '@/stores/assetStore'
 import { Spinner } from '@/components/ui'
 
 // Lazy load pages for code splitting
 const HomePage = lazy(() => import('@/pages/HomePage'))
 const TradingPage = lazy(() => import('@/pages/TradingPage'))
 const SimulationPage = lazy(() => import('@/pages/SimulationPage'))
+const JournalPage = lazy(() => import('@/pages/JournalPage'))
+const AnalyticsPage = lazy(() => import('@/pages/AnalyticsPage'))
 const PricingPage = lazy(() => import('@/pages/PricingPage'))
 const SettingsPage = lazy(() => import('@/pages/SettingsPage'))
 
@@ -34,6 +38,11 @@ function App() {
         document.documentElement.setAttribute('data-theme', theme)
     }, [theme])
 
+    // Exchange filters for every pair; the bundled snapshot covers until then
+    useEffect(() => {
+        useAssetStore.getState().loadExchangeInfo()
+    }, [])
+
     // Skip to main content for accessibility
     const handleSkipToMain = () => {
         const main = document.querySelector('main')
@@ -57,6 +66,9 @@ function App() {
             <Header onMenuClick={() => setSidebarOpen(true)} />
             <Sidebar isOpen={sidebarOpen} onClose={() => setSidebarOpen(false)} />
 
+            {/* Saved data that could not be loaded */}
+            <PersistenceNotices />
+
             {/* Global Modals */}
             <LoginModal />
             <SignupModal />
@@ -73,6 +85,8 @@ function App() {
                             <Route path="/" element={<HomePage />} />
                             <Route path="/app" element={<TradingPage />} />
                             <Route path="/simulation" element={<SimulationPage />} />
+                            <Route path="/journal" element={<JournalPage />} />
+                            <Route path="/analytics" element={<AnalyticsPage />} />
                             <Route path="/pricing" element={<PricingPage />} />
                             <Route path="/settings" element={<SettingsPage />} />
                         </Routes>
@@ -0,0 +1,41 @@
+import { clsx } from 'clsx'
+import type { AssetExposure } from '@/lib/performanceAnalytics'
+
+interface ExposureBreakdownProps {
+    exposure: AssetExposure[]
+}
+
+export function ExposureBreakdown({ exposure }: ExposureBreakdownProps) {
+    if (exposure.length === 0) {
+        return <p className="text-sm text-text-muted text-center py-8">No open positions; the account is all cash</p>
+    }
+
+    const largest = Math.max(...exposure.map(e => e.percent), 100)
+
+    return (
+        <div className="space-y-3">
+            {exposure.map(({ symbol, value, percent }) => (
+                <div key={symbol}>
+                    <div className="flex justify-between text-sm mb-1">
+                        <span className="font-medium">
+                            {symbol.replace('USDT', '')}
+                            {value < 0 && <span className="ml-2 text-xs text-danger">short</span>}
+                        </span>
+                        <span className="font-mono text-text-secondary">
+                            ${Math.abs(value).toFixed(2)} · {percent.toFixed(1)}%
+                        </span>
+                    </div>
+                    <div className="h-2 bg-bg-tertiary rounded-full overflow-hidden">
+                        <div
+                            className={clsx('h-full rounded-full', value < 0 ? 'bg-danger' : 'bg-accent-primary')}
+                            style={{ width: `${(percent / largest) * 100}%` }}
+                        />
+                    </div>
+                </div>
+            ))}
+            {largest > 100 && (
+                <p className="text-xs text-text-muted">Leverage puts more than the account value at risk</p>
+            )}
+        </div>
+    )
+}
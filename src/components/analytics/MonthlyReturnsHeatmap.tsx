@@ -0,0 +1,68 @@
+import { clsx } from 'clsx'
+import type { MonthlyReturn } from '@/lib/performanceAnalytics'
+
+interface MonthlyReturnsHeatmapProps {
+    returns: MonthlyReturn[]
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+// Darker cells for bigger moves, by absolute percent
+const SHADES: { below: number; gain: string; loss: string }[] = [
+    { below: 1, gain: 'bg-success/10', loss: 'bg-danger/10' },
+    { below: 5, gain: 'bg-success/25', loss: 'bg-danger/25' },
+    { below: 10, gain: 'bg-success/40', loss: 'bg-danger/40' },
+    { below: Infinity, gain: 'bg-success/60', loss: 'bg-danger/60' },
+]
+
+function getShade(value: number): string {
+    const shade = SHADES.find(s => Math.abs(value) < s.below)!
+    return value >= 0 ? shade.gain : shade.loss
+}
+
+export function MonthlyReturnsHeatmap({ returns }: MonthlyReturnsHeatmapProps) {
+    if (returns.length === 0) {
+        return <p className="text-sm text-text-muted text-center py-8">No history yet</p>
+    }
+
+    const years = [...new Set(returns.map(r => r.year))].sort((a, b) => b - a)
+    const lookup = new Map(returns.map(r => [`${r.year}-${r.month}`, r.return]))
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+                <thead>
+                    <tr className="text-text-muted">
+                        <th className="py-1 pr-2 font-medium text-left">Year</th>
+                        {MONTHS.map(month => (
+                            <th key={month} className="py-1 px-0.5 font-medium">{month}</th>
+                        ))}
+                    </tr>
+                </thead>
+                <tbody>
+                    {years.map(year => (
+                        <tr key={year}>
+                            <td className="py-0.5 pr-2 text-text-muted font-mono">{year}</td>
+                            {MONTHS.map((month, i) => {
+                                const value = lookup.get(`${year}-${i}`)
+                                return (
+                                    <td key={month} className="p-0.5">
+                                        <div
+                                            className={clsx(
+                                                'rounded py-2 text-center font-mono',
+                                                value === undefined ? 'bg-bg-tertiary/30 text-text-muted' : getShade(value)
+                                            )}
+                                            title={value === undefined ? undefined : `${month} ${year}: ${value.toFixed(2)}%`}
+                                        >
+                                            {value === undefined ? '' : `${value >= 0 ? '+' : ''}${value.toFixed(1)}`}
+                                        </div>
+                                    </td>
+                                )
+                            })}
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    )
+}
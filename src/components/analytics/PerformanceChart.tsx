@@ -0,0 +1,77 @@
+import { useMemo } from 'react'
+import type { EquityPoint } from '@/lib/performanceAnalytics'
+
+interface PerformanceChartProps {
+    equity: EquityPoint[]
+    drawdownPeak?: number
+    drawdownTrough?: number
+}
+
+const WIDTH = 600
+const HEIGHT = 160
+
+export function PerformanceChart({ equity, drawdownPeak, drawdownTrough }: PerformanceChartProps) {
+    const chart = useMemo(() => {
+        if (equity.length < 2) return null
+
+        const values = equity.map(p => p.value)
+        const min = Math.min(...values)
+        const max = Math.max(...values)
+        const range = max - min || 1
+        const x = (i: number) => (i / (equity.length - 1)) * WIDTH
+        const y = (value: number) => HEIGHT - ((value - min) / range) * HEIGHT
+
+        const line = equity
+            .map((p, i) => `${i === 0 ? 'M' : 'L'} ${x(i).toFixed(1)} ${y(p.value).toFixed(1)}`)
+            .join(' ')
+
+        const peakIndex = equity.findIndex(p => p.time === drawdownPeak)
+        const troughIndex = equity.findIndex(p => p.time === drawdownTrough)
+        const drawdown = peakIndex >= 0 && troughIndex > peakIndex
+            ? { x: x(peakIndex), width: x(troughIndex) - x(peakIndex) }
+            : null
+
+        return { line, min, max, drawdown, isUp: values[values.length - 1] >= values[0] }
+    }, [equity, drawdownPeak, drawdownTrough])
+
+    if (!chart) {
+        return (
+            <p className="text-sm text-text-muted text-center py-12">
+                Trade for at least two days to see the equity curve
+            </p>
+        )
+    }
+
+    const first = new Date(equity[0].time).toLocaleDateString()
+    const last = new Date(equity[equity.length - 1].time).toLocaleDateString()
+
+    return (
+        <div>
+            <div className="flex justify-between text-xs text-text-muted font-mono mb-1">
+                <span>${chart.max.toFixed(2)}</span>
+                {chart.drawdown && (
+                    <span className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-3 rounded-sm bg-danger/15" />
+                        Max drawdown
+                    </span>
+                )}
+            </div>
+            <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-48">
+                {chart.drawdown && (
+                    <rect x={chart.drawdown.x} y={0} width={chart.drawdown.width} height={HEIGHT} className="fill-danger/15" />
+                )}
+                <path
+                    d={chart.line}
+                    fill="none"
+                    strokeWidth={2}
+                    vectorEffect="non-scaling-stroke"
+                    className={chart.isUp ? 'stroke-success' : 'stroke-danger'}
+                />
+            </svg>
+            <div className="flex justify-between text-xs text-text-muted font-mono mt-1">
+                <span>{first} · ${chart.min.toFixed(2)}</span>
+                <span>{last}</span>
+            </div>
+        </div>
+    )
+}
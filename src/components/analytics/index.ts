@@ -0,0 +1,4 @@
+// Analytics components barrel export
+export { PerformanceChart } from './PerformanceChart'
+export { MonthlyReturnsHeatmap } from './MonthlyReturnsHeatmap'
+export { ExposureBreakdown } from './ExposureBreakdown'
@@ -14,16 +14,19 @@ import {
     ArrowDownRight,
     Zap
 } from 'lucide-react'
-import { useWalletStore } from '@/stores/walletStore'
+import { useWalletStore, QUOTE_ASSET } from '@/stores/walletStore'
 import { useTradingStore } from '@/stores/tradingStore'
+import { useReplayStore } from '@/stores/replayStore'
 
 interface QuickStatsProps {
     compact?: boolean
 }
 
 export function QuickStats({ compact = false }: QuickStatsProps) {
-    const { balance, holdings, getPortfolioMetrics, pendingOrders } = useWalletStore()
+    const { positions, getPortfolioMetrics, getOpenOrders, getBalance } = useWalletStore()
     const { tickerData, realtimePrices, selectedCrypto } = useTradingStore()
+    // Replay time to the minute, so the clock doesn't re-render every tick
+    const replayMinute = useReplayStore((state) => state.active ? Math.floor(state.time / 60_000) * 60_000 : null)
 
     // Build prices map from ticker data and realtime prices
     const prices: Record<string, number> = {}
@@ -39,8 +42,9 @@ export function QuickStats({ compact = false }: QuickStatsProps) {
     const realtimeData = realtimePrices[selectedCrypto]
     const priceDirection = realtimeData?.direction || 'neutral'
 
-    const activeOrdersCount = pendingOrders.filter(o => o.status === 'pending').length
-    const holdingsCount = Object.keys(holdings).length
+    const activeOrdersCount = getOpenOrders().length
+    const holdingsCount = Object.keys(positions).length
+    const cash = getBalance(QUOTE_ASSET)
 
     if (compact) {
         return (
@@ -117,6 +121,9 @@ export function QuickStats({ compact = false }: QuickStatsProps) {
                         ({metrics.profitLoss >= 0 ? '+' : ''}{metrics.profitLossPercent.toFixed(1)}%)
                     </span>
                 </div>
+                <div className="text-xs text-muted-foreground">
+                    24h {metrics.dayChange >= 0 ? '+' : ''}{metrics.dayChangePercent.toFixed(2)}%
+                </div>
             </motion.div>
 
             {/* Current Price Card */}
@@ -153,7 +160,11 @@ export function QuickStats({ compact = false }: QuickStatsProps) {
                 </motion.div>
                 <div className="flex items-center gap-1 text-xs text-muted-foreground">
                     <Activity className="w-3 h-3" />
-                    <span>Real-time</span>
+                    <span>
+                        {replayMinute !== null
+                            ? `Replay ${new Date(replayMinute).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })}`
+                            : 'Real-time'}
+                    </span>
                 </div>
             </motion.div>
 
@@ -169,10 +180,12 @@ export function QuickStats({ compact = false }: QuickStatsProps) {
                     <TrendingUp className="w-4 h-4 text-muted-foreground" />
                 </div>
                 <div className="font-mono text-xl font-bold">
-                    ${balance.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    ${cash.free.toLocaleString(undefined, { maximumFractionDigits: 2 })}
                 </div>
                 <div className="text-xs text-muted-foreground">
-                    {holdingsCount} asset{holdingsCount !== 1 ? 's' : ''} held
+                    {cash.locked > 0
+                        ? `$${cash.locked.toLocaleString(undefined, { maximumFractionDigits: 2 })} locked of $${cash.total.toLocaleString(undefined, { maximumFractionDigits: 2 })}`
+                        : `${holdingsCount} asset${holdingsCount !== 1 ? 's' : ''} held`}
                 </div>
             </motion.div>
 
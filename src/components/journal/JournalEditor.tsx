@@ -0,0 +1,208 @@
+import { useEffect, useState } from 'react'
+import { Camera, Plus, Trash2, X } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Button, Input, Textarea } from '@/components/ui'
+import { useWalletStore, JournalEntry, Transaction } from '@/stores/walletStore'
+import { useChartCaptureStore } from '@/stores/chartCaptureStore'
+import { getSnapshot, saveSnapshot } from '@/services/ledger'
+import { EMOTION_TAGS, SETUP_TAGS } from '@/lib/journalStats'
+import { generateId } from '@/lib/utils'
+
+interface JournalEditorProps {
+    transaction: Transaction
+    entry?: JournalEntry
+    onClose: () => void
+}
+
+export function JournalEditor({ transaction, entry, onClose }: JournalEditorProps) {
+    const { addJournalNote, updateJournalNote, deleteJournalNote } = useWalletStore()
+    const latestCapture = useChartCaptureStore((state) => state.latest)
+
+    const [note, setNote] = useState(entry?.note ?? '')
+    const [tags, setTags] = useState<string[]>(entry?.tags ?? [])
+    const [customTag, setCustomTag] = useState('')
+    const [riskAmount, setRiskAmount] = useState(entry?.riskAmount?.toString() ?? '')
+    const [snapshot, setSnapshot] = useState<string>()
+    const [snapshotChanged, setSnapshotChanged] = useState(false)
+    const [saving, setSaving] = useState(false)
+    const [error, setError] = useState<string | null>(null)
+
+    // The image itself is kept in the ledger, under the entry's key
+    useEffect(() => {
+        if (!entry?.snapshotId) return
+        getSnapshot(entry.snapshotId)
+            .then(setSnapshot)
+            .catch(() => setError('The chart snapshot could not be loaded'))
+    }, [entry?.snapshotId])
+
+    const toggleTag = (tag: string) => {
+        setTags(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag])
+    }
+
+    const addCustomTag = () => {
+        const tag = customTag.trim().toLowerCase()
+        if (tag && !tags.includes(tag)) setTags([...tags, tag])
+        setCustomTag('')
+    }
+
+    const changeSnapshot = (image: string | undefined) => {
+        setSnapshot(image)
+        setSnapshotChanged(true)
+    }
+
+    const handleSave = async () => {
+        let snapshotId = entry?.snapshotId
+        if (snapshotChanged) {
+            snapshotId = undefined
+            if (snapshot) {
+                const id = generateId()
+                setSaving(true)
+                try {
+                    await saveSnapshot(id, snapshot)
+                    snapshotId = id
+                } catch (e) {
+                    setError(`The chart snapshot could not be saved. ${e instanceof Error ? e.message : ''}`.trim())
+                    setSaving(false)
+                    return
+                }
+            }
+        }
+
+        const risk = parseFloat(riskAmount)
+        const details = { riskAmount: risk > 0 ? risk : undefined, snapshotId }
+
+        if (entry) {
+            updateJournalNote(entry.id, note.trim(), tags, details)
+        } else {
+            addJournalNote(transaction.id, note.trim(), tags, details)
+        }
+        onClose()
+    }
+
+    const handleDelete = () => {
+        if (entry) deleteJournalNote(entry.id)
+        onClose()
+    }
+
+    const customTags = tags.filter(t => !SETUP_TAGS.includes(t) && !EMOTION_TAGS.includes(t))
+
+    const tagGroup = (label: string, options: string[]) => (
+        <div>
+            <p className="text-sm font-medium text-text-secondary mb-2">{label}</p>
+            <div className="flex flex-wrap gap-2">
+                {options.map((tag) => (
+                    <button
+                        key={tag}
+                        onClick={() => toggleTag(tag)}
+                        className={clsx(
+                            'px-3 py-1 text-xs rounded-full border transition-colors',
+                            tags.includes(tag)
+                                ? 'border-accent-primary bg-accent-primary/10 text-accent-primary'
+                                : 'border-white/10 text-text-muted hover:text-text-primary'
+                        )}
+                    >
+                        #{tag}
+                    </button>
+                ))}
+            </div>
+        </div>
+    )
+
+    return (
+        <div className="space-y-5">
+            <Textarea
+                label="Notes"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Why did you take this trade? What went well, what would you change?"
+                rows={4}
+            />
+
+            {tagGroup('Setup', SETUP_TAGS)}
+            {tagGroup('Emotion', EMOTION_TAGS)}
+
+            <div>
+                <p className="text-sm font-medium text-text-secondary mb-2">Custom tags</p>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                    {customTags.map((tag) => (
+                        <span key={tag} className="flex items-center gap-1 px-3 py-1 text-xs rounded-full bg-accent-primary/10 text-accent-primary">
+                            #{tag}
+                            <button onClick={() => toggleTag(tag)} title="Remove tag">
+                                <X size={12} />
+                            </button>
+                        </span>
+                    ))}
+                </div>
+                <div className="flex gap-2">
+                    <Input
+                        value={customTag}
+                        onChange={(e) => setCustomTag(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && addCustomTag()}
+                        placeholder="e.g. earnings"
+                    />
+                    <Button variant="secondary" onClick={addCustomTag} disabled={!customTag.trim()} className="shrink-0">
+                        <Plus size={16} />
+                    </Button>
+                </div>
+            </div>
+
+            <Input
+                label="Planned risk ($)"
+                type="number"
+                min="0"
+                step="0.01"
+                value={riskAmount}
+                onChange={(e) => setRiskAmount(e.target.value)}
+                hint="What you stood to lose at your stop; results are shown as multiples of it (R)"
+            />
+
+            <div>
+                <p className="text-sm font-medium text-text-secondary mb-2">Chart snapshot</p>
+                {snapshot ? (
+                    <div className="relative">
+                        <img src={snapshot} alt="Chart snapshot" className="w-full rounded-lg border border-white/10" />
+                        <button
+                            onClick={() => changeSnapshot(undefined)}
+                            className="absolute top-2 right-2 p-1.5 rounded-full bg-bg-primary/80 text-text-muted hover:text-danger transition-colors"
+                            title="Remove snapshot"
+                        >
+                            <X size={14} />
+                        </button>
+                    </div>
+                ) : latestCapture ? (
+                    <div className="flex items-center gap-3">
+                        <Button variant="outline" size="sm" onClick={() => changeSnapshot(latestCapture.image)} className="gap-2">
+                            <Camera size={16} />
+                            Attach chart capture
+                        </Button>
+                        <span className="text-xs text-text-muted">
+                            {latestCapture.symbol.replace('USDT', '')} · {latestCapture.interval} · {latestCapture.takenAt.toLocaleString()}
+                        </span>
+                    </div>
+                ) : (
+                    <p className="text-sm text-text-muted">
+                        Capture the chart with the camera button on the trading page, then attach it here.
+                    </p>
+                )}
+                {error && <p className="text-sm text-danger mt-2">{error}</p>}
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+                {entry ? (
+                    <Button variant="ghost" onClick={handleDelete} className="gap-2 text-danger">
+                        <Trash2 size={16} />
+                        Delete
+                    </Button>
+                ) : <span />}
+                <div className="flex gap-3">
+                    <Button variant="ghost" onClick={onClose}>
+                        Cancel
+                    </Button>
+                    <Button onClick={handleSave} disabled={saving || (!note.trim() && tags.length === 0)}>
+                        Save
+                    </Button>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,74 @@
+import { clsx } from 'clsx'
+import type { TagStats } from '@/lib/journalStats'
+
+interface TagStatsTableProps {
+    stats: TagStats[]
+    selectedTag?: string
+    onSelectTag?: (tag: string) => void
+}
+
+function formatUsd(value: number): string {
+    return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
+}
+
+export function TagStatsTable({ stats, selectedTag, onSelectTag }: TagStatsTableProps) {
+    if (stats.length === 0) {
+        return <p className="text-sm text-text-muted text-center py-8">Tag journal entries to compare setups</p>
+    }
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-text-muted border-b border-white/10">
+                        <th className="py-2 pr-3 font-medium">Tag</th>
+                        <th className="py-2 px-3 font-medium text-right">Closed</th>
+                        <th className="py-2 px-3 font-medium text-right">Win rate</th>
+                        <th className="py-2 px-3 font-medium text-right">Avg R</th>
+                        <th className="py-2 px-3 font-medium text-right">Expectancy</th>
+                        <th className="py-2 pl-3 font-medium text-right">Total P&L</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {stats.map((row) => (
+                        <tr
+                            key={row.tag}
+                            onClick={() => onSelectTag?.(row.tag)}
+                            className={clsx(
+                                'border-b border-white/5 cursor-pointer hover:bg-bg-tertiary/50 transition-colors',
+                                row.tag === selectedTag && 'bg-accent-primary/10'
+                            )}
+                        >
+                            <td className="py-2 pr-3">
+                                #{row.tag}
+                                <span className="ml-2 text-xs text-text-muted">{row.entries}</span>
+                            </td>
+                            <td className="py-2 px-3 text-right font-mono">{row.closedTrades}</td>
+                            <td className="py-2 px-3 text-right font-mono">
+                                {row.closedTrades > 0 ? `${row.winRate.toFixed(0)}%` : '—'}
+                            </td>
+                            <td className={clsx(
+                                'py-2 px-3 text-right font-mono',
+                                row.avgR !== undefined && (row.avgR >= 0 ? 'text-success' : 'text-danger')
+                            )}>
+                                {row.avgR !== undefined ? `${row.avgR.toFixed(2)}R` : '—'}
+                            </td>
+                            <td className={clsx(
+                                'py-2 px-3 text-right font-mono',
+                                row.closedTrades > 0 && (row.expectancy >= 0 ? 'text-success' : 'text-danger')
+                            )}>
+                                {row.closedTrades > 0 ? formatUsd(row.expectancy) : '—'}
+                            </td>
+                            <td className={clsx(
+                                'py-2 pl-3 text-right font-mono',
+                                row.totalPnl >= 0 ? 'text-success' : 'text-danger'
+                            )}>
+                                {formatUsd(row.totalPnl)}
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    )
+}
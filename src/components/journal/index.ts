@@ -0,0 +1,3 @@
+// Journal components barrel export
+export { JournalEditor } from './JournalEditor'
+export { TagStatsTable } from './TagStatsTable'
@@ -40,6 +40,8 @@ export const Header = ({ onMenuClick }: HeaderProps) => {
     const navLinks = [
         { path: '/app', label: t('nav.trading') },
         { path: '/simulation', label: t('nav.simulation') },
+        { path: '/journal', label: t('nav.journal') },
+        { path: '/analytics', label: t('nav.analytics') },
         { path: '/pricing', label: t('nav.pricing') },
     ]
 
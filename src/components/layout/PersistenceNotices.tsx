@@ -0,0 +1,30 @@
+import { Alert } from '@/components/ui'
+import { usePersistenceNotices } from '@/lib/persistence'
+
+/**
+ * Tells the user when saved data could not be loaded and was reset
+ */
+export const PersistenceNotices = () => {
+    const { notices, dismissNotice } = usePersistenceNotices()
+
+    if (notices.length === 0) return null
+
+    return (
+        <div className="fixed top-20 md:top-24 left-0 right-0 z-30 pointer-events-none">
+            <div className="container mx-auto px-4 space-y-2 max-w-2xl">
+                {notices.map((notice) => (
+                    <Alert
+                        key={notice.id}
+                        variant={notice.severity}
+                        title="Saved data problem"
+                        dismissible
+                        onDismiss={() => dismissNotice(notice.id)}
+                        className="pointer-events-auto backdrop-blur-lg"
+                    >
+                        {notice.message}
+                    </Alert>
+                ))}
+            </div>
+        </div>
+    )
+}
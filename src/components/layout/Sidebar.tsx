@@ -13,7 +13,9 @@ import {
     Sun,
     Moon,
     Globe,
-    Home
+    Home,
+    BookOpen,
+    Activity
 } from 'lucide-react'
 import { useThemeStore } from '@/stores/themeStore'
 
@@ -40,6 +42,8 @@ export const Sidebar = ({ isOpen, onClose }: SidebarProps) => {
         { icon: Home, label: t('nav.home'), path: '/' },
         { icon: BarChart3, label: t('nav.trading'), path: '/app', badge: 'LIVE' },
         { icon: Gamepad2, label: t('nav.simulation'), path: '/simulation' },
+        { icon: BookOpen, label: t('nav.journal'), path: '/journal' },
+        { icon: Activity, label: t('nav.analytics'), path: '/analytics' },
         { icon: Crown, label: t('nav.pricing'), path: '/pricing' },
         { icon: Settings, label: 'Settings', path: '/settings' },
         { icon: MessageCircle, label: t('nav.support'), path: '/support' },
@@ -0,0 +1,183 @@
+import { useRef, useState } from 'react'
+import { Download, Upload, FileJson, Check } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Card, Button, Alert } from '@/components/ui'
+import {
+    AccountImport,
+    ImportMode,
+    applyAccountImport,
+    downloadAccountExport,
+    getImportPreview,
+    parseAccountExport,
+} from '@/services/accountTransfer'
+
+const IMPORT_MODES: { id: ImportMode; label: string; description: string }[] = [
+    {
+        id: 'merge',
+        label: 'Merge',
+        description: 'Add the imported portfolios, favorites and chat next to yours',
+    },
+    {
+        id: 'replace',
+        label: 'Replace',
+        description: 'Swap all portfolios, favorites, chat and preferences for the imported ones',
+    },
+]
+
+export function AccountTransfer() {
+    const fileInput = useRef<HTMLInputElement>(null)
+    const [fileName, setFileName] = useState('')
+    const [pending, setPending] = useState<AccountImport | null>(null)
+    const [mode, setMode] = useState<ImportMode>('merge')
+    const [error, setError] = useState<string | null>(null)
+    const [imported, setImported] = useState(false)
+
+    const handleFile = async (file: File | undefined) => {
+        if (!file) return
+
+        setFileName(file.name)
+        setImported(false)
+        const result = await parseAccountExport(await file.text())
+        setPending(result.result ?? null)
+        setError(result.success ? null : result.error || 'The file could not be read')
+    }
+
+    const handleImport = () => {
+        if (!pending) return
+
+        const result = applyAccountImport(pending, mode)
+        if (result.success) {
+            setPending(null)
+            setImported(true)
+        } else {
+            setError(result.error || 'The import failed')
+        }
+    }
+
+    const handleCancel = () => {
+        setPending(null)
+        setError(null)
+        if (fileInput.current) fileInput.current.value = ''
+    }
+
+    return (
+        <div className="space-y-6">
+            <Card>
+                <h3 className="text-lg font-semibold mb-2">Export Account</h3>
+                <p className="text-sm text-text-muted mb-4">
+                    Download every portfolio with its orders, trades and journal, plus your favorites,
+                    AI chat and preferences, as one JSON file.
+                </p>
+                <Button onClick={downloadAccountExport} className="gap-2">
+                    <Download size={18} />
+                    Download export
+                </Button>
+            </Card>
+
+            <Card>
+                <h3 className="text-lg font-semibold mb-2">Import Account</h3>
+                <p className="text-sm text-text-muted mb-4">
+                    Load an export from another device, or a starting scenario handed out by an instructor.
+                </p>
+
+                <input
+                    ref={fileInput}
+                    type="file"
+                    accept="application/json,.json"
+                    className="hidden"
+                    onChange={(e) => handleFile(e.target.files?.[0])}
+                />
+                <Button variant="secondary" onClick={() => fileInput.current?.click()} className="gap-2">
+                    <Upload size={18} />
+                    Choose file
+                </Button>
+
+                {error && (
+                    <Alert variant="danger" className="mt-4">
+                        {error}
+                    </Alert>
+                )}
+
+                {imported && (
+                    <Alert variant="success" className="mt-4">
+                        Import complete.
+                    </Alert>
+                )}
+
+                {pending && (
+                    <div className="mt-6 space-y-4">
+                        <div className="flex items-center gap-2 text-sm">
+                            <FileJson size={16} className="text-accent-primary" />
+                            <span className="font-medium">{fileName}</span>
+                            <span className="text-text-muted">
+                                exported {pending.exportedAt.toLocaleString()}
+                            </span>
+                        </div>
+
+                        <div className="grid sm:grid-cols-2 gap-3">
+                            {IMPORT_MODES.map((option) => (
+                                <button
+                                    key={option.id}
+                                    onClick={() => setMode(option.id)}
+                                    className={clsx(
+                                        'p-4 rounded-card border-2 transition-all text-left',
+                                        mode === option.id
+                                            ? 'border-accent-primary bg-accent-primary/10'
+                                            : 'border-transparent bg-bg-tertiary hover:border-white/20'
+                                    )}
+                                >
+                                    <div className="flex items-center justify-between">
+                                        <span className="font-medium">{option.label}</span>
+                                        {mode === option.id && <Check size={16} className="text-accent-primary" />}
+                                    </div>
+                                    <p className="text-sm text-text-muted mt-1">{option.description}</p>
+                                </button>
+                            ))}
+                        </div>
+
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-text-muted border-b border-white/10">
+                                    <th className="py-2 pr-3 font-medium"></th>
+                                    <th className="py-2 px-3 font-medium text-right">Now</th>
+                                    <th className="py-2 pl-3 font-medium text-right">After import</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {getImportPreview(pending, mode).map((row) => (
+                                    <tr key={row.label} className="border-b border-white/5">
+                                        <td className="py-2 pr-3">{row.label}</td>
+                                        <td className="py-2 px-3 text-right font-mono">{row.current}</td>
+                                        <td className={clsx(
+                                            'py-2 pl-3 text-right font-mono',
+                                            row.after !== row.current && 'text-accent-primary'
+                                        )}>
+                                            {row.after}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+
+                        {pending.warnings.length > 0 && (
+                            <Alert variant="warning" title="Some data will be skipped">
+                                <ul className="list-disc pl-4">
+                                    {pending.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                                </ul>
+                            </Alert>
+                        )}
+
+                        <div className="flex gap-3 justify-end">
+                            <Button variant="ghost" onClick={handleCancel}>
+                                Cancel
+                            </Button>
+                            <Button variant={mode === 'replace' ? 'danger' : 'primary'} onClick={handleImport}>
+                                {mode === 'replace' ? 'Replace account' : 'Merge into account'}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </Card>
+        </div>
+    )
+}
@@ -0,0 +1,2 @@
+// Settings components barrel export
+export { AccountTransfer } from './AccountTransfer'
@@ -0,0 +1,96 @@
+import { useState, useMemo } from 'react'
+import { LineChart } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Card, Badge } from '@/components/ui'
+import { useWalletStore } from '@/stores/walletStore'
+import { CHANGE_PERIODS, ChangePeriod } from '@/lib/portfolioHistory'
+import { marketNow } from '@/lib/clock'
+
+interface EquityCurveProps {
+    prices: Record<string, number>
+}
+
+const WIDTH = 300
+const HEIGHT = 100
+
+export function EquityCurve({ prices }: EquityCurveProps) {
+    const [period, setPeriod] = useState<ChangePeriod>('7d')
+    const { valueSnapshots, getValueChange, getPortfolioValue } = useWalletStore()
+
+    const change = getValueChange(prices, period)
+    const currentValue = getPortfolioValue(prices)
+
+    // Snapshots inside the period plus the live value as the last point
+    const points = useMemo(() => {
+        const since = marketNow() - CHANGE_PERIODS[period]
+        const series = valueSnapshots
+            .filter(s => s.timestamp >= since)
+            .map(s => s.value)
+
+        return [...series, currentValue]
+    }, [valueSnapshots, period, currentValue])
+
+    const path = useMemo(() => {
+        if (points.length < 2) return ''
+
+        const min = Math.min(...points)
+        const max = Math.max(...points)
+        const range = max - min || 1
+
+        return points
+            .map((value, i) => {
+                const x = (i / (points.length - 1)) * WIDTH
+                const y = HEIGHT - ((value - min) / range) * HEIGHT
+                return `${i === 0 ? 'M' : 'L'} ${x.toFixed(1)} ${y.toFixed(1)}`
+            })
+            .join(' ')
+    }, [points])
+
+    const isUp = change.change >= 0
+
+    return (
+        <Card>
+            <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                    <LineChart size={20} className="text-accent-primary" />
+                    <h3 className="text-lg font-semibold">Equity Curve</h3>
+                    <Badge variant={isUp ? 'success' : 'danger'}>
+                        {isUp ? '+' : ''}{change.change.toFixed(2)} ({isUp ? '+' : ''}{change.changePercent.toFixed(2)}%)
+                    </Badge>
+                </div>
+                <div className="flex gap-1">
+                    {(Object.keys(CHANGE_PERIODS) as ChangePeriod[]).map((p) => (
+                        <button
+                            key={p}
+                            onClick={() => setPeriod(p)}
+                            className={clsx(
+                                'px-2 py-1 text-xs rounded-button transition-colors',
+                                period === p
+                                    ? 'bg-accent-primary/10 text-accent-primary'
+                                    : 'text-text-muted hover:text-text-primary'
+                            )}
+                        >
+                            {p}
+                        </button>
+                    ))}
+                </div>
+            </div>
+
+            {path ? (
+                <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-32">
+                    <path
+                        d={path}
+                        fill="none"
+                        strokeWidth={2}
+                        vectorEffect="non-scaling-stroke"
+                        className={isUp ? 'stroke-success' : 'stroke-danger'}
+                    />
+                </svg>
+            ) : (
+                <p className="text-sm text-text-muted text-center py-8">
+                    Not enough history yet. The curve fills in as prices update.
+                </p>
+            )}
+        </Card>
+    )
+}
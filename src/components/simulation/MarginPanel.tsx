@@ -0,0 +1,143 @@
+import { useState } from 'react'
+import { Layers, X } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Card, Button, Badge, Input } from '@/components/ui'
+import { useWalletStore, QUOTE_ASSET } from '@/stores/walletStore'
+import { MAX_LEVERAGE } from '@/lib/margin'
+
+interface MarginPanelProps {
+    symbol: string
+    shortName: string
+    prices: Record<string, number>
+}
+
+const LEVERAGE_OPTIONS = [2, 3, 5, MAX_LEVERAGE]
+
+export function MarginPanel({ symbol, shortName, prices }: MarginPanelProps) {
+    const [side, setSide] = useState<'long' | 'short'>('long')
+    const [margin, setMargin] = useState('')
+    const [leverage, setLeverage] = useState(3)
+    const [error, setError] = useState<string | null>(null)
+
+    const { openMarginPosition, closeMarginPosition, getMarginPositions, getBalance } = useWalletStore()
+
+    const price = prices[symbol] || 0
+    const positions = getMarginPositions(prices)
+    const marginNum = parseFloat(margin) || 0
+
+    const handleOpen = () => {
+        setError(null)
+        const result = openMarginPosition(symbol, side, marginNum, leverage, price)
+
+        if (result.success) {
+            setMargin('')
+        } else {
+            setError(result.error || 'Could not open position')
+        }
+    }
+
+    return (
+        <Card>
+            <div className="flex items-center gap-2 mb-4">
+                <Layers size={20} className="text-accent-secondary" />
+                <h3 className="text-lg font-semibold">Margin (Isolated)</h3>
+            </div>
+
+            <div className="space-y-3">
+                <div className="grid grid-cols-2 gap-2">
+                    {(['long', 'short'] as const).map((s) => (
+                        <button
+                            key={s}
+                            onClick={() => setSide(s)}
+                            className={clsx(
+                                'py-2 text-sm font-medium rounded-button transition-colors',
+                                side === s
+                                    ? s === 'long' ? 'bg-success/20 text-success' : 'bg-danger/20 text-danger'
+                                    : 'bg-bg-tertiary text-text-muted'
+                            )}
+                        >
+                            {s === 'long' ? 'Long' : 'Short'} {shortName}
+                        </button>
+                    ))}
+                </div>
+
+                <Input
+                    label="Margin (USD)"
+                    type="number"
+                    value={margin}
+                    onChange={(e) => setMargin(e.target.value)}
+                    placeholder="0.00"
+                    hint={`Available: $${getBalance(QUOTE_ASSET).free.toFixed(2)} · Size: $${(marginNum * leverage).toFixed(2)}`}
+                />
+
+                <div className="grid grid-cols-4 gap-2">
+                    {LEVERAGE_OPTIONS.map((value) => (
+                        <button
+                            key={value}
+                            onClick={() => setLeverage(value)}
+                            className={clsx(
+                                'py-1.5 text-xs font-medium rounded-button transition-colors',
+                                leverage === value
+                                    ? 'bg-accent-primary/10 text-accent-primary'
+                                    : 'bg-bg-tertiary hover:bg-accent-primary/10'
+                            )}
+                        >
+                            {value}x
+                        </button>
+                    ))}
+                </div>
+
+                {error && <p className="text-sm text-danger">{error}</p>}
+
+                <Button
+                    onClick={handleOpen}
+                    className="w-full"
+                    variant={side === 'short' ? 'danger' : 'primary'}
+                    disabled={marginNum <= 0 || !price}
+                >
+                    Open {leverage}x {side}
+                </Button>
+            </div>
+
+            {positions.length > 0 && (
+                <div className="mt-4 space-y-2">
+                    {positions.map((position) => {
+                        const baseAsset = position.symbol.replace('USDT', '')
+
+                        return (
+                            <div key={position.id} className="p-3 bg-bg-tertiary/50 rounded-lg text-sm">
+                                <div className="flex items-center justify-between">
+                                    <div className="flex items-center gap-2">
+                                        <Badge variant={position.side === 'long' ? 'success' : 'danger'}>
+                                            {position.side.toUpperCase()} {position.leverage}x
+                                        </Badge>
+                                        <span className="font-medium">{baseAsset}</span>
+                                    </div>
+                                    <button
+                                        onClick={() => closeMarginPosition(position.id!, prices[position.symbol] || position.avgEntryPrice)}
+                                        className="p-1 text-text-muted hover:text-danger transition-colors"
+                                        title="Close position"
+                                    >
+                                        <X size={14} />
+                                    </button>
+                                </div>
+                                <div className="mt-2 grid grid-cols-2 gap-1 text-xs text-text-muted">
+                                    <span>Entry ${position.avgEntryPrice.toFixed(2)}</span>
+                                    <span className="text-warning">Liq. ${position.liquidationPrice?.toFixed(2)}</span>
+                                    <span>Margin ${position.margin?.toFixed(2)}</span>
+                                    <span>Interest ${(position.accruedInterest ?? 0).toFixed(4)}</span>
+                                </div>
+                                <p className={clsx(
+                                    'mt-1 font-mono',
+                                    position.unrealizedPnl >= 0 ? 'text-success' : 'text-danger'
+                                )}>
+                                    {position.unrealizedPnl >= 0 ? '+' : ''}{position.unrealizedPnl.toFixed(2)} ({position.unrealizedPnlPercent.toFixed(1)}%)
+                                </p>
+                            </div>
+                        )
+                    })}
+                </div>
+            )}
+        </Card>
+    )
+}
@@ -0,0 +1,63 @@
+import { clsx } from 'clsx'
+import { Badge } from '@/components/ui'
+import { useWalletStore } from '@/stores/walletStore'
+
+interface PortfolioComparisonProps {
+    prices: Record<string, number>
+}
+
+export function PortfolioComparison({ prices }: PortfolioComparisonProps) {
+    const { getPortfolioComparison, activePortfolioId } = useWalletStore()
+    const rows = getPortfolioComparison(prices)
+
+    return (
+        <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+                <thead>
+                    <tr className="text-left text-xs text-text-muted border-b border-white/10">
+                        <th className="py-2 pr-3 font-medium">Portfolio</th>
+                        <th className="py-2 px-3 font-medium text-right">Value</th>
+                        <th className="py-2 px-3 font-medium text-right">P&L</th>
+                        <th className="py-2 px-3 font-medium text-right">Realized</th>
+                        <th className="py-2 px-3 font-medium text-right">Fees</th>
+                        <th className="py-2 px-3 font-medium text-right">24h</th>
+                        <th className="py-2 pl-3 font-medium text-right">Trades</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {rows.map(({ portfolio, metrics, trades, openPositions }) => (
+                        <tr key={portfolio.id} className="border-b border-white/5">
+                            <td className="py-2 pr-3">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium">{portfolio.name}</span>
+                                    {portfolio.id === activePortfolioId && <Badge variant="info">Active</Badge>}
+                                    {portfolio.archived && <Badge>Archived</Badge>}
+                                </div>
+                                <p className="text-xs text-text-muted">{openPositions} open positions</p>
+                            </td>
+                            <td className="py-2 px-3 text-right font-mono">${metrics.totalValue.toFixed(2)}</td>
+                            <td className={clsx(
+                                'py-2 px-3 text-right font-mono',
+                                metrics.profitLoss >= 0 ? 'text-success' : 'text-danger'
+                            )}>
+                                {metrics.profitLoss >= 0 ? '+' : ''}{metrics.profitLoss.toFixed(2)}
+                                <span className="block text-xs">
+                                    {metrics.profitLossPercent >= 0 ? '+' : ''}{metrics.profitLossPercent.toFixed(2)}%
+                                </span>
+                            </td>
+                            <td className="py-2 px-3 text-right font-mono">{metrics.realizedPnl.toFixed(2)}</td>
+                            <td className="py-2 px-3 text-right font-mono text-text-muted">-{metrics.totalFees.toFixed(2)}</td>
+                            <td className={clsx(
+                                'py-2 px-3 text-right font-mono',
+                                metrics.dayChange >= 0 ? 'text-success' : 'text-danger'
+                            )}>
+                                {metrics.dayChangePercent >= 0 ? '+' : ''}{metrics.dayChangePercent.toFixed(2)}%
+                            </td>
+                            <td className="py-2 pl-3 text-right font-mono">{trades}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </div>
+    )
+}
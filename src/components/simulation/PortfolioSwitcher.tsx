@@ -0,0 +1,193 @@
+import { useState } from 'react'
+import { Briefcase, Plus, Settings2, BarChart3, Copy, Pencil, Archive, ArchiveRestore, Check } from 'lucide-react'
+import { Card, Button, Badge, Input, Modal, Select } from '@/components/ui'
+import { useWalletStore } from '@/stores/walletStore'
+import { PortfolioComparison } from './PortfolioComparison'
+
+interface PortfolioSwitcherProps {
+    prices: Record<string, number>
+}
+
+export function PortfolioSwitcher({ prices }: PortfolioSwitcherProps) {
+    const [isManageOpen, setIsManageOpen] = useState(false)
+    const [isCompareOpen, setIsCompareOpen] = useState(false)
+    const [newName, setNewName] = useState('')
+    const [editingId, setEditingId] = useState<string | null>(null)
+    const [editName, setEditName] = useState('')
+    const [error, setError] = useState<string | null>(null)
+
+    const {
+        portfolios,
+        activePortfolioId,
+        createPortfolio,
+        clonePortfolio,
+        renamePortfolio,
+        archivePortfolio,
+        restorePortfolio,
+        switchPortfolio,
+    } = useWalletStore()
+
+    const activePortfolios = portfolios.filter(p => !p.archived)
+
+    // Surface the store's error message, if any
+    const run = (result: { success: boolean; error?: string }) => {
+        setError(result.success ? null : result.error || 'Something went wrong')
+        return result.success
+    }
+
+    const handleCreate = () => {
+        const result = createPortfolio(newName)
+        if (run(result)) {
+            setNewName('')
+            run(switchPortfolio(result.portfolioId!))
+        }
+    }
+
+    const handleClone = (portfolioId: string, name: string) => {
+        let copyName = `${name} (copy)`
+        for (let i = 2; portfolios.some(p => p.name.toLowerCase() === copyName.toLowerCase()); i++) {
+            copyName = `${name} (copy ${i})`
+        }
+        run(clonePortfolio(portfolioId, copyName))
+    }
+
+    const handleRename = (portfolioId: string) => {
+        if (run(renamePortfolio(portfolioId, editName))) {
+            setEditingId(null)
+        }
+    }
+
+    return (
+        <Card className="mb-6">
+            <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-2">
+                    <Briefcase size={20} className="text-accent-primary" />
+                    <span className="font-semibold">Portfolio</span>
+                </div>
+
+                <div className="min-w-[200px]">
+                    <Select
+                        options={activePortfolios.map(p => ({ value: p.id, label: p.name }))}
+                        value={activePortfolioId}
+                        onChange={(id) => run(switchPortfolio(id))}
+                    />
+                </div>
+
+                <div className="flex gap-2 ml-auto">
+                    <Button variant="ghost" size="sm" onClick={() => setIsCompareOpen(true)} className="gap-1">
+                        <BarChart3 size={14} />
+                        Compare
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setIsManageOpen(true)} className="gap-1">
+                        <Settings2 size={14} />
+                        Manage
+                    </Button>
+                </div>
+            </div>
+
+            <Modal
+                isOpen={isManageOpen}
+                onClose={() => { setIsManageOpen(false); setError(null); setEditingId(null) }}
+                title="Portfolios"
+                description="Each portfolio has its own balance, holdings, orders, journal and settings."
+                size="lg"
+            >
+                <div className="space-y-4">
+                    <div className="flex gap-2 items-start">
+                        <Input
+                            value={newName}
+                            onChange={(e) => setNewName(e.target.value)}
+                            placeholder="e.g. DCA test"
+                            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+                        />
+                        <Button onClick={handleCreate} disabled={!newName.trim()} className="gap-1 shrink-0">
+                            <Plus size={16} />
+                            New
+                        </Button>
+                    </div>
+
+                    {error && <p className="text-sm text-danger">{error}</p>}
+
+                    <div className="space-y-2 max-h-96 overflow-y-auto">
+                        {portfolios.map((portfolio) => {
+                            const isActive = portfolio.id === activePortfolioId
+
+                            return (
+                                <div key={portfolio.id} className="flex items-center justify-between gap-3 p-3 bg-bg-tertiary/50 rounded-lg">
+                                    {editingId === portfolio.id ? (
+                                        <div className="flex gap-2 flex-1">
+                                            <Input
+                                                value={editName}
+                                                onChange={(e) => setEditName(e.target.value)}
+                                                onKeyDown={(e) => e.key === 'Enter' && handleRename(portfolio.id)}
+                                                autoFocus
+                                            />
+                                            <Button size="sm" onClick={() => handleRename(portfolio.id)}>
+                                                <Check size={14} />
+                                            </Button>
+                                        </div>
+                                    ) : (
+                                        <div className="flex items-center gap-2 min-w-0">
+                                            <span className="font-medium truncate">{portfolio.name}</span>
+                                            {isActive && <Badge variant="info">Active</Badge>}
+                                            {portfolio.archived && <Badge>Archived</Badge>}
+                                        </div>
+                                    )}
+
+                                    <div className="flex items-center gap-1 shrink-0">
+                                        {!isActive && !portfolio.archived && (
+                                            <Button variant="ghost" size="sm" onClick={() => run(switchPortfolio(portfolio.id))}>
+                                                Switch
+                                            </Button>
+                                        )}
+                                        <button
+                                            onClick={() => { setEditingId(portfolio.id); setEditName(portfolio.name) }}
+                                            className="p-1.5 text-text-muted hover:text-text-primary transition-colors"
+                                            title="Rename"
+                                        >
+                                            <Pencil size={14} />
+                                        </button>
+                                        <button
+                                            onClick={() => handleClone(portfolio.id, portfolio.name)}
+                                            className="p-1.5 text-text-muted hover:text-text-primary transition-colors"
+                                            title="Clone"
+                                        >
+                                            <Copy size={14} />
+                                        </button>
+                                        {portfolio.archived ? (
+                                            <button
+                                                onClick={() => run(restorePortfolio(portfolio.id))}
+                                                className="p-1.5 text-text-muted hover:text-text-primary transition-colors"
+                                                title="Restore"
+                                            >
+                                                <ArchiveRestore size={14} />
+                                            </button>
+                                        ) : (
+                                            <button
+                                                onClick={() => run(archivePortfolio(portfolio.id))}
+                                                disabled={isActive}
+                                                className="p-1.5 text-text-muted hover:text-danger transition-colors disabled:opacity-30 disabled:hover:text-text-muted"
+                                                title={isActive ? 'Switch away before archiving' : 'Archive'}
+                                            >
+                                                <Archive size={14} />
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            )
+                        })}
+                    </div>
+                </div>
+            </Modal>
+
+            <Modal
+                isOpen={isCompareOpen}
+                onClose={() => setIsCompareOpen(false)}
+                title="Compare Portfolios"
+                size="xl"
+            >
+                <PortfolioComparison prices={prices} />
+            </Modal>
+        </Card>
+    )
+}
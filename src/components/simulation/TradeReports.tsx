@@ -0,0 +1,196 @@
+import { useState, useEffect, useMemo } from 'react'
+import { FileSpreadsheet, Loader2 } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Button, Select } from '@/components/ui'
+import { useWalletStore, Transaction } from '@/stores/walletStore'
+import { getTransactionHistory } from '@/services/ledger'
+import { COST_BASIS_METHODS } from '@/lib/lotAccounting'
+import { downloadFile } from '@/lib/utils'
+import {
+    RealizedGainsTotals,
+    buildRealizedGainsReport,
+    realizedGainsToCsv,
+    transactionsToCsv,
+} from '@/lib/tradeReports'
+import type { CostBasisMethod } from '@/entities'
+
+const PREVIEW_ROWS = 50
+
+function formatDate(date: Date | undefined): string {
+    return date ? date.toLocaleDateString() : 'Unknown'
+}
+
+function formatUsd(value: number): string {
+    return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
+}
+
+export function TradeReports() {
+    const { activePortfolioId, transactions: recentTransactions, costBasisMethod, getActivePortfolio } = useWalletStore()
+
+    const [history, setHistory] = useState<Transaction[] | null>(null)
+    const [method, setMethod] = useState<CostBasisMethod>(costBasisMethod)
+    const [year, setYear] = useState('')
+
+    // The ledger has the full history; the store only the most recent part
+    useEffect(() => {
+        let cancelled = false
+
+        getTransactionHistory(activePortfolioId)
+            .catch((error) => {
+                console.error('Error loading transaction history:', error)
+                return []
+            })
+            .then((ledger) => {
+                if (!cancelled) setHistory(ledger.length > 0 ? ledger : [...recentTransactions].reverse())
+            })
+
+        return () => { cancelled = true }
+    }, [activePortfolioId, recentTransactions])
+
+    const years = useMemo(() => {
+        const sellYears = (history ?? []).filter(t => t.type === 'sell').map(t => t.timestamp.getFullYear())
+        return [...new Set(sellYears)].sort((a, b) => b - a)
+    }, [history])
+
+    const report = useMemo(
+        () => buildRealizedGainsReport(history ?? [], method, year ? parseInt(year, 10) : undefined),
+        [history, method, year]
+    )
+
+    if (!history) {
+        return (
+            <div className="flex justify-center py-8">
+                <Loader2 size={20} className="animate-spin text-text-muted" />
+            </div>
+        )
+    }
+
+    const fileName = (kind: string) => {
+        const portfolio = getActivePortfolio().name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+        return `quantix-${portfolio}-${kind}${year ? `-${year}` : ''}.csv`
+    }
+
+    const totals: { label: string; value: RealizedGainsTotals }[] = [
+        { label: 'Short-term', value: report.shortTerm },
+        { label: 'Long-term', value: report.longTerm },
+        { label: 'Total', value: report.total },
+    ]
+
+    return (
+        <div className="space-y-6">
+            <div className="flex items-center justify-between gap-4 p-4 bg-bg-tertiary/50 rounded-lg">
+                <div>
+                    <p className="font-medium">Transactions</p>
+                    <p className="text-sm text-text-muted">{history.length} entries, for spreadsheets</p>
+                </div>
+                <Button
+                    variant="secondary"
+                    size="sm"
+                    className="gap-2"
+                    onClick={() => downloadFile(fileName('transactions'), transactionsToCsv(history), 'text/csv')}
+                >
+                    <FileSpreadsheet size={16} />
+                    CSV
+                </Button>
+            </div>
+
+            <div>
+                <div className="flex items-center justify-between mb-3">
+                    <div>
+                        <p className="font-medium">Realized gains</p>
+                        <p className="text-sm text-text-muted">Form 8949 layout: one row per lot sold</p>
+                    </div>
+                    <Button
+                        variant="secondary"
+                        size="sm"
+                        className="gap-2"
+                        onClick={() => downloadFile(fileName(`gains-${method}`), realizedGainsToCsv(report), 'text/csv')}
+                        disabled={report.rows.length === 0}
+                    >
+                        <FileSpreadsheet size={16} />
+                        CSV
+                    </Button>
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-3 mb-4">
+                    <Select
+                        label="Lot method"
+                        options={COST_BASIS_METHODS}
+                        value={method}
+                        onChange={(value) => setMethod(value as CostBasisMethod)}
+                    />
+                    <Select
+                        label="Tax year"
+                        options={[
+                            { value: '', label: 'All years' },
+                            ...years.map(y => ({ value: String(y), label: String(y) })),
+                        ]}
+                        value={year}
+                        onChange={setYear}
+                    />
+                </div>
+
+                <div className="grid grid-cols-3 gap-3 mb-4">
+                    {totals.map(({ label, value }) => (
+                        <div key={label} className="p-3 bg-bg-tertiary/50 rounded-lg">
+                            <p className="text-xs text-text-muted">{label}</p>
+                            <p className={clsx(
+                                'font-mono font-semibold',
+                                value.gain >= 0 ? 'text-success' : 'text-danger'
+                            )}>
+                                {formatUsd(value.gain)}
+                            </p>
+                            <p className="text-xs text-text-muted font-mono">
+                                {formatUsd(value.proceeds)} − {formatUsd(value.costBasis)}
+                            </p>
+                        </div>
+                    ))}
+                </div>
+
+                {report.rows.length === 0 ? (
+                    <p className="text-sm text-text-muted text-center py-8">No sells in this period</p>
+                ) : (
+                    <div className="overflow-x-auto max-h-80">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-xs text-text-muted border-b border-white/10">
+                                    <th className="py-2 pr-3 font-medium">Description</th>
+                                    <th className="py-2 px-3 font-medium">Acquired</th>
+                                    <th className="py-2 px-3 font-medium">Sold</th>
+                                    <th className="py-2 px-3 font-medium text-right">Proceeds</th>
+                                    <th className="py-2 px-3 font-medium text-right">Cost basis</th>
+                                    <th className="py-2 pl-3 font-medium text-right">Gain</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.rows.slice(-PREVIEW_ROWS).reverse().map((row, i) => (
+                                    <tr key={i} className="border-b border-white/5">
+                                        <td className="py-2 pr-3 font-mono">
+                                            {row.description}
+                                            {row.term === 'long' && <span className="ml-2 text-xs text-text-muted">long</span>}
+                                        </td>
+                                        <td className="py-2 px-3">{formatDate(row.acquiredAt)}</td>
+                                        <td className="py-2 px-3">{formatDate(row.disposedAt)}</td>
+                                        <td className="py-2 px-3 text-right font-mono">{formatUsd(row.proceeds)}</td>
+                                        <td className="py-2 px-3 text-right font-mono">{formatUsd(row.costBasis)}</td>
+                                        <td className={clsx(
+                                            'py-2 pl-3 text-right font-mono',
+                                            row.gain >= 0 ? 'text-success' : 'text-danger'
+                                        )}>
+                                            {formatUsd(row.gain)}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                        {report.rows.length > PREVIEW_ROWS && (
+                            <p className="text-xs text-text-muted text-center mt-2">
+                                Showing the latest {PREVIEW_ROWS} of {report.rows.length} rows; the CSV has all of them
+                            </p>
+                        )}
+                    </div>
+                )}
+            </div>
+        </div>
+    )
+}
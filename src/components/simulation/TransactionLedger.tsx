@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react'
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Badge, Button, Input, Select } from '@/components/ui'
+import { useWalletStore, Transaction } from '@/stores/walletStore'
+import { useAssetStore } from '@/stores/assetStore'
+import {
+    LedgerOrderEvent,
+    LedgerPage,
+    LedgerTransaction,
+    isLedgerAvailable,
+    queryOrderEvents,
+    queryTransactions,
+} from '@/services/ledger'
+
+type LedgerView = 'transactions' | 'orders'
+
+const PAGE_SIZE = 20
+
+const TRANSACTION_TYPES: { value: Transaction['type']; label: string }[] = [
+    { value: 'buy', label: 'Buy' },
+    { value: 'sell', label: 'Sell' },
+    { value: 'deposit', label: 'Deposit' },
+    { value: 'bonus', label: 'Bonus' },
+    { value: 'margin-open', label: 'Margin open' },
+    { value: 'margin-close', label: 'Margin close' },
+    { value: 'liquidation', label: 'Liquidation' },
+]
+
+const ORDER_STATUSES = ['open', 'partially_filled', 'filled', 'cancelled', 'expired', 'rejected']
+
+function formatDateTime(date: Date): string {
+    return new Date(date).toLocaleString(undefined, {
+        year: 'numeric',
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    })
+}
+
+export function TransactionLedger() {
+    const { activePortfolioId } = useWalletStore()
+    const { getWatchlistAssets } = useAssetStore()
+
+    const [view, setView] = useState<LedgerView>('transactions')
+    const [symbol, setSymbol] = useState('')
+    const [type, setType] = useState('')
+    const [from, setFrom] = useState('')
+    const [to, setTo] = useState('')
+    const [page, setPage] = useState(0)
+    const [isLoading, setIsLoading] = useState(false)
+    const [transactions, setTransactions] = useState<LedgerPage<LedgerTransaction> | null>(null)
+    const [orderEvents, setOrderEvents] = useState<LedgerPage<LedgerOrderEvent> | null>(null)
+
+    // Any filter change starts again from the first page
+    useEffect(() => {
+        setPage(0)
+    }, [view, symbol, type, from, to, activePortfolioId])
+
+    useEffect(() => {
+        let cancelled = false
+
+        const load = async () => {
+            setIsLoading(true)
+            const query = {
+                portfolioId: activePortfolioId,
+                symbol: symbol || undefined,
+                types: type ? [type] : undefined,
+                from: from ? new Date(`${from}T00:00:00`) : undefined,
+                to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+                page,
+                pageSize: PAGE_SIZE,
+            }
+
+            try {
+                if (view === 'transactions') {
+                    const result = await queryTransactions(query)
+                    if (!cancelled) setTransactions(result)
+                } else {
+                    const result = await queryOrderEvents(query)
+                    if (!cancelled) setOrderEvents(result)
+                }
+            } catch (error) {
+                console.error('Error loading ledger:', error)
+            } finally {
+                if (!cancelled) setIsLoading(false)
+            }
+        }
+
+        load()
+        return () => { cancelled = true }
+    }, [view, symbol, type, from, to, page, activePortfolioId])
+
+    if (!isLedgerAvailable()) {
+        return (
+            <p className="text-sm text-text-muted text-center py-8">
+                Full history needs IndexedDB, which this browser does not provide.
+            </p>
+        )
+    }
+
+    const current = view === 'transactions' ? transactions : orderEvents
+    const typeOptions = view === 'transactions'
+        ? TRANSACTION_TYPES
+        : ORDER_STATUSES.map(status => ({ value: status, label: status.replace('_', ' ') }))
+
+    return (
+        <div className="space-y-4">
+            <div className="flex gap-2">
+                {(['transactions', 'orders'] as const).map((v) => (
+                    <button
+                        key={v}
+                        onClick={() => { setView(v); setType('') }}
+                        className={clsx(
+                            'px-3 py-1.5 text-sm rounded-button transition-colors',
+                            view === v
+                                ? 'bg-accent-primary/10 text-accent-primary'
+                                : 'text-text-muted hover:text-text-primary'
+                        )}
+                    >
+                        {v === 'transactions' ? 'Transactions' : 'Order changes'}
+                    </button>
+                ))}
+            </div>
+
+            <div className="grid sm:grid-cols-4 gap-3">
+                <Select
+                    label="Symbol"
+                    options={[
+                        { value: '', label: 'All symbols' },
+                        ...getWatchlistAssets().map(a => ({ value: a.symbol, label: a.shortName })),
+                    ]}
+                    value={symbol}
+                    onChange={setSymbol}
+                />
+                <Select
+                    label={view === 'transactions' ? 'Type' : 'Status'}
+                    options={[{ value: '', label: 'All' }, ...typeOptions]}
+                    value={type}
+                    onChange={setType}
+                />
+                <Input label="From" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+                <Input label="To" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+            </div>
+
+            <div className="space-y-2 min-h-[200px]">
+                {isLoading && !current ? (
+                    <div className="flex justify-center py-8">
+                        <Loader2 size={20} className="animate-spin text-text-muted" />
+                    </div>
+                ) : current?.items.length === 0 ? (
+                    <p className="text-sm text-text-muted text-center py-8">No entries match these filters</p>
+                ) : view === 'transactions' ? (
+                    transactions?.items.map((tx) => (
+                        <div key={tx.id} className="flex items-center justify-between p-3 bg-bg-tertiary/50 rounded-lg text-sm">
+                            <div>
+                                <p className="font-medium">
+                                    {TRANSACTION_TYPES.find(t => t.value === tx.type)?.label} {tx.symbol !== 'USD' ? tx.symbol.replace('USDT', '') : ''}
+                                </p>
+                                <p className="text-xs text-text-muted">{formatDateTime(tx.timestamp)}</p>
+                            </div>
+                            <div className="text-right font-mono">
+                                {tx.symbol !== 'USD' && <p>{tx.amount.toFixed(6)} @ ${tx.price.toFixed(2)}</p>}
+                                <p className="text-xs text-text-muted">
+                                    ${tx.total.toFixed(2)}{tx.fee > 0 && ` · fee $${tx.fee.toFixed(2)}`}
+                                </p>
+                            </div>
+                        </div>
+                    ))
+                ) : (
+                    orderEvents?.items.map((event) => (
+                        <div key={event.id} className="flex items-center justify-between p-3 bg-bg-tertiary/50 rounded-lg text-sm">
+                            <div>
+                                <p className="font-medium">
+                                    {event.order.side.toUpperCase()} {event.order.type} {event.symbol.replace('USDT', '')}
+                                </p>
+                                <p className="text-xs text-text-muted">
+                                    {formatDateTime(event.timestamp)}{event.order.statusReason && ` · ${event.order.statusReason}`}
+                                </p>
+                            </div>
+                            <div className="text-right">
+                                <Badge>{event.status.replace('_', ' ')}</Badge>
+                                <p className="text-xs text-text-muted font-mono mt-1">
+                                    {event.order.executedQty.toFixed(6)} / {event.order.quantity.toFixed(6)}
+                                </p>
+                            </div>
+                        </div>
+                    ))
+                )}
+            </div>
+
+            {current && current.total > 0 && (
+                <div className="flex items-center justify-between text-sm text-text-muted">
+                    <span>
+                        {current.page * current.pageSize + 1}–{current.page * current.pageSize + current.items.length} of {current.total}
+                    </span>
+                    <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setPage(p => p - 1)} disabled={page === 0 || isLoading}>
+                            <ChevronLeft size={16} />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setPage(p => p + 1)} disabled={!current.hasMore || isLoading}>
+                            <ChevronRight size={16} />
+                        </Button>
+                    </div>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,7 @@
+// Simulation components barrel export
+export { MarginPanel } from './MarginPanel'
+export { EquityCurve } from './EquityCurve'
+export { PortfolioSwitcher } from './PortfolioSwitcher'
+export { PortfolioComparison } from './PortfolioComparison'
+export { TransactionLedger } from './TransactionLedger'
+export { TradeReports } from './TradeReports'
@@ -0,0 +1,69 @@
+import { useState } from 'react'
+import { Check, Plus, Search } from 'lucide-react'
+import { useAssetStore } from '@/stores/assetStore'
+
+interface AssetSearchProps {
+    onSelect: (symbol: string) => void
+}
+
+/**
+ * Search every USDT pair on the exchange; picking one adds it to the watchlist
+ */
+export function AssetSearch({ onSelect }: AssetSearchProps) {
+    const { watchlist, source, search, addToWatchlist } = useAssetStore()
+    const [query, setQuery] = useState('')
+    const [error, setError] = useState<string | null>(null)
+
+    const results = search(query)
+
+    const handleSelect = (symbol: string) => {
+        const result = addToWatchlist(symbol)
+        if (!result.success) {
+            setError(result.error ?? 'Could not add the pair')
+            return
+        }
+
+        setQuery('')
+        setError(null)
+        onSelect(symbol)
+    }
+
+    return (
+        <div className="px-3 pb-2 mb-2 border-b border-white/10">
+            <div className="relative">
+                <Search size={14} className="absolute left-2.5 top-1/2 -translate-y-1/2 text-text-muted" />
+                <input
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                    onClick={(e) => e.stopPropagation()}
+                    placeholder={source === 'exchange' ? 'Search all USDT pairs' : 'Search popular pairs'}
+                    className="w-full pl-8 pr-3 py-1.5 text-sm bg-bg-tertiary rounded-button focus:outline-none focus:ring-1 focus:ring-accent-primary"
+                />
+            </div>
+
+            {query.trim() && (
+                <div className="mt-2 max-h-48 overflow-y-auto">
+                    {results.length === 0 ? (
+                        <p className="text-xs text-text-muted py-2 text-center">No matching pairs</p>
+                    ) : results.map((asset) => (
+                        <button
+                            key={asset.symbol}
+                            onClick={() => handleSelect(asset.symbol)}
+                            className="w-full flex items-center gap-2 px-2 py-1.5 text-sm text-left rounded hover:bg-bg-tertiary transition-colors"
+                        >
+                            <span style={{ color: asset.color }}>{asset.icon}</span>
+                            <span className="font-medium">{asset.shortName}</span>
+                            <span className="text-xs text-text-muted truncate">{asset.name}</span>
+                            {watchlist.includes(asset.symbol) ? (
+                                <Check size={14} className="ml-auto text-success shrink-0" />
+                            ) : (
+                                <Plus size={14} className="ml-auto text-text-muted shrink-0" />
+                            )}
+                        </button>
+                    ))}
+                </div>
+            )}
+            {error && <p className="text-xs text-danger mt-1">{error}</p>}
+        </div>
+    )
+}
@@ -0,0 +1,73 @@
+import { useMemo } from 'react'
+import { Layers } from 'lucide-react'
+import { Card, Spinner } from '@/components/ui'
+import type { Asset } from '@/entities'
+import type { BookLevel, OrderBookView } from '@/lib/orderBook'
+
+interface DepthChartProps {
+    book: OrderBookView | null
+    asset: Asset
+}
+
+const WIDTH = 600
+const HEIGHT = 160
+
+/**
+ * Cumulative bid and ask depth as step areas around the mid price
+ */
+export function DepthChart({ book, asset }: DepthChartProps) {
+    const chart = useMemo(() => {
+        if (!book || book.bids.length === 0 || book.asks.length === 0) return null
+
+        const low = book.bids[book.bids.length - 1].price
+        const high = book.asks[book.asks.length - 1].price
+        const maxTotal = Math.max(book.bids[book.bids.length - 1].total, book.asks[book.asks.length - 1].total) || 1
+        const x = (price: number) => ((price - low) / (high - low || 1)) * WIDTH
+        const y = (total: number) => HEIGHT - (total / maxTotal) * HEIGHT
+
+        // Walk outwards from the best price: up to each level's total, then across to the next level
+        const area = (levels: BookLevel[]) => {
+            const steps = levels.map((level, i) => {
+                const next = levels[i + 1]?.price ?? level.price
+                return `L ${x(level.price).toFixed(1)} ${y(level.total).toFixed(1)} L ${x(next).toFixed(1)} ${y(level.total).toFixed(1)}`
+            })
+            const start = x(levels[0].price).toFixed(1)
+            const end = x(levels[levels.length - 1].price).toFixed(1)
+            return `M ${start} ${HEIGHT} ${steps.join(' ')} L ${end} ${HEIGHT} Z`
+        }
+
+        return { bids: area(book.bids), asks: area(book.asks), low, high, maxTotal }
+    }, [book])
+
+    return (
+        <Card>
+            <div className="flex items-center gap-2 mb-3">
+                <Layers size={18} className="text-accent-secondary" />
+                <h3 className="font-semibold">Market Depth</h3>
+                {chart && (
+                    <span className="ml-auto text-xs text-text-muted font-mono">
+                        {chart.maxTotal.toFixed(2)} {asset.shortName}
+                    </span>
+                )}
+            </div>
+
+            {!chart ? (
+                <div className="flex justify-center py-12">
+                    <Spinner />
+                </div>
+            ) : (
+                <div>
+                    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} preserveAspectRatio="none" className="w-full h-40">
+                        <path d={chart.bids} strokeWidth={1.5} vectorEffect="non-scaling-stroke" className="fill-success/20 stroke-success" />
+                        <path d={chart.asks} strokeWidth={1.5} vectorEffect="non-scaling-stroke" className="fill-danger/20 stroke-danger" />
+                    </svg>
+                    <div className="flex justify-between text-xs text-text-muted font-mono mt-1">
+                        <span>{chart.low.toFixed(asset.decimals)}</span>
+                        <span>{book?.midPrice?.toFixed(asset.decimals)}</span>
+                        <span>{chart.high.toFixed(asset.decimals)}</span>
+                    </div>
+                </div>
+            )}
+        </Card>
+    )
+}
@@ -0,0 +1,76 @@
+import { clsx } from 'clsx'
+import { BookOpen } from 'lucide-react'
+import { Card, Spinner } from '@/components/ui'
+import { getStepDecimals } from '@/lib/assetRegistry'
+import type { Asset } from '@/entities'
+import type { BookLevel, OrderBookView } from '@/lib/orderBook'
+
+interface OrderBookLadderProps {
+    book: OrderBookView | null
+    asset: Asset
+    levels?: number
+}
+
+/**
+ * Price ladder: asks above the spread, bids below, with cumulative depth bars
+ */
+export function OrderBookLadder({ book, asset, levels = 12 }: OrderBookLadderProps) {
+    const priceDecimals = asset.decimals
+    const quantityDecimals = getStepDecimals(asset.stepSize)
+
+    const asks = book ? book.asks.slice(0, levels).reverse() : []
+    const bids = book ? book.bids.slice(0, levels) : []
+    const maxTotal = Math.max(asks[0]?.total ?? 0, bids[bids.length - 1]?.total ?? 0) || 1
+
+    const row = (level: BookLevel, side: 'bid' | 'ask') => (
+        <div key={`${side}-${level.price}`} className="relative grid grid-cols-3 px-2 py-0.5 text-xs font-mono">
+            <div
+                className={clsx('absolute inset-y-0 right-0', side === 'bid' ? 'bg-success/10' : 'bg-danger/10')}
+                style={{ width: `${(level.total / maxTotal) * 100}%` }}
+            />
+            <span className={clsx('relative', side === 'bid' ? 'text-success' : 'text-danger')}>
+                {level.price.toFixed(priceDecimals)}
+            </span>
+            <span className="relative text-right">{level.quantity.toFixed(quantityDecimals)}</span>
+            <span className="relative text-right text-text-muted">{level.total.toFixed(quantityDecimals)}</span>
+        </div>
+    )
+
+    return (
+        <Card>
+            <div className="flex items-center gap-2 mb-3">
+                <BookOpen size={18} className="text-accent-primary" />
+                <h3 className="font-semibold">Order Book</h3>
+                <span className="ml-auto text-xs text-text-muted">{asset.shortName}/{asset.quoteAsset}</span>
+            </div>
+
+            {!book ? (
+                <div className="flex justify-center py-12">
+                    <Spinner />
+                </div>
+            ) : (
+                <div>
+                    <div className="grid grid-cols-3 px-2 pb-1 text-xs text-text-muted">
+                        <span>Price</span>
+                        <span className="text-right">Amount</span>
+                        <span className="text-right">Total</span>
+                    </div>
+
+                    {asks.map(level => row(level, 'ask'))}
+
+                    <div className="flex justify-between px-2 py-1.5 my-1 bg-bg-tertiary rounded text-xs">
+                        <span className="font-mono font-semibold">
+                            {book.midPrice !== null ? book.midPrice.toFixed(priceDecimals) : '—'}
+                        </span>
+                        <span className="text-text-muted">
+                            Spread {book.spread !== null ? book.spread.toFixed(priceDecimals) : '—'}
+                            {book.spreadPercent !== null && ` (${book.spreadPercent.toFixed(3)}%)`}
+                        </span>
+                    </div>
+
+                    {bids.map(level => row(level, 'bid'))}
+                </div>
+            )}
+        </Card>
+    )
+}
@@ -0,0 +1,145 @@
+import { useState } from 'react'
+import { clsx } from 'clsx'
+import { History, Pause, Play, Save, SkipForward } from 'lucide-react'
+import { Card, Button, Alert, Input, Spinner } from '@/components/ui'
+import { REPLAY_SPEEDS } from '@/services/replayMarketData'
+import { useReplayStore } from '@/stores/replayStore'
+import { useWalletStore } from '@/stores/walletStore'
+
+const formatTime = (time: number) =>
+    new Date(time).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'medium' })
+
+/**
+ * Play, pause, step and speed of the running replay; renders nothing on live data.
+ * The replay trades on a throwaway portfolio, which can be kept as a real one.
+ */
+export function ReplayControls() {
+    const { active, time, startTime, endTime, speed, playing, loading, error, play, pause, setSpeed, step } = useReplayStore()
+    const { trades, saveReplayPortfolio } = useWalletStore()
+    const [saveName, setSaveName] = useState<string | null>(null)
+    const [saveResult, setSaveResult] = useState<{ success: boolean; message: string } | null>(null)
+
+    if (!active) return null
+
+    const handleSave = () => {
+        const name = saveName ?? ''
+        const result = saveReplayPortfolio(name)
+        setSaveResult(result.success
+            ? { success: true, message: `Saved as the portfolio ${name.trim()}` }
+            : { success: false, message: result.error || 'The replay could not be saved' })
+        if (result.success) setSaveName(null)
+    }
+
+    const progress = endTime > startTime ? ((time - startTime) / (endTime - startTime)) * 100 : 0
+    const finished = !loading && time >= endTime
+
+    return (
+        <Card>
+            <div className="flex flex-wrap items-center gap-3">
+                <div className="flex items-center gap-2">
+                    <History size={18} className="text-accent-primary" />
+                    <h3 className="font-semibold">Replay</h3>
+                </div>
+
+                {loading ? (
+                    <div className="flex items-center gap-2 text-sm text-text-muted">
+                        <Spinner size="sm" />
+                        Loading market history...
+                    </div>
+                ) : !error && (
+                    <>
+                        <span className="font-mono text-sm">{formatTime(time)}</span>
+
+                        <div className="flex items-center gap-2 ml-auto">
+                            <Button
+                                size="sm"
+                                variant="secondary"
+                                onClick={playing ? pause : play}
+                                disabled={finished}
+                                title={playing ? 'Pause' : 'Play'}
+                            >
+                                {playing ? <Pause size={16} /> : <Play size={16} />}
+                            </Button>
+                            <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => step()}
+                                disabled={playing || finished}
+                                title="Step one minute"
+                            >
+                                <SkipForward size={16} />
+                            </Button>
+
+                            <div className="flex rounded-button bg-bg-tertiary p-0.5">
+                                {REPLAY_SPEEDS.map((option) => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setSpeed(option)}
+                                        className={clsx(
+                                            'px-2 py-1 text-xs font-medium rounded-button transition-colors',
+                                            speed === option ? 'bg-accent-primary text-white' : 'text-text-muted hover:text-text-primary'
+                                        )}
+                                    >
+                                        {option}x
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+
+            {error ? (
+                <Alert variant="danger" className="mt-3">
+                    <p className="text-sm">Could not load the replay: {error}</p>
+                </Alert>
+            ) : !loading && (
+                <div className="mt-3">
+                    <div className="h-1.5 rounded-full bg-bg-tertiary overflow-hidden">
+                        <div className="h-full bg-accent-primary" style={{ width: `${Math.min(progress, 100)}%` }} />
+                    </div>
+                    <div className="flex justify-between mt-1 text-xs text-text-muted">
+                        <span>{formatTime(startTime)}</span>
+                        <span>{finished ? 'Finished' : formatTime(endTime)}</span>
+                    </div>
+
+                    {trades.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-3 mt-3">
+                            <p className="text-sm text-text-muted flex-1 min-w-[200px]">
+                                Trades in a replay are discarded when it ends, unless you save them as a portfolio.
+                            </p>
+                            {saveName === null ? (
+                                <Button
+                                    size="sm"
+                                    variant="secondary"
+                                    onClick={() => setSaveName(`Replay ${new Date(startTime).toLocaleDateString()}`)}
+                                    className="gap-2"
+                                >
+                                    <Save size={14} />
+                                    Save as portfolio
+                                </Button>
+                            ) : (
+                                <div className="flex gap-2">
+                                    <Input
+                                        value={saveName}
+                                        onChange={(e) => setSaveName(e.target.value)}
+                                        onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+                                        placeholder="Portfolio name"
+                                    />
+                                    <Button size="sm" onClick={handleSave} disabled={!saveName.trim()} className="shrink-0">
+                                        Save
+                                    </Button>
+                                </div>
+                            )}
+                        </div>
+                    )}
+                    {saveResult && (
+                        <p className={clsx('text-sm mt-2', saveResult.success ? 'text-success' : 'text-danger')}>
+                            {saveResult.message}
+                        </p>
+                    )}
+                </div>
+            )}
+        </Card>
+    )
+}
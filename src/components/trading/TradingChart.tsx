@@ -1,7 +1,12 @@
 import { useEffect, useRef, useState, useCallback } from 'react'
 import { createChart, IChartApi, ISeriesApi, CandlestickData, Time, CrosshairMode } from 'lightweight-charts'
-import { binanceWS, fetchHistoricalKlines, KlineData } from '@/services/binanceWebSocket'
-import { useTradingStore, CRYPTO_ASSETS, TIME_INTERVALS, TimeInterval } from '@/stores/tradingStore'
+import { marketData, selectMarketDataKey, type KlineData } from '@/services/marketData'
+import { useTradingStore, TIME_INTERVALS, TimeInterval } from '@/stores/tradingStore'
+import { useAssetStore } from '@/stores/assetStore'
+import { useMarketDataStore } from '@/stores/marketDataStore'
+import { useReplayStore } from '@/stores/replayStore'
+import { useChartCaptureStore } from '@/stores/chartCaptureStore'
+import { marketDate, marketNow } from '@/lib/clock'
 import { Card, Badge, Spinner } from '@/components/ui'
 import {
     TrendingUp,
@@ -13,10 +18,36 @@ import {
     ChevronDown,
     BarChart3,
     Activity,
-    Zap
+    Zap,
+    Camera,
+    Check
 } from 'lucide-react'
 import { clsx } from 'clsx'
 import { motion, AnimatePresence } from 'framer-motion'
+import { AssetSearch } from './AssetSearch'
+
+// Captures end up in journal entries, so they are scaled down first
+const CAPTURE_MAX_WIDTH = 640
+const CAPTURE_QUALITY = 0.7
+
+/**
+ * A chart screenshot as a JPEG data URL no wider than CAPTURE_MAX_WIDTH,
+ * on the page background where the chart is transparent
+ */
+function toCaptureImage(screenshot: HTMLCanvasElement): string {
+    const scale = Math.min(1, CAPTURE_MAX_WIDTH / screenshot.width)
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(screenshot.width * scale)
+    canvas.height = Math.round(screenshot.height * scale)
+
+    const context = canvas.getContext('2d')
+    if (context) {
+        context.fillStyle = getComputedStyle(document.documentElement).getPropertyValue('--bg-primary').trim() || '#000'
+        context.fillRect(0, 0, canvas.width, canvas.height)
+        context.drawImage(screenshot, 0, 0, canvas.width, canvas.height)
+    }
+    return canvas.toDataURL('image/jpeg', CAPTURE_QUALITY)
+}
 
 interface TooltipData {
     time: string
@@ -50,13 +81,18 @@ export const TradingChart = () => {
         setConnectionStatus
     } = useTradingStore()
 
+    const replaying = useReplayStore((state) => state.active)
     const [isLoading, setIsLoading] = useState(true)
     const [error, setError] = useState<string | null>(null)
     const [tooltip, setTooltip] = useState<TooltipData | null>(null)
     const [cryptoDropdownOpen, setCryptoDropdownOpen] = useState(false)
     const [isFullscreen, setIsFullscreen] = useState(false)
+    const [captured, setCaptured] = useState(false)
+    const captureChart = useChartCaptureStore((state) => state.capture)
 
-    const currentAsset = CRYPTO_ASSETS.find(a => a.symbol === selectedSymbol)
+    const { getAsset, getWatchlistAssets } = useAssetStore()
+    const marketDataKey = useMarketDataStore(selectMarketDataKey)
+    const currentAsset = getAsset(selectedSymbol)
     const currentTicker = tickerData[selectedSymbol]
 
     // Initialize chart
@@ -172,9 +208,17 @@ export const TradingChart = () => {
         }
     }, [])
 
+    // Price axis follows the pair's tick size
+    useEffect(() => {
+        candleSeriesRef.current?.applyOptions({
+            priceFormat: { type: 'price', precision: currentAsset.decimals, minMove: currentAsset.tickSize },
+        })
+    }, [currentAsset.decimals, currentAsset.tickSize])
+
     // Load data when symbol or interval changes
     useEffect(() => {
         let unsubscribe: (() => void) | null = null
+        let cancelled = false
 
         const loadData = async () => {
             setIsLoading(true)
@@ -182,12 +226,15 @@ export const TradingChart = () => {
 
             try {
                 // Fetch historical data
-                const historicalData = await fetchHistoricalKlines(
+                const historicalData = await marketData.fetchHistoricalKlines(
                     selectedSymbol,
                     selectedInterval,
                     500
                 )
 
+                // Switched away while loading: subscribing now would leak the stream
+                if (cancelled) return
+
                 if (candleSeriesRef.current) {
                     const candleData: CandlestickData[] = historicalData.map((k) => ({
                         time: k.time as Time,
@@ -211,7 +258,7 @@ export const TradingChart = () => {
                 chartRef.current?.timeScale().fitContent()
 
                 // Subscribe to kline updates for chart
-                const klineUnsub = binanceWS.subscribeKline(selectedSymbol, selectedInterval, (data: KlineData) => {
+                const klineUnsub = marketData.subscribeKline(selectedSymbol, selectedInterval, (data: KlineData) => {
                     setConnectionStatus(true)
 
                     if (candleSeriesRef.current) {
@@ -242,12 +289,12 @@ export const TradingChart = () => {
                         low24h: data.low,
                         volume24h: data.volume,
                         quoteVolume24h: data.quoteVolume,
-                        lastUpdateTime: Date.now(),
+                        lastUpdateTime: marketNow(),
                     })
                 })
 
                 // Subscribe to aggTrade for high-frequency price updates (5-10+ per second)
-                const tradeUnsub = binanceWS.subscribeAggTrade(selectedSymbol, (trade) => {
+                const tradeUnsub = marketData.subscribeAggTrade(selectedSymbol, (trade) => {
                     updateRealtimePrice(selectedSymbol, trade)
                 })
 
@@ -267,11 +314,12 @@ export const TradingChart = () => {
         loadData()
 
         return () => {
+            cancelled = true
             if (unsubscribe) {
                 unsubscribe()
             }
         }
-    }, [selectedSymbol, selectedInterval, setConnectionStatus, updateTickerData, updateRealtimePrice])
+    }, [selectedSymbol, selectedInterval, marketDataKey, setConnectionStatus, updateTickerData, updateRealtimePrice])
 
     const handleFullscreen = () => {
         if (!chartContainerRef.current?.parentElement) return
@@ -285,6 +333,19 @@ export const TradingChart = () => {
         }
     }
 
+    const handleCapture = () => {
+        if (!chartRef.current) return
+
+        captureChart({
+            symbol: selectedSymbol,
+            interval: selectedInterval,
+            image: toCaptureImage(chartRef.current.takeScreenshot()),
+            takenAt: marketDate(),
+        })
+        setCaptured(true)
+        setTimeout(() => setCaptured(false), 1500)
+    }
+
     const isFavorite = favorites.includes(selectedSymbol)
 
     return (
@@ -298,12 +359,12 @@ export const TradingChart = () => {
                             onClick={() => setCryptoDropdownOpen(!cryptoDropdownOpen)}
                             className="flex items-center gap-3 px-4 py-2 bg-bg-tertiary rounded-button hover:bg-bg-tertiary/80 transition-colors"
                         >
-                            <span className="text-xl" style={{ color: currentAsset?.color }}>
-                                {currentAsset?.icon}
+                            <span className="text-xl" style={{ color: currentAsset.color }}>
+                                {currentAsset.icon}
                             </span>
                             <div className="text-left">
-                                <p className="font-medium">{currentAsset?.name}</p>
-                                <p className="text-xs text-text-muted">{currentAsset?.shortName}/USDT</p>
+                                <p className="font-medium">{currentAsset.name}</p>
+                                <p className="text-xs text-text-muted">{currentAsset.shortName}/USDT</p>
                             </div>
                             <ChevronDown size={16} className={clsx('transition-transform', cryptoDropdownOpen && 'rotate-180')} />
                         </button>
@@ -312,7 +373,13 @@ export const TradingChart = () => {
                             <>
                                 <div className="fixed inset-0 z-10" onClick={() => setCryptoDropdownOpen(false)} />
                                 <div className="absolute left-0 top-full mt-2 py-2 bg-bg-secondary rounded-card border border-white/10 shadow-lg z-20 min-w-[220px] max-h-80 overflow-y-auto">
-                                    {CRYPTO_ASSETS.map((asset) => (
+                                    <AssetSearch
+                                        onSelect={(symbol) => {
+                                            setSelectedSymbol(symbol)
+                                            setCryptoDropdownOpen(false)
+                                        }}
+                                    />
+                                    {getWatchlistAssets().map((asset) => (
                                         <button
                                             key={asset.symbol}
                                             onClick={() => {
@@ -377,7 +444,7 @@ export const TradingChart = () => {
                                             direction === 'neutral' && 'text-text-primary'
                                         )}
                                     >
-                                        ${displayPrice.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                                        ${displayPrice.toLocaleString(undefined, { minimumFractionDigits: currentAsset.decimals, maximumFractionDigits: currentAsset.decimals })}
                                     </motion.span>
                                 </div>
                                 {currentTicker && (
@@ -418,9 +485,21 @@ export const TradingChart = () => {
                         isConnected ? 'bg-success/10 text-success' : 'bg-warning/10 text-warning'
                     )}>
                         <Activity size={12} className={isConnected ? 'animate-pulse' : ''} />
-                        {isConnected ? 'LIVE' : 'Connecting...'}
+                        {isConnected ? (replaying ? 'REPLAY' : 'LIVE') : 'Connecting...'}
                     </div>
 
+                    {/* Capture for the journal */}
+                    <button
+                        onClick={handleCapture}
+                        disabled={isLoading}
+                        className="p-2 hover:bg-bg-tertiary rounded-button transition-colors disabled:opacity-50"
+                        title="Capture the chart for your journal"
+                    >
+                        {captured
+                            ? <Check size={18} className="text-success" />
+                            : <Camera size={18} className="text-text-muted" />}
+                    </button>
+
                     {/* Fullscreen */}
                     <button
                         onClick={handleFullscreen}
@@ -462,7 +541,7 @@ export const TradingChart = () => {
                 {/* Watermark */}
                 <div className="absolute inset-0 flex items-center justify-center pointer-events-none opacity-[0.03] z-0">
                     <span className="text-[140px] font-bold tracking-wider">
-                        {currentAsset?.shortName}
+                        {currentAsset.shortName}
                     </span>
                 </div>
 
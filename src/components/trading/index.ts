@@ -1,2 +1,6 @@
 export { TradingChart } from './TradingChart'
 export { AIAssistant } from './AIAssistant'
+export { AssetSearch } from './AssetSearch'
+export { OrderBookLadder } from './OrderBookLadder'
+export { DepthChart } from './DepthChart'
+export { ReplayControls } from './ReplayControls'
@@ -3,6 +3,8 @@
  * Part of Feature-Sliced Design architecture
  */
 
+import { marketDate } from '@/lib/clock'
+
 // ============================================
 // ASSET ENTITY
 // ============================================
@@ -16,8 +18,11 @@ export interface Asset {
     color: string         // Branding color
     icon?: string         // Emoji or icon URL
     decimals: number      // Price precision
+    tickSize: number      // Price step
     minQty: number        // Minimum order quantity
+    maxQty: number        // Maximum order quantity
     stepSize: number      // Quantity step
+    minNotional: number   // Minimum order value in the quote asset
 }
 
 // ============================================
@@ -43,7 +48,8 @@ export interface WalletBalance {
 export type OrderType = 'market' | 'limit' | 'stop-loss' | 'stop-limit' | 'take-profit' | 'trailing-stop'
 export type OrderSide = 'buy' | 'sell'
 export type OrderStatus = 'pending' | 'open' | 'partially_filled' | 'filled' | 'cancelled' | 'expired' | 'rejected'
-export type TimeInForce = 'GTC' | 'IOC' | 'FOK' // Good Till Cancel, Immediate or Cancel, Fill or Kill
+export type TimeInForce = 'GTC' | 'IOC' | 'FOK' | 'GTD' // Good Till Cancel, Immediate or Cancel, Fill or Kill, Good Till Date
+export type TrailingOffsetType = 'percent' | 'absolute'
 
 export interface Order {
     id: string
@@ -52,6 +58,7 @@ export interface Order {
     type: OrderType
     side: OrderSide
     status: OrderStatus
+    statusReason?: string      // Why the order was cancelled, expired or rejected
     timeInForce: TimeInForce
 
     // Quantities
@@ -64,19 +71,56 @@ export interface Order {
     stopPrice?: number         // Trigger price for stop orders
     avgFillPrice?: number      // Average execution price
 
+    // Trailing stop
+    trailingOffset?: number               // Distance of the stop from the high-water mark
+    trailingOffsetType?: TrailingOffsetType
+    highWaterMark?: number                // Highest price seen since placement
+
     // USD equivalent
     quoteQty: number           // Total USD value
     executedQuoteQty: number   // Filled USD value
 
     // Fees
-    fee: number
-    feeAsset: string
+    fee: number                // USD value of all fees charged
+    feeAsset: string           // Asset of the latest fill's fee
 
     // Timestamps
     createdAt: Date
     updatedAt: Date
-    expiresAt?: Date
+    expiresAt?: Date           // Good-till-date orders only
+    triggeredAt?: Date         // When a stop-limit turned into a resting limit order
     filledAt?: Date
+
+    // Linked orders (OCO / bracket)
+    groupId?: string
+}
+
+// ============================================
+// ORDER GROUP ENTITY
+// ============================================
+
+export type OrderGroupType = 'oco' | 'bracket'
+export type OrderGroupStatus = 'pending' | 'active' | 'completed' | 'cancelled'
+
+/**
+ * Linked orders where a fill on one leg cancels the others.
+ * A bracket starts 'pending' with only its entry order; once the entry
+ * is done its take-profit and stop-loss legs are placed as an OCO pair.
+ */
+export interface OrderGroup {
+    id: string
+    type: OrderGroupType
+    symbol: string
+    status: OrderGroupStatus
+
+    entryOrderId?: string      // Bracket only
+    orderIds: string[]         // Exit legs
+
+    takeProfitPrice: number
+    stopLossPrice: number
+
+    createdAt: Date
+    updatedAt: Date
 }
 
 // ============================================
@@ -95,15 +139,46 @@ export interface Trade {
     quoteQty: number
 
     // Fees
-    fee: number
+    fee: number                // In feeAsset
     feeAsset: string
+    feeRate?: number           // Percent of quoteQty charged
 
     // Metadata
     isMaker: boolean           // Maker or Taker
     timestamp: Date
 
-    // Realized P&L for this trade
+    // Realized P&L for this trade (sells only, before fees)
     realizedPnl?: number
+    costBasis?: number
+    lotDisposals?: LotDisposal[]
+}
+
+// ============================================
+// LOT ENTITY
+// ============================================
+
+export type CostBasisMethod = 'fifo' | 'lifo' | 'average'
+
+/**
+ * Quantity bought by one trade that has not been sold yet
+ */
+export interface Lot {
+    id: string
+    symbol: string
+    tradeId: string
+    quantity: number           // Remaining quantity
+    price: number              // Cost per unit
+    acquiredAt: Date
+}
+
+/**
+ * Part of a lot consumed by a sell
+ */
+export interface LotDisposal {
+    lotId: string
+    quantity: number
+    costBasis: number
+    acquiredAt: Date
 }
 
 // ============================================
@@ -111,6 +186,7 @@ export interface Trade {
 // ============================================
 
 export interface Position {
+    id?: string                // Set on isolated-margin positions
     symbol: string
     side: 'long' | 'short'
 
@@ -127,6 +203,8 @@ export interface Position {
     liquidationPrice?: number
     margin?: number
     leverage?: number
+    accruedInterest?: number   // Borrow interest already taken from margin
+    lastAccrualAt?: Date
 
     // Timestamps
     openedAt: Date
@@ -180,6 +258,48 @@ export function validateOrderQuantity(quantity: number, asset: Asset): { valid:
     return { valid: true }
 }
 
+/**
+ * Exchange filters that apply whatever the quantity precision:
+ * lot size bounds, minimum order value and the price tick
+ */
+export function validateOrderFilters(
+    quantity: number,
+    price: number,
+    asset: Asset,
+    limitPrices: number[] = []
+): { valid: boolean; error?: string } {
+    if (quantity < asset.minQty) {
+        return { valid: false, error: `Minimum quantity is ${asset.minQty} ${asset.baseAsset}` }
+    }
+
+    if (quantity > asset.maxQty) {
+        return { valid: false, error: `Maximum quantity is ${asset.maxQty} ${asset.baseAsset}` }
+    }
+
+    if (quantity * price < asset.minNotional) {
+        return { valid: false, error: `Minimum order value is ${asset.minNotional} ${asset.quoteAsset}` }
+    }
+
+    const offTick = limitPrices.find((p) => {
+        const ticks = p / asset.tickSize
+        return Math.abs(ticks - Math.round(ticks)) > Math.max(1e-6, ticks * 1e-9)
+    })
+    if (offTick !== undefined) {
+        return { valid: false, error: `Prices must be a multiple of ${asset.tickSize}` }
+    }
+
+    return { valid: true }
+}
+
+/**
+ * Round a quantity down to the asset's step, as the exchange would
+ */
+export function roundToStep(quantity: number, stepSize: number): number {
+    const steps = Math.floor(quantity / stepSize + 1e-9)
+    const decimals = Math.max(0, -Math.floor(Math.log10(stepSize)))
+    return parseFloat((steps * stepSize).toFixed(decimals))
+}
+
 export function calculateOrderValue(quantity: number, price: number, side: OrderSide, feeRate: number = 0.001): {
     grossValue: number
     fee: number
@@ -244,8 +364,8 @@ export function createMarketOrder(params: {
         executedQuoteQty: 0,
         fee: 0,
         feeAsset: 'USDT',
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        createdAt: marketDate(),
+        updatedAt: marketDate(),
     }
 }
 
@@ -270,8 +390,8 @@ export function createLimitOrder(params: {
         executedQuoteQty: 0,
         fee: 0,
         feeAsset: 'USDT',
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        createdAt: marketDate(),
+        updatedAt: marketDate(),
     }
 }
 
@@ -294,7 +414,103 @@ export function createStopLossOrder(params: {
         executedQuoteQty: 0,
         fee: 0,
         feeAsset: 'USDT',
-        createdAt: new Date(),
-        updatedAt: new Date(),
+        createdAt: marketDate(),
+        updatedAt: marketDate(),
+    }
+}
+
+export function createTakeProfitOrder(params: {
+    symbol: string
+    quantity: number
+    stopPrice: number
+}): Partial<Order> {
+    return {
+        symbol: params.symbol,
+        type: 'take-profit',
+        side: 'sell',
+        status: 'open',
+        timeInForce: 'GTC',
+        quantity: params.quantity,
+        executedQty: 0,
+        remainingQty: params.quantity,
+        stopPrice: params.stopPrice,
+        quoteQty: params.quantity * params.stopPrice,
+        executedQuoteQty: 0,
+        fee: 0,
+        feeAsset: 'USDT',
+        createdAt: marketDate(),
+        updatedAt: marketDate(),
+    }
+}
+
+export function createStopLimitOrder(params: {
+    symbol: string
+    side: OrderSide
+    quantity: number
+    stopPrice: number
+    price: number
+    timeInForce?: TimeInForce
+}): Partial<Order> {
+    return {
+        symbol: params.symbol,
+        type: 'stop-limit',
+        side: params.side,
+        status: 'open',
+        timeInForce: params.timeInForce || 'GTC',
+        quantity: params.quantity,
+        executedQty: 0,
+        remainingQty: params.quantity,
+        price: params.price,
+        stopPrice: params.stopPrice,
+        quoteQty: params.quantity * params.price,
+        executedQuoteQty: 0,
+        fee: 0,
+        feeAsset: 'USDT',
+        createdAt: marketDate(),
+        updatedAt: marketDate(),
+    }
+}
+
+/**
+ * Stop price of a trailing stop for the given high-water mark
+ */
+export function calculateTrailingStopPrice(
+    highWaterMark: number,
+    offset: number,
+    offsetType: TrailingOffsetType
+): number {
+    return offsetType === 'percent'
+        ? highWaterMark * (1 - offset / 100)
+        : highWaterMark - offset
+}
+
+export function createTrailingStopOrder(params: {
+    symbol: string
+    quantity: number
+    offset: number
+    offsetType: TrailingOffsetType
+    currentPrice: number
+}): Partial<Order> {
+    const stopPrice = calculateTrailingStopPrice(params.currentPrice, params.offset, params.offsetType)
+
+    return {
+        symbol: params.symbol,
+        type: 'trailing-stop',
+        side: 'sell',
+        status: 'open',
+        timeInForce: 'GTC',
+        quantity: params.quantity,
+        executedQty: 0,
+        remainingQty: params.quantity,
+        stopPrice,
+        trailingOffset: params.offset,
+        trailingOffsetType: params.offsetType,
+        highWaterMark: params.currentPrice,
+        quoteQty: params.quantity * stopPrice,
+        executedQuoteQty: 0,
+        fee: 0,
+        feeAsset: 'USDT',
+        createdAt: marketDate(),
+        updatedAt: marketDate(),
     }
 }
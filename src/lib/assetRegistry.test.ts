@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { ASSET_SNAPSHOT, createAsset, createUnknownAsset, getStepDecimals, searchAssets } from './assetRegistry'
+
+describe('Asset Registry', () => {
+    const assets = ASSET_SNAPSHOT.map(createAsset)
+
+    it('should rank exact and prefix matches first', () => {
+        expect(searchAssets(assets, 'link')[0].symbol).toBe('LINKUSDT')
+        expect(searchAssets(assets, '  ')).toEqual([])
+    })
+
+    it('should rank symbol matches, then name matches, then the rest', () => {
+        const candidates = [
+            createUnknownAsset('SUNIUSDT'),
+            { ...createUnknownAsset('XUSDT'), name: 'Unicorn' },
+            createUnknownAsset('UNIBOTUSDT'),
+            createUnknownAsset('UNIFIUSDT'),
+            createAsset(ASSET_SNAPSHOT.find(a => a.symbol === 'UNIUSDT')!),
+        ]
+
+        expect(searchAssets(candidates, 'uni').map(a => a.symbol))
+            .toEqual(['UNIUSDT', 'UNIBOTUSDT', 'UNIFIUSDT', 'XUSDT', 'SUNIUSDT'])
+        expect(searchAssets(candidates, 'uni', 2)).toHaveLength(2)
+        expect(searchAssets(candidates, 'nope')).toEqual([])
+    })
+
+    it('should take display decimals from the price tick', () => {
+        expect(getStepDecimals(0.01)).toBe(2)
+        expect(getStepDecimals(1)).toBe(0)
+    })
+
+    it('should enforce no filters on an unknown pair', () => {
+        const asset = createUnknownAsset('NOPEUSDT')
+
+        expect(asset.shortName).toBe('NOPE')
+        expect(asset.minNotional).toBe(0)
+        expect(asset.minQty).toBe(0)
+    })
+})
@@ -0,0 +1,160 @@
+/**
+ * Asset registry
+ * Turns exchange symbol filters into Asset entities, with display metadata
+ * for well-known coins and a bundled snapshot for when the exchange is unreachable
+ */
+
+import type { Asset } from '@/entities'
+
+// ============================================
+// TYPES
+// ============================================
+
+// The parts of a Binance exchangeInfo symbol the simulator uses
+export interface ExchangeSymbol {
+    symbol: string
+    baseAsset: string
+    quoteAsset: string
+    tickSize: number
+    minQty: number
+    maxQty: number
+    stepSize: number
+    minNotional: number
+}
+
+interface AssetMetadata {
+    name: string
+    icon: string
+    color: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const REGISTRY_QUOTE_ASSET = 'USDT'
+
+const ASSET_METADATA: Record<string, AssetMetadata> = {
+    BTC: { name: 'Bitcoin', icon: '₿', color: '#F7931A' },
+    ETH: { name: 'Ethereum', icon: 'Ξ', color: '#627EEA' },
+    BNB: { name: 'BNB', icon: '◆', color: '#F0B90B' },
+    SOL: { name: 'Solana', icon: '◎', color: '#00FFA3' },
+    XRP: { name: 'XRP', icon: '✕', color: '#23292F' },
+    ADA: { name: 'Cardano', icon: '₳', color: '#0033AD' },
+    DOGE: { name: 'Dogecoin', icon: 'Ð', color: '#C2A633' },
+    MATIC: { name: 'Polygon', icon: '⬡', color: '#8247E5' },
+    DOT: { name: 'Polkadot', icon: '●', color: '#E6007A' },
+    AVAX: { name: 'Avalanche', icon: 'Ⓐ', color: '#E84142' },
+    LINK: { name: 'Chainlink', icon: '⬢', color: '#2A5ADA' },
+    LTC: { name: 'Litecoin', icon: 'Ł', color: '#345D9D' },
+    TRX: { name: 'TRON', icon: '▲', color: '#EB0029' },
+    ATOM: { name: 'Cosmos', icon: '⚛', color: '#2E3148' },
+    UNI: { name: 'Uniswap', icon: '🦄', color: '#FF007A' },
+    NEAR: { name: 'NEAR Protocol', icon: 'Ⓝ', color: '#00C08B' },
+    SHIB: { name: 'Shiba Inu', icon: '🐕', color: '#FFA409' },
+    TON: { name: 'Toncoin', icon: '◇', color: '#0098EA' },
+}
+
+const DEFAULT_COLOR = '#6B7199'
+
+// Pairs shown before the user adds any
+export const DEFAULT_WATCHLIST = [
+    'BTCUSDT', 'ETHUSDT', 'BNBUSDT', 'SOLUSDT', 'XRPUSDT',
+    'ADAUSDT', 'DOGEUSDT', 'MATICUSDT', 'DOTUSDT', 'AVAXUSDT',
+]
+
+// Filters of popular pairs as Binance listed them; used until exchangeInfo loads
+// [symbol, tickSize, stepSize, maxQty]; minQty equals stepSize and minNotional is 5 USDT for all of them
+const SNAPSHOT_FILTERS: [string, number, number, number][] = [
+    ['BTCUSDT', 0.01, 0.00001, 9000],
+    ['ETHUSDT', 0.01, 0.0001, 9000],
+    ['BNBUSDT', 0.01, 0.001, 9000],
+    ['SOLUSDT', 0.01, 0.001, 9000],
+    ['XRPUSDT', 0.0001, 0.1, 9222449],
+    ['ADAUSDT', 0.0001, 0.1, 900000],
+    ['DOGEUSDT', 0.00001, 1, 9000000],
+    ['MATICUSDT', 0.0001, 0.1, 9000000],
+    ['DOTUSDT', 0.001, 0.01, 900000],
+    ['AVAXUSDT', 0.01, 0.01, 900000],
+    ['LINKUSDT', 0.01, 0.01, 900000],
+    ['LTCUSDT', 0.01, 0.001, 900000],
+    ['TRXUSDT', 0.0001, 0.1, 9000000],
+    ['ATOMUSDT', 0.001, 0.01, 900000],
+    ['UNIUSDT', 0.001, 0.01, 900000],
+    ['NEARUSDT', 0.001, 0.1, 900000],
+    ['SHIBUSDT', 0.00000001, 1, 92233720368],
+    ['TONUSDT', 0.001, 0.01, 900000],
+]
+
+export const ASSET_SNAPSHOT: ExchangeSymbol[] = SNAPSHOT_FILTERS.map(([symbol, tickSize, stepSize, maxQty]) => ({
+    symbol,
+    baseAsset: symbol.slice(0, -REGISTRY_QUOTE_ASSET.length),
+    quoteAsset: REGISTRY_QUOTE_ASSET,
+    tickSize,
+    minQty: stepSize,
+    maxQty,
+    stepSize,
+    minNotional: 5,
+}))
+
+// ============================================
+// ASSETS
+// ============================================
+
+/**
+ * Decimal places of a step such as 0.001
+ */
+export function getStepDecimals(step: number): number {
+    return Math.max(0, Math.round(-Math.log10(step)))
+}
+
+export function createAsset(info: ExchangeSymbol): Asset {
+    const metadata = ASSET_METADATA[info.baseAsset]
+
+    return {
+        ...info,
+        name: metadata?.name ?? info.baseAsset,
+        shortName: info.baseAsset,
+        color: metadata?.color ?? DEFAULT_COLOR,
+        icon: metadata?.icon ?? info.baseAsset.charAt(0),
+        decimals: getStepDecimals(info.tickSize),
+    }
+}
+
+/**
+ * Stand-in for a pair the registry does not know: no filters to enforce
+ */
+export function createUnknownAsset(symbol: string): Asset {
+    const baseAsset = symbol.endsWith(REGISTRY_QUOTE_ASSET) ? symbol.slice(0, -REGISTRY_QUOTE_ASSET.length) : symbol
+
+    return createAsset({
+        symbol,
+        baseAsset,
+        quoteAsset: REGISTRY_QUOTE_ASSET,
+        tickSize: 0.00000001,
+        minQty: 0,
+        maxQty: Number.MAX_SAFE_INTEGER,
+        stepSize: 0.00000001,
+        minNotional: 0,
+    })
+}
+
+/**
+ * Pairs matching a symbol or name, exact and prefix matches first
+ */
+export function searchAssets(assets: Asset[], query: string, limit: number = 20): Asset[] {
+    const q = query.trim().toUpperCase()
+    if (!q) return []
+
+    const rank = (asset: Asset): number => {
+        if (asset.shortName === q || asset.symbol === q) return 0
+        if (asset.shortName.startsWith(q)) return 1
+        if (asset.name.toUpperCase().startsWith(q)) return 2
+        return 3
+    }
+
+    return assets
+        .filter(a => a.symbol.includes(q) || a.name.toUpperCase().includes(q))
+        .sort((a, b) => rank(a) - rank(b) || a.symbol.localeCompare(b.symbol))
+        .slice(0, limit)
+}
@@ -0,0 +1,85 @@
+/**
+ * Candle helpers
+ * Interval arithmetic and aggregation of 1m candles into longer intervals,
+ * aligned the way Binance aligns its klines
+ */
+
+import type { KlineData } from '@/services/marketData'
+
+// ============================================
+// INTERVALS
+// ============================================
+
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// Binance weeks open on Monday; the epoch was a Thursday
+const WEEK_OFFSET_MS = 4 * DAY_MS
+
+const UNIT_MS: Record<string, number> = {
+    s: 1000,
+    m: MINUTE_MS,
+    h: 60 * MINUTE_MS,
+    d: DAY_MS,
+    w: 7 * DAY_MS,
+}
+
+/**
+ * Length of an interval such as '15m' or '4h'
+ */
+export function intervalToMs(interval: string): number {
+    const unit = UNIT_MS[interval.slice(-1)]
+    const count = parseInt(interval.slice(0, -1), 10)
+    if (!unit || !count) {
+        throw new Error(`Unsupported interval: ${interval}`)
+    }
+    return count * unit
+}
+
+/**
+ * Open time (ms) of the candle that contains a moment
+ */
+export function getCandleStart(time: number, intervalMs: number): number {
+    const offset = intervalMs % (7 * DAY_MS) === 0 ? WEEK_OFFSET_MS : 0
+    return Math.floor((time - offset) / intervalMs) * intervalMs + offset
+}
+
+// ============================================
+// AGGREGATION
+// ============================================
+
+/**
+ * Fold a candle into the one before it, e.g. the minutes of an hour
+ */
+export function mergeCandle(into: KlineData, next: KlineData): KlineData {
+    return {
+        ...into,
+        high: Math.max(into.high, next.high),
+        low: Math.min(into.low, next.low),
+        close: next.close,
+        volume: into.volume + next.volume,
+        quoteVolume: into.quoteVolume + next.quoteVolume,
+        trades: into.trades + next.trades,
+        isFinal: next.isFinal,
+    }
+}
+
+/**
+ * Combine shorter candles (oldest first) into candles of the given interval
+ */
+export function aggregateKlines(klines: KlineData[], intervalMs: number): KlineData[] {
+    const result: KlineData[] = []
+
+    for (const kline of klines) {
+        const start = getCandleStart(kline.time * 1000, intervalMs)
+        const last = result[result.length - 1]
+
+        if (last && last.time * 1000 === start) {
+            result[result.length - 1] = mergeCandle(last, kline)
+        } else {
+            result.push({ ...kline, time: start / 1000, closeTime: start + intervalMs - 1 })
+        }
+    }
+
+    return result
+}
@@ -0,0 +1,27 @@
+/**
+ * Market clock
+ * The time trading happens at: the wall clock normally, the replay clock while
+ * a past period is played back. Order timestamps, expiry and triggering,
+ * charts and stats read it instead of Date.now().
+ */
+
+// Null follows the wall clock; read Date.now() on every call so fake timers apply
+let source: (() => number) | null = null
+
+/**
+ * Current market time in ms
+ */
+export function marketNow(): number {
+    return source ? source() : Date.now()
+}
+
+export function marketDate(): Date {
+    return new Date(marketNow())
+}
+
+/**
+ * Follow another clock, or the wall clock again with null
+ */
+export function setMarketClock(now: (() => number) | null): void {
+    source = now
+}
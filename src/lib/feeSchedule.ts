@@ -0,0 +1,122 @@
+/**
+ * Fee schedule
+ * Maker/taker rates by 30-day volume tier, with discounts for the
+ * subscription tier and for paying fees in BNB
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SubscriptionTier = 'free' | 'starter' | 'pro' | 'ultimate'
+
+export interface VolumeTier {
+    name: string
+    minVolume30d: number  // USD traded over the last 30 days
+    makerPercent: number
+    takerPercent: number
+}
+
+export interface FeeQuote {
+    ratePercent: number   // Rate applied to the fill's quote value
+    asset: 'USDT' | 'BNB'
+    tier: string
+    isMaker: boolean
+}
+
+// Traded USD per day, keyed by YYYY-MM-DD
+export type VolumeHistory = Record<string, number>
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Thresholds scaled down from Binance VIP levels to practice-account sizes
+export const VOLUME_TIERS: VolumeTier[] = [
+    { name: 'VIP 0', minVolume30d: 0, makerPercent: 0.1, takerPercent: 0.1 },
+    { name: 'VIP 1', minVolume30d: 10_000, makerPercent: 0.09, takerPercent: 0.1 },
+    { name: 'VIP 2', minVolume30d: 50_000, makerPercent: 0.08, takerPercent: 0.1 },
+    { name: 'VIP 3', minVolume30d: 250_000, makerPercent: 0.042, takerPercent: 0.06 },
+    { name: 'VIP 4', minVolume30d: 1_000_000, makerPercent: 0.042, takerPercent: 0.054 },
+]
+
+// Share of the fee waived per subscription tier
+export const SUBSCRIPTION_DISCOUNTS: Record<SubscriptionTier, number> = {
+    free: 0,
+    starter: 0.05,
+    pro: 0.1,
+    ultimate: 0.2,
+}
+
+export const BNB_DISCOUNT = 0.25
+
+// Highest rate any fill can be charged, used to reserve funds for open orders
+export const MAX_FEE_PERCENT = Math.max(...VOLUME_TIERS.map(t => Math.max(t.makerPercent, t.takerPercent)))
+
+const VOLUME_WINDOW_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// ============================================
+// RATES
+// ============================================
+
+export function getVolumeTier(volume30d: number): VolumeTier {
+    return [...VOLUME_TIERS].reverse().find(t => volume30d >= t.minVolume30d) ?? VOLUME_TIERS[0]
+}
+
+/**
+ * Fee rate for a fill
+ */
+export function getFeeQuote(params: {
+    isMaker: boolean
+    volume30d: number
+    subscriptionTier: SubscriptionTier
+    payInBnb: boolean
+}): FeeQuote {
+    const tier = getVolumeTier(params.volume30d)
+    const baseRate = params.isMaker ? tier.makerPercent : tier.takerPercent
+
+    let ratePercent = baseRate * (1 - SUBSCRIPTION_DISCOUNTS[params.subscriptionTier])
+    if (params.payInBnb) {
+        ratePercent *= 1 - BNB_DISCOUNT
+    }
+
+    return {
+        ratePercent,
+        asset: params.payInBnb ? 'BNB' : 'USDT',
+        tier: tier.name,
+        isMaker: params.isMaker,
+    }
+}
+
+// ============================================
+// VOLUME
+// ============================================
+
+function dayKey(timestamp: number): string {
+    return new Date(timestamp).toISOString().slice(0, 10)
+}
+
+/**
+ * Add traded volume for the day and drop days outside the window
+ */
+export function addVolume(history: VolumeHistory, quoteQty: number, now: number = Date.now()): VolumeHistory {
+    const cutoff = dayKey(now - VOLUME_WINDOW_DAYS * DAY_MS)
+    const key = dayKey(now)
+    const updated: VolumeHistory = {}
+
+    Object.entries(history).forEach(([day, volume]) => {
+        if (day > cutoff) updated[day] = volume
+    })
+    updated[key] = (updated[key] ?? 0) + quoteQty
+
+    return updated
+}
+
+export function get30dVolume(history: VolumeHistory, now: number = Date.now()): number {
+    const cutoff = dayKey(now - VOLUME_WINDOW_DAYS * DAY_MS)
+
+    return Object.entries(history)
+        .filter(([day]) => day > cutoff)
+        .reduce((sum, [, volume]) => sum + volume, 0)
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { calculateTagStats, getTradeOutcome } from './journalStats'
+import type { JournalEntry, Transaction } from '@/stores/walletStore'
+
+const buyTx: Transaction = {
+    id: 'tx-buy',
+    type: 'buy',
+    symbol: 'BTCUSDT',
+    name: 'Bitcoin',
+    amount: 0.002,
+    price: 50000,
+    total: 100,
+    fee: 0.1,
+    timestamp: new Date(Date.UTC(2024, 0, 1)),
+}
+
+const sellTx: Transaction = {
+    ...buyTx,
+    id: 'tx-sell',
+    type: 'sell',
+    price: 55000,
+    total: 110,
+    fee: 0.11,
+    realizedPnl: 9.9,
+    timestamp: new Date(Date.UTC(2024, 0, 2)),
+}
+
+const entry = (transaction: Transaction, tags: string[], riskAmount?: number): JournalEntry => ({
+    id: `journal-${transaction.id}`,
+    transactionId: transaction.id,
+    note: '',
+    tags,
+    riskAmount,
+    createdAt: transaction.timestamp,
+    updatedAt: transaction.timestamp,
+})
+
+describe('Journal Stats', () => {
+    it('should leave opening trades without a result', () => {
+        const outcome = getTradeOutcome(entry(buyTx, ['breakout']), buyTx)
+
+        expect(outcome.pnl).toBeUndefined()
+        expect(outcome.r).toBeUndefined()
+    })
+
+    it('should compute per-tag stats from journaled sells', () => {
+        const entries = [entry(buyTx, ['breakout']), entry(sellTx, ['breakout', 'patient'], 5)]
+        const byId = new Map([sellTx, buyTx].map(tx => [tx.id, tx]))
+
+        const stats = calculateTagStats(entries.map(e => getTradeOutcome(e, byId.get(e.transactionId))))
+        const breakout = stats.find(s => s.tag === 'breakout')!
+        const pnl = sellTx.realizedPnl! - sellTx.fee
+
+        expect(breakout.entries).toBe(2)
+        expect(breakout.closedTrades).toBe(1)
+        expect(breakout.winRate).toBe(100)
+        expect(breakout.expectancy).toBeCloseTo(pnl)
+        expect(breakout.avgR).toBeCloseTo(pnl / 5)
+        expect(stats[0].tag).toBe('breakout')
+    })
+})
@@ -0,0 +1,102 @@
+/**
+ * Journal statistics
+ * Outcomes of journaled trades and how each tag performs:
+ * win rate, average R multiple and expectancy
+ */
+
+import type { JournalEntry, Transaction } from '@/stores/walletStore'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const SETUP_TAGS = ['breakout', 'pullback', 'reversal', 'range', 'trend', 'news']
+
+export const EMOTION_TAGS = ['confident', 'patient', 'fomo', 'fear', 'greed', 'revenge']
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface JournalTradeOutcome {
+    entry: JournalEntry
+    transaction?: Transaction
+    pnl?: number              // After fees; only for trades that closed a position
+    r?: number                // pnl / planned risk
+}
+
+export interface TagStats {
+    tag: string
+    entries: number
+    closedTrades: number
+    wins: number
+    losses: number
+    winRate: number           // Percent of closed trades
+    avgWin: number
+    avgLoss: number           // Positive amount
+    avgR?: number             // Only over trades with a planned risk
+    expectancy: number        // Expected USD per trade
+    totalPnl: number
+}
+
+// ============================================
+// OUTCOMES
+// ============================================
+
+/**
+ * Sells, margin closes and liquidations realize a result; buys and
+ * margin opens are still open from the journal's point of view
+ */
+export function getTradeOutcome(entry: JournalEntry, transaction?: Transaction): JournalTradeOutcome {
+    if (!transaction || transaction.realizedPnl === undefined) {
+        return { entry, transaction }
+    }
+
+    const pnl = transaction.realizedPnl - transaction.fee
+    const r = entry.riskAmount && entry.riskAmount > 0 ? pnl / entry.riskAmount : undefined
+
+    return { entry, transaction, pnl, r }
+}
+
+/**
+ * Statistics per tag, most used tags first
+ */
+export function calculateTagStats(outcomes: JournalTradeOutcome[]): TagStats[] {
+    const byTag = new Map<string, JournalTradeOutcome[]>()
+    outcomes.forEach((outcome) => {
+        outcome.entry.tags.forEach((tag) => {
+            byTag.set(tag, [...(byTag.get(tag) ?? []), outcome])
+        })
+    })
+
+    return [...byTag.entries()]
+        .map(([tag, tagged]) => {
+            const closed = tagged.filter(o => o.pnl !== undefined)
+            const wins = closed.filter(o => o.pnl! > 0)
+            const losses = closed.filter(o => o.pnl! <= 0)
+            const withRisk = closed.filter(o => o.r !== undefined)
+
+            const totalWins = wins.reduce((sum, o) => sum + o.pnl!, 0)
+            const totalLosses = -losses.reduce((sum, o) => sum + o.pnl!, 0)
+            const winRate = closed.length > 0 ? wins.length / closed.length : 0
+            const avgWin = wins.length > 0 ? totalWins / wins.length : 0
+            const avgLoss = losses.length > 0 ? totalLosses / losses.length : 0
+
+            return {
+                tag,
+                entries: tagged.length,
+                closedTrades: closed.length,
+                wins: wins.length,
+                losses: losses.length,
+                winRate: winRate * 100,
+                avgWin,
+                avgLoss,
+                avgR: withRisk.length > 0
+                    ? withRisk.reduce((sum, o) => sum + o.r!, 0) / withRisk.length
+                    : undefined,
+                expectancy: winRate * avgWin - (1 - winRate) * avgLoss,
+                totalPnl: totalWins - totalLosses,
+            }
+        })
+        .sort((a, b) => b.entries - a.entries || a.tag.localeCompare(b.tag))
+}
@@ -0,0 +1,107 @@
+/**
+ * Lot accounting
+ * Tracks what each buy cost so sells can realize P&L against
+ * specific lots (FIFO / LIFO) or the average cost of all lots
+ */
+
+import type { CostBasisMethod, Lot, LotDisposal } from '@/entities'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const COST_BASIS_METHODS: { value: CostBasisMethod; label: string }[] = [
+    { value: 'fifo', label: 'FIFO' },
+    { value: 'lifo', label: 'LIFO' },
+    { value: 'average', label: 'Average cost' },
+]
+
+const QTY_EPSILON = 1e-10
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LotConsumption {
+    lots: Lot[]                // Lots left after the sell
+    disposals: LotDisposal[]
+    costBasis: number
+}
+
+// ============================================
+// LOT OPERATIONS
+// ============================================
+
+export function getLotsQuantity(lots: Lot[]): number {
+    return lots.reduce((sum, lot) => sum + lot.quantity, 0)
+}
+
+/**
+ * Average cost per unit of the remaining lots
+ */
+export function getAverageCost(lots: Lot[]): number {
+    const quantity = getLotsQuantity(lots)
+    if (quantity <= 0) return 0
+    return lots.reduce((sum, lot) => sum + lot.quantity * lot.price, 0) / quantity
+}
+
+/**
+ * Remove the sold quantity from the lots.
+ * FIFO sells the oldest lots first, LIFO the newest; average cost takes
+ * the same share of every lot, so the remaining average is unchanged.
+ */
+export function consumeLots(lots: Lot[], quantity: number, method: CostBasisMethod): LotConsumption {
+    if (method === 'average') {
+        const total = getLotsQuantity(lots)
+        if (total <= 0) return { lots: [], disposals: [], costBasis: 0 }
+
+        const share = Math.min(quantity / total, 1)
+        const disposals = lots.map(lot => ({
+            lotId: lot.id,
+            quantity: lot.quantity * share,
+            costBasis: lot.quantity * share * lot.price,
+            acquiredAt: lot.acquiredAt,
+        }))
+
+        return {
+            lots: lots
+                .map(lot => ({ ...lot, quantity: lot.quantity * (1 - share) }))
+                .filter(lot => lot.quantity > QTY_EPSILON),
+            disposals,
+            costBasis: disposals.reduce((sum, d) => sum + d.costBasis, 0),
+        }
+    }
+
+    // Lots are kept in purchase order, which also breaks timestamp ties
+    const chronological = method === 'fifo' ? [...lots] : [...lots].reverse()
+    const ordered = chronological.sort((a, b) => {
+        const diff = new Date(a.acquiredAt).getTime() - new Date(b.acquiredAt).getTime()
+        return method === 'fifo' ? diff : -diff
+    })
+
+    const disposals: LotDisposal[] = []
+    const usedByLot = new Map<string, number>()
+    let remaining = quantity
+
+    for (const lot of ordered) {
+        if (remaining <= QTY_EPSILON) break
+
+        const used = Math.min(lot.quantity, remaining)
+        remaining -= used
+        usedByLot.set(lot.id, used)
+        disposals.push({
+            lotId: lot.id,
+            quantity: used,
+            costBasis: used * lot.price,
+            acquiredAt: lot.acquiredAt,
+        })
+    }
+
+    return {
+        lots: lots
+            .map(lot => ({ ...lot, quantity: lot.quantity - (usedByLot.get(lot.id) ?? 0) }))
+            .filter(lot => lot.quantity > QTY_EPSILON),
+        disposals,
+        costBasis: disposals.reduce((sum, d) => sum + d.costBasis, 0),
+    }
+}
@@ -0,0 +1,76 @@
+/**
+ * Isolated margin math
+ * Each leveraged position carries its own margin; losses beyond it are
+ * impossible because the position is liquidated first
+ */
+
+import type { Position } from '@/entities'
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const MAX_LEVERAGE = 10
+
+// Equity below this share of the position value triggers liquidation
+export const MAINTENANCE_MARGIN_RATE = 0.005 // 0.5%
+
+// Interest on the borrowed part of the position, charged continuously
+export const BORROW_INTEREST_RATE_HOURLY = 0.0001 // 0.01% per hour
+
+const HOUR_MS = 60 * 60 * 1000
+
+// ============================================
+// CALCULATIONS
+// ============================================
+
+/**
+ * Price at which the position's equity falls to the maintenance margin.
+ * Long:  margin + (P - entry) * qty = mmr * P * qty
+ * Short: margin + (entry - P) * qty = mmr * P * qty
+ */
+export function calculateLiquidationPrice(
+    side: 'long' | 'short',
+    entryPrice: number,
+    quantity: number,
+    margin: number,
+    maintenanceMarginRate: number = MAINTENANCE_MARGIN_RATE
+): number {
+    if (quantity <= 0) return 0
+
+    const price = side === 'long'
+        ? (entryPrice * quantity - margin) / (quantity * (1 - maintenanceMarginRate))
+        : (entryPrice * quantity + margin) / (quantity * (1 + maintenanceMarginRate))
+
+    return Math.max(price, 0)
+}
+
+/**
+ * Interest owed on the borrowed part of a position over the elapsed time.
+ * A long borrows the quote beyond its margin; a short borrows its whole base quantity.
+ */
+export function calculateBorrowInterest(
+    position: Position,
+    markPrice: number,
+    elapsedMs: number,
+    hourlyRate: number = BORROW_INTEREST_RATE_HOURLY
+): number {
+    if (elapsedMs <= 0) return 0
+
+    const notional = position.quantity * markPrice
+    const borrowed = position.side === 'short'
+        ? notional
+        : Math.max(notional - (position.margin ?? 0), 0)
+    return borrowed * hourlyRate * (elapsedMs / HOUR_MS)
+}
+
+/**
+ * Whether the mark price has reached the liquidation price
+ */
+export function isLiquidatable(position: Position, markPrice: number): boolean {
+    if (position.liquidationPrice === undefined) return false
+
+    return position.side === 'long'
+        ? markPrice <= position.liquidationPrice
+        : markPrice >= position.liquidationPrice
+}
@@ -0,0 +1,143 @@
+/**
+ * Simulated matching engine
+ * Builds synthetic order book depth around the last traded price and
+ * matches orders against it, so large orders can fill partially
+ */
+
+import type { OrderSide } from '@/entities'
+import { random as sharedRandom } from '@/lib/random'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface DepthLevel {
+    price: number
+    quantity: number      // Base asset available at this level
+}
+
+export interface DepthSnapshot {
+    symbol: string
+    bids: DepthLevel[]    // Sorted best (highest) first
+    asks: DepthLevel[]    // Sorted best (lowest) first
+    timestamp: number
+}
+
+export interface DepthConfig {
+    levels: number        // Levels per side
+    tickPercent: number   // Distance between levels, % of mid price
+    levelNotional: number // Average USD liquidity per level
+    sizeJitter: number    // 0..1, random variation of level size
+}
+
+export interface Fill {
+    price: number
+    quantity: number
+}
+
+export interface MatchResult {
+    fills: Fill[]
+    executedQty: number
+    executedQuoteQty: number
+    remainingQty: number
+    avgPrice: number | null
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Deliberately thin so that orders from a small practice account can
+// still run out of liquidity when price only touches the limit
+export const DEFAULT_DEPTH_CONFIG: DepthConfig = {
+    levels: 20,
+    tickPercent: 0.05,
+    levelNotional: 150,
+    sizeJitter: 0.5,
+}
+
+const QTY_EPSILON = 1e-10
+
+// ============================================
+// DEPTH SNAPSHOT
+// ============================================
+
+/**
+ * Generate a depth snapshot around the last traded price.
+ * The best level of each side sits at the last price, so a resting order
+ * that is just touched only sees the liquidity of that first level.
+ */
+export function generateDepthSnapshot(
+    symbol: string,
+    lastPrice: number,
+    config: DepthConfig = DEFAULT_DEPTH_CONFIG,
+    random: () => number = sharedRandom
+): DepthSnapshot {
+    const bids: DepthLevel[] = []
+    const asks: DepthLevel[] = []
+    const tick = lastPrice * (config.tickPercent / 100)
+
+    const levelQty = (price: number) => {
+        const jitter = 1 + (random() * 2 - 1) * config.sizeJitter
+        return (config.levelNotional * jitter) / price
+    }
+
+    for (let i = 0; i < config.levels; i++) {
+        const askPrice = lastPrice + tick * i
+        const bidPrice = lastPrice - tick * i
+
+        asks.push({ price: askPrice, quantity: levelQty(askPrice) })
+        if (bidPrice > 0) {
+            bids.push({ price: bidPrice, quantity: levelQty(bidPrice) })
+        }
+    }
+
+    return { symbol, bids, asks, timestamp: Date.now() }
+}
+
+// ============================================
+// MATCHING
+// ============================================
+
+/**
+ * Walk the opposite side of the book until the quantity is filled,
+ * the book runs out or the limit price is reached.
+ * Without a limit price the order behaves like a market order.
+ */
+export function matchOrder(
+    snapshot: DepthSnapshot,
+    side: OrderSide,
+    quantity: number,
+    limitPrice?: number
+): MatchResult {
+    const levels = side === 'buy' ? snapshot.asks : snapshot.bids
+    const fills: Fill[] = []
+    let remaining = quantity
+    let executedQuoteQty = 0
+
+    for (const level of levels) {
+        if (remaining <= QTY_EPSILON) break
+
+        if (limitPrice !== undefined) {
+            const crossesLimit = side === 'buy' ? level.price > limitPrice : level.price < limitPrice
+            if (crossesLimit) break
+        }
+
+        const fillQty = Math.min(remaining, level.quantity)
+        if (fillQty <= 0) continue
+
+        fills.push({ price: level.price, quantity: fillQty })
+        remaining -= fillQty
+        executedQuoteQty += fillQty * level.price
+    }
+
+    const executedQty = remaining > QTY_EPSILON ? quantity - remaining : quantity
+
+    return {
+        fills,
+        executedQty,
+        executedQuoteQty,
+        remainingQty: remaining > QTY_EPSILON ? remaining : 0,
+        avgPrice: executedQty > 0 ? executedQuoteQty / executedQty : null,
+    }
+}
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest'
+import { OrderBook } from './orderBook'
+
+describe('Order Book', () => {
+    it('should apply diff events in update-id order and flag gaps', () => {
+        const book = new OrderBook()
+        book.loadSnapshot({
+            lastUpdateId: 100,
+            bids: [{ price: 99, quantity: 1 }, { price: 98, quantity: 2 }],
+            asks: [{ price: 101, quantity: 1.5 }],
+        })
+        const update = (first: number, final: number, bids: [number, number][], asks: [number, number][] = []) => ({
+            symbol: 'BTCUSDT',
+            firstUpdateId: first,
+            finalUpdateId: final,
+            bids: bids.map(([price, quantity]) => ({ price, quantity })),
+            asks: asks.map(([price, quantity]) => ({ price, quantity })),
+            time: 0,
+        })
+
+        expect(book.applyUpdate(update(90, 100, [[99, 5]]))).toBe('stale')
+        expect(book.applyUpdate(update(95, 103, [[99, 0], [99.5, 3]], [[100.5, 2]]))).toBe('applied')
+        expect(book.applyUpdate(update(105, 106, [[97, 1]]))).toBe('gap')
+
+        const view = book.getView()
+        expect(view.bids.map(l => [l.price, l.total])).toEqual([[99.5, 3], [98, 5]])
+        expect(view.bestAsk).toBe(100.5)
+        expect(view.spread).toBe(1)
+        expect(view.lastUpdateId).toBe(103)
+    })
+})
@@ -0,0 +1,152 @@
+/**
+ * Local order book
+ * Keeps a copy of an exchange order book from a REST snapshot plus the
+ * diff-depth stream, following Binance's update-id sequencing rules
+ */
+
+import type { DepthLevel } from '@/lib/matchingEngine'
+
+// ============================================
+// TYPES
+// ============================================
+
+// REST depth snapshot
+export interface BookSnapshot {
+    lastUpdateId: number
+    bids: DepthLevel[]
+    asks: DepthLevel[]
+}
+
+// One diff-depth event; quantities are absolute and 0 removes the level
+export interface DepthUpdate {
+    symbol: string
+    firstUpdateId: number // U
+    finalUpdateId: number // u
+    bids: DepthLevel[]
+    asks: DepthLevel[]
+    time: number
+}
+
+export interface BookLevel extends DepthLevel {
+    total: number         // Cumulative base quantity from the best price to this level
+}
+
+export interface OrderBookView {
+    bids: BookLevel[]     // Sorted best (highest) first
+    asks: BookLevel[]     // Sorted best (lowest) first
+    bestBid: number | null
+    bestAsk: number | null
+    spread: number | null
+    spreadPercent: number | null
+    midPrice: number | null
+    lastUpdateId: number
+}
+
+// 'stale' events predate the book; a 'gap' means events were missed and the book must be rebuilt
+export type UpdateResult = 'applied' | 'stale' | 'gap'
+
+// ============================================
+// DEPTH
+// ============================================
+
+/**
+ * Running total of quantity from the best level outwards
+ */
+export function cumulativeDepth(levels: DepthLevel[]): BookLevel[] {
+    let total = 0
+    return levels.map(level => {
+        total += level.quantity
+        return { ...level, total }
+    })
+}
+
+// ============================================
+// BOOK
+// ============================================
+
+export class OrderBook {
+    private bids: Map<number, number> = new Map()
+    private asks: Map<number, number> = new Map()
+    private lastUpdateId = 0
+    private loaded = false
+
+    /**
+     * Replace the book with a snapshot
+     */
+    loadSnapshot(snapshot: BookSnapshot): void {
+        this.bids = new Map(snapshot.bids.map(l => [l.price, l.quantity]))
+        this.asks = new Map(snapshot.asks.map(l => [l.price, l.quantity]))
+        this.lastUpdateId = snapshot.lastUpdateId
+        this.loaded = true
+    }
+
+    /**
+     * Apply a diff event. Events ending at or before the book are dropped; the
+     * next event must start at or before lastUpdateId + 1, or updates were missed.
+     */
+    applyUpdate(update: DepthUpdate): UpdateResult {
+        if (!this.loaded) return 'gap'
+        if (update.finalUpdateId <= this.lastUpdateId) return 'stale'
+        if (update.firstUpdateId > this.lastUpdateId + 1) return 'gap'
+
+        applyLevels(this.bids, update.bids)
+        applyLevels(this.asks, update.asks)
+        this.lastUpdateId = update.finalUpdateId
+        return 'applied'
+    }
+
+    isLoaded(): boolean {
+        return this.loaded
+    }
+
+    getLastUpdateId(): number {
+        return this.lastUpdateId
+    }
+
+    getBestBid(): number | null {
+        return this.bids.size > 0 ? Math.max(...this.bids.keys()) : null
+    }
+
+    getBestAsk(): number | null {
+        return this.asks.size > 0 ? Math.min(...this.asks.keys()) : null
+    }
+
+    /**
+     * Best levels of each side with cumulative depth, plus the top of book
+     */
+    getView(levels: number = 20): OrderBookView {
+        const bids = cumulativeDepth(sortLevels(this.bids, 'desc').slice(0, levels))
+        const asks = cumulativeDepth(sortLevels(this.asks, 'asc').slice(0, levels))
+
+        const bestBid = bids[0]?.price ?? null
+        const bestAsk = asks[0]?.price ?? null
+        const spread = bestBid !== null && bestAsk !== null ? bestAsk - bestBid : null
+        const midPrice = bestBid !== null && bestAsk !== null ? (bestBid + bestAsk) / 2 : null
+
+        return {
+            bids,
+            asks,
+            bestBid,
+            bestAsk,
+            spread,
+            spreadPercent: spread !== null && midPrice ? (spread / midPrice) * 100 : null,
+            midPrice,
+            lastUpdateId: this.lastUpdateId,
+        }
+    }
+}
+
+function applyLevels(side: Map<number, number>, levels: DepthLevel[]): void {
+    for (const { price, quantity } of levels) {
+        if (quantity === 0) {
+            side.delete(price)
+        } else {
+            side.set(price, quantity)
+        }
+    }
+}
+
+function sortLevels(side: Map<number, number>, order: 'asc' | 'desc'): DepthLevel[] {
+    return Array.from(side, ([price, quantity]) => ({ price, quantity }))
+        .sort((a, b) => order === 'asc' ? a.price - b.price : b.price - a.price)
+}
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import { buildPerformanceReport, getCurrentRun } from './performanceAnalytics'
+import { Transaction, WALLET_RESET_NAME } from '@/stores/walletStore'
+
+const DAY = 24 * 60 * 60 * 1000
+const start = Date.UTC(2024, 0, 1)
+
+const tx = (type: Transaction['type'], day: number, fields: Partial<Transaction>): Transaction => ({
+    id: `${type}-${day}`,
+    type,
+    symbol: 'BTCUSDT',
+    name: 'Bitcoin',
+    amount: 0,
+    price: 0,
+    total: 0,
+    fee: 0,
+    timestamp: new Date(start + day * DAY + 60 * 60 * 1000),
+    ...fields,
+})
+
+describe('Performance Analytics', () => {
+    const deposit = tx('deposit', 0, { symbol: 'USD', amount: 500, price: 1, total: 500 })
+    const closesFrom = (firstDay: number, values: number[]) =>
+        values.map((close, i) => ({ time: (start + (firstDay + i) * DAY) / 1000, close }))
+
+    it('should replay the ledger against daily closes', () => {
+        const history = [
+            deposit,
+            tx('buy', 0, { amount: 0.01, price: 40000, total: 400 }),
+            tx('sell', 3, { amount: 0.01, price: 42000, total: 420, realizedPnl: 20 }),
+        ]
+
+        const report = buildPerformanceReport(history, { BTCUSDT: closesFrom(0, [40000, 44000, 36000, 42000]) }, start + 3.5 * DAY)
+
+        expect(report.equity.map(p => p.value)).toEqual([500, 540, 460, 520])
+        expect(report.totalReturn).toBeCloseTo(4)
+        expect(report.maxDrawdown).toBeCloseTo((1 - 460 / 540) * 100)
+        expect(report.drawdownTrough).toBe(start + 2 * DAY)
+        expect(report.avgHoldingTime).toBe(3 * DAY)
+        expect(report.exposure).toEqual([])
+        expect(report.sharpe).toBeDefined()
+    })
+
+    it('should report nothing for an empty history', () => {
+        const report = buildPerformanceReport([], {}, start)
+
+        expect(report.equity).toEqual([])
+        expect(report.totalReturn).toBe(0)
+        expect(report.maxDrawdown).toBe(0)
+        expect(report.trades).toBe(0)
+        expect(report.winRate).toBe(0)
+        expect(report.sharpe).toBeUndefined()
+        expect(report.avgHoldingTime).toBeUndefined()
+        expect(report.exposure).toEqual([])
+        expect(report.monthlyReturns).toEqual([])
+    })
+
+    it('should leave the profit factor out until a trade loses', () => {
+        const history = [
+            deposit,
+            tx('buy', 0, { amount: 0.01, price: 40000, total: 400 }),
+            tx('sell', 1, { amount: 0.01, price: 42000, total: 420, realizedPnl: 20 }),
+        ]
+
+        const winning = buildPerformanceReport(history, {}, start + DAY)
+
+        expect(winning.trades).toBe(1)
+        expect(winning.winRate).toBe(100)
+        expect(winning.profitFactor).toBeUndefined()
+        expect(winning.winLossRatio).toBeUndefined()
+
+        const mixed = buildPerformanceReport([
+            ...history,
+            tx('buy', 2, { amount: 0.01, price: 42000, total: 420 }),
+            tx('sell', 2, { id: 'sell-loss', amount: 0.01, price: 41000, total: 410, realizedPnl: -10 }),
+        ], {}, start + 2 * DAY)
+
+        expect(mixed.winRate).toBe(50)
+        expect(mixed.profitFactor).toBeCloseTo(2)
+    })
+
+    it('should start at the last wallet reset', () => {
+        const reset = tx('deposit', 2, { symbol: 'USD', name: WALLET_RESET_NAME, amount: 500, price: 1, total: 500 })
+        const history = [
+            tx('sell', 1, { amount: 0.01, price: 42000, total: 420, realizedPnl: 20 }),
+            reset,
+            tx('buy', 1, { amount: 0.01, price: 40000, total: 400 }),
+            deposit,
+            tx('buy', 3, { id: 'buy-after', amount: 0.01, price: 40000, total: 400 }),
+        ]
+
+        expect(getCurrentRun(history).map(t => t.id)).toEqual([reset.id, 'buy-after'])
+
+        const report = buildPerformanceReport(history, {}, start + 3 * DAY)
+
+        expect(report.equity[0].time).toBe(start + 2 * DAY)
+        expect(report.equity[0].value).toBe(500)
+        expect(report.trades).toBe(0)
+    })
+
+    it('should report exposure over open spot and margin positions', () => {
+        const history = [
+            tx('deposit', 0, { symbol: 'USD', amount: 1000, price: 1, total: 1000 }),
+            tx('buy', 0, { amount: 0.01, price: 40000, total: 400 }),
+            tx('margin-open', 0, {
+                symbol: 'ETHUSDT', amount: 0.1, price: 2000, total: 100, positionId: 'short-1', positionSide: 'short',
+            }),
+        ]
+        const prices = { BTCUSDT: closesFrom(1, [50000]), ETHUSDT: closesFrom(1, [1800]) }
+
+        const report = buildPerformanceReport(history, prices, start + 1.5 * DAY)
+
+        // Cash 500, BTC worth 500, and the short's margin of 100 is up 20
+        expect(report.equity[1].value).toBeCloseTo(1120)
+        expect(report.exposure.map(e => e.symbol)).toEqual(['BTCUSDT', 'ETHUSDT'])
+        expect(report.exposure[0].value).toBeCloseTo(500)
+        expect(report.exposure[0].percent).toBeCloseTo((500 / 1120) * 100)
+        expect(report.exposure[1].value).toBeCloseTo(-180)
+        expect(report.exposure[1].percent).toBeCloseTo((180 / 1120) * 100)
+    })
+
+    it('should compound returns per calendar month', () => {
+        const history = [
+            tx('deposit', 29, { symbol: 'USD', amount: 500, price: 1, total: 500 }),
+            tx('buy', 29, { amount: 0.01, price: 40000, total: 400 }),
+        ]
+
+        // January 30th to February 2nd
+        const report = buildPerformanceReport(history, { BTCUSDT: closesFrom(29, [40000, 44000, 44000, 33000]) }, start + 32.5 * DAY)
+
+        expect(report.monthlyReturns.map(m => [m.year, m.month])).toEqual([[2024, 0], [2024, 1]])
+        expect(report.monthlyReturns[0].return).toBeCloseTo(8)
+        expect(report.monthlyReturns[1].return).toBeCloseTo((430 / 540 - 1) * 100)
+    })
+})
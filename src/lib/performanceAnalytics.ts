@@ -0,0 +1,392 @@
+/**
+ * Performance analytics
+ * Replays the transaction history against daily closes to rebuild the
+ * equity curve, then derives risk and trade statistics from it
+ */
+
+import type { Lot } from '@/entities'
+import { Transaction, WALLET_RESET_NAME } from '@/stores/walletStore'
+import { consumeLots } from '@/lib/lotAccounting'
+
+// ============================================
+// TYPES
+// ============================================
+
+// Daily candles per symbol; time in seconds like klines
+export type PriceHistory = Record<string, { time: number; close: number }[]>
+
+export interface EquityPoint {
+    time: number              // ms, start of the UTC day
+    value: number             // Cash + holdings + margin equity at the day's close
+    flow: number              // Deposits and bonuses that day
+    dailyReturn: number       // Percent, excluding flows
+}
+
+export interface AssetExposure {
+    symbol: string
+    value: number             // Negative for shorts
+    percent: number           // Of the account value
+}
+
+export interface MonthlyReturn {
+    year: number
+    month: number             // 0-11
+    return: number            // Percent, compounded from daily returns
+}
+
+export interface PerformanceReport {
+    equity: EquityPoint[]
+    totalReturn: number       // Percent, time-weighted
+    maxDrawdown: number       // Percent from peak
+    drawdownPeak?: number     // ms, day the deepest drawdown started
+    drawdownTrough?: number   // ms, its lowest day
+    sharpe?: number           // Annualized, zero risk-free rate
+    sortino?: number
+    trades: number            // Sells, margin closes and liquidations
+    wins: number
+    losses: number
+    winRate: number           // Percent
+    winLossRatio?: number     // Average win / average loss
+    profitFactor?: number     // Gross profit / gross loss
+    avgHoldingTime?: number   // ms
+    exposure: AssetExposure[]
+    monthlyReturns: MonthlyReturn[]
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DAY = 24 * 60 * 60 * 1000
+
+// Crypto trades every day of the year
+const PERIODS_PER_YEAR = 365
+
+// Most candles one klines request returns
+export const MAX_HISTORY_DAYS = 1000
+
+const QTY_EPSILON = 1e-10
+
+// ============================================
+// HISTORY
+// ============================================
+
+function startOfDay(timestamp: number): number {
+    return Math.floor(timestamp / DAY) * DAY
+}
+
+/**
+ * Transactions since the last wallet reset, oldest first
+ */
+export function getCurrentRun(transactions: Transaction[]): Transaction[] {
+    const oldestFirst = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    const resetIndex = oldestFirst.map(tx => tx.type === 'deposit' && tx.name === WALLET_RESET_NAME).lastIndexOf(true)
+
+    return resetIndex > 0 ? oldestFirst.slice(resetIndex) : oldestFirst
+}
+
+export function getTradedSymbols(transactions: Transaction[]): string[] {
+    return [...new Set(transactions.filter(tx => tx.type !== 'deposit' && tx.type !== 'bonus').map(tx => tx.symbol))]
+}
+
+/**
+ * Days of daily candles needed to cover the history
+ */
+export function getHistoryDays(transactions: Transaction[], now: number = Date.now()): number {
+    if (transactions.length === 0) return 0
+
+    const first = Math.min(...transactions.map(tx => tx.timestamp.getTime()))
+    return Math.min(Math.floor((startOfDay(now) - startOfDay(first)) / DAY) + 1, MAX_HISTORY_DAYS)
+}
+
+// ============================================
+// REPLAY
+// ============================================
+
+interface ReplayPosition {
+    symbol: string
+    side: 'long' | 'short'
+    quantity: number
+    entryPrice: number
+    margin: number
+    openedAt: number
+}
+
+interface ClosedTrade {
+    pnl: number               // After fees
+    holdingTime?: number      // ms
+}
+
+interface HoldingValue {
+    symbol: string
+    value: number             // Market value; negative for shorts
+    equity: number            // What it adds to the account value
+}
+
+interface ReplayState {
+    cash: number
+    quantities: Record<string, number>
+    lots: Record<string, Lot[]>
+    positions: Map<string, ReplayPosition>
+    lastPrices: Record<string, number>
+    closed: ClosedTrade[]
+}
+
+/**
+ * Spot holding time of a sell, weighted by the quantity taken from each lot
+ */
+function sellHoldingTime(state: ReplayState, tx: Transaction): number | undefined {
+    const sale = consumeLots(state.lots[tx.symbol] ?? [], tx.amount, 'fifo')
+    state.lots[tx.symbol] = sale.lots
+
+    const quantity = sale.disposals.reduce((sum, d) => sum + d.quantity, 0)
+    if (quantity <= QTY_EPSILON) return undefined
+
+    const weighted = sale.disposals.reduce(
+        (sum, d) => sum + d.quantity * (tx.timestamp.getTime() - new Date(d.acquiredAt).getTime()),
+        0
+    )
+    return weighted / quantity
+}
+
+/**
+ * Apply one transaction. Fees come out of cash whichever asset paid them;
+ * the effect on the account value is the same.
+ */
+function applyTransaction(state: ReplayState, tx: Transaction): void {
+    const time = tx.timestamp.getTime()
+    if (tx.type !== 'deposit' && tx.type !== 'bonus') state.lastPrices[tx.symbol] = tx.price
+
+    switch (tx.type) {
+        case 'deposit':
+        case 'bonus':
+            state.cash += tx.total
+            break
+
+        case 'buy':
+            state.cash -= tx.total + tx.fee
+            state.quantities[tx.symbol] = (state.quantities[tx.symbol] ?? 0) + tx.amount
+            state.lots[tx.symbol] = [...(state.lots[tx.symbol] ?? []), {
+                id: tx.id,
+                symbol: tx.symbol,
+                tradeId: tx.tradeId ?? tx.id,
+                quantity: tx.amount,
+                price: tx.price,
+                acquiredAt: tx.timestamp,
+            }]
+            break
+
+        case 'sell': {
+            state.cash += tx.total - tx.fee
+            state.quantities[tx.symbol] = Math.max((state.quantities[tx.symbol] ?? 0) - tx.amount, 0)
+            const holdingTime = sellHoldingTime(state, tx)
+            if (tx.realizedPnl !== undefined) {
+                state.closed.push({ pnl: tx.realizedPnl - tx.fee, holdingTime })
+            }
+            break
+        }
+
+        case 'margin-open':
+            state.cash -= tx.total + tx.fee
+            state.positions.set(tx.positionId ?? tx.id, {
+                symbol: tx.symbol,
+                side: tx.positionSide ?? 'long',
+                quantity: tx.amount,
+                entryPrice: tx.price,
+                margin: tx.total,
+                openedAt: time,
+            })
+            break
+
+        case 'margin-close':
+        case 'liquidation': {
+            // A close returns what is left of the margin; a liquidation forfeits it
+            if (tx.type === 'margin-close') state.cash += tx.total
+            const position = tx.positionId ? state.positions.get(tx.positionId) : undefined
+            if (tx.positionId) state.positions.delete(tx.positionId)
+            if (tx.realizedPnl !== undefined) {
+                state.closed.push({
+                    pnl: tx.realizedPnl - tx.fee,
+                    holdingTime: position ? time - position.openedAt : undefined,
+                })
+            }
+            break
+        }
+    }
+}
+
+/**
+ * Holdings and margin equity at the given prices, per symbol
+ */
+function valueHoldings(state: ReplayState, priceOf: (symbol: string) => number): HoldingValue[] {
+    const bySymbol = new Map<string, HoldingValue>()
+    const add = (symbol: string, value: number, equity: number) => {
+        const current = bySymbol.get(symbol) ?? { symbol, value: 0, equity: 0 }
+        bySymbol.set(symbol, { symbol, value: current.value + value, equity: current.equity + equity })
+    }
+
+    Object.entries(state.quantities).forEach(([symbol, quantity]) => {
+        if (quantity <= QTY_EPSILON) return
+        const value = quantity * priceOf(symbol)
+        add(symbol, value, value)
+    })
+
+    state.positions.forEach((position) => {
+        const price = priceOf(position.symbol)
+        const direction = position.side === 'long' ? 1 : -1
+        const pnl = (price - position.entryPrice) * position.quantity * direction
+        add(position.symbol, position.quantity * price * direction, Math.max(position.margin + pnl, 0))
+    })
+
+    return [...bySymbol.values()]
+}
+
+// ============================================
+// STATISTICS
+// ============================================
+
+function mean(values: number[]): number {
+    return values.reduce((sum, v) => sum + v, 0) / values.length
+}
+
+function annualizedRatio(returns: number[], deviation: number): number | undefined {
+    if (returns.length < 2 || deviation <= 0) return undefined
+    return (mean(returns) / deviation) * Math.sqrt(PERIODS_PER_YEAR)
+}
+
+function calculateDrawdown(equity: EquityPoint[]): Pick<PerformanceReport, 'maxDrawdown' | 'drawdownPeak' | 'drawdownTrough'> {
+    let index = 1
+    let peak = 1
+    let peakTime = equity[0]?.time
+    const result: Pick<PerformanceReport, 'maxDrawdown' | 'drawdownPeak' | 'drawdownTrough'> = { maxDrawdown: 0 }
+
+    equity.forEach((point) => {
+        // Drawdown of the return index, so deposits neither hide nor cause one
+        index *= 1 + point.dailyReturn / 100
+        if (index > peak) {
+            peak = index
+            peakTime = point.time
+        }
+
+        const drawdown = ((peak - index) / peak) * 100
+        if (drawdown > result.maxDrawdown) {
+            result.maxDrawdown = drawdown
+            result.drawdownPeak = peakTime
+            result.drawdownTrough = point.time
+        }
+    })
+
+    return result
+}
+
+function calculateMonthlyReturns(equity: EquityPoint[]): MonthlyReturn[] {
+    const months = new Map<string, MonthlyReturn & { index: number }>()
+
+    equity.forEach((point) => {
+        const date = new Date(point.time)
+        const key = `${date.getUTCFullYear()}-${date.getUTCMonth()}`
+        const month = months.get(key) ?? { year: date.getUTCFullYear(), month: date.getUTCMonth(), return: 0, index: 1 }
+
+        month.index *= 1 + point.dailyReturn / 100
+        month.return = (month.index - 1) * 100
+        months.set(key, month)
+    })
+
+    return [...months.values()].map(({ year, month, return: monthReturn }) => ({ year, month, return: monthReturn }))
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+/**
+ * Rebuild the account value at each day's close and measure it.
+ * Days without a candle are valued at the symbol's last traded price.
+ */
+export function buildPerformanceReport(
+    transactions: Transaction[],
+    prices: PriceHistory,
+    now: number = Date.now()
+): PerformanceReport {
+    const run = getCurrentRun(transactions)
+    const closes = new Map(Object.entries(prices).map(([symbol, candles]) => [
+        symbol,
+        new Map(candles.map(c => [startOfDay(c.time * 1000), c.close])),
+    ]))
+
+    const state: ReplayState = {
+        cash: 0,
+        quantities: {},
+        lots: {},
+        positions: new Map(),
+        lastPrices: {},
+        closed: [],
+    }
+
+    const equity: EquityPoint[] = []
+    const days = getHistoryDays(run, now)
+    const firstDay = startOfDay(now) - (days - 1) * DAY
+    let next = 0
+    let previousValue = 0
+    let priceOf = (symbol: string) => state.lastPrices[symbol] ?? 0
+
+    for (let day = firstDay; day <= startOfDay(now) && days > 0; day += DAY) {
+        let flow = 0
+        while (next < run.length && run[next].timestamp.getTime() < day + DAY) {
+            const tx = run[next++]
+            // Flows before the first charted day are part of its starting value
+            if ((tx.type === 'deposit' || tx.type === 'bonus') && tx.timestamp.getTime() >= day) flow += tx.total
+            applyTransaction(state, tx)
+        }
+
+        priceOf = (symbol: string) => closes.get(symbol)?.get(day) ?? state.lastPrices[symbol] ?? 0
+        const value = state.cash + valueHoldings(state, priceOf).reduce((sum, h) => sum + h.equity, 0)
+
+        // Flows are assumed to arrive at the start of the day
+        const base = previousValue + flow
+        const dailyReturn = base > 0 ? ((value - previousValue - flow) / base) * 100 : 0
+
+        equity.push({ time: day, value, flow, dailyReturn })
+        previousValue = value
+    }
+
+    const returns = equity.slice(1).map(p => p.dailyReturn / 100)
+    const downside = Math.sqrt(mean(returns.map(r => Math.min(r, 0) ** 2)))
+    const deviation = returns.length > 1
+        ? Math.sqrt(returns.reduce((sum, r) => sum + (r - mean(returns)) ** 2, 0) / (returns.length - 1))
+        : 0
+
+    const wins = state.closed.filter(t => t.pnl > 0)
+    const losses = state.closed.filter(t => t.pnl <= 0)
+    const grossProfit = wins.reduce((sum, t) => sum + t.pnl, 0)
+    const grossLoss = -losses.reduce((sum, t) => sum + t.pnl, 0)
+    const holdingTimes = state.closed.flatMap(t => t.holdingTime === undefined ? [] : [t.holdingTime])
+
+    const finalValue = equity[equity.length - 1]?.value ?? 0
+    const exposure = valueHoldings(state, priceOf)
+        .map(h => ({
+            symbol: h.symbol,
+            value: h.value,
+            percent: finalValue > 0 ? (Math.abs(h.value) / finalValue) * 100 : 0,
+        }))
+        .sort((a, b) => Math.abs(b.value) - Math.abs(a.value))
+
+    return {
+        equity,
+        totalReturn: (equity.reduce((index, p) => index * (1 + p.dailyReturn / 100), 1) - 1) * 100,
+        ...calculateDrawdown(equity),
+        sharpe: annualizedRatio(returns, deviation),
+        sortino: annualizedRatio(returns, downside),
+        trades: state.closed.length,
+        wins: wins.length,
+        losses: losses.length,
+        winRate: state.closed.length > 0 ? (wins.length / state.closed.length) * 100 : 0,
+        winLossRatio: wins.length > 0 && losses.length > 0 && grossLoss > 0
+            ? (grossProfit / wins.length) / (grossLoss / losses.length)
+            : undefined,
+        profitFactor: grossLoss > 0 ? grossProfit / grossLoss : undefined,
+        avgHoldingTime: holdingTimes.length > 0 ? mean(holdingTimes) : undefined,
+        exposure,
+        monthlyReturns: calculateMonthlyReturns(equity),
+    }
+}
@@ -0,0 +1,254 @@
+/**
+ * Persistence
+ * Shared setup for the persisted stores: schema versions, step-by-step
+ * migrations, Date revival and recovery from unreadable saved data
+ */
+
+import { create } from 'zustand'
+import type { PersistOptions, PersistStorage, StorageValue } from 'zustand/middleware'
+
+// ============================================
+// TYPES
+// ============================================
+
+type PersistedRecord = Record<string, unknown>
+
+// Turns a payload of the previous version into one of the version it is keyed by
+export type Migration = (state: PersistedRecord) => PersistedRecord
+
+export type Migrations = Record<number, Migration>
+
+export interface VersionedPersistOptions<S, P>
+    extends Omit<PersistOptions<S, P>, 'storage' | 'getStorage' | 'serialize' | 'deserialize' | 'version' | 'migrate' | 'merge'> {
+    version: number
+    label: string              // What the store holds, as shown to the user
+    migrations?: Migrations
+}
+
+export interface PersistenceNotice {
+    id: string                 // Storage key of the affected store
+    label: string
+    message: string
+    severity: 'warning' | 'danger'
+}
+
+interface PersistenceNoticeState {
+    notices: PersistenceNotice[]
+    addNotice: (notice: PersistenceNotice) => void
+    dismissNotice: (id: string) => void
+}
+
+// ============================================
+// NOTICES
+// ============================================
+
+/**
+ * Problems found while loading saved data, until the user dismisses them
+ */
+export const usePersistenceNotices = create<PersistenceNoticeState>()((set) => ({
+    notices: [],
+
+    addNotice: (notice) => set((state) => ({
+        notices: [...state.notices.filter(n => n.id !== notice.id), notice],
+    })),
+
+    dismissNotice: (id) => set((state) => ({
+        notices: state.notices.filter(n => n.id !== id),
+    })),
+}))
+
+// ============================================
+// SERIALIZATION
+// ============================================
+
+// What JSON.stringify makes of a Date
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+/**
+ * JSON.parse reviver that turns ISO timestamps back into Dates
+ */
+export function reviveDates(_key: string, value: unknown): unknown {
+    if (typeof value === 'string' && ISO_DATE.test(value)) {
+        const date = new Date(value)
+        if (!isNaN(date.getTime())) return date
+    }
+    return value
+}
+
+// Stores whose saved data came from a newer version of the app; never written to
+const readOnlyStores = new Set<string>()
+
+/**
+ * Whether a store runs from defaults in memory, leaving newer saved data alone
+ */
+export function isReadOnly(name: string): boolean {
+    return readOnlyStores.has(name)
+}
+
+function isRecord(value: unknown): value is PersistedRecord {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * localStorage with Date revival; anything that is not a saved state throws.
+ * Data saved by a newer version makes the store read-only. A failed write,
+ * such as a full storage quota, leaves a notice instead of breaking set().
+ */
+function createVersionedStorage<P>(version: number, label: string): PersistStorage<P> {
+    return {
+        getItem: (name) => {
+            readOnlyStores.delete(name)
+            const raw = localStorage.getItem(name)
+            if (raw === null) return null
+
+            const value: unknown = JSON.parse(raw, reviveDates)
+            if (!isRecord(value) || !isRecord(value.state)) {
+                throw new Error('Saved data has an unknown format')
+            }
+            if (typeof value.version === 'number' && value.version > version) {
+                readOnlyStores.add(name)
+            }
+            return value as unknown as StorageValue<P>
+        },
+        setItem: (name, value) => {
+            if (readOnlyStores.has(name)) return
+            try {
+                localStorage.setItem(name, JSON.stringify(value))
+            } catch (error) {
+                const message = `Your ${label} data could not be saved; the browser storage may be full.`
+                const { notices, addNotice } = usePersistenceNotices.getState()
+                if (notices.some(n => n.id === name && n.message === message)) return
+
+                console.error(`Error saving ${label} data:`, error)
+                addNotice({ id: name, label, message, severity: 'danger' })
+            }
+        },
+        removeItem: (name) => {
+            if (!readOnlyStores.has(name)) localStorage.removeItem(name)
+        },
+    }
+}
+
+// ============================================
+// MIGRATION & RECOVERY
+// ============================================
+
+/**
+ * Run every migration between the saved version and the current one, in order
+ */
+export function migrateState(
+    persisted: unknown,
+    fromVersion: number,
+    toVersion: number,
+    migrations: Migrations
+): PersistedRecord {
+    if (fromVersion > toVersion) {
+        throw new Error(`Saved by a newer version of the app (v${fromVersion})`)
+    }
+
+    let state = isRecord(persisted) ? persisted : {}
+    for (let version = fromVersion + 1; version <= toVersion; version++) {
+        const migration = migrations[version]
+        if (migration) state = migration(state)
+    }
+    return state
+}
+
+function kindOf(value: unknown): string {
+    if (value === null || value === undefined) return 'empty'
+    if (Array.isArray(value)) return 'array'
+    if (value instanceof Date) return 'date'
+    return typeof value
+}
+
+/**
+ * Keep the saved fields whose type matches the store's own; the others
+ * fall back to their defaults. Fields the store no longer has are ignored.
+ */
+export function recoverState<S extends object>(persisted: unknown, current: S): {
+    state: Partial<S>
+    dropped: string[]
+} {
+    const state: PersistedRecord = {}
+    const dropped: string[] = []
+    if (!isRecord(persisted)) return { state: state as Partial<S>, dropped }
+
+    const defaults = current as PersistedRecord
+    Object.entries(persisted).forEach(([key, value]) => {
+        if (!(key in defaults)) return
+
+        const expected = kindOf(defaults[key])
+        if (expected === 'empty' || expected === kindOf(value)) {
+            state[key] = value
+        } else {
+            dropped.push(key)
+        }
+    })
+
+    return { state: state as Partial<S>, dropped }
+}
+
+// ============================================
+// OPTIONS
+// ============================================
+
+/**
+ * persist() options with a schema version, migrations and Date revival.
+ * Saved data that cannot be read resets the store, partly or fully,
+ * and leaves a notice for the user instead of breaking the page. Data
+ * saved by a newer version is kept as it is.
+ */
+export function createPersistOptions<S extends object, P = S>(
+    options: VersionedPersistOptions<S, P>
+): PersistOptions<S, P> {
+    const { label, migrations = {}, onRehydrateStorage, ...rest } = options
+    const { addNotice } = usePersistenceNotices.getState()
+
+    return {
+        ...rest,
+        storage: createVersionedStorage<P>(options.version, label),
+        migrate: (persisted, version) => migrateState(persisted, version, options.version, migrations) as P,
+        merge: (persisted, current) => {
+            const { state, dropped } = recoverState(persisted, current)
+            if (dropped.length > 0) {
+                console.warn(`Reset unreadable saved ${label} fields:`, dropped)
+                addNotice({
+                    id: options.name,
+                    label,
+                    message: `Part of your saved ${label} data could not be read and was reset to defaults (${dropped.join(', ')}).`,
+                    severity: 'warning',
+                })
+            }
+            return { ...current, ...state }
+        },
+        onRehydrateStorage: (initialState) => {
+            const afterRehydrate = onRehydrateStorage?.(initialState)
+
+            return (state, error) => {
+                if (error && isReadOnly(options.name)) {
+                    // Leave it for the newer version; nothing done here is saved
+                    console.error(`Error loading saved ${label} data:`, error)
+                    addNotice({
+                        id: options.name,
+                        label,
+                        message: `Your saved ${label} data comes from a newer version of the app and was left untouched.`
+                            + ' Changes made now will not be saved.',
+                        severity: 'danger',
+                    })
+                } else if (error) {
+                    // Start over rather than trip on the same payload on every load
+                    console.error(`Error loading saved ${label} data:`, error)
+                    localStorage.removeItem(options.name)
+                    addNotice({
+                        id: options.name,
+                        label,
+                        message: `Your saved ${label} data could not be read and was reset.`
+                            + (error instanceof Error ? ` ${error.message}.` : ''),
+                        severity: 'danger',
+                    })
+                }
+                afterRehydrate?.(state, error)
+            }
+        },
+    }
+}
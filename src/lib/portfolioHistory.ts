@@ -0,0 +1,121 @@
+/**
+ * Portfolio value history
+ * Periodic snapshots of the account value, thinned out as they age,
+ * used for period changes and the equity curve
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PortfolioSnapshot {
+    timestamp: number     // ms since epoch
+    value: number         // Cash + holdings + margin equity
+    capital: number       // Value without trading results (deposits, bonuses)
+}
+
+export type ChangePeriod = '24h' | '7d' | '30d'
+
+export interface ValueChange {
+    change: number
+    changePercent: number
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+const DAY = 24 * HOUR
+
+export const CHANGE_PERIODS: Record<ChangePeriod, number> = {
+    '24h': DAY,
+    '7d': 7 * DAY,
+    '30d': 30 * DAY,
+}
+
+export const SNAPSHOT_INTERVAL = 5 * MINUTE
+
+// Older snapshots are kept at coarser resolution
+const RETENTION: { olderThan: number; interval: number }[] = [
+    { olderThan: 30 * DAY, interval: DAY },
+    { olderThan: 7 * DAY, interval: HOUR },
+    { olderThan: DAY, interval: 15 * MINUTE },
+]
+
+const MAX_AGE = 365 * DAY
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+/**
+ * Drop snapshots that are closer together than their age allows
+ */
+export function compactSnapshots(snapshots: PortfolioSnapshot[], now: number = Date.now()): PortfolioSnapshot[] {
+    const kept: PortfolioSnapshot[] = []
+
+    snapshots.forEach((snapshot) => {
+        const age = now - snapshot.timestamp
+        if (age > MAX_AGE) return
+
+        const interval = RETENTION.find(r => age > r.olderThan)?.interval ?? 0
+        const previous = kept[kept.length - 1]
+
+        if (!previous || snapshot.timestamp - previous.timestamp >= interval) {
+            kept.push(snapshot)
+        }
+    })
+
+    return kept
+}
+
+/**
+ * Append a snapshot unless the last one is more recent than the interval
+ */
+export function appendSnapshot(
+    snapshots: PortfolioSnapshot[],
+    snapshot: PortfolioSnapshot,
+    interval: number = SNAPSHOT_INTERVAL
+): PortfolioSnapshot[] {
+    const last = snapshots[snapshots.length - 1]
+    if (last && snapshot.timestamp - last.timestamp < interval) return snapshots
+
+    return compactSnapshots([...snapshots, snapshot], snapshot.timestamp)
+}
+
+/**
+ * Latest snapshot taken at or before the given time,
+ * or the oldest one when the history is shorter than that
+ */
+export function getSnapshotAt(snapshots: PortfolioSnapshot[], timestamp: number): PortfolioSnapshot | undefined {
+    let found: PortfolioSnapshot | undefined
+
+    for (const snapshot of snapshots) {
+        if (snapshot.timestamp > timestamp) break
+        found = snapshot
+    }
+
+    return found ?? snapshots[0]
+}
+
+/**
+ * Change in value over a period, excluding money added in the meantime
+ */
+export function calculateValueChange(
+    snapshots: PortfolioSnapshot[],
+    current: Omit<PortfolioSnapshot, 'timestamp'>,
+    period: ChangePeriod,
+    now: number = Date.now()
+): ValueChange {
+    const start = getSnapshotAt(snapshots, now - CHANGE_PERIODS[period])
+    if (!start) return { change: 0, changePercent: 0 }
+
+    const change = (current.value - start.value) - (current.capital - start.capital)
+
+    return {
+        change,
+        changePercent: start.value > 0 ? (change / start.value) * 100 : 0,
+    }
+}
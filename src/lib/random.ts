@@ -0,0 +1,76 @@
+/**
+ * Seeded random numbers
+ * Fills (slippage and simulated depth) draw from their own generator, seeded
+ * per session, so a session replays identically from its seed. Everything else
+ * that is random but only shows on screen, like AI responses, draws from a
+ * separate one and never shifts the fills. Record ids use neither.
+ */
+
+// ============================================
+// GENERATOR
+// ============================================
+
+/**
+ * Mulberry32: small, fast and good enough for simulation.
+ * The whole state is one 32-bit integer, so it can be saved and restored.
+ */
+export class SeededRandom {
+    private state: number
+
+    constructor(seed: number) {
+        this.state = seed >>> 0
+    }
+
+    // Uniform in [0, 1), like Math.random
+    next(): number {
+        this.state = (this.state + 0x6D2B79F5) >>> 0
+        let t = this.state
+        t = Math.imul(t ^ (t >>> 15), t | 1)
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+    }
+
+    // Restart the sequence from a seed or a saved state
+    seed(seed: number): void {
+        this.state = seed >>> 0
+    }
+
+    getState(): number {
+        return this.state
+    }
+}
+
+/**
+ * A fresh seed for a new session
+ */
+export function createSeed(): number {
+    if (typeof crypto !== 'undefined' && crypto.getRandomValues) {
+        return crypto.getRandomValues(new Uint32Array(1))[0]
+    }
+    return Math.floor(Math.random() * 4294967296)
+}
+
+// ============================================
+// SHARED INSTANCE
+// ============================================
+
+// Fills: slippage and simulated depth
+export const rng = new SeededRandom(createSeed())
+
+// Display only, e.g. AI responses; not seeded by the session
+export const uiRng = new SeededRandom(createSeed())
+
+/**
+ * Next number from the fill generator, for passing where a
+ * `() => number` source is expected
+ */
+export function random(): number {
+    return rng.next()
+}
+
+/**
+ * Next number from the display generator
+ */
+export function uiRandom(): number {
+    return uiRng.next()
+}
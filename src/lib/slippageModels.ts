@@ -0,0 +1,139 @@
+/**
+ * Slippage models
+ * Estimate how far a market order's execution price moves away from the
+ * quoted price, from a flat rate up to size-aware market impact
+ */
+
+import type { OrderSide } from '@/entities'
+import { DEFAULT_DEPTH_CONFIG, generateDepthSnapshot, matchOrder } from '@/lib/matchingEngine'
+import { random as sharedRandom } from '@/lib/random'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type SlippageModelId = 'fixed' | 'volatility' | 'sqrt-impact' | 'depth-walk'
+
+// 24h market statistics, as found on a ticker
+export interface MarketConditions {
+    quoteVolume24h?: number
+    high24h?: number
+    low24h?: number
+}
+
+export interface SlippageRequest {
+    symbol: string
+    side: OrderSide
+    price: number             // Quoted price before slippage
+    quoteQty: number          // Order size in USD
+    slippagePercent: number   // User setting, see each model
+    market?: MarketConditions
+}
+
+export interface SlippageModel {
+    id: SlippageModelId
+    label: string
+    description: string
+    // Unfavorable price move as a fraction of the price
+    estimate: (request: SlippageRequest, random: () => number) => number
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+// Daily high-low range assumed when the ticker has none (5%)
+const REFERENCE_RANGE = 0.05
+
+// Scale of the square-root impact law, usually close to 1
+const IMPACT_COEFFICIENT = 1
+
+// ============================================
+// MODELS
+// ============================================
+
+/**
+ * Daily high-low range as a fraction of the price
+ */
+function getDailyRange(request: SlippageRequest): number | undefined {
+    const { high24h, low24h } = request.market ?? {}
+    if (!high24h || !low24h || request.price <= 0) return undefined
+    return (high24h - low24h) / request.price
+}
+
+const fixedModel: SlippageModel = {
+    id: 'fixed',
+    label: 'Fixed',
+    description: 'Always the configured slippage (0.1% = 10 bps)',
+    estimate: (request) => request.slippagePercent / 100,
+}
+
+const volatilityModel: SlippageModel = {
+    id: 'volatility',
+    label: 'Volatility-scaled',
+    description: 'Random up to the configured slippage, scaled by the 24h range',
+    estimate: (request, random) => {
+        const range = getDailyRange(request) ?? REFERENCE_RANGE
+        return (request.slippagePercent / 100) * (range / REFERENCE_RANGE) * random()
+    },
+}
+
+const sqrtImpactModel: SlippageModel = {
+    id: 'sqrt-impact',
+    label: 'Market impact',
+    description: 'Grows with the square root of order size against 24h volume',
+    estimate: (request, random) => {
+        const volume = request.market?.quoteVolume24h
+        if (!volume) return fixedModel.estimate(request, random)
+
+        const range = getDailyRange(request) ?? REFERENCE_RANGE
+        return IMPACT_COEFFICIENT * range * Math.sqrt(request.quoteQty / volume)
+    },
+}
+
+const depthWalkModel: SlippageModel = {
+    id: 'depth-walk',
+    label: 'Order book walk',
+    description: 'Fills level by level through the simulated order book',
+    estimate: (request, random) => {
+        const { symbol, side, price, quoteQty } = request
+        if (price <= 0 || quoteQty <= 0) return 0
+
+        const quantity = quoteQty / price
+        const snapshot = generateDepthSnapshot(symbol, price, DEFAULT_DEPTH_CONFIG, random)
+        const match = matchOrder(snapshot, side, quantity)
+
+        // Whatever the book cannot absorb fills at its last level
+        const levels = side === 'buy' ? snapshot.asks : snapshot.bids
+        const lastLevel = levels[levels.length - 1]?.price ?? price
+        const avgPrice = (match.executedQuoteQty + match.remainingQty * lastLevel) / quantity
+
+        return Math.abs(avgPrice - price) / price
+    },
+}
+
+export const SLIPPAGE_MODELS: Record<SlippageModelId, SlippageModel> = {
+    'fixed': fixedModel,
+    'volatility': volatilityModel,
+    'sqrt-impact': sqrtImpactModel,
+    'depth-walk': depthWalkModel,
+}
+
+// ============================================
+// EXECUTION
+// ============================================
+
+/**
+ * Execution price after slippage: higher for buys, lower for sells.
+ * Deterministic for a given random source.
+ */
+export function applySlippage(
+    modelId: SlippageModelId,
+    request: SlippageRequest,
+    random: () => number = sharedRandom
+): number {
+    const slippage = Math.max(SLIPPAGE_MODELS[modelId].estimate(request, random), 0)
+    return request.side === 'buy'
+        ? request.price * (1 + slippage)
+        : request.price * (1 - slippage)
+}
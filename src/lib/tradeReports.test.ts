@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { buildRealizedGainsReport, realizedGainsToCsv } from './tradeReports'
+import { WALLET_RESET_NAME, type Transaction } from '@/stores/walletStore'
+
+let nextId = 0
+
+function tx(type: Transaction['type'], symbol: string, amount: number, price: number, day: number, extra: Partial<Transaction> = {}): Transaction {
+    return {
+        id: `tx-${nextId++}`,
+        type,
+        symbol,
+        name: symbol,
+        amount,
+        price,
+        total: amount * price,
+        fee: 0,
+        timestamp: new Date(Date.UTC(2024, 0, day)),
+        ...extra,
+    }
+}
+
+describe('Trade Reports', () => {
+    it('should report realized gains per lot with fees in basis and proceeds', () => {
+        const history = [
+            tx('buy', 'BTCUSDT', 0.0025, 40000, 1, { fee: 0.1 }),
+            tx('buy', 'BTCUSDT', 0.002, 50000, 2, { fee: 0.1 }),
+            tx('sell', 'BTCUSDT', 0.001, 60000, 3, { fee: 0.06 }),
+        ]
+
+        const fifo = buildRealizedGainsReport(history, 'fifo')
+        expect(fifo.rows).toHaveLength(1)
+        expect(fifo.rows[0].costBasis).toBeCloseTo(40.04, 6)
+        expect(fifo.rows[0].proceeds).toBeCloseTo(59.94, 6)
+        expect(fifo.shortTerm.gain).toBeCloseTo(19.9, 6)
+
+        const lifo = buildRealizedGainsReport(history, 'lifo')
+        expect(lifo.rows[0].costBasis).toBeCloseTo(50.05, 6)
+
+        const csv = realizedGainsToCsv(fifo).split('\r\n')
+        expect(csv).toHaveLength(2)
+        expect(csv[1]).toMatch(/^0\.00100000 BTC,\d{2}\/\d{2}\/\d{4},.*,59\.94,40\.04,19\.9,Short-term$/)
+    })
+
+    it('should start from the last wallet reset', () => {
+        const history = [
+            tx('deposit', 'USD', 500, 1, 1),
+            tx('buy', 'BTCUSDT', 0.01, 20000, 2),
+            tx('deposit', 'USD', 500, 1, 3, { name: WALLET_RESET_NAME }),
+            tx('buy', 'BTCUSDT', 0.01, 40000, 4),
+            tx('sell', 'BTCUSDT', 0.01, 50000, 5),
+        ]
+
+        const report = buildRealizedGainsReport(history, 'fifo')
+
+        expect(report.rows).toHaveLength(1)
+        expect(report.rows[0].costBasis).toBeCloseTo(400, 6)
+        expect(report.total.gain).toBeCloseTo(100, 6)
+    })
+
+    it('should dispose of BNB spent on fees', () => {
+        const history = [
+            tx('buy', 'BNBUSDT', 1, 300, 1),
+            tx('buy', 'BTCUSDT', 0.01, 40000, 2, { fee: 0.4, feeAsset: 'BNB', feeAmount: 0.001 }),
+        ]
+
+        const report = buildRealizedGainsReport(history, 'fifo')
+
+        // 0.001 BNB bought at $300, spent on a fee when BNB traded at $400
+        expect(report.rows).toHaveLength(1)
+        expect(report.rows[0]).toMatchObject({ symbol: 'BNBUSDT', quantity: 0.001 })
+        expect(report.rows[0].costBasis).toBeCloseTo(0.3, 6)
+        expect(report.rows[0].gain).toBeCloseTo(0.1, 6)
+
+        // The fee's BNB no longer backs a later sale
+        const sold = buildRealizedGainsReport([...history, tx('sell', 'BNBUSDT', 0.999, 400, 3)], 'fifo')
+        expect(sold.rows[1].costBasis).toBeCloseTo(299.7, 6)
+    })
+})
@@ -0,0 +1,242 @@
+/**
+ * Trade reports
+ * Spreadsheet exports of the transaction history, and a realized gains
+ * report laid out like IRS Form 8949 for any cost basis method
+ */
+
+import type { CostBasisMethod, Lot } from '@/entities'
+import type { Transaction } from '@/stores/walletStore'
+import { consumeLots } from '@/lib/lotAccounting'
+import { getCurrentRun } from '@/lib/performanceAnalytics'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type HoldingTerm = 'short' | 'long'
+
+// One lot (or part of one) disposed of by a sell
+export interface RealizedGainRow {
+    symbol: string
+    description: string       // e.g. "0.00200000 BTC"
+    quantity: number
+    acquiredAt?: Date         // Missing when the sell exceeds the recorded buys
+    disposedAt: Date
+    proceeds: number          // Net of the sell fee
+    costBasis: number         // Including the buy fee
+    gain: number
+    term: HoldingTerm
+}
+
+export interface RealizedGainsTotals {
+    proceeds: number
+    costBasis: number
+    gain: number
+}
+
+export interface RealizedGainsReport {
+    method: CostBasisMethod
+    rows: RealizedGainRow[]
+    shortTerm: RealizedGainsTotals
+    longTerm: RealizedGainsTotals
+    total: RealizedGainsTotals
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const QTY_EPSILON = 1e-10
+
+const BNB_SYMBOL = 'BNBUSDT'
+
+const TRANSACTION_COLUMNS = [
+    'Date', 'Type', 'Order type', 'Symbol', 'Name', 'Amount', 'Price', 'Total',
+    'Fee', 'Fee rate (%)', 'Slippage', 'Realized P&L', 'Note',
+]
+
+const GAINS_COLUMNS = [
+    '(a) Description of property',
+    '(b) Date acquired',
+    '(c) Date sold or disposed of',
+    '(d) Proceeds',
+    '(e) Cost or other basis',
+    '(h) Gain or (loss)',
+    'Term',
+]
+
+// ============================================
+// CSV
+// ============================================
+
+type CsvValue = string | number | undefined
+
+/**
+ * Quote a CSV field when needed. Text that a spreadsheet would read
+ * as a formula is prefixed with an apostrophe.
+ */
+function escapeCsv(value: CsvValue): string {
+    if (value === undefined) return ''
+    if (typeof value === 'number') return String(value)
+
+    const text = /^[=+\-@]/.test(value) ? `'${value}` : value
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function toCsv(columns: string[], rows: CsvValue[][]): string {
+    return [columns, ...rows].map(row => row.map(escapeCsv).join(',')).join('\r\n')
+}
+
+export function transactionsToCsv(transactions: Transaction[]): string {
+    const oldestFirst = [...transactions].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+
+    return toCsv(TRANSACTION_COLUMNS, oldestFirst.map(tx => [
+        tx.timestamp.toISOString(),
+        tx.type,
+        tx.orderType,
+        tx.symbol,
+        tx.name,
+        tx.amount,
+        tx.price,
+        tx.total,
+        tx.fee,
+        tx.feeRate,
+        tx.slippage,
+        tx.realizedPnl,
+        tx.note,
+    ]))
+}
+
+// ============================================
+// REALIZED GAINS
+// ============================================
+
+/**
+ * Held for more than one year counts as long-term
+ */
+function getHoldingTerm(acquiredAt: Date | undefined, disposedAt: Date): HoldingTerm {
+    if (!acquiredAt) return 'short'
+
+    const oneYearLater = new Date(acquiredAt)
+    oneYearLater.setFullYear(oneYearLater.getFullYear() + 1)
+    return disposedAt > oneYearLater ? 'long' : 'short'
+}
+
+function sumRows(rows: RealizedGainRow[]): RealizedGainsTotals {
+    return rows.reduce((totals, row) => ({
+        proceeds: totals.proceeds + row.proceeds,
+        costBasis: totals.costBasis + row.costBasis,
+        gain: totals.gain + row.gain,
+    }), { proceeds: 0, costBasis: 0, gain: 0 })
+}
+
+/**
+ * Replay the spot buys and sells since the last wallet reset, oldest first, with
+ * the given cost basis method. BNB spent on fees is disposed of like a sell.
+ * The whole run is replayed so lots bought in earlier years are known;
+ * pass a year to report only the disposals made in it.
+ */
+export function buildRealizedGainsReport(
+    transactions: Transaction[],
+    method: CostBasisMethod,
+    year?: number
+): RealizedGainsReport {
+    const oldestFirst = getCurrentRun(transactions)
+        .filter(tx => (tx.type === 'buy' || tx.type === 'sell') && tx.amount > 0)
+
+    const lots: Record<string, Lot[]> = {}
+    const rows: RealizedGainRow[] = []
+
+    const dispose = (symbol: string, quantity: number, netProceeds: number, disposedAt: Date) => {
+        const sale = consumeLots(lots[symbol] ?? [], quantity, method)
+        lots[symbol] = sale.lots
+
+        const asset = symbol.replace('USDT', '')
+        const addRow = (rowQuantity: number, costBasis: number, acquiredAt?: Date) => {
+            const proceeds = netProceeds * (rowQuantity / quantity)
+            rows.push({
+                symbol,
+                description: `${rowQuantity.toFixed(8)} ${asset}`,
+                quantity: rowQuantity,
+                acquiredAt,
+                disposedAt,
+                proceeds,
+                costBasis,
+                gain: proceeds - costBasis,
+                term: getHoldingTerm(acquiredAt, disposedAt),
+            })
+        }
+
+        sale.disposals.forEach(d => addRow(d.quantity, d.costBasis, d.acquiredAt))
+
+        // Sold from holdings the history has no buy for
+        const unmatched = quantity - sale.disposals.reduce((sum, d) => sum + d.quantity, 0)
+        if (unmatched > QTY_EPSILON) addRow(unmatched, 0)
+    }
+
+    oldestFirst.forEach((tx) => {
+        // The fee comes out of the BNB held before this fill, worth its USD value
+        if (tx.feeAsset === 'BNB' && tx.feeAmount && tx.feeAmount > 0) {
+            dispose(BNB_SYMBOL, tx.feeAmount, tx.fee, tx.timestamp)
+        }
+
+        const symbolLots = lots[tx.symbol] ?? []
+
+        if (tx.type === 'buy') {
+            // The buy fee is part of what the lot cost
+            lots[tx.symbol] = [...symbolLots, {
+                id: tx.id,
+                symbol: tx.symbol,
+                tradeId: tx.tradeId ?? tx.id,
+                quantity: tx.amount,
+                price: (tx.total + tx.fee) / tx.amount,
+                acquiredAt: tx.timestamp,
+            }]
+            return
+        }
+
+        dispose(tx.symbol, tx.amount, tx.total - tx.fee, tx.timestamp)
+    })
+
+    const reported = year === undefined ? rows : rows.filter(r => r.disposedAt.getFullYear() === year)
+    const shortTerm = reported.filter(r => r.term === 'short')
+    const longTerm = reported.filter(r => r.term === 'long')
+
+    return {
+        method,
+        rows: reported,
+        shortTerm: sumRows(shortTerm),
+        longTerm: sumRows(longTerm),
+        total: sumRows(reported),
+    }
+}
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100
+}
+
+function formatFormDate(date: Date | undefined): string {
+    if (!date) return 'UNKNOWN'
+
+    const month = String(date.getMonth() + 1).padStart(2, '0')
+    const day = String(date.getDate()).padStart(2, '0')
+    return `${month}/${day}/${date.getFullYear()}`
+}
+
+export function realizedGainsToCsv(report: RealizedGainsReport): string {
+    // Form 8949 lists short-term (Part I) before long-term (Part II)
+    const ordered = [
+        ...report.rows.filter(r => r.term === 'short'),
+        ...report.rows.filter(r => r.term === 'long'),
+    ]
+
+    return toCsv(GAINS_COLUMNS, ordered.map(row => [
+        row.description,
+        formatFormDate(row.acquiredAt),
+        formatFormDate(row.disposedAt),
+        roundCents(row.proceeds),
+        roundCents(row.costBasis),
+        roundCents(row.gain),
+        row.term === 'long' ? 'Long-term' : 'Short-term',
+    ]))
+}
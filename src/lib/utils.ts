@@ -65,6 +65,20 @@ export function formatRelativeTime(date: Date): string {
     return 'Just now'
 }
 
+/**
+ * Format a duration in ms with its two largest units (e.g., "3d 4h")
+ */
+export function formatDuration(ms: number): string {
+    const minutes = Math.floor(ms / 60000)
+    const hours = Math.floor(minutes / 60)
+    const days = Math.floor(hours / 24)
+
+    if (days > 0) return `${days}d ${hours % 24}h`
+    if (hours > 0) return `${hours}h ${minutes % 60}m`
+    if (minutes > 0) return `${minutes}m`
+    return '<1m'
+}
+
 /**
  * Debounce a function
  */
@@ -81,10 +95,65 @@ export function debounce<T extends (...args: any[]) => any>(
 }
 
 /**
- * Generate a random ID
+ * Throttle a callback to its latest argument, delivered on an animation frame.
+ * Used to batch high-frequency market data updates.
+ */
+export function createThrottledCallback<T>(
+    callback: (data: T) => void,
+    intervalMs: number = 250
+): { call: (data: T) => void; flush: () => void; cancel: () => void } {
+    let lastData: T | null = null
+    let timeoutId: ReturnType<typeof setTimeout> | null = null
+    let rafId: number | null = null
+
+    const flush = () => {
+        if (lastData !== null) {
+            // Use RAF for smooth visual updates
+            rafId = requestAnimationFrame(() => {
+                callback(lastData!)
+                lastData = null
+            })
+        }
+    }
+
+    const call = (data: T) => {
+        lastData = data
+        if (!timeoutId) {
+            timeoutId = setTimeout(() => {
+                flush()
+                timeoutId = null
+            }, intervalMs)
+        }
+    }
+
+    const cancel = () => {
+        if (timeoutId) {
+            clearTimeout(timeoutId)
+            timeoutId = null
+        }
+        if (rafId) {
+            cancelAnimationFrame(rafId)
+            rafId = null
+        }
+        lastData = null
+    }
+
+    return { call, flush, cancel }
+}
+
+// Tells apart ids made in the same millisecond when crypto.randomUUID is missing
+let idCounter = 0
+
+/**
+ * Generate a unique ID. Deliberately not from the seeded generator: replaying
+ * a seed would hand out ids that saved records already use.
  */
 export function generateId(): string {
-    return Math.random().toString(36).substring(2) + Date.now().toString(36)
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID()
+    }
+    idCounter = (idCounter + 1) % 1296
+    return Date.now().toString(36) + idCounter.toString(36).padStart(2, '0') + Math.random().toString(36).substring(2, 8)
 }
 
 /**
@@ -100,3 +169,15 @@ export function sleep(ms: number): Promise<void> {
 export function clamp(value: number, min: number, max: number): number {
     return Math.min(Math.max(value, min), max)
 }
+
+/**
+ * Save text as a file through the browser's download prompt
+ */
+export function downloadFile(filename: string, content: string, type: string): void {
+    const url = URL.createObjectURL(new Blob([content], { type }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    URL.revokeObjectURL(url)
+}
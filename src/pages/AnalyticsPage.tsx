@@ -0,0 +1,195 @@
+import { useState, useEffect, useMemo } from 'react'
+import { Activity, AlertCircle, CalendarDays, LineChart, Loader2, PieChart } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Card, Alert } from '@/components/ui'
+import { PerformanceChart, MonthlyReturnsHeatmap, ExposureBreakdown } from '@/components/analytics'
+import { useWalletStore, Transaction } from '@/stores/walletStore'
+import { getTransactionHistory } from '@/services/ledger'
+import { marketData, selectMarketDataKey } from '@/services/marketData'
+import { useMarketDataStore } from '@/stores/marketDataStore'
+import {
+    PriceHistory,
+    buildPerformanceReport,
+    getCurrentRun,
+    getHistoryDays,
+    getTradedSymbols,
+} from '@/lib/performanceAnalytics'
+import { formatDuration, formatPercent } from '@/lib/utils'
+
+function formatRatio(value: number | undefined): string {
+    return value === undefined ? '—' : value.toFixed(2)
+}
+
+export default function AnalyticsPage() {
+    const { activePortfolioId, transactions: recentTransactions, getActivePortfolio } = useWalletStore()
+    const marketDataKey = useMarketDataStore(selectMarketDataKey)
+
+    const [history, setHistory] = useState<Transaction[] | null>(null)
+    const [prices, setPrices] = useState<PriceHistory | null>(null)
+    const [missingPrices, setMissingPrices] = useState<string[]>([])
+
+    // The ledger has the full history; the store only the most recent part
+    useEffect(() => {
+        let cancelled = false
+
+        getTransactionHistory(activePortfolioId)
+            .catch((error) => {
+                console.error('Error loading transaction history:', error)
+                return []
+            })
+            .then((ledger) => {
+                if (!cancelled) setHistory(getCurrentRun(ledger.length > 0 ? ledger : recentTransactions))
+            })
+
+        return () => { cancelled = true }
+    }, [activePortfolioId, recentTransactions])
+
+    // Daily closes of every traded symbol over the whole history
+    useEffect(() => {
+        if (!history) return
+        let cancelled = false
+
+        const symbols = getTradedSymbols(history)
+        const days = getHistoryDays(history)
+
+        Promise.allSettled(symbols.map(symbol => marketData.fetchHistoricalKlines(symbol, '1d', days))).then((results) => {
+            if (cancelled) return
+
+            const loaded: PriceHistory = {}
+            const missing: string[] = []
+            results.forEach((result, i) => {
+                if (result.status === 'fulfilled') {
+                    loaded[symbols[i]] = result.value
+                } else {
+                    console.error(`Error loading klines for ${symbols[i]}:`, result.reason)
+                    missing.push(symbols[i])
+                }
+            })
+
+            setPrices(loaded)
+            setMissingPrices(missing)
+        })
+
+        return () => { cancelled = true }
+    }, [history, marketDataKey])
+
+    const report = useMemo(
+        () => history && prices ? buildPerformanceReport(history, prices) : null,
+        [history, prices]
+    )
+
+    if (!report) {
+        return (
+            <div className="min-h-screen pt-20 pb-8 px-4 flex justify-center items-center">
+                <Loader2 size={24} className="animate-spin text-text-muted" />
+            </div>
+        )
+    }
+
+    const stats: { label: string; value: string; hint: string; tone?: 'good' | 'bad' }[] = [
+        {
+            label: 'Total return',
+            value: formatPercent(report.totalReturn),
+            hint: 'Time-weighted, deposits excluded',
+            tone: report.totalReturn >= 0 ? 'good' : 'bad',
+        },
+        {
+            label: 'Max drawdown',
+            value: `-${report.maxDrawdown.toFixed(2)}%`,
+            hint: 'Deepest fall from a peak',
+            tone: report.maxDrawdown > 0 ? 'bad' : undefined,
+        },
+        { label: 'Sharpe ratio', value: formatRatio(report.sharpe), hint: 'Annualized return per unit of volatility' },
+        { label: 'Sortino ratio', value: formatRatio(report.sortino), hint: 'Like Sharpe, counting only losing days' },
+        {
+            label: 'Win rate',
+            value: report.trades > 0 ? `${report.winRate.toFixed(0)}%` : '—',
+            hint: `${report.wins} wins, ${report.losses} losses`,
+        },
+        { label: 'Win/loss ratio', value: formatRatio(report.winLossRatio), hint: 'Average win over average loss' },
+        {
+            label: 'Profit factor',
+            value: report.profitFactor !== undefined ? report.profitFactor.toFixed(2) : report.wins > 0 ? '∞' : '—',
+            hint: 'Gross profit over gross loss',
+            tone: report.profitFactor === undefined ? undefined : report.profitFactor >= 1 ? 'good' : 'bad',
+        },
+        {
+            label: 'Avg holding time',
+            value: report.avgHoldingTime !== undefined ? formatDuration(report.avgHoldingTime) : '—',
+            hint: `Over ${report.trades} closed trades`,
+        },
+    ]
+
+    return (
+        <div className="min-h-screen pt-20 pb-8 px-4">
+            <div className="container mx-auto max-w-6xl space-y-6">
+                <div className="flex items-center gap-3">
+                    <div className="p-2 bg-accent-primary/20 rounded-lg">
+                        <Activity size={24} className="text-accent-primary" />
+                    </div>
+                    <div>
+                        <h1 className="text-2xl font-bold">Performance Analytics</h1>
+                        <p className="text-sm text-text-muted">
+                            {getActivePortfolio().name} · since the last wallet reset, valued at daily closes
+                        </p>
+                    </div>
+                </div>
+
+                {missingPrices.length > 0 && (
+                    <Alert variant="warning">
+                        <AlertCircle size={20} />
+                        <p className="text-sm">
+                            Price history for {missingPrices.join(', ')} could not be loaded; those holdings are valued at their last traded price.
+                        </p>
+                    </Alert>
+                )}
+
+                <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+                    {stats.map(({ label, value, hint, tone }) => (
+                        <Card key={label}>
+                            <p className="text-sm text-text-secondary">{label}</p>
+                            <p className={clsx(
+                                'text-2xl font-bold font-mono mt-1',
+                                tone === 'good' && 'text-success',
+                                tone === 'bad' && 'text-danger'
+                            )}>
+                                {value}
+                            </p>
+                            <p className="text-xs text-text-muted mt-1">{hint}</p>
+                        </Card>
+                    ))}
+                </div>
+
+                <Card>
+                    <div className="flex items-center gap-2 mb-4">
+                        <LineChart size={20} className="text-accent-primary" />
+                        <h3 className="text-lg font-semibold">Equity Curve</h3>
+                    </div>
+                    <PerformanceChart
+                        equity={report.equity}
+                        drawdownPeak={report.drawdownPeak}
+                        drawdownTrough={report.drawdownTrough}
+                    />
+                </Card>
+
+                <div className="grid lg:grid-cols-3 gap-6">
+                    <Card className="lg:col-span-2">
+                        <div className="flex items-center gap-2 mb-4">
+                            <CalendarDays size={20} className="text-accent-primary" />
+                            <h3 className="text-lg font-semibold">Monthly Returns</h3>
+                        </div>
+                        <MonthlyReturnsHeatmap returns={report.monthlyReturns} />
+                    </Card>
+
+                    <Card>
+                        <div className="flex items-center gap-2 mb-4">
+                            <PieChart size={20} className="text-accent-secondary" />
+                            <h3 className="text-lg font-semibold">Exposure by Asset</h3>
+                        </div>
+                        <ExposureBreakdown exposure={report.exposure} />
+                    </Card>
+                </div>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,249 @@
+import { useState, useEffect, useMemo } from 'react'
+import { BookOpen, Image as ImageIcon, Loader2, PenLine, Search, Tags } from 'lucide-react'
+import { clsx } from 'clsx'
+import { Card, CardHeader, CardTitle, CardDescription, Badge, Input, Select, Modal } from '@/components/ui'
+import { JournalEditor, TagStatsTable } from '@/components/journal'
+import { useWalletStore, Transaction } from '@/stores/walletStore'
+import { getTransactionHistory } from '@/services/ledger'
+import { calculateTagStats, getTradeOutcome } from '@/lib/journalStats'
+
+const TRADE_LABELS: Partial<Record<Transaction['type'], string>> = {
+    buy: 'Bought',
+    sell: 'Sold',
+    'margin-open': 'Opened',
+    'margin-close': 'Closed',
+    liquidation: 'Liquidated',
+}
+
+// Deposits and bonuses are not trades
+const JOURNAL_TYPES = Object.keys(TRADE_LABELS)
+
+function formatUsd(value: number): string {
+    return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`
+}
+
+export default function JournalPage() {
+    const { activePortfolioId, transactions: recentTransactions, journalEntries } = useWalletStore()
+
+    const [history, setHistory] = useState<Transaction[] | null>(null)
+    const [search, setSearch] = useState('')
+    const [tagFilter, setTagFilter] = useState('')
+    const [onlyJournaled, setOnlyJournaled] = useState(false)
+    const [editing, setEditing] = useState<Transaction | null>(null)
+
+    // The ledger has the full history; the store only the most recent part
+    useEffect(() => {
+        let cancelled = false
+
+        getTransactionHistory(activePortfolioId)
+            .catch((error) => {
+                console.error('Error loading transaction history:', error)
+                return []
+            })
+            .then((ledger) => {
+                if (!cancelled) setHistory(ledger.length > 0 ? ledger : [...recentTransactions].reverse())
+            })
+
+        return () => { cancelled = true }
+    }, [activePortfolioId, recentTransactions])
+
+    const trades = useMemo(
+        () => (history ?? []).filter(tx => JOURNAL_TYPES.includes(tx.type)).reverse(),
+        [history]
+    )
+
+    const entriesByTransaction = useMemo(
+        () => new Map(journalEntries.map(entry => [entry.transactionId, entry])),
+        [journalEntries]
+    )
+
+    const tagStats = useMemo(() => {
+        const byId = new Map(trades.map(tx => [tx.id, tx]))
+        return calculateTagStats(journalEntries.map(entry => getTradeOutcome(entry, byId.get(entry.transactionId))))
+    }, [trades, journalEntries])
+
+    const filtered = useMemo(() => {
+        const query = search.trim().toLowerCase()
+
+        return trades.filter((tx) => {
+            const entry = entriesByTransaction.get(tx.id)
+            if ((onlyJournaled || tagFilter) && !entry) return false
+            if (tagFilter && !entry!.tags.includes(tagFilter)) return false
+            if (!query) return true
+
+            return [tx.symbol, tx.name, entry?.note ?? '', ...(entry?.tags ?? [])]
+                .some(text => text.toLowerCase().includes(query))
+        })
+    }, [trades, entriesByTransaction, search, tagFilter, onlyJournaled])
+
+    const editingEntry = editing ? entriesByTransaction.get(editing.id) : undefined
+
+    return (
+        <div className="min-h-screen pt-20 pb-8 px-4">
+            <div className="container mx-auto max-w-6xl">
+                <div className="flex items-center gap-3 mb-6">
+                    <div className="p-2 bg-accent-primary/20 rounded-lg">
+                        <BookOpen size={24} className="text-accent-primary" />
+                    </div>
+                    <div>
+                        <h1 className="text-2xl font-bold">Trading Journal</h1>
+                        <p className="text-sm text-text-muted">Annotate your trades and learn which setups work for you</p>
+                    </div>
+                </div>
+
+                <div className="grid lg:grid-cols-3 gap-6">
+                    {/* Trades */}
+                    <div className="lg:col-span-2 space-y-4">
+                        <Card>
+                            <div className="grid sm:grid-cols-2 gap-3">
+                                <div className="relative">
+                                    <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-text-muted" />
+                                    <Input
+                                        value={search}
+                                        onChange={(e) => setSearch(e.target.value)}
+                                        placeholder="Search symbols, notes and tags"
+                                        className="pl-9"
+                                    />
+                                </div>
+                                <Select
+                                    options={[
+                                        { value: '', label: 'All tags' },
+                                        ...tagStats.map(s => ({ value: s.tag, label: `#${s.tag}` })),
+                                    ]}
+                                    value={tagFilter}
+                                    onChange={setTagFilter}
+                                />
+                            </div>
+                            <label className="flex items-center gap-2 mt-3 text-sm text-text-secondary cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    checked={onlyJournaled}
+                                    onChange={(e) => setOnlyJournaled(e.target.checked)}
+                                    className="rounded"
+                                />
+                                Only journaled trades
+                            </label>
+                        </Card>
+
+                        {!history ? (
+                            <div className="flex justify-center py-8">
+                                <Loader2 size={20} className="animate-spin text-text-muted" />
+                            </div>
+                        ) : filtered.length === 0 ? (
+                            <Card className="text-center py-12 text-text-muted">
+                                {trades.length === 0 ? 'Trades you make in the simulator show up here' : 'No trades match these filters'}
+                            </Card>
+                        ) : (
+                            <div className="space-y-3">
+                                {filtered.map((tx) => {
+                                    const entry = entriesByTransaction.get(tx.id)
+                                    const outcome = entry ? getTradeOutcome(entry, tx) : undefined
+
+                                    return (
+                                        <Card
+                                            key={tx.id}
+                                            onClick={() => setEditing(tx)}
+                                            className="cursor-pointer hover:border-accent-primary/30 transition-colors"
+                                        >
+                                            <div className="flex items-start justify-between gap-4">
+                                                <div className="min-w-0">
+                                                    <div className="flex items-center gap-2">
+                                                        <span className="font-medium">
+                                                            {TRADE_LABELS[tx.type]} {tx.amount.toFixed(6)} {tx.symbol.replace('USDT', '')}
+                                                        </span>
+                                                        {tx.positionSide && (
+                                                            <Badge variant={tx.positionSide === 'long' ? 'success' : 'danger'}>
+                                                                {tx.positionSide}
+                                                            </Badge>
+                                                        )}
+                                                    </div>
+                                                    <p className="text-xs text-text-muted">
+                                                        @ ${tx.price.toFixed(2)} · {tx.timestamp.toLocaleString()}
+                                                    </p>
+                                                </div>
+                                                <div className="text-right shrink-0">
+                                                    {tx.realizedPnl !== undefined && (
+                                                        <p className={clsx(
+                                                            'font-mono text-sm',
+                                                            tx.realizedPnl - tx.fee >= 0 ? 'text-success' : 'text-danger'
+                                                        )}>
+                                                            {formatUsd(tx.realizedPnl - tx.fee)}
+                                                        </p>
+                                                    )}
+                                                    {outcome?.r !== undefined && (
+                                                        <p className="text-xs font-mono text-text-muted">{outcome.r.toFixed(2)}R</p>
+                                                    )}
+                                                </div>
+                                            </div>
+
+                                            {entry ? (
+                                                <div className="mt-3 pt-3 border-t border-white/5">
+                                                    {entry.note && (
+                                                        <p className="text-sm text-text-secondary whitespace-pre-wrap">{entry.note}</p>
+                                                    )}
+                                                    <div className="flex flex-wrap items-center gap-2 mt-2">
+                                                        {entry.tags.map(tag => (
+                                                            <Badge key={tag} variant="info">#{tag}</Badge>
+                                                        ))}
+                                                        {entry.snapshotId && (
+                                                            <span className="flex items-center gap-1 text-xs text-text-muted">
+                                                                <ImageIcon size={12} />
+                                                                Snapshot
+                                                            </span>
+                                                        )}
+                                                    </div>
+                                                </div>
+                                            ) : (
+                                                <p className="flex items-center gap-1 mt-3 text-xs text-text-muted">
+                                                    <PenLine size={12} />
+                                                    Add a note
+                                                </p>
+                                            )}
+                                        </Card>
+                                    )
+                                })}
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Tag statistics */}
+                    <div>
+                        <Card>
+                            <CardHeader>
+                                <CardTitle className="flex items-center gap-2 text-lg">
+                                    <Tags size={18} />
+                                    Tag statistics
+                                </CardTitle>
+                                <CardDescription>
+                                    Results of journaled sells and closes, after fees. Add a planned risk to see R multiples.
+                                </CardDescription>
+                            </CardHeader>
+                            <TagStatsTable
+                                stats={tagStats}
+                                selectedTag={tagFilter}
+                                onSelectTag={(tag) => setTagFilter(tag === tagFilter ? '' : tag)}
+                            />
+                        </Card>
+                    </div>
+                </div>
+            </div>
+
+            <Modal
+                isOpen={editing !== null}
+                onClose={() => setEditing(null)}
+                title={editingEntry ? 'Edit journal entry' : 'New journal entry'}
+                description={editing ? `${TRADE_LABELS[editing.type]} ${editing.symbol.replace('USDT', '')} · ${editing.timestamp.toLocaleString()}` : undefined}
+                size="lg"
+            >
+                {editing && (
+                    <JournalEditor
+                        key={editing.id}
+                        transaction={editing}
+                        entry={editingEntry}
+                        onClose={() => setEditing(null)}
+                    />
+                )}
+            </Modal>
+        </div>
+    )
+}
@@ -15,12 +15,18 @@ import {
     Crown,
     Mail,
     Save,
-    Loader2
+    Loader2,
+    Gauge,
+    Database
 } from 'lucide-react'
 import { Card, Button, Badge, Input, Alert, Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui'
 import { useAuthStore } from '@/stores/authStore'
 import { useThemeStore } from '@/stores/themeStore'
 import { useWalletStore } from '@/stores/walletStore'
+import { AccountTransfer } from '@/components/settings'
+import { SLIPPAGE_MODELS } from '@/lib/slippageModels'
+import { MAX_HISTORY_DAYS, useMarketDataStore } from '@/stores/marketDataStore'
+import { ENV_MARKET_DATA_SOURCE, MARKET_DATA_SOURCES, selectMarketDataSource } from '@/services/marketData'
 import { clsx } from 'clsx'
 
 const THEMES = [
@@ -31,6 +37,10 @@ const THEMES = [
     { id: 'forest', label: 'Forest', emoji: '🌲' },
 ]
 
+// datetime-local values, read and written as UTC
+const toUtcInput = (time: number) => new Date(time).toISOString().slice(0, 16)
+const fromUtcInput = (value: string) => Date.parse(`${value}:00Z`)
+
 const LANGUAGES = [
     { code: 'en', label: 'English', flag: '🇬🇧' },
     { code: 'nl', label: 'Nederlands', flag: '🇳🇱' },
@@ -44,7 +54,17 @@ export default function SettingsPage() {
     const { t, i18n } = useTranslation()
     const { theme, setTheme } = useThemeStore()
     const { user, isAuthenticated, updateProfile, logout, openLoginModal } = useAuthStore()
-    const { userTier, balance } = useWalletStore()
+    const {
+        userTier,
+        balance,
+        slippageEnabled,
+        slippagePercent,
+        slippageModel,
+        setSlippage,
+        setSlippageModel,
+        session,
+        resetWallet,
+    } = useWalletStore()
 
     const [displayName, setDisplayName] = useState(user?.displayName || '')
     const [email, setEmail] = useState(user?.email || '')
@@ -52,6 +72,23 @@ export default function SettingsPage() {
     const [emailUpdates, setEmailUpdates] = useState(user?.preferences?.emailUpdates ?? false)
     const [isSaving, setIsSaving] = useState(false)
     const [saved, setSaved] = useState(false)
+    const [seedInput, setSeedInput] = useState('')
+
+    const marketDataSettings = useMarketDataStore()
+    const marketDataSource = selectMarketDataSource(marketDataSettings)
+    const [historySymbols, setHistorySymbols] = useState(marketDataSettings.historySymbols.join(', '))
+    const [historyStart, setHistoryStart] = useState(toUtcInput(marketDataSettings.historyStart))
+    const [historyEnd, setHistoryEnd] = useState(toUtcInput(marketDataSettings.historyEnd))
+    const [historyError, setHistoryError] = useState<string | null>(null)
+
+    const handleApplyHistory = () => {
+        const result = marketDataSettings.setHistory(
+            historySymbols.split(','),
+            fromUtcInput(historyStart),
+            fromUtcInput(historyEnd)
+        )
+        setHistoryError(result.success ? null : result.error || 'Invalid replay range')
+    }
 
     const handleSaveProfile = async () => {
         if (!user) return
@@ -127,6 +164,12 @@ export default function SettingsPage() {
                         <TabsTrigger value="notifications" className="gap-2">
                             <Bell size={16} /> Notifications
                         </TabsTrigger>
+                        <TabsTrigger value="trading" className="gap-2">
+                            <Gauge size={16} /> Trading
+                        </TabsTrigger>
+                        <TabsTrigger value="data" className="gap-2">
+                            <Database size={16} /> Data
+                        </TabsTrigger>
                         <TabsTrigger value="subscription" className="gap-2">
                             <Crown size={16} /> Subscription
                         </TabsTrigger>
@@ -324,6 +367,218 @@ export default function SettingsPage() {
                         </Card>
                     </TabsContent>
 
+                    {/* Trading Tab */}
+                    <TabsContent value="trading">
+                        <Card>
+                            <h3 className="text-lg font-semibold mb-6">Order Execution</h3>
+
+                            <div className="space-y-4">
+                                <div className="flex items-center justify-between p-4 bg-bg-tertiary rounded-card">
+                                    <div>
+                                        <p className="font-medium">Simulate slippage</p>
+                                        <p className="text-sm text-text-muted">Market orders fill at a worse price than quoted</p>
+                                    </div>
+                                    <button
+                                        onClick={() => setSlippage(!slippageEnabled)}
+                                        className={clsx(
+                                            'relative w-12 h-6 rounded-full transition-colors',
+                                            slippageEnabled ? 'bg-accent-primary' : 'bg-bg-secondary'
+                                        )}
+                                    >
+                                        <motion.div
+                                            className="absolute top-1 w-4 h-4 bg-white rounded-full"
+                                            animate={{ left: slippageEnabled ? 28 : 4 }}
+                                            transition={{ type: 'spring', stiffness: 500, damping: 30 }}
+                                        />
+                                    </button>
+                                </div>
+
+                                <div className="grid sm:grid-cols-2 gap-3">
+                                    {Object.values(SLIPPAGE_MODELS).map((model) => (
+                                        <button
+                                            key={model.id}
+                                            onClick={() => setSlippageModel(model.id)}
+                                            disabled={!slippageEnabled}
+                                            className={clsx(
+                                                'p-4 rounded-card border-2 transition-all text-left disabled:opacity-50',
+                                                slippageModel === model.id
+                                                    ? 'border-accent-primary bg-accent-primary/10'
+                                                    : 'border-transparent bg-bg-tertiary hover:border-white/20'
+                                            )}
+                                        >
+                                            <div className="flex items-center justify-between">
+                                                <span className="font-medium">{model.label}</span>
+                                                {slippageModel === model.id && (
+                                                    <Check size={16} className="text-accent-primary" />
+                                                )}
+                                            </div>
+                                            <p className="text-sm text-text-muted mt-1">{model.description}</p>
+                                        </button>
+                                    ))}
+                                </div>
+
+                                <Input
+                                    label="Slippage (%)"
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={slippagePercent}
+                                    disabled={!slippageEnabled}
+                                    onChange={(e) => setSlippage(slippageEnabled, Math.max(parseFloat(e.target.value) || 0, 0))}
+                                    hint="Used by the fixed and volatility-scaled models, and when no volume data is available"
+                                />
+                            </div>
+                        </Card>
+
+                        {/* Simulation Session */}
+                        <Card className="mt-6">
+                            <h3 className="text-lg font-semibold mb-2">Simulation Session</h3>
+                            <p className="text-sm text-text-muted mb-4">
+                                Slippage, simulated order books and AI answers follow the session seed.
+                                Start a session with the same seed to replay it exactly.
+                            </p>
+
+                            <div className="p-4 bg-bg-tertiary rounded-card mb-4 flex items-center justify-between">
+                                <span className="text-sm text-text-muted">Current seed</span>
+                                <span className="font-mono">{session.seed}</span>
+                            </div>
+
+                            <div className="flex gap-3 items-end">
+                                <Input
+                                    label="Seed"
+                                    type="number"
+                                    value={seedInput}
+                                    onChange={(e) => setSeedInput(e.target.value)}
+                                    placeholder="Random"
+                                    hint="Starting a new session resets the wallet"
+                                />
+                                <Button
+                                    variant="danger"
+                                    onClick={() => {
+                                        resetWallet(seedInput ? parseInt(seedInput, 10) : undefined)
+                                        setSeedInput('')
+                                    }}
+                                >
+                                    New Session
+                                </Button>
+                            </div>
+                        </Card>
+
+                        {/* Market Data */}
+                        <Card className="mt-6">
+                            <h3 className="text-lg font-semibold mb-2">Market Data</h3>
+                            <p className="text-sm text-text-muted mb-4">
+                                Where prices, candles and order books come from. The offline sources need no internet connection.
+                            </p>
+
+                            {ENV_MARKET_DATA_SOURCE && (
+                                <Alert variant="info" className="mb-4">
+                                    <p className="text-sm">
+                                        This build is fixed to {MARKET_DATA_SOURCES[ENV_MARKET_DATA_SOURCE].label} by VITE_MARKET_DATA.
+                                    </p>
+                                </Alert>
+                            )}
+
+                            <div className="grid sm:grid-cols-2 gap-3">
+                                {Object.values(MARKET_DATA_SOURCES).map((source) => (
+                                    <button
+                                        key={source.id}
+                                        onClick={() => marketDataSettings.setSource(source.id)}
+                                        disabled={ENV_MARKET_DATA_SOURCE !== null}
+                                        className={clsx(
+                                            'p-4 rounded-card border-2 transition-all text-left disabled:opacity-50',
+                                            marketDataSource === source.id
+                                                ? 'border-accent-primary bg-accent-primary/10'
+                                                : 'border-transparent bg-bg-tertiary hover:border-white/20'
+                                        )}
+                                    >
+                                        <div className="flex items-center justify-between">
+                                            <span className="font-medium">{source.label}</span>
+                                            {marketDataSource === source.id && (
+                                                <Check size={16} className="text-accent-primary" />
+                                            )}
+                                        </div>
+                                        <p className="text-sm text-text-muted mt-1">{source.description}</p>
+                                    </button>
+                                ))}
+                            </div>
+
+                            {marketDataSource === 'synthetic' && (
+                                <div className="grid sm:grid-cols-2 gap-3 mt-4">
+                                    <Input
+                                        label="Volatility (% per year)"
+                                        type="number"
+                                        step="1"
+                                        min="0"
+                                        value={marketDataSettings.syntheticVolatility}
+                                        onChange={(e) => marketDataSettings.setSynthetic({
+                                            syntheticVolatility: Math.max(parseFloat(e.target.value) || 0, 0),
+                                        })}
+                                    />
+                                    <Input
+                                        label="Price seed"
+                                        type="number"
+                                        value={marketDataSettings.syntheticSeed}
+                                        onChange={(e) => marketDataSettings.setSynthetic({
+                                            syntheticSeed: parseInt(e.target.value, 10) || 0,
+                                        })}
+                                        hint="Changing the seed starts a new price history"
+                                    />
+                                </div>
+                            )}
+
+                            {marketDataSource === 'replay' && (
+                                <div className="mt-4">
+                                    <Input
+                                        label="Recording URL"
+                                        defaultValue={marketDataSettings.replayFile}
+                                        onBlur={(e) => marketDataSettings.setReplayFile(e.target.value)}
+                                        hint="A JSON file of 1m candles and optional trades per symbol"
+                                    />
+                                </div>
+                            )}
+
+                            {marketDataSource === 'history' && (
+                                <div className="mt-4 space-y-3">
+                                    <Input
+                                        label="Symbols"
+                                        value={historySymbols}
+                                        onChange={(e) => setHistorySymbols(e.target.value)}
+                                        hint="Comma-separated, e.g. BTCUSDT, ETHUSDT"
+                                    />
+                                    <div className="grid sm:grid-cols-2 gap-3">
+                                        <Input
+                                            label="Start (UTC)"
+                                            type="datetime-local"
+                                            value={historyStart}
+                                            onChange={(e) => setHistoryStart(e.target.value)}
+                                        />
+                                        <Input
+                                            label="End (UTC)"
+                                            type="datetime-local"
+                                            value={historyEnd}
+                                            onChange={(e) => setHistoryEnd(e.target.value)}
+                                            hint={`At most ${MAX_HISTORY_DAYS} days`}
+                                        />
+                                    </div>
+                                    {historyError && (
+                                        <Alert variant="danger">
+                                            <p className="text-sm">{historyError}</p>
+                                        </Alert>
+                                    )}
+                                    <Button onClick={handleApplyHistory}>
+                                        Load Range
+                                    </Button>
+                                </div>
+                            )}
+                        </Card>
+                    </TabsContent>
+
+                    {/* Data Tab */}
+                    <TabsContent value="data">
+                        <AccountTransfer />
+                    </TabsContent>
+
                     {/* Subscription Tab */}
                     <TabsContent value="subscription">
                         <div className="space-y-6">
@@ -15,17 +15,101 @@ import {
     Gift,
     Crown,
     ChevronDown,
-    ExternalLink
+    ExternalLink,
+    Clock,
+    X
 } from 'lucide-react'
-import { Card, Button, Badge, Alert, Input, Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui'
-import { useWalletStore, Transaction } from '@/stores/walletStore'
-import { useTradingStore, CRYPTO_ASSETS } from '@/stores/tradingStore'
-import { fetchMultipleTickers, TickerData } from '@/services/binanceWebSocket'
+import { Card, Button, Badge, Alert, Input, Modal, Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui'
+import { useWalletStore, Transaction, QUOTE_ASSET } from '@/stores/walletStore'
+import { useTradingStore } from '@/stores/tradingStore'
+import { useAssetStore } from '@/stores/assetStore'
+import { marketData, selectMarketDataKey, type TickerData } from '@/services/marketData'
+import { useMarketDataStore } from '@/stores/marketDataStore'
+import { useReplayStore } from '@/stores/replayStore'
 import { clsx } from 'clsx'
+import { AssetSearch, ReplayControls } from '@/components/trading'
+import { MarginPanel, EquityCurve, PortfolioSwitcher, TransactionLedger, TradeReports } from '@/components/simulation'
+import { COST_BASIS_METHODS } from '@/lib/lotAccounting'
+import { roundToStep } from '@/entities'
+import type { CostBasisMethod, Order, OrderGroup, OrderStatus, TimeInForce, TrailingOffsetType } from '@/entities'
+
+type OrderFormType = 'market' | 'limit' | 'stop-limit' | 'trailing-stop' | 'oco' | 'bracket'
+
+// side restricts types that only make sense one way (exits protect holdings, brackets open them)
+const ORDER_FORM_TYPES: { value: OrderFormType; label: string; side?: 'buy' | 'sell' }[] = [
+    { value: 'market', label: 'Market' },
+    { value: 'limit', label: 'Limit' },
+    { value: 'stop-limit', label: 'Stop-Limit' },
+    { value: 'trailing-stop', label: 'Trailing', side: 'sell' },
+    { value: 'oco', label: 'OCO', side: 'sell' },
+    { value: 'bracket', label: 'Bracket', side: 'buy' },
+]
+
+const TIME_IN_FORCE_OPTIONS: { value: TimeInForce; title: string }[] = [
+    { value: 'GTC', title: 'Good till cancelled' },
+    { value: 'IOC', title: 'Immediate or cancel: fill now, cancel the rest' },
+    { value: 'FOK', title: 'Fill or kill: fill entirely now or reject' },
+    { value: 'GTD', title: 'Good till date' },
+]
+
+const ORDER_STATUS_BADGE: Partial<Record<OrderStatus, 'success' | 'danger' | 'warning' | 'default'>> = {
+    filled: 'success',
+    rejected: 'danger',
+    expired: 'warning',
+    cancelled: 'default',
+}
+
+const TRANSACTION_LABELS: Record<Transaction['type'], string> = {
+    buy: 'Bought',
+    sell: 'Sold',
+    deposit: 'Deposit',
+    bonus: 'Daily Bonus',
+    'margin-open': 'Opened',
+    'margin-close': 'Closed',
+    liquidation: 'Liquidated',
+}
+
+// Entries that take cash out of the wallet
+const OUTFLOW_TRANSACTIONS: Transaction['type'][] = ['buy', 'margin-open', 'liquidation']
+
+/**
+ * Label for an order that belongs to an OCO pair or bracket
+ */
+function describeOrderGroup(group: OrderGroup, order: Order): string {
+    if (group.type === 'oco') return 'OCO'
+    return group.entryOrderId === order.id ? 'Bracket entry' : 'Bracket exit'
+}
+
+/**
+ * Short price description for the open orders list
+ */
+function describeOrderPrice(order: Order): string {
+    switch (order.type) {
+        case 'stop-limit':
+            return `stop $${order.stopPrice!.toLocaleString()} → limit $${order.price!.toLocaleString()}${order.triggeredAt ? ' (triggered)' : ''}`
+        case 'trailing-stop': {
+            const offset = order.trailingOffsetType === 'percent'
+                ? `${order.trailingOffset}%`
+                : `$${order.trailingOffset!.toLocaleString()}`
+            return `trail ${offset} · stop $${order.stopPrice!.toFixed(2)}`
+        }
+        default:
+            return `@ $${(order.price ?? order.stopPrice ?? 0).toLocaleString()}`
+    }
+}
 
 export default function SimulationPage() {
     const { t } = useTranslation()
     const [tradeType, setTradeType] = useState<'buy' | 'sell'>('buy')
+    const [orderType, setOrderType] = useState<OrderFormType>('market')
+    const [limitPrice, setLimitPrice] = useState('')
+    const [stopPrice, setStopPrice] = useState('')
+    const [trailingOffset, setTrailingOffset] = useState('')
+    const [trailingOffsetType, setTrailingOffsetType] = useState<TrailingOffsetType>('percent')
+    const [takeProfitPrice, setTakeProfitPrice] = useState('')
+    const [stopLossPrice, setStopLossPrice] = useState('')
+    const [timeInForce, setTimeInForce] = useState<TimeInForce>('GTC')
+    const [expiresAt, setExpiresAt] = useState('')
     const [amount, setAmount] = useState('')
     const [selectedCrypto, setSelectedCrypto] = useState('BTCUSDT')
     const [cryptoDropdownOpen, setCryptoDropdownOpen] = useState(false)
@@ -33,33 +117,72 @@ export default function SimulationPage() {
     const [isLoadingPrices, setIsLoadingPrices] = useState(true)
     const [tradeError, setTradeError] = useState<string | null>(null)
     const [tradeSuccess, setTradeSuccess] = useState<string | null>(null)
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false)
+    const [isReportsOpen, setIsReportsOpen] = useState(false)
+
+    const { getAsset, getWatchlistAssets } = useAssetStore()
 
     const {
         balance,
-        holdings,
+        positions,
         transactions,
         buy,
         sell,
+        placeLimitOrder,
+        placeStopLimit,
+        placeTrailingStop,
+        placeOcoOrder,
+        placeBracketOrder,
+        cancelOrder,
+        checkAndExecuteOrders,
+        updateMarginPositions,
+        recordValueSnapshot,
+        updateMarketConditions,
         claimDailyBonus,
         resetWallet,
         getPortfolioMetrics,
-        getHoldingsWithValue,
+        getPortfolio,
+        getOpenOrders,
+        getOrderHistory,
+        getOpenOrderGroups,
+        getWalletBalance,
+        costBasisMethod,
+        setCostBasisMethod,
+        getTradingFee,
+        payFeesInBnb,
+        setPayFeesInBnb,
         userTier,
         lastBonusClaim
     } = useWalletStore()
 
+    const marketDataKey = useMarketDataStore(selectMarketDataKey)
+    // A faster replay polls more often, so orders are checked every 10s of market time
+    const replaySpeed = useReplayStore((state) => state.active ? state.speed : 1)
+
     // Fetch current prices
     useEffect(() => {
         const fetchPrices = async () => {
             try {
-                const symbols = CRYPTO_ASSETS.map(a => a.symbol)
-                const tickers = await fetchMultipleTickers(symbols)
+                // Watchlisted pairs plus any still held, so every position is valued
+                const { positions, marginPositions } = useWalletStore.getState()
+                const symbols = [...new Set([
+                    ...useAssetStore.getState().watchlist,
+                    ...Object.keys(positions),
+                    ...marginPositions.map(p => p.symbol),
+                ])]
+                const tickers = await marketData.fetchMultipleTickers(symbols)
                 const priceMap: Record<string, number> = {}
                 tickers.forEach((ticker: TickerData) => {
                     priceMap[ticker.symbol] = ticker.price
                 })
                 setPrices(priceMap)
                 setIsLoadingPrices(false)
+                updateMarketConditions(tickers)
+
+                // Run pending orders through the matching engine on every price update
+                checkAndExecuteOrders(priceMap)
+                updateMarginPositions(priceMap)
+                recordValueSnapshot(priceMap)
             } catch (error) {
                 console.error('Error fetching prices:', error)
                 setIsLoadingPrices(false)
@@ -67,14 +190,29 @@ export default function SimulationPage() {
         }
 
         fetchPrices()
-        const interval = setInterval(fetchPrices, 10000) // Update every 10s
+        const interval = setInterval(fetchPrices, 10000 / replaySpeed) // Update every 10s
         return () => clearInterval(interval)
-    }, [])
+    }, [marketDataKey, replaySpeed, checkAndExecuteOrders, updateMarginPositions, recordValueSnapshot, updateMarketConditions])
 
-    const currentAsset = CRYPTO_ASSETS.find(a => a.symbol === selectedCrypto)
+    const currentAsset = getAsset(selectedCrypto)
     const currentPrice = prices[selectedCrypto] || 0
     const metrics = getPortfolioMetrics(prices)
-    const holdingsWithValue = getHoldingsWithValue(prices)
+
+    // Orders that rest on the book pay the maker rate, the rest take liquidity
+    const isMakerOrder = (orderType === 'limit' && (timeInForce === 'GTC' || timeInForce === 'GTD'))
+        || orderType === 'stop-limit'
+        || orderType === 'bracket'
+    const feeQuote = getTradingFee(isMakerOrder)
+    const portfolio = getPortfolio(prices)
+    const openOrders = getOpenOrders()
+    const orderHistory = getOrderHistory(10)
+    const openGroups = getOpenOrderGroups()
+    const pendingBrackets = openGroups.filter(g => g.status === 'pending')
+    const groupsById = new Map(openGroups.map(g => [g.id, g]))
+    const selectedPosition = positions[selectedCrypto]
+    const walletBalance = getWalletBalance(prices)
+    const cashBalance = walletBalance.balances[QUOTE_ASSET]
+    const availableQuantity = walletBalance.balances[selectedCrypto]?.free ?? 0
 
     // Calculate pie chart data
     const pieData = useMemo(() => {
@@ -91,19 +229,19 @@ export default function SimulationPage() {
         }
 
         // Add holdings
-        holdingsWithValue.forEach(h => {
-            if (h.currentValue > 0) {
+        portfolio.assets.forEach(a => {
+            if (a.value > 0) {
                 data.push({
-                    label: h.shortName,
-                    value: h.currentValue,
-                    color: h.color,
-                    percent: (h.currentValue / metrics.totalValue) * 100
+                    label: a.symbol.replace('USDT', ''),
+                    value: a.value,
+                    color: a.color,
+                    percent: (a.value / metrics.totalValue) * 100
                 })
             }
         })
 
         return data
-    }, [balance, holdingsWithValue, metrics.totalValue])
+    }, [balance, portfolio.assets, metrics.totalValue])
 
     const handleTrade = () => {
         setTradeError(null)
@@ -115,29 +253,23 @@ export default function SimulationPage() {
             return
         }
 
+        if (orderType !== 'market') {
+            handlePlaceOrder(amountNum)
+            return
+        }
+
         if (tradeType === 'buy') {
-            const asset = CRYPTO_ASSETS.find(a => a.symbol === selectedCrypto)
-            if (!asset) return
-
-            const result = buy(
-                selectedCrypto,
-                asset.name,
-                asset.shortName,
-                amountNum,
-                currentPrice,
-                asset.color
-            )
+            const result = buy(selectedCrypto, amountNum, currentPrice)
 
             if (result.success) {
                 const cryptoAmount = amountNum / currentPrice
-                setTradeSuccess(`Bought ${cryptoAmount.toFixed(6)} ${asset.shortName}`)
+                setTradeSuccess(`Bought ${cryptoAmount.toFixed(6)} ${currentAsset.shortName}`)
                 setAmount('')
             } else {
                 setTradeError(result.error || 'Trade failed')
             }
         } else {
-            const holding = holdings[selectedCrypto]
-            if (!holding) {
+            if (!selectedPosition) {
                 setTradeError('No holdings to sell')
                 return
             }
@@ -145,15 +277,15 @@ export default function SimulationPage() {
             // Amount is in USD value to sell
             const cryptoToSell = amountNum / currentPrice
 
-            if (cryptoToSell > holding.amount) {
-                setTradeError(`Max: ${(holding.amount * currentPrice).toFixed(2)} USD`)
+            if (cryptoToSell > availableQuantity) {
+                setTradeError(`Max: ${(availableQuantity * currentPrice).toFixed(2)} USD`)
                 return
             }
 
             const result = sell(selectedCrypto, cryptoToSell, currentPrice)
 
             if (result.success) {
-                setTradeSuccess(`Sold ${cryptoToSell.toFixed(6)} ${holding.shortName}`)
+                setTradeSuccess(`Sold ${cryptoToSell.toFixed(6)} ${currentAsset.shortName}`)
                 setAmount('')
             } else {
                 setTradeError(result.error || 'Trade failed')
@@ -161,6 +293,69 @@ export default function SimulationPage() {
         }
     }
 
+    // Resting orders: the USD amount is converted at the order's own price
+    const handlePlaceOrder = (amountNum: number) => {
+        const limit = parseFloat(limitPrice)
+        const stop = parseFloat(stopPrice)
+        const takeProfit = parseFloat(takeProfitPrice)
+        const stopLoss = parseFloat(stopLossPrice)
+        const shortName = currentAsset.shortName
+
+        // Resting orders are held to the pair's lot step, as on the exchange
+        const toQuantity = (price: number) => roundToStep(amountNum / price, currentAsset.stepSize)
+
+        let result: { success: boolean; error?: string }
+
+        if ((orderType === 'oco' || orderType === 'bracket') && (!takeProfit || !stopLoss)) {
+            setTradeError('Enter take-profit and stop-loss prices')
+            return
+        }
+
+        if (orderType === 'limit') {
+            if (!limit || limit <= 0) {
+                setTradeError('Enter a valid limit price')
+                return
+            }
+            if (timeInForce === 'GTD' && !expiresAt) {
+                setTradeError('Pick an expiry date')
+                return
+            }
+            result = placeLimitOrder(tradeType, selectedCrypto, toQuantity(limit), limit, {
+                timeInForce,
+                expiresAt: timeInForce === 'GTD' ? new Date(expiresAt) : undefined,
+                currentPrice,
+            })
+        } else if (orderType === 'stop-limit') {
+            if (!limit || limit <= 0 || !stop || stop <= 0) {
+                setTradeError('Enter valid stop and limit prices')
+                return
+            }
+            result = placeStopLimit(tradeType, selectedCrypto, toQuantity(limit), stop, limit)
+        } else if (orderType === 'oco') {
+            result = placeOcoOrder(selectedCrypto, toQuantity(currentPrice), takeProfit, stopLoss)
+        } else if (orderType === 'bracket') {
+            if (!limit || limit <= 0) {
+                setTradeError('Enter a valid entry price')
+                return
+            }
+            result = placeBracketOrder(selectedCrypto, toQuantity(limit), limit, takeProfit, stopLoss)
+        } else {
+            const offset = parseFloat(trailingOffset)
+            if (!offset || offset <= 0) {
+                setTradeError('Enter a valid trailing offset')
+                return
+            }
+            result = placeTrailingStop(selectedCrypto, toQuantity(currentPrice), offset, trailingOffsetType, currentPrice)
+        }
+
+        if (result.success) {
+            setTradeSuccess(`${tradeType === 'buy' ? 'Buy' : 'Sell'} ${orderType} order placed for ${shortName}`)
+            setAmount('')
+        } else {
+            setTradeError(result.error || 'Order failed')
+        }
+    }
+
     const handleClaimBonus = () => {
         const result = claimDailyBonus()
         if (result.success) {
@@ -194,6 +389,14 @@ export default function SimulationPage() {
                     </div>
                 </Alert>
 
+                {/* Replay clock, when prices come from a replay */}
+                <div className="mb-6 empty:hidden">
+                    <ReplayControls />
+                </div>
+
+                {/* Portfolio Selection */}
+                <PortfolioSwitcher prices={prices} />
+
                 <div className="grid lg:grid-cols-3 gap-6">
                     {/* Left: Wallet & Holdings */}
                     <div className="lg:col-span-2 space-y-6">
@@ -207,6 +410,18 @@ export default function SimulationPage() {
                                     <span className="text-sm text-text-secondary">{t('wallet.balance')}</span>
                                 </div>
                                 <p className="text-2xl font-bold font-mono">${balance.toFixed(2)}</p>
+                                {cashBalance.locked > 0 && (
+                                    <div className="mt-2 space-y-1 text-xs text-text-muted">
+                                        <div className="flex justify-between">
+                                            <span>{t('trading.available')}</span>
+                                            <span className="font-mono">${cashBalance.free.toFixed(2)}</span>
+                                        </div>
+                                        <div className="flex justify-between">
+                                            <span>Locked in orders</span>
+                                            <span className="font-mono text-warning">${cashBalance.locked.toFixed(2)}</span>
+                                        </div>
+                                    </div>
+                                )}
                             </Card>
 
                             <Card>
@@ -219,6 +434,11 @@ export default function SimulationPage() {
                                 <p className="text-2xl font-bold font-mono">
                                     ${isLoadingPrices ? '...' : metrics.totalValue.toFixed(2)}
                                 </p>
+                                {!isLoadingPrices && (
+                                    <p className={`text-xs font-mono mt-1 ${metrics.dayChange >= 0 ? 'text-success' : 'text-danger'}`}>
+                                        24h {metrics.dayChange >= 0 ? '+' : ''}{metrics.dayChange.toFixed(2)} ({metrics.dayChangePercent.toFixed(2)}%)
+                                    </p>
+                                )}
                             </Card>
 
                             <Card className={metrics.profitLoss >= 0 ? 'border-success/20' : 'border-danger/20'}>
@@ -240,9 +460,38 @@ export default function SimulationPage() {
                                         {metrics.profitLoss >= 0 ? '+' : ''}{metrics.profitLossPercent.toFixed(1)}%
                                     </Badge>
                                 </div>
+                                <div className="mt-2 space-y-1 text-xs text-text-muted">
+                                    <div className="flex justify-between">
+                                        <span>Realized</span>
+                                        <span className="font-mono">{metrics.realizedPnl >= 0 ? '+' : ''}{metrics.realizedPnl.toFixed(2)}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Unrealized</span>
+                                        <span className="font-mono">{metrics.unrealizedPnl >= 0 ? '+' : ''}{metrics.unrealizedPnl.toFixed(2)}</span>
+                                    </div>
+                                    <div className="flex justify-between">
+                                        <span>Fees</span>
+                                        <span className="font-mono">-{metrics.totalFees.toFixed(2)}</span>
+                                    </div>
+                                    <div className="flex justify-between items-center pt-1">
+                                        <span>Cost basis</span>
+                                        <select
+                                            value={costBasisMethod}
+                                            onChange={(e) => setCostBasisMethod(e.target.value as CostBasisMethod)}
+                                            className="bg-bg-tertiary rounded px-1 py-0.5 text-xs"
+                                        >
+                                            {COST_BASIS_METHODS.map((method) => (
+                                                <option key={method.value} value={method.value}>{method.label}</option>
+                                            ))}
+                                        </select>
+                                    </div>
+                                </div>
                             </Card>
                         </div>
 
+                        {/* Equity Curve */}
+                        {!isLoadingPrices && <EquityCurve prices={prices} />}
+
                         {/* Portfolio Pie Chart */}
                         {pieData.length > 0 && (
                             <Card>
@@ -316,9 +565,9 @@ export default function SimulationPage() {
                         <Card>
                             <h3 className="text-lg font-semibold mb-4">{t('wallet.holdings')}</h3>
 
-                            {holdingsWithValue.length > 0 ? (
+                            {portfolio.assets.length > 0 ? (
                                 <div className="space-y-3">
-                                    {holdingsWithValue.map((holding) => (
+                                    {portfolio.assets.map((holding) => (
                                         <div
                                             key={holding.symbol}
                                             className="flex items-center justify-between p-4 bg-bg-tertiary rounded-card"
@@ -328,18 +577,23 @@ export default function SimulationPage() {
                                                     className="w-10 h-10 rounded-full flex items-center justify-center font-bold text-white"
                                                     style={{ backgroundColor: holding.color }}
                                                 >
-                                                    {holding.shortName.charAt(0)}
+                                                    {holding.name.charAt(0)}
                                                 </div>
                                                 <div>
                                                     <p className="font-medium">{holding.name}</p>
                                                     <p className="text-sm text-text-muted">
-                                                        {holding.amount.toFixed(6)} {holding.shortName}
+                                                        {holding.quantity.toFixed(6)} {holding.symbol.replace('USDT', '')}
                                                     </p>
+                                                    {(walletBalance.balances[holding.symbol]?.locked ?? 0) > 0 && (
+                                                        <p className="text-xs text-warning">
+                                                            {walletBalance.balances[holding.symbol].locked.toFixed(6)} locked in orders
+                                                        </p>
+                                                    )}
                                                 </div>
                                             </div>
 
                                             <div className="text-right">
-                                                <p className="font-semibold font-mono">${holding.currentValue.toFixed(2)}</p>
+                                                <p className="font-semibold font-mono">${holding.value.toFixed(2)}</p>
                                                 <p className={`text-sm font-mono ${holding.pnl >= 0 ? 'text-success' : 'text-danger'}`}>
                                                     {holding.pnl >= 0 ? '+' : ''}{holding.pnl.toFixed(2)} ({holding.pnlPercent.toFixed(1)}%)
                                                 </p>
@@ -356,6 +610,123 @@ export default function SimulationPage() {
                             )}
                         </Card>
 
+                        {/* Open Orders */}
+                        {openOrders.length > 0 && (
+                            <Card>
+                                <div className="flex items-center gap-2 mb-4">
+                                    <Clock size={20} className="text-warning" />
+                                    <h3 className="text-lg font-semibold">Open Orders</h3>
+                                    {openGroups.length > 0 && (
+                                        <span className="text-xs text-text-muted">
+                                            {openGroups.length} linked group{openGroups.length !== 1 ? 's' : ''}
+                                            {pendingBrackets.length > 0 && ` · ${pendingBrackets.length} awaiting entry`}
+                                        </span>
+                                    )}
+                                </div>
+
+                                <div className="space-y-2">
+                                    {openOrders.map((order) => {
+                                        const filledPercent = order.quantity > 0
+                                            ? (order.executedQty / order.quantity) * 100
+                                            : 0
+                                        const baseAsset = order.symbol.replace('USDT', '')
+                                        const group = order.groupId ? groupsById.get(order.groupId) : undefined
+
+                                        return (
+                                            <div key={order.id} className="p-3 bg-bg-tertiary/50 rounded-lg">
+                                                <div className="flex items-center justify-between">
+                                                    <div className="flex items-center gap-2">
+                                                        <Badge variant={order.side === 'buy' ? 'success' : 'danger'}>
+                                                            {order.side.toUpperCase()}
+                                                        </Badge>
+                                                        <div>
+                                                            <p className="font-medium text-sm">
+                                                                {baseAsset} {order.type} {describeOrderPrice(order)}
+                                                            </p>
+                                                            <p className="text-xs text-text-muted">
+                                                                {order.executedQty.toFixed(6)} / {order.quantity.toFixed(6)} {baseAsset}
+                                                                {order.avgFillPrice !== undefined && ` · avg $${order.avgFillPrice.toFixed(2)}`}
+                                                            </p>
+                                                            {group?.status === 'pending' && (
+                                                                <p className="text-xs text-text-muted">
+                                                                    Then TP ${group.takeProfitPrice.toLocaleString()} / SL ${group.stopLossPrice.toLocaleString()}
+                                                                </p>
+                                                            )}
+                                                        </div>
+                                                    </div>
+                                                    <div className="flex items-center gap-2">
+                                                        {group && (
+                                                            <Badge variant="info">{describeOrderGroup(group, order)}</Badge>
+                                                        )}
+                                                        {order.status === 'partially_filled' && (
+                                                            <Badge variant="warning">Partial</Badge>
+                                                        )}
+                                                        <button
+                                                            onClick={() => cancelOrder(order.id)}
+                                                            className="p-1 text-text-muted hover:text-danger transition-colors"
+                                                            title="Cancel order"
+                                                        >
+                                                            <X size={14} />
+                                                        </button>
+                                                    </div>
+                                                </div>
+                                                <div className="mt-2 h-1 bg-bg-secondary rounded-full overflow-hidden">
+                                                    <div
+                                                        className="h-full bg-accent-primary"
+                                                        style={{ width: `${filledPercent}%` }}
+                                                    />
+                                                </div>
+                                            </div>
+                                        )
+                                    })}
+                                </div>
+                            </Card>
+                        )}
+
+                        {/* Margin Trading */}
+                        <MarginPanel
+                            symbol={selectedCrypto}
+                            shortName={currentAsset.shortName ?? selectedCrypto.replace('USDT', '')}
+                            prices={prices}
+                        />
+
+                        {/* Order History */}
+                        {orderHistory.length > 0 && (
+                            <Card>
+                                <div className="flex items-center gap-2 mb-4">
+                                    <History size={20} className="text-text-muted" />
+                                    <h3 className="text-lg font-semibold">Order History</h3>
+                                </div>
+
+                                <div className="space-y-2">
+                                    {orderHistory.map((order) => {
+                                        const baseAsset = order.symbol.replace('USDT', '')
+
+                                        return (
+                                            <div key={order.id} className="flex items-center justify-between p-3 bg-bg-tertiary/50 rounded-lg">
+                                                <div>
+                                                    <p className="font-medium text-sm">
+                                                        {order.side.toUpperCase()} {baseAsset} {order.type}
+                                                        <span className="ml-2 text-xs text-text-muted">{order.timeInForce}</span>
+                                                    </p>
+                                                    <p className="text-xs text-text-muted">
+                                                        {order.executedQty.toFixed(6)} / {order.quantity.toFixed(6)} {baseAsset}
+                                                        {order.statusReason && ` · ${order.statusReason}`}
+                                                    </p>
+                                                </div>
+                                                <div className="text-right">
+                                                    <Badge variant={ORDER_STATUS_BADGE[order.status] ?? 'default'}>
+                                                        {order.status}
+                                                    </Badge>
+                                                    <p className="text-xs text-text-muted mt-1">{formatTime(order.updatedAt)}</p>
+                                                </div>
+                                            </div>
+                                        )
+                                    })}
+                                </div>
+                            </Card>
+                        )}
+
                         {/* Transaction History */}
                         <Card>
                             <div className="flex items-center justify-between mb-4">
@@ -363,15 +734,49 @@ export default function SimulationPage() {
                                     <History size={20} className="text-text-muted" />
                                     <h3 className="text-lg font-semibold">Transaction History</h3>
                                 </div>
-                                <button
-                                    onClick={resetWallet}
-                                    className="text-xs text-text-muted hover:text-danger transition-colors flex items-center gap-1"
-                                >
-                                    <RefreshCw size={12} />
-                                    Reset Wallet
-                                </button>
+                                <div className="flex items-center gap-3">
+                                    <button
+                                        onClick={() => setIsHistoryOpen(true)}
+                                        className="text-xs text-text-muted hover:text-accent-primary transition-colors"
+                                    >
+                                        Full history
+                                    </button>
+                                    <button
+                                        onClick={() => setIsReportsOpen(true)}
+                                        className="text-xs text-text-muted hover:text-accent-primary transition-colors"
+                                    >
+                                        Reports
+                                    </button>
+                                    <button
+                                        onClick={() => resetWallet()}
+                                        className="text-xs text-text-muted hover:text-danger transition-colors flex items-center gap-1"
+                                    >
+                                        <RefreshCw size={12} />
+                                        Reset Wallet
+                                    </button>
+                                </div>
                             </div>
 
+                            <Modal
+                                isOpen={isHistoryOpen}
+                                onClose={() => setIsHistoryOpen(false)}
+                                title="Full History"
+                                description="Every transaction and order change of this portfolio"
+                                size="xl"
+                            >
+                                <TransactionLedger />
+                            </Modal>
+
+                            <Modal
+                                isOpen={isReportsOpen}
+                                onClose={() => setIsReportsOpen(false)}
+                                title="Reports"
+                                description="Exports of this portfolio's full history"
+                                size="xl"
+                            >
+                                <TradeReports />
+                            </Modal>
+
                             <div className="space-y-2 max-h-80 overflow-y-auto">
                                 {transactions.slice(0, 20).map((tx) => (
                                     <div
@@ -382,19 +787,18 @@ export default function SimulationPage() {
                                             <div className={clsx(
                                                 'p-2 rounded-lg',
                                                 tx.type === 'buy' ? 'bg-success/20' :
-                                                    tx.type === 'sell' ? 'bg-danger/20' :
+                                                    tx.type === 'sell' || tx.type === 'liquidation' ? 'bg-danger/20' :
                                                         tx.type === 'bonus' ? 'bg-warning/20' : 'bg-accent-primary/20'
                                             )}>
                                                 {tx.type === 'buy' ? <ArrowDownRight size={16} className="text-success" /> :
                                                     tx.type === 'sell' ? <ArrowUpRight size={16} className="text-danger" /> :
                                                         tx.type === 'bonus' ? <Gift size={16} className="text-warning" /> :
-                                                            <Wallet size={16} className="text-accent-primary" />}
+                                                            tx.type === 'liquidation' ? <AlertCircle size={16} className="text-danger" /> :
+                                                                <Wallet size={16} className="text-accent-primary" />}
                                             </div>
                                             <div>
                                                 <p className="font-medium text-sm">
-                                                    {tx.type === 'buy' ? 'Bought' :
-                                                        tx.type === 'sell' ? 'Sold' :
-                                                            tx.type === 'bonus' ? 'Daily Bonus' : 'Deposit'} {tx.symbol !== 'USD' ? tx.symbol.replace('USDT', '') : ''}
+                                                    {TRANSACTION_LABELS[tx.type]} {tx.positionSide && `${tx.positionSide} `}{tx.symbol !== 'USD' ? tx.symbol.replace('USDT', '') : ''}
                                                 </p>
                                                 <p className="text-xs text-text-muted">
                                                     {formatTime(tx.timestamp)}
@@ -408,10 +812,14 @@ export default function SimulationPage() {
                                             )}
                                             <p className={clsx(
                                                 'text-xs font-mono',
-                                                tx.type === 'buy' ? 'text-danger' : 'text-success'
+                                                OUTFLOW_TRANSACTIONS.includes(tx.type) ? 'text-danger' : 'text-success'
                                             )}>
-                                                {tx.type === 'buy' ? '-' : '+'}${tx.total.toFixed(2)}
-                                                {tx.fee > 0 && <span className="text-text-muted"> (fee: ${tx.fee.toFixed(2)})</span>}
+                                                {OUTFLOW_TRANSACTIONS.includes(tx.type) ? '-' : '+'}${tx.total.toFixed(2)}
+                                                {tx.fee > 0 && (
+                                                    <span className="text-text-muted">
+                                                        {' '}(fee: ${tx.fee.toFixed(2)}{tx.feeRate !== undefined && ` @ ${tx.feeRate.toFixed(3)}%`})
+                                                    </span>
+                                                )}
                                             </p>
                                         </div>
                                     </div>
@@ -460,7 +868,14 @@ export default function SimulationPage() {
 
                         {/* Trading Panel */}
                         <Card className="sticky top-24">
-                            <Tabs defaultValue="buy" onValueChange={(v) => setTradeType(v as 'buy' | 'sell')}>
+                            <Tabs
+                                defaultValue="buy"
+                                onValueChange={(v) => {
+                                    setTradeType(v as 'buy' | 'sell')
+                                    const type = ORDER_FORM_TYPES.find(o => o.value === orderType)
+                                    if (type?.side && type.side !== v) setOrderType('market')
+                                }}
+                            >
                                 <TabsList className="w-full mb-6">
                                     <TabsTrigger value="buy" className="flex-1 gap-1">
                                         <ArrowDownRight size={14} /> {t('trading.buy')}
@@ -480,8 +895,8 @@ export default function SimulationPage() {
                                             className="w-full flex items-center justify-between px-4 py-3 bg-bg-tertiary rounded-input hover:bg-bg-tertiary/80 transition-colors"
                                         >
                                             <div className="flex items-center gap-2">
-                                                <span style={{ color: currentAsset?.color }}>{currentAsset?.icon}</span>
-                                                <span>{currentAsset?.shortName}</span>
+                                                <span style={{ color: currentAsset.color }}>{currentAsset.icon}</span>
+                                                <span>{currentAsset.shortName}</span>
                                             </div>
                                             <ChevronDown size={16} className={clsx('transition-transform', cryptoDropdownOpen && 'rotate-180')} />
                                         </button>
@@ -496,7 +911,13 @@ export default function SimulationPage() {
                                                         exit={{ opacity: 0, y: -10 }}
                                                         className="absolute left-0 right-0 top-full mt-1 py-2 bg-bg-secondary rounded-card border border-white/10 shadow-lg z-20 max-h-48 overflow-y-auto"
                                                     >
-                                                        {CRYPTO_ASSETS.map((asset) => (
+                                                        <AssetSearch
+                                                            onSelect={(symbol) => {
+                                                                setSelectedCrypto(symbol)
+                                                                setCryptoDropdownOpen(false)
+                                                            }}
+                                                        />
+                                                        {getWatchlistAssets().map((asset) => (
                                                             <button
                                                                 key={asset.symbol}
                                                                 onClick={() => {
@@ -523,6 +944,131 @@ export default function SimulationPage() {
                                         </AnimatePresence>
                                     </div>
 
+                                    {/* Order Type */}
+                                    <div className="grid grid-cols-3 gap-1 p-1 bg-bg-tertiary rounded-input">
+                                        {ORDER_FORM_TYPES.map((type) => {
+                                            const disabled = !!type.side && type.side !== tradeType
+                                            return (
+                                                <button
+                                                    key={type.value}
+                                                    onClick={() => setOrderType(type.value)}
+                                                    disabled={disabled}
+                                                    className={clsx(
+                                                        'py-1.5 text-xs font-medium rounded-button transition-colors',
+                                                        orderType === type.value
+                                                            ? 'bg-accent-primary/20 text-accent-primary'
+                                                            : 'text-text-muted hover:text-text-primary',
+                                                        disabled && 'opacity-40 cursor-not-allowed'
+                                                    )}
+                                                >
+                                                    {type.label}
+                                                </button>
+                                            )
+                                        })}
+                                    </div>
+
+                                    {orderType === 'stop-limit' && (
+                                        <Input
+                                            label="Stop Price (USD)"
+                                            type="number"
+                                            value={stopPrice}
+                                            onChange={(e) => setStopPrice(e.target.value)}
+                                            placeholder={currentPrice.toFixed(2)}
+                                            hint={tradeType === 'buy'
+                                                ? 'Triggers when price rises to the stop'
+                                                : 'Triggers when price falls to the stop'}
+                                        />
+                                    )}
+
+                                    {(orderType === 'limit' || orderType === 'stop-limit' || orderType === 'bracket') && (
+                                        <Input
+                                            label={orderType === 'bracket' ? 'Entry Price (USD)' : 'Limit Price (USD)'}
+                                            type="number"
+                                            value={limitPrice}
+                                            onChange={(e) => setLimitPrice(e.target.value)}
+                                            placeholder={currentPrice.toFixed(2)}
+                                        />
+                                    )}
+
+                                    {orderType === 'limit' && (
+                                        <div className="space-y-2">
+                                            <label className="text-sm text-text-secondary block">Time in Force</label>
+                                            <div className="grid grid-cols-4 gap-1">
+                                                {TIME_IN_FORCE_OPTIONS.map((option) => (
+                                                    <button
+                                                        key={option.value}
+                                                        onClick={() => setTimeInForce(option.value)}
+                                                        title={option.title}
+                                                        className={clsx(
+                                                            'py-1 text-xs rounded-button transition-colors',
+                                                            timeInForce === option.value
+                                                                ? 'bg-accent-primary/10 text-accent-primary'
+                                                                : 'bg-bg-tertiary text-text-muted'
+                                                        )}
+                                                    >
+                                                        {option.value}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                            {timeInForce === 'GTD' && (
+                                                <Input
+                                                    type="datetime-local"
+                                                    value={expiresAt}
+                                                    onChange={(e) => setExpiresAt(e.target.value)}
+                                                    hint="Order expires at this time"
+                                                />
+                                            )}
+                                        </div>
+                                    )}
+
+                                    {(orderType === 'oco' || orderType === 'bracket') && (
+                                        <div className="grid grid-cols-2 gap-2">
+                                            <Input
+                                                label="Take-Profit"
+                                                type="number"
+                                                value={takeProfitPrice}
+                                                onChange={(e) => setTakeProfitPrice(e.target.value)}
+                                                placeholder={(currentPrice * 1.05).toFixed(2)}
+                                            />
+                                            <Input
+                                                label="Stop-Loss"
+                                                type="number"
+                                                value={stopLossPrice}
+                                                onChange={(e) => setStopLossPrice(e.target.value)}
+                                                placeholder={(currentPrice * 0.95).toFixed(2)}
+                                            />
+                                        </div>
+                                    )}
+
+                                    {orderType === 'trailing-stop' && (
+                                        <div className="space-y-2">
+                                            <Input
+                                                label={`Trailing Offset (${trailingOffsetType === 'percent' ? '%' : 'USD'})`}
+                                                type="number"
+                                                value={trailingOffset}
+                                                onChange={(e) => setTrailingOffset(e.target.value)}
+                                                placeholder={trailingOffsetType === 'percent' ? '2' : '100'}
+                                                hint="Stop follows the highest price by this distance"
+                                            />
+                                            <div className="flex gap-2">
+                                                {(['percent', 'absolute'] as TrailingOffsetType[]).map((type) => (
+                                                    <button
+                                                        key={type}
+                                                        onClick={() => setTrailingOffsetType(type)}
+                                                        className={clsx(
+                                                            'flex-1 py-1 text-xs rounded-button transition-colors',
+                                                            trailingOffsetType === type
+                                                                ? 'bg-accent-primary/10 text-accent-primary'
+                                                                : 'bg-bg-tertiary text-text-muted'
+                                                        )}
+                                                    >
+                                                        {type === 'percent' ? 'Percent' : 'Absolute'}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
+
                                     {/* Amount Input */}
                                     <Input
                                         label={`${t('trading.amount')} (USD)`}
@@ -531,8 +1077,8 @@ export default function SimulationPage() {
                                         onChange={(e) => setAmount(e.target.value)}
                                         placeholder="0.00"
                                         hint={tradeType === 'buy'
-                                            ? `${t('trading.available')}: $${balance.toFixed(2)}`
-                                            : `Max: $${((holdings[selectedCrypto]?.amount || 0) * currentPrice).toFixed(2)}`
+                                            ? `${t('trading.available')}: $${cashBalance.free.toFixed(2)}`
+                                            : `Max: $${(availableQuantity * currentPrice).toFixed(2)}`
                                         }
                                     />
 
@@ -544,11 +1090,10 @@ export default function SimulationPage() {
                                                 onClick={() => {
                                                     if (val === 'MAX') {
                                                         if (tradeType === 'buy') {
-                                                            setAmount(balance.toFixed(2))
+                                                            setAmount(cashBalance.free.toFixed(2))
                                                         } else {
-                                                            const holding = holdings[selectedCrypto]
-                                                            if (holding) {
-                                                                setAmount((holding.amount * currentPrice).toFixed(2))
+                                                            if (selectedPosition) {
+                                                                setAmount((availableQuantity * currentPrice).toFixed(2))
                                                             }
                                                         }
                                                     } else {
@@ -571,15 +1116,26 @@ export default function SimulationPage() {
                                         <div className="flex justify-between text-sm">
                                             <span className="text-text-muted">{tradeType === 'buy' ? t('trading.receive') : 'You sell'}</span>
                                             <span className="font-mono">
-                                                {amount ? (parseFloat(amount) / currentPrice).toFixed(8) : '0.00000000'} {currentAsset?.shortName}
+                                                {amount ? (parseFloat(amount) / currentPrice).toFixed(8) : '0.00000000'} {currentAsset.shortName}
                                             </span>
                                         </div>
                                         <div className="flex justify-between text-sm">
-                                            <span className="text-text-muted">{t('trading.fee')} (0.1%)</span>
+                                            <span className="text-text-muted">
+                                                {t('trading.fee')} ({isMakerOrder ? 'maker' : 'taker'} {feeQuote.ratePercent.toFixed(3)}%, {feeQuote.tier})
+                                            </span>
                                             <span className="font-mono text-text-muted">
-                                                ${amount ? (parseFloat(amount) * 0.001).toFixed(2) : '0.00'}
+                                                ${amount ? (parseFloat(amount) * feeQuote.ratePercent / 100).toFixed(2) : '0.00'}
                                             </span>
                                         </div>
+                                        <label className="flex items-center justify-between text-xs text-text-muted cursor-pointer">
+                                            <span>Pay fees in BNB (25% off)</span>
+                                            <input
+                                                type="checkbox"
+                                                checked={payFeesInBnb}
+                                                onChange={(e) => setPayFeesInBnb(e.target.checked)}
+                                                className="accent-accent-primary"
+                                            />
+                                        </label>
                                     </div>
 
                                     {/* Error/Success Messages */}
@@ -612,7 +1168,8 @@ export default function SimulationPage() {
                                         variant={tradeType === 'sell' ? 'danger' : 'primary'}
                                         disabled={!amount || parseFloat(amount) <= 0 || isLoadingPrices}
                                     >
-                                        {tradeType === 'buy' ? t('trading.buy') : t('trading.sell')} {currentAsset?.shortName}
+                                        {tradeType === 'buy' ? t('trading.buy') : t('trading.sell')} {currentAsset.shortName}
+                                        {orderType !== 'market' && ` (${ORDER_FORM_TYPES.find(o => o.value === orderType)?.label})`}
                                     </Button>
                                 </div>
                             </Tabs>
@@ -625,8 +1182,8 @@ export default function SimulationPage() {
                                 </div>
                                 <p className="text-sm text-text-secondary">
                                     {tradeType === 'buy'
-                                        ? `Consider dollar-cost averaging: Buy $${Math.min(50, balance / 4).toFixed(0)} of ${currentAsset?.shortName} weekly.`
-                                        : holdings[selectedCrypto] && holdings[selectedCrypto].avgBuyPrice < currentPrice
+                                        ? `Consider dollar-cost averaging: Buy $${Math.min(50, balance / 4).toFixed(0)} of ${currentAsset.shortName} weekly.`
+                                        : selectedPosition && selectedPosition.avgEntryPrice < currentPrice
                                             ? `You're in profit! Consider taking partial profits.`
                                             : `Hold if you believe in long-term growth.`
                                     }
@@ -1,20 +1,41 @@
+import { useEffect, useState } from 'react'
 import { useTranslation } from 'react-i18next'
-import { TradingChart, AIAssistant } from '@/components/trading'
+import { TradingChart, AIAssistant, OrderBookLadder, DepthChart, ReplayControls } from '@/components/trading'
+import { useTradingStore } from '@/stores/tradingStore'
+import { useAssetStore } from '@/stores/assetStore'
+import { subscribeOrderBook } from '@/services/orderBookSync'
+import { selectMarketDataKey } from '@/services/marketData'
+import { useMarketDataStore } from '@/stores/marketDataStore'
+import type { OrderBookView } from '@/lib/orderBook'
 
 export default function TradingPage() {
     const { t } = useTranslation()
+    const { selectedSymbol } = useTradingStore()
+    const { getAsset } = useAssetStore()
+    const asset = getAsset(selectedSymbol)
+    const marketDataKey = useMarketDataStore(selectMarketDataKey)
+    const [orderBook, setOrderBook] = useState<OrderBookView | null>(null)
+
+    // Live order book of the charted pair
+    useEffect(() => {
+        setOrderBook(null)
+        return subscribeOrderBook(selectedSymbol, setOrderBook, { levels: 50 })
+    }, [selectedSymbol, marketDataKey])
 
     return (
         <div className="min-h-screen pt-20 pb-8 px-4">
             <div className="container mx-auto">
                 <div className="grid lg:grid-cols-4 gap-6">
                     {/* Main Chart Area */}
-                    <div className="lg:col-span-3">
+                    <div className="lg:col-span-3 space-y-6">
+                        <ReplayControls />
                         <TradingChart />
+                        <DepthChart book={orderBook} asset={asset} />
                     </div>
 
-                    {/* Right Sidebar - AI Assistant */}
-                    <div className="lg:col-span-1">
+                    {/* Right Sidebar - Order Book and AI Assistant */}
+                    <div className="lg:col-span-1 space-y-6">
+                        <OrderBookLadder book={orderBook} asset={asset} />
                         <AIAssistant />
                     </div>
                 </div>
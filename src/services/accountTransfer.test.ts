@@ -0,0 +1,66 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { applyAccountImport, createAccountExport, parseAccountExport } from './accountTransfer'
+import { appendToLedger } from '@/services/ledger'
+import { useWalletStore } from '@/stores/walletStore'
+
+vi.mock('@/services/ledger', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/services/ledger')>()),
+    appendToLedger: vi.fn(),
+}))
+
+describe('Account Transfer', () => {
+    let initial: ReturnType<typeof useWalletStore.getState>
+
+    beforeEach(() => {
+        useWalletStore.getState().resetWallet()
+        useWalletStore.getState().setSlippage(false)
+        initial = useWalletStore.getState()
+        vi.mocked(appendToLedger).mockClear()
+    })
+
+    afterEach(() => {
+        useWalletStore.setState({
+            portfolios: initial.portfolios,
+            activePortfolioId: initial.activePortfolioId,
+            storedPortfolios: {},
+        })
+    })
+
+    it('should repair malformed stored portfolios', async () => {
+        const exported = createAccountExport()
+        exported.wallet.state.portfolios = [
+            ...initial.portfolios,
+            { id: 'broken', name: 'Broken', archived: false, createdAt: new Date() },
+        ]
+        exported.wallet.state.storedPortfolios = {
+            broken: { balance: 250, marginPositions: 'none', orders: 5 },
+        }
+
+        const parsed = await parseAccountExport(JSON.stringify(exported))
+        expect(parsed.success).toBe(true)
+        expect(parsed.result!.warnings).toEqual([
+            'Unreadable fields of portfolio Broken were reset: marginPositions, orders',
+        ])
+
+        expect(applyAccountImport(parsed.result!, 'merge').success).toBe(true)
+
+        const state = useWalletStore.getState()
+        const imported = state.portfolios.find(p => p.name === 'Broken')!
+        expect(state.storedPortfolios[imported.id]).toMatchObject({ balance: 250, marginPositions: [], orders: [] })
+        expect(() => state.getPortfolioComparison({})).not.toThrow()
+        expect(() => state.checkAndExecuteOrders({ BTCUSDT: 50000 })).not.toThrow()
+    })
+
+    it('should record merged history under the new portfolio ids', async () => {
+        useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+        const parsed = await parseAccountExport(JSON.stringify(createAccountExport()))
+        vi.mocked(appendToLedger).mockClear()
+
+        applyAccountImport(parsed.result!, 'merge')
+
+        const copyId = useWalletStore.getState().portfolios.find(p => p.name === 'Main (2)')!.id
+        const written = vi.mocked(appendToLedger).mock.calls.flatMap(([entries]) => entries.transactions ?? [])
+        expect(written).toHaveLength(2)
+        expect(written.every(t => t.portfolioId === copyId)).toBe(true)
+    })
+})
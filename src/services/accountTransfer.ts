@@ -0,0 +1,326 @@
+/**
+ * Account Transfer
+ * Exports the whole simulator account as a versioned JSON file and imports
+ * one back, either next to the current data or in its place
+ */
+
+import i18n from 'i18next'
+import type { Mutate, StoreApi } from 'zustand'
+import { recoverState, reviveDates } from '@/lib/persistence'
+import { downloadFile } from '@/lib/utils'
+import { createPortfolioData, useWalletStore, PortfolioData, WalletTransfer } from '@/stores/walletStore'
+import { useTradingStore } from '@/stores/tradingStore'
+import { useAIStore, ChatMessage } from '@/stores/aiStore'
+import { useThemeStore, Theme, THEME_IDS } from '@/stores/themeStore'
+import { useAuthStore, UserProfile } from '@/stores/authStore'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type ImportMode = 'merge' | 'replace'
+
+type TradingState = ReturnType<typeof useTradingStore.getState>
+
+type PersistedStore<S, P> = Mutate<StoreApi<S>, [['zustand/persist', P]]>
+
+// A store's persisted state and the schema version it was saved with
+export interface StoreSnapshot {
+    version: number
+    state: Record<string, unknown>
+}
+
+export interface AccountPreferences {
+    theme: Theme
+    profile?: UserProfile['preferences']
+}
+
+export interface AccountExport {
+    format: typeof EXPORT_FORMAT
+    version: number
+    exportedAt: Date
+    wallet: StoreSnapshot
+    trading: StoreSnapshot
+    chat: ChatMessage[]
+    preferences: AccountPreferences
+}
+
+// A validated export, brought up to the current store schemas
+export interface AccountImport {
+    exportedAt: Date
+    wallet: WalletTransfer
+    trading: Partial<TradingState>
+    chat: ChatMessage[]
+    preferences: Partial<AccountPreferences>
+    warnings: string[]
+}
+
+export interface ImportPreviewRow {
+    label: string
+    current: string
+    after: string
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const EXPORT_FORMAT = 'quantix-account'
+export const ACCOUNT_EXPORT_VERSION = 1
+
+// Tied to the subscription or the daily bonus, so never taken from a file
+const WALLET_EXCLUDED_FIELDS = ['session', 'userTier', 'lastBonusClaim']
+
+// ============================================
+// EXPORT
+// ============================================
+
+function snapshotStore<S, P>(store: PersistedStore<S, P>, exclude: string[] = []): StoreSnapshot {
+    const { partialize, version = 0 } = store.persist.getOptions()
+    const state = store.getState()
+    const persisted = (partialize ? partialize(state) : state) as Record<string, unknown>
+
+    return {
+        version,
+        state: Object.fromEntries(Object.entries(persisted).filter(([key]) => !exclude.includes(key))),
+    }
+}
+
+export function createAccountExport(): AccountExport {
+    return {
+        format: EXPORT_FORMAT,
+        version: ACCOUNT_EXPORT_VERSION,
+        exportedAt: new Date(),
+        wallet: snapshotStore(useWalletStore, WALLET_EXCLUDED_FIELDS),
+        trading: snapshotStore(useTradingStore),
+        chat: useAIStore.getState().messages.filter(m => !m.isTyping),
+        preferences: {
+            theme: useThemeStore.getState().theme,
+            profile: useAuthStore.getState().user?.preferences,
+        },
+    }
+}
+
+export function downloadAccountExport(): void {
+    const data = createAccountExport()
+    const date = data.exportedAt.toISOString().slice(0, 10)
+    downloadFile(`quantix-account-${date}.json`, JSON.stringify(data, null, 2), 'application/json')
+}
+
+// ============================================
+// IMPORT
+// ============================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * A snapshot's state brought up to the store's schema, keeping only fields
+ * of the right type
+ */
+async function readSnapshot<S extends object, P>(
+    store: PersistedStore<S, P>,
+    snapshot: unknown,
+    label: string,
+    warnings: string[]
+): Promise<Partial<S>> {
+    if (!isRecord(snapshot) || typeof snapshot.version !== 'number' || !isRecord(snapshot.state)) {
+        throw new Error(`The ${label} section is missing or malformed`)
+    }
+
+    const { version = 0, migrate } = store.persist.getOptions()
+    let state: unknown = snapshot.state
+    if (snapshot.version !== version) {
+        if (!migrate) throw new Error(`The ${label} section has an unsupported version`)
+        state = await migrate(state, snapshot.version)
+    }
+
+    const { state: recovered, dropped } = recoverState(state, store.getState())
+    if (dropped.length > 0) {
+        warnings.push(`Unreadable ${label} fields were skipped: ${dropped.join(', ')}`)
+    }
+    return recovered
+}
+
+/**
+ * recoverState sees storedPortfolios as one field; check each portfolio in it the same way.
+ * Unreadable fields are dropped here and get their defaults when the portfolio is imported.
+ */
+function readStoredPortfolios(wallet: Partial<WalletTransfer>, warnings: string[]): Record<string, PortfolioData> {
+    if (!isRecord(wallet.storedPortfolios)) return {}
+
+    const defaults = createPortfolioData()
+    const nameOf = (id: string) => wallet.portfolios?.find(p => p.id === id)?.name ?? id
+
+    return Object.fromEntries(Object.entries(wallet.storedPortfolios).flatMap(([id, data]) => {
+        if (!isRecord(data)) {
+            warnings.push(`The unreadable portfolio ${nameOf(id)} was skipped`)
+            return []
+        }
+
+        const { state, dropped } = recoverState(data, defaults)
+        if (dropped.length > 0) {
+            warnings.push(`Unreadable fields of portfolio ${nameOf(id)} were reset: ${dropped.join(', ')}`)
+        }
+        return [[id, state as PortfolioData]]
+    }))
+}
+
+function readChat(chat: unknown, warnings: string[]): ChatMessage[] {
+    if (!Array.isArray(chat)) return []
+
+    const messages = chat.filter((m): m is ChatMessage =>
+        isRecord(m)
+        && typeof m.id === 'string'
+        && (m.role === 'user' || m.role === 'assistant')
+        && typeof m.content === 'string'
+        && m.timestamp instanceof Date
+    )
+    if (messages.length < chat.length) {
+        warnings.push(`${chat.length - messages.length} unreadable chat messages were skipped`)
+    }
+    return messages
+}
+
+function readPreferences(preferences: unknown): Partial<AccountPreferences> {
+    if (!isRecord(preferences)) return {}
+
+    return {
+        theme: THEME_IDS.includes(preferences.theme as Theme) ? preferences.theme as Theme : undefined,
+        profile: isRecord(preferences.profile) ? preferences.profile as UserProfile['preferences'] : undefined,
+    }
+}
+
+/**
+ * Validate an export file and bring it up to the current schemas
+ */
+export async function parseAccountExport(text: string): Promise<{
+    success: boolean
+    result?: AccountImport
+    error?: string
+}> {
+    let data: unknown
+    try {
+        data = JSON.parse(text, reviveDates)
+    } catch {
+        return { success: false, error: 'The file is not valid JSON' }
+    }
+
+    if (!isRecord(data) || data.format !== EXPORT_FORMAT || typeof data.version !== 'number') {
+        return { success: false, error: 'This is not a Quantix account export' }
+    }
+
+    if (data.version > ACCOUNT_EXPORT_VERSION) {
+        return { success: false, error: 'This export was made by a newer version of the app' }
+    }
+
+    const warnings: string[] = []
+    try {
+        const wallet = await readSnapshot(useWalletStore, data.wallet, 'wallet', warnings)
+        if (!Array.isArray(wallet.portfolios) || wallet.portfolios.length === 0) {
+            return { success: false, error: 'The export holds no portfolios' }
+        }
+        WALLET_EXCLUDED_FIELDS.forEach(key => delete (wallet as Record<string, unknown>)[key])
+        wallet.storedPortfolios = readStoredPortfolios(wallet, warnings)
+
+        return {
+            success: true,
+            result: {
+                exportedAt: data.exportedAt instanceof Date ? data.exportedAt : new Date(),
+                wallet: wallet as WalletTransfer,
+                trading: await readSnapshot(useTradingStore, data.trading, 'trading', warnings),
+                chat: readChat(data.chat, warnings),
+                preferences: readPreferences(data.preferences),
+                warnings,
+            },
+        }
+    } catch (error) {
+        return { success: false, error: error instanceof Error ? error.message : 'The export could not be read' }
+    }
+}
+
+function mergeChat(current: ChatMessage[], incoming: ChatMessage[]): ChatMessage[] {
+    const known = new Set(current.map(m => m.id))
+    return [...current, ...incoming.filter(m => !known.has(m.id))]
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
+
+function countTrades(wallet: WalletTransfer): number {
+    return wallet.portfolios.reduce((sum, p) => {
+        const data = p.id === wallet.activePortfolioId ? wallet : wallet.storedPortfolios?.[p.id]
+        return sum + (data?.trades?.length ?? 0)
+    }, 0)
+}
+
+function countJournalEntries(wallet: WalletTransfer): number {
+    return wallet.portfolios.reduce((sum, p) => {
+        const data = p.id === wallet.activePortfolioId ? wallet : wallet.storedPortfolios?.[p.id]
+        return sum + (data?.journalEntries?.length ?? 0)
+    }, 0)
+}
+
+/**
+ * What the account holds now and what it would hold after the import
+ */
+export function getImportPreview(result: AccountImport, mode: ImportMode): ImportPreviewRow[] {
+    const wallet = useWalletStore.getState()
+    const { favorites } = useTradingStore.getState()
+    const { messages } = useAIStore.getState()
+    const { theme } = useThemeStore.getState()
+    const replace = mode === 'replace'
+
+    const incomingFavorites = result.trading.favorites ?? []
+    const row = (label: string, current: number | string, after: number | string) => ({
+        label,
+        current: String(current),
+        after: String(after),
+    })
+
+    return [
+        row('Portfolios', wallet.portfolios.length,
+            replace ? result.wallet.portfolios.length : wallet.portfolios.length + result.wallet.portfolios.length),
+        row('Trades', countTrades(wallet),
+            replace ? countTrades(result.wallet) : countTrades(wallet) + countTrades(result.wallet)),
+        row('Journal entries', countJournalEntries(wallet),
+            replace ? countJournalEntries(result.wallet) : countJournalEntries(wallet) + countJournalEntries(result.wallet)),
+        row('Favorites', favorites.length,
+            replace ? incomingFavorites.length : new Set([...favorites, ...incomingFavorites]).size),
+        row('Chat messages', messages.length,
+            replace ? result.chat.length : mergeChat(messages, result.chat).length),
+        row('Theme', theme, replace ? result.preferences.theme ?? theme : theme),
+    ]
+}
+
+/**
+ * Apply a parsed export. Merging adds the imported portfolios, favorites and
+ * chat to the current ones; replacing also takes over settings and preferences.
+ */
+export function applyAccountImport(result: AccountImport, mode: ImportMode): { success: boolean; error?: string } {
+    const walletResult = useWalletStore.getState().importPortfolios(result.wallet, mode)
+    if (!walletResult.success) return { success: false, error: walletResult.error }
+
+    const { favorites } = useTradingStore.getState()
+    const { messages } = useAIStore.getState()
+
+    if (mode === 'replace') {
+        useTradingStore.setState(result.trading)
+        if (result.chat.length > 0) useAIStore.setState({ messages: result.chat })
+
+        const { theme, profile } = result.preferences
+        if (theme) useThemeStore.getState().setTheme(theme)
+
+        const { user, updateProfile } = useAuthStore.getState()
+        if (user && profile) {
+            updateProfile({ preferences: { ...user.preferences, ...profile } })
+            if (profile.language) i18n.changeLanguage(profile.language)
+        }
+    } else {
+        useTradingStore.setState({
+            favorites: [...new Set([...favorites, ...(result.trading.favorites ?? [])])],
+        })
+        useAIStore.setState({ messages: mergeChat(messages, result.chat) })
+    }
+
+    return { success: true }
+}
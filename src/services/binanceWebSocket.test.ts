@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { BinanceWebSocket } from './binanceWebSocket'
+
+/**
+ * Stands in for the browser WebSocket: records what is sent and lets a test
+ * open, answer and drop the connection
+ */
+class FakeWebSocket {
+    static readonly CONNECTING = 0
+    static readonly OPEN = 1
+    static readonly CLOSED = 3
+    static instances: FakeWebSocket[] = []
+
+    readyState = FakeWebSocket.CONNECTING
+    sent: { method: string; params: string[]; id: number }[] = []
+    onopen: (() => void) | null = null
+    onmessage: ((event: { data: string }) => void) | null = null
+    onerror: ((error: unknown) => void) | null = null
+    onclose: (() => void) | null = null
+
+    constructor(public url: string) {
+        FakeWebSocket.instances.push(this)
+    }
+
+    send(data: string) {
+        this.sent.push(JSON.parse(data))
+    }
+
+    close() {
+        this.readyState = FakeWebSocket.CLOSED
+    }
+
+    open() {
+        this.readyState = FakeWebSocket.OPEN
+        this.onopen?.()
+    }
+
+    receive(message: object) {
+        this.onmessage?.({ data: JSON.stringify(message) })
+    }
+
+    drop() {
+        this.readyState = FakeWebSocket.CLOSED
+        this.onclose?.()
+    }
+}
+
+const latestSocket = () => FakeWebSocket.instances[FakeWebSocket.instances.length - 1]
+
+const klineMessage = (stream: string, close: string) => ({
+    stream,
+    data: {
+        e: 'kline',
+        k: { t: 60000, T: 119999, o: '1', h: '2', l: '0.5', c: close, v: '10', q: '10', n: 3, x: false },
+    },
+})
+
+describe('Binance WebSocket', () => {
+    let ws: BinanceWebSocket
+
+    beforeEach(() => {
+        vi.useFakeTimers()
+        vi.stubGlobal('WebSocket', FakeWebSocket)
+        FakeWebSocket.instances = []
+        ws = new BinanceWebSocket()
+    })
+
+    afterEach(() => {
+        ws.disconnect()
+        vi.unstubAllGlobals()
+        vi.useRealTimers()
+        vi.restoreAllMocks()
+    })
+
+    it('should batch the streams changed in one tick into one request of each kind', () => {
+        const stopKline = ws.subscribeKline('BTCUSDT', '1m', () => {})
+        ws.subscribeTicker('ETHUSDT', () => {})
+        vi.advanceTimersByTime(0)
+
+        expect(FakeWebSocket.instances).toHaveLength(1)
+        const socket = latestSocket()
+        socket.open()
+
+        expect(socket.sent).toEqual([
+            { method: 'SUBSCRIBE', params: ['btcusdt@kline_1m', 'ethusdt@ticker'], id: 1 },
+        ])
+
+        stopKline()
+        ws.subscribeMiniTicker('BTCUSDT', () => {})
+        ws.subscribeTrade('SOLUSDT', () => {})
+        vi.advanceTimersByTime(0)
+
+        expect(socket.sent.slice(1)).toEqual([
+            { method: 'UNSUBSCRIBE', params: ['btcusdt@kline_1m'], id: 2 },
+            { method: 'SUBSCRIBE', params: ['btcusdt@miniTicker', 'solusdt@trade'], id: 3 },
+        ])
+    })
+
+    it('should send nothing for a stream dropped and taken again in the same tick', () => {
+        const stop = ws.subscribeKline('BTCUSDT', '1m', () => {})
+        vi.advanceTimersByTime(0)
+        latestSocket().open()
+        latestSocket().sent = []
+
+        stop()
+        ws.subscribeKline('BTCUSDT', '1m', () => {})
+        vi.advanceTimersByTime(0)
+
+        expect(latestSocket().sent).toEqual([])
+    })
+
+    it('should mark streams active once the server acknowledges them', () => {
+        ws.subscribeKline('BTCUSDT', '1m', () => {})
+        vi.advanceTimersByTime(0)
+        const socket = latestSocket()
+        socket.open()
+
+        expect(ws.isConnected()).toBe(true)
+        expect(ws.isConnected('btcusdt@kline_1m')).toBe(false)
+
+        socket.receive({ result: null, id: 1 })
+
+        expect(ws.isConnected('btcusdt@kline_1m')).toBe(true)
+        expect(ws.getActiveStreams()).toEqual(['btcusdt@kline_1m'])
+    })
+
+    it('should request a rejected stream again on the next sync', () => {
+        const error = vi.spyOn(console, 'error').mockImplementation(() => {})
+        ws.subscribeKline('BTCUSDT', '1m', () => {})
+        vi.advanceTimersByTime(0)
+        const socket = latestSocket()
+        socket.open()
+
+        socket.receive({ error: { code: 2, msg: 'Invalid request' }, id: 1 })
+
+        expect(error).toHaveBeenCalledWith('[Binance WS] SUBSCRIBE btcusdt@kline_1m failed:', 'Invalid request')
+        expect(ws.isConnected('btcusdt@kline_1m')).toBe(false)
+
+        ws.subscribeTicker('ETHUSDT', () => {})
+        vi.advanceTimersByTime(0)
+
+        expect(socket.sent[1]).toEqual({ method: 'SUBSCRIBE', params: ['btcusdt@kline_1m', 'ethusdt@ticker'], id: 2 })
+    })
+
+    it('should resubscribe every stream after reconnecting', () => {
+        ws.subscribeKline('BTCUSDT', '1m', () => {})
+        ws.subscribeTicker('ETHUSDT', () => {})
+        vi.advanceTimersByTime(0)
+        latestSocket().open()
+        latestSocket().receive({ result: null, id: 1 })
+
+        latestSocket().drop()
+
+        expect(ws.isConnected()).toBe(false)
+        expect(ws.getActiveStreams()).toEqual([])
+
+        vi.advanceTimersByTime(3000)
+        expect(FakeWebSocket.instances).toHaveLength(2)
+
+        latestSocket().open()
+        expect(latestSocket().sent).toEqual([
+            { method: 'SUBSCRIBE', params: ['btcusdt@kline_1m', 'ethusdt@ticker'], id: 2 },
+        ])
+    })
+
+    it('should keep reconnecting with a capped delay', () => {
+        ws.subscribeKline('BTCUSDT', '1m', () => {})
+        vi.advanceTimersByTime(0)
+
+        for (let attempt = 0; attempt < 20; attempt++) {
+            latestSocket().drop()
+            vi.advanceTimersByTime(60000)
+        }
+
+        expect(FakeWebSocket.instances).toHaveLength(21)
+
+        // A connection that opens starts the backoff over
+        latestSocket().open()
+        latestSocket().drop()
+        vi.advanceTimersByTime(2999)
+        expect(FakeWebSocket.instances).toHaveLength(21)
+        vi.advanceTimersByTime(1)
+        expect(FakeWebSocket.instances).toHaveLength(22)
+    })
+
+    it('should stop reconnecting once nothing is subscribed', () => {
+        const stop = ws.subscribeKline('BTCUSDT', '1m', () => {})
+        vi.advanceTimersByTime(0)
+        latestSocket().drop()
+
+        stop()
+        vi.advanceTimersByTime(60000)
+
+        expect(FakeWebSocket.instances).toHaveLength(1)
+    })
+
+    it('should deliver stream data to its subscribers', () => {
+        const onKline = vi.fn()
+        ws.subscribeKline('BTCUSDT', '1m', onKline)
+        vi.advanceTimersByTime(0)
+        latestSocket().open()
+
+        latestSocket().receive(klineMessage('btcusdt@kline_1m', '1.5'))
+        latestSocket().receive(klineMessage('ethusdt@kline_1m', '9'))
+
+        expect(onKline).toHaveBeenCalledTimes(1)
+        expect(onKline).toHaveBeenCalledWith(expect.objectContaining({ time: 60, close: 1.5, isFinal: false }))
+    })
+
+    it('should share one stream between subscribers of the same symbol and interval', () => {
+        const first = vi.fn()
+        const second = vi.fn()
+        ws.subscribeKline('BTCUSDT', '1m', first)
+        ws.subscribeKline('BTCUSDT', '1m', second)
+        vi.advanceTimersByTime(0)
+        const socket = latestSocket()
+        socket.open()
+
+        expect(socket.sent).toEqual([{ method: 'SUBSCRIBE', params: ['btcusdt@kline_1m'], id: 1 }])
+
+        socket.receive(klineMessage('btcusdt@kline_1m', '1.5'))
+
+        expect(first).toHaveBeenCalledTimes(1)
+        expect(second).toHaveBeenCalledTimes(1)
+    })
+
+    it('should unsubscribe a shared stream only when its last subscriber leaves', () => {
+        const first = vi.fn()
+        const second = vi.fn()
+        // Keeps the connection open once the shared stream is gone
+        ws.subscribeTicker('ETHUSDT', () => {})
+        const stopFirst = ws.subscribeKline('BTCUSDT', '1m', first)
+        const stopSecond = ws.subscribeKline('BTCUSDT', '1m', second)
+        vi.advanceTimersByTime(0)
+        const socket = latestSocket()
+        socket.open()
+        socket.receive({ result: null, id: 1 })
+
+        stopFirst()
+        vi.advanceTimersByTime(0)
+
+        expect(socket.sent).toHaveLength(1)
+        expect(ws.isConnected('btcusdt@kline_1m')).toBe(true)
+
+        socket.receive(klineMessage('btcusdt@kline_1m', '1.5'))
+        expect(first).not.toHaveBeenCalled()
+        expect(second).toHaveBeenCalledTimes(1)
+
+        stopSecond()
+        vi.advanceTimersByTime(0)
+
+        expect(socket.sent[1]).toEqual({ method: 'UNSUBSCRIBE', params: ['btcusdt@kline_1m'], id: 2 })
+        expect(ws.getActiveStreams()).toEqual(['ethusdt@ticker'])
+    })
+})
@@ -6,101 +6,65 @@
  * - Throttled updates (250ms batching) to prevent render explosions
  * - Proper cleanup functions to prevent memory leaks
  * - requestAnimationFrame sync for smooth UI updates
+ * - All streams multiplexed over a single combined-stream connection
  */
 
-export interface KlineData {
-    time: number
-    open: number
-    high: number
-    low: number
-    close: number
-    volume: number
-    closeTime: number
-    quoteVolume: number
-    trades: number
-    isFinal: boolean
-}
+import type { ExchangeSymbol } from '@/lib/assetRegistry'
+import type { BookSnapshot, DepthUpdate } from '@/lib/orderBook'
+import { createThrottledCallback } from '@/lib/utils'
+import type { KlineData, MarketDataProvider, TickerData, TradeData } from '@/services/marketData'
 
-export interface TickerData {
-    symbol: string
-    price: number
-    priceChange: number
-    priceChangePercent: number
-    high24h: number
-    low24h: number
-    volume24h: number
-    quoteVolume24h: number
-    lastUpdateTime: number
-}
+type StreamCallback<T> = (data: T) => void
 
-export interface TradeData {
+export interface MiniTickerData {
     symbol: string
     price: number
-    quantity: number
     time: number
-    isBuyerMaker: boolean
-    tradeId: number
 }
 
-type KlineCallback = (data: KlineData) => void
-type TickerCallback = (data: TickerData) => void
-type TradeCallback = (data: TradeData) => void
-
-// Throttle helper for batching updates
-function createThrottledCallback<T>(
-    callback: (data: T) => void,
-    intervalMs: number = 250
-): { call: (data: T) => void; flush: () => void; cancel: () => void } {
-    let lastData: T | null = null
-    let timeoutId: NodeJS.Timeout | null = null
-    let rafId: number | null = null
-
-    const flush = () => {
-        if (lastData !== null) {
-            // Use RAF for smooth visual updates
-            rafId = requestAnimationFrame(() => {
-                callback(lastData!)
-                lastData = null
-            })
-        }
-    }
+type KlineCallback = StreamCallback<KlineData>
+type TickerCallback = StreamCallback<TickerData>
+type TradeCallback = StreamCallback<TradeData>
+type MiniTickerCallback = StreamCallback<MiniTickerData>
+type DepthCallback = StreamCallback<DepthUpdate>
 
-    const call = (data: T) => {
-        lastData = data
-        if (!timeoutId) {
-            timeoutId = setTimeout(() => {
-                flush()
-                timeoutId = null
-            }, intervalMs)
-        }
-    }
+// [price, quantity] string pairs as Binance sends them
+function parseDepthLevels(levels: [string, string][]): { price: number; quantity: number }[] {
+    return levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }))
+}
 
-    const cancel = () => {
-        if (timeoutId) {
-            clearTimeout(timeoutId)
-            timeoutId = null
-        }
-        if (rafId) {
-            cancelAnimationFrame(rafId)
-            rafId = null
-        }
-        lastData = null
-    }
+// Callbacks of any stream; each is only ever called with its own stream's data
+type AnyStreamCallback = StreamCallback<never>
 
-    return { call, flush, cancel }
+// A SUBSCRIBE or UNSUBSCRIBE request waiting for the server's reply
+interface PendingRequest {
+    method: 'SUBSCRIBE' | 'UNSUBSCRIBE'
+    params: string[]
 }
 
-class BinanceWebSocket {
-    private connections: Map<string, WebSocket> = new Map()
-    private subscriptions: Map<string, Set<KlineCallback | TickerCallback | TradeCallback>> = new Map()
-    private throttledCallbacks: Map<string, ReturnType<typeof createThrottledCallback<any>>> = new Map()
-    private reconnectAttempts: Map<string, number> = new Map()
-    private reconnectTimeouts: Map<string, NodeJS.Timeout> = new Map()
-    private maxReconnectAttempts = 5
+/**
+ * Multiplexes every stream over one connection to the combined-stream endpoint.
+ * Streams are added and removed with SUBSCRIBE/UNSUBSCRIBE requests; changes made
+ * in the same tick are batched into one request of each kind.
+ */
+export class BinanceWebSocket {
+    private socket: WebSocket | null = null
+    private subscriptions: Map<string, Set<AnyStreamCallback>> = new Map()
+    private throttledCallbacks: Map<string, ReturnType<typeof createThrottledCallback<TradeData>>> = new Map()
+
+    // Streams requested on the current connection, and those the server has acknowledged
+    private requestedStreams: Set<string> = new Set()
+    private activeStreams: Set<string> = new Set()
+    private pendingRequests: Map<number, PendingRequest> = new Map()
+    private nextRequestId = 1
+
+    private syncTimeout: NodeJS.Timeout | null = null
+    private reconnectAttempts = 0
+    private reconnectTimeout: NodeJS.Timeout | null = null
     private reconnectDelay = 3000
-    private pingIntervals: Map<string, NodeJS.Timeout> = new Map()
+    private maxReconnectDelay = 60000
 
-    private readonly baseUrl = 'wss://stream.binance.com:9443/ws'
+    private readonly baseUrl = 'wss://stream.binance.com:9443/stream'
 
     /**
      * Subscribe to aggTrade stream with throttled updates (default 250ms)
@@ -119,17 +83,13 @@ class BinanceWebSocket {
         this.throttledCallbacks.set(callbackKey, throttled)
 
         // Subscribe with throttled callback
-        this.addSubscription(streamName, throttled.call as TradeCallback)
-
-        if (!this.connections.has(streamName)) {
-            this.connect(streamName)
-        }
+        this.addSubscription(streamName, throttled.call)
 
         // Return cleanup function (prevents memory leaks!)
         return () => {
             throttled.cancel()
             this.throttledCallbacks.delete(callbackKey)
-            this.removeSubscription(streamName, throttled.call as TradeCallback)
+            this.removeSubscription(streamName, throttled.call)
         }
     }
 
@@ -143,36 +103,23 @@ class BinanceWebSocket {
         const callbackKey = `${streamName}_${Date.now()}`
         this.throttledCallbacks.set(callbackKey, throttled)
 
-        this.addSubscription(streamName, throttled.call as TradeCallback)
-
-        if (!this.connections.has(streamName)) {
-            this.connect(streamName)
-        }
+        this.addSubscription(streamName, throttled.call)
 
         return () => {
             throttled.cancel()
             this.throttledCallbacks.delete(callbackKey)
-            this.removeSubscription(streamName, throttled.call as TradeCallback)
+            this.removeSubscription(streamName, throttled.call)
         }
     }
 
     /**
-     * Subscribe to kline (candlestick) data - no throttling needed
+     * Subscribe to kline (candlestick) data - no throttling needed.
+     * Each symbol and interval is its own stream, so any number can run side by side.
      */
     subscribeKline(symbol: string, interval: string, callback: KlineCallback): () => void {
         const streamName = `${symbol.toLowerCase()}@kline_${interval}`
 
-        // Close existing kline connection if switching
-        for (const [name, ws] of this.connections) {
-            if (name.includes('@kline_')) {
-                ws.close()
-                this.connections.delete(name)
-                this.subscriptions.delete(name)
-            }
-        }
-
         this.addSubscription(streamName, callback)
-        this.connect(streamName)
 
         return () => this.removeSubscription(streamName, callback)
     }
@@ -185,78 +132,129 @@ class BinanceWebSocket {
 
         this.addSubscription(streamName, callback)
 
-        if (!this.connections.has(streamName)) {
-            this.connect(streamName)
-        }
-
         return () => this.removeSubscription(streamName, callback)
     }
 
     /**
      * Subscribe to mini ticker (lightweight)
      */
-    subscribeMiniTicker(symbol: string, callback: (data: { symbol: string; price: number; time: number }) => void): () => void {
+    subscribeMiniTicker(symbol: string, callback: MiniTickerCallback): () => void {
         const streamName = `${symbol.toLowerCase()}@miniTicker`
 
-        this.addSubscription(streamName, callback as any)
+        this.addSubscription(streamName, callback)
 
-        if (!this.connections.has(streamName)) {
-            this.connect(streamName)
-        }
+        return () => this.removeSubscription(streamName, callback)
+    }
+
+    /**
+     * Subscribe to diff-depth events every 100ms. Not throttled: every event is
+     * needed to keep a local book in sync (see services/orderBookSync)
+     */
+    subscribeDepth(symbol: string, callback: DepthCallback): () => void {
+        const streamName = `${symbol.toLowerCase()}@depth@100ms`
 
-        return () => this.removeSubscription(streamName, callback as any)
+        this.addSubscription(streamName, callback)
+
+        return () => this.removeSubscription(streamName, callback)
     }
 
-    private addSubscription(streamName: string, callback: any) {
+    private addSubscription<T>(streamName: string, callback: StreamCallback<T>) {
         if (!this.subscriptions.has(streamName)) {
             this.subscriptions.set(streamName, new Set())
+            this.scheduleSync()
         }
         this.subscriptions.get(streamName)!.add(callback)
     }
 
-    private removeSubscription(streamName: string, callback: any) {
+    private removeSubscription<T>(streamName: string, callback: StreamCallback<T>) {
         const callbacks = this.subscriptions.get(streamName)
         if (callbacks) {
             callbacks.delete(callback)
             if (callbacks.size === 0) {
                 this.subscriptions.delete(streamName)
-                this.disconnectStream(streamName)
+                this.scheduleSync()
             }
         }
     }
 
-    private connect(streamName: string) {
-        const url = `${this.baseUrl}/${streamName}`
+    // ============================================
+    // CONNECTION
+    // ============================================
+
+    /**
+     * Reconcile the server's streams with the subscriptions at the end of the tick,
+     * so an unsubscribe followed by a resubscribe sends nothing at all
+     */
+    private scheduleSync() {
+        if (this.syncTimeout) return
+        this.syncTimeout = setTimeout(() => {
+            this.syncTimeout = null
+            this.syncStreams()
+        }, 0)
+    }
 
-        console.log(`[Binance WS] Connecting to ${streamName}...`)
+    private syncStreams() {
+        if (this.subscriptions.size === 0) {
+            this.closeSocket()
+            return
+        }
 
-        const ws = new WebSocket(url)
-        this.connections.set(streamName, ws)
+        if (!this.socket) {
+            this.connect()
+            return
+        }
 
-        ws.onopen = () => {
-            console.log(`[Binance WS] Connected to ${streamName}`)
-            this.reconnectAttempts.set(streamName, 0)
-
-            // Clear any pending reconnect timeout
-            const pendingTimeout = this.reconnectTimeouts.get(streamName)
-            if (pendingTimeout) {
-                clearTimeout(pendingTimeout)
-                this.reconnectTimeouts.delete(streamName)
+        // Still connecting: onopen subscribes everything
+        if (this.socket.readyState !== WebSocket.OPEN) return
+
+        const unsubscribe = [...this.requestedStreams].filter(name => !this.subscriptions.has(name))
+        const subscribe = [...this.subscriptions.keys()].filter(name => !this.requestedStreams.has(name))
+
+        if (unsubscribe.length > 0) this.sendRequest('UNSUBSCRIBE', unsubscribe)
+        if (subscribe.length > 0) this.sendRequest('SUBSCRIBE', subscribe)
+    }
+
+    private sendRequest(method: PendingRequest['method'], params: string[]) {
+        const id = this.nextRequestId++
+        this.pendingRequests.set(id, { method, params })
+
+        for (const name of params) {
+            if (method === 'SUBSCRIBE') {
+                this.requestedStreams.add(name)
+            } else {
+                this.requestedStreams.delete(name)
+                this.activeStreams.delete(name)
             }
+        }
 
-            // Ping to keep connection alive
-            const pingInterval = setInterval(() => {
-                if (ws.readyState === WebSocket.OPEN) {
-                    ws.send(JSON.stringify({ method: 'ping' }))
-                }
-            }, 30000)
-            this.pingIntervals.set(streamName, pingInterval)
+        this.socket!.send(JSON.stringify({ method, params, id }))
+    }
+
+    private connect() {
+        if (this.reconnectTimeout) {
+            clearTimeout(this.reconnectTimeout)
+            this.reconnectTimeout = null
+        }
+
+        // The browser answers the server's pings itself, so no keep-alive is needed
+        const ws = new WebSocket(this.baseUrl)
+        this.socket = ws
+
+        ws.onopen = () => {
+            this.reconnectAttempts = 0
+
+            // A fresh connection has no streams: request every current subscription
+            this.syncStreams()
         }
 
         ws.onmessage = (event) => {
             try {
-                const data = JSON.parse(event.data)
-                this.handleMessage(streamName, data)
+                const message = JSON.parse(event.data)
+                if (message.stream) {
+                    this.handleMessage(message.stream, message.data)
+                } else if ('id' in message) {
+                    this.handleResponse(message)
+                }
             } catch (error) {
                 console.error('[Binance WS] Parse error:', error)
             }
@@ -267,26 +265,67 @@ class BinanceWebSocket {
         }
 
         ws.onclose = () => {
-            console.log(`[Binance WS] ${streamName} connection closed`)
-            this.cleanupStream(streamName)
-
-            // Attempt reconnection with exponential backoff
-            const attempts = this.reconnectAttempts.get(streamName) || 0
-            if (attempts < this.maxReconnectAttempts && this.subscriptions.has(streamName)) {
-                this.reconnectAttempts.set(streamName, attempts + 1)
-                const delay = this.reconnectDelay * Math.pow(1.5, attempts)
-                console.log(`[Binance WS] Reconnecting ${streamName} in ${delay}ms (attempt ${attempts + 1})...`)
-
-                const timeout = setTimeout(() => {
-                    if (this.subscriptions.has(streamName)) {
-                        this.connect(streamName)
-                    }
+            // Closed on purpose by closeSocket
+            if (this.socket !== ws) return
+
+            this.resetConnectionState()
+            this.socket = null
+
+            // Keep reconnecting with exponential backoff, capped so streams come back soon after an outage
+            if (this.subscriptions.size > 0) {
+                const delay = Math.min(this.reconnectDelay * Math.pow(1.5, this.reconnectAttempts), this.maxReconnectDelay)
+                this.reconnectAttempts++
+
+                this.reconnectTimeout = setTimeout(() => {
+                    this.reconnectTimeout = null
+                    this.syncStreams()
                 }, delay)
-                this.reconnectTimeouts.set(streamName, timeout)
             }
         }
     }
 
+    /**
+     * Reply to a SUBSCRIBE/UNSUBSCRIBE request: { result: null, id } or { error, id }
+     */
+    private handleResponse(message: { id: number | null; result?: unknown; error?: { code: number; msg: string } }) {
+        const request = message.id !== null ? this.pendingRequests.get(message.id) : undefined
+
+        if (message.error) {
+            const target = request ? `${request.method} ${request.params.join(', ')}` : 'Request'
+            console.error(`[Binance WS] ${target} failed:`, message.error.msg)
+
+            // Leave failed streams unrequested so the next sync tries them again
+            if (request?.method === 'SUBSCRIBE') {
+                request.params.forEach(name => this.requestedStreams.delete(name))
+            }
+        } else if (request?.method === 'SUBSCRIBE') {
+            request.params
+                .filter(name => this.requestedStreams.has(name))
+                .forEach(name => this.activeStreams.add(name))
+        }
+
+        if (message.id !== null) this.pendingRequests.delete(message.id)
+    }
+
+    private resetConnectionState() {
+        this.requestedStreams.clear()
+        this.activeStreams.clear()
+        this.pendingRequests.clear()
+    }
+
+    private closeSocket() {
+        if (this.reconnectTimeout) {
+            clearTimeout(this.reconnectTimeout)
+            this.reconnectTimeout = null
+        }
+        this.reconnectAttempts = 0
+
+        const ws = this.socket
+        this.socket = null
+        this.resetConnectionState()
+        ws?.close()
+    }
+
     private handleMessage(streamName: string, data: any) {
         const callbacks = this.subscriptions.get(streamName)
         if (!callbacks) return
@@ -327,12 +366,12 @@ class BinanceWebSocket {
 
         // Handle mini ticker
         if (data.e === '24hrMiniTicker') {
-            const miniData = {
+            const miniData: MiniTickerData = {
                 symbol: data.s,
                 price: parseFloat(data.c),
                 time: data.E,
             }
-            callbacks.forEach((cb) => (cb as any)(miniData))
+            callbacks.forEach((cb) => (cb as MiniTickerCallback)(miniData))
         }
 
         // Handle aggTrade data
@@ -348,6 +387,19 @@ class BinanceWebSocket {
             callbacks.forEach((cb) => (cb as TradeCallback)(tradeData))
         }
 
+        // Handle diff-depth data
+        if (data.e === 'depthUpdate') {
+            const depthData: DepthUpdate = {
+                symbol: data.s,
+                firstUpdateId: data.U,
+                finalUpdateId: data.u,
+                bids: parseDepthLevels(data.b),
+                asks: parseDepthLevels(data.a),
+                time: data.E,
+            }
+            callbacks.forEach((cb) => (cb as DepthCallback)(depthData))
+        }
+
         // Handle individual trade data
         if (data.e === 'trade') {
             const tradeData: TradeData = {
@@ -362,30 +414,6 @@ class BinanceWebSocket {
         }
     }
 
-    private cleanupStream(streamName: string) {
-        const pingInterval = this.pingIntervals.get(streamName)
-        if (pingInterval) {
-            clearInterval(pingInterval)
-            this.pingIntervals.delete(streamName)
-        }
-
-        const reconnectTimeout = this.reconnectTimeouts.get(streamName)
-        if (reconnectTimeout) {
-            clearTimeout(reconnectTimeout)
-            this.reconnectTimeouts.delete(streamName)
-        }
-
-        this.connections.delete(streamName)
-    }
-
-    private disconnectStream(streamName: string) {
-        const ws = this.connections.get(streamName)
-        if (ws) {
-            ws.close()
-        }
-        this.cleanupStream(streamName)
-    }
-
     /**
      * Disconnect all streams and cleanup all resources
      */
@@ -396,22 +424,25 @@ class BinanceWebSocket {
         }
         this.throttledCallbacks.clear()
 
-        // Close all connections
-        for (const [streamName] of this.connections) {
-            this.disconnectStream(streamName)
+        if (this.syncTimeout) {
+            clearTimeout(this.syncTimeout)
+            this.syncTimeout = null
         }
+
         this.subscriptions.clear()
+        this.closeSocket()
     }
 
     isConnected(streamName?: string): boolean {
+        const open = this.socket?.readyState === WebSocket.OPEN
         if (streamName) {
-            return this.connections.get(streamName)?.readyState === WebSocket.OPEN
+            return open && this.activeStreams.has(streamName)
         }
-        return this.connections.size > 0
+        return open
     }
 
     getActiveStreams(): string[] {
-        return Array.from(this.connections.keys())
+        return Array.from(this.activeStreams)
     }
 }
 
@@ -419,12 +450,31 @@ class BinanceWebSocket {
 export const binanceWS = new BinanceWebSocket()
 
 // REST API functions remain the same
+
+function parseRestKline(kline: any[]): KlineData {
+    return {
+        time: Math.floor(kline[0] / 1000),
+        open: parseFloat(kline[1]),
+        high: parseFloat(kline[2]),
+        low: parseFloat(kline[3]),
+        close: parseFloat(kline[4]),
+        volume: parseFloat(kline[5]),
+        closeTime: kline[6],
+        quoteVolume: parseFloat(kline[7]),
+        trades: kline[8],
+        isFinal: true,
+    }
+}
+
+// The latest candles, or the latest ones closing by endTime (ms)
 export async function fetchHistoricalKlines(
     symbol: string,
     interval: string,
-    limit: number = 500
+    limit: number = 500,
+    endTime?: number
 ): Promise<KlineData[]> {
-    const url = `https://api.binance.com/api/v3/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&limit=${limit}`
+    let url = `https://api.binance.com/api/v3/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&limit=${limit}`
+    if (endTime !== undefined) url += `&endTime=${endTime}`
 
     const response = await fetch(url)
     if (!response.ok) {
@@ -433,18 +483,72 @@ export async function fetchHistoricalKlines(
 
     const data = await response.json()
 
-    return data.map((kline: any[]) => ({
-        time: Math.floor(kline[0] / 1000),
-        open: parseFloat(kline[1]),
-        high: parseFloat(kline[2]),
-        low: parseFloat(kline[3]),
-        close: parseFloat(kline[4]),
-        volume: parseFloat(kline[5]),
-        closeTime: kline[6],
-        quoteVolume: parseFloat(kline[7]),
-        trades: kline[8],
-        isFinal: true,
-    }))
+    return data.map(parseRestKline)
+}
+
+// Every candle opening between two times (ms), a page of 1000 at a time
+export async function fetchKlineRange(
+    symbol: string,
+    interval: string,
+    startTime: number,
+    endTime: number
+): Promise<KlineData[]> {
+    const klines: KlineData[] = []
+    let from = startTime
+
+    while (from < endTime) {
+        const url = `https://api.binance.com/api/v3/klines?symbol=${symbol.toUpperCase()}&interval=${interval}&startTime=${from}&endTime=${endTime}&limit=1000`
+
+        const response = await fetch(url)
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const data: any[][] = await response.json()
+        klines.push(...data.map(parseRestKline))
+
+        if (data.length < 1000) break
+        from = data[data.length - 1][6] + 1
+    }
+
+    return klines
+}
+
+// Aggregate trades between two times (ms, at most an hour apart), up to maxPages pages of 1000
+export async function fetchAggTrades(
+    symbol: string,
+    startTime: number,
+    endTime: number,
+    maxPages: number = 10
+): Promise<TradeData[]> {
+    const base = `https://api.binance.com/api/v3/aggTrades?symbol=${symbol.toUpperCase()}&limit=1000`
+    const trades: TradeData[] = []
+    let url = `${base}&startTime=${startTime}&endTime=${endTime}`
+
+    for (let page = 0; page < maxPages; page++) {
+        const response = await fetch(url)
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`)
+        }
+
+        const data: any[] = await response.json()
+        const inRange = data.filter(t => t.T <= endTime)
+        trades.push(...inRange.map((t): TradeData => ({
+            symbol: symbol.toUpperCase(),
+            price: parseFloat(t.p),
+            quantity: parseFloat(t.q),
+            time: t.T,
+            isBuyerMaker: t.m,
+            tradeId: t.a,
+        })))
+
+        if (data.length < 1000 || inRange.length < data.length) break
+
+        // Later pages continue from the last trade id
+        url = `${base}&fromId=${data[data.length - 1].a + 1}`
+    }
+
+    return trades
 }
 
 export async function fetchTicker(symbol: string): Promise<TickerData> {
@@ -493,3 +597,71 @@ export async function fetchMultipleTickers(symbols: string[]): Promise<TickerDat
         lastUpdateTime: item.closeTime,
     }))
 }
+
+export async function fetchDepthSnapshot(symbol: string, limit: number = 1000): Promise<BookSnapshot> {
+    const url = `https://api.binance.com/api/v3/depth?symbol=${symbol.toUpperCase()}&limit=${limit}`
+
+    const response = await fetch(url)
+    if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    const data = await response.json()
+
+    return {
+        lastUpdateId: data.lastUpdateId,
+        bids: parseDepthLevels(data.bids),
+        asks: parseDepthLevels(data.asks),
+    }
+}
+
+// Spot pairs quoted in the given asset that are trading now, with their order filters
+export async function fetchExchangeInfo(quoteAsset: string = 'USDT'): Promise<ExchangeSymbol[]> {
+    const url = 'https://api.binance.com/api/v3/exchangeInfo?permissions=SPOT'
+
+    const response = await fetch(url)
+    if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+    }
+
+    const data = await response.json()
+
+    return data.symbols
+        .filter((s: any) => s.status === 'TRADING' && s.quoteAsset === quoteAsset)
+        .map((s: any) => {
+            const filter = (type: string) => s.filters.find((f: any) => f.filterType === type) ?? {}
+            const price = filter('PRICE_FILTER')
+            const lot = filter('LOT_SIZE')
+            // Newer pairs use NOTIONAL, older ones MIN_NOTIONAL
+            const notional = { ...filter('MIN_NOTIONAL'), ...filter('NOTIONAL') }
+
+            return {
+                symbol: s.symbol,
+                baseAsset: s.baseAsset,
+                quoteAsset: s.quoteAsset,
+                tickSize: parseFloat(price.tickSize ?? '0.00000001'),
+                minQty: parseFloat(lot.minQty ?? '0'),
+                maxQty: parseFloat(lot.maxQty ?? String(Number.MAX_SAFE_INTEGER)),
+                stepSize: parseFloat(lot.stepSize ?? '0.00000001'),
+                minNotional: parseFloat(notional.minNotional ?? '0'),
+            }
+        })
+}
+
+// Binance as a market data provider
+export const binanceProvider: MarketDataProvider = {
+    source: 'binance',
+
+    subscribeAggTrade: (symbol, callback, throttleMs) => binanceWS.subscribeAggTrade(symbol, callback, throttleMs),
+    subscribeKline: (symbol, interval, callback) => binanceWS.subscribeKline(symbol, interval, callback),
+    subscribeTicker: (symbol, callback) => binanceWS.subscribeTicker(symbol, callback),
+    subscribeDepth: (symbol, callback) => binanceWS.subscribeDepth(symbol, callback),
+
+    fetchHistoricalKlines,
+    fetchTicker,
+    fetchMultipleTickers,
+    fetchDepthSnapshot,
+    fetchExchangeInfo,
+
+    disconnect: () => binanceWS.disconnect(),
+}
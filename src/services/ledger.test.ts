@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest'
+import { readLegacyHistory } from './ledger'
+
+describe('Ledger', () => {
+    it('should migrate saved wallet history with Date values', () => {
+        const at = new Date(Date.UTC(2024, 0, 1, 12))
+        const order = {
+            id: 'order-1', symbol: 'BTCUSDT', side: 'buy', type: 'limit', status: 'open',
+            quantity: 0.01, executedQty: 0, price: 40000, createdAt: at, updatedAt: at,
+        }
+        const raw = JSON.stringify({
+            version: 1,
+            state: {
+                activePortfolioId: 'main',
+                transactions: [{ id: 'tx-1', type: 'deposit', symbol: 'USD', amount: 500, timestamp: at }],
+                orders: [order],
+                storedPortfolios: {
+                    other: { transactions: [{ id: 'tx-2', type: 'deposit', symbol: 'USD', amount: 500, timestamp: at }] },
+                },
+            },
+        })
+
+        const { transactions, orderEvents } = readLegacyHistory(raw)
+
+        expect(transactions.map(t => [t.portfolioId, t.id])).toEqual([['main', 'tx-1'], ['other', 'tx-2']])
+        expect(transactions.every(t => t.timestamp instanceof Date)).toBe(true)
+        expect(transactions[0].timestamp.getTime()).toBe(at.getTime())
+
+        expect(orderEvents).toHaveLength(1)
+        expect(orderEvents[0].timestamp).toBeInstanceOf(Date)
+        expect(orderEvents[0].order.createdAt).toBeInstanceOf(Date)
+        expect(orderEvents[0].order.updatedAt.getTime()).toBe(at.getTime())
+    })
+
+    it('should find nothing to migrate without a saved wallet', () => {
+        expect(readLegacyHistory(null)).toEqual({ transactions: [], orderEvents: [] })
+    })
+})
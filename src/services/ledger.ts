@@ -0,0 +1,436 @@
+/**
+ * Transaction Ledger
+ * Keeps every transaction and order state change in IndexedDB, without the
+ * caps the localStorage wallet needs, and answers paginated history queries.
+ * Journal chart snapshots live here too, too large for localStorage.
+ */
+
+import type { Order, OrderStatus } from '@/entities'
+import { reviveDates } from '@/lib/persistence'
+import type { Transaction } from '@/stores/walletStore'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface LedgerTransaction extends Transaction {
+    portfolioId: string
+}
+
+// Snapshot of an order each time its status or fills change
+export interface LedgerOrderEvent {
+    id: string
+    portfolioId: string
+    orderId: string
+    symbol: string
+    status: OrderStatus
+    timestamp: Date
+    order: Order
+}
+
+export interface LedgerQuery {
+    portfolioId?: string
+    symbol?: string
+    types?: string[]        // Transaction types or order statuses
+    from?: Date
+    to?: Date
+    page?: number           // Zero-based
+    pageSize?: number
+}
+
+export interface LedgerPage<T> {
+    items: T[]
+    total: number
+    page: number
+    pageSize: number
+    hasMore: boolean
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const DB_NAME = 'quantix-ledger'
+const DB_VERSION = 3
+
+const TRANSACTIONS = 'transactions'
+const ORDER_EVENTS = 'orderEvents'
+const META = 'meta'
+const SNAPSHOTS = 'snapshots'
+
+const DEFAULT_PAGE_SIZE = 25
+
+// Outermost valid dates, to bound a portfolio's entries in the compound index
+const MIN_DATE = new Date(-8.64e15)
+const MAX_DATE = new Date(8.64e15)
+
+// localStorage key of the wallet whose history is imported once
+const LEGACY_WALLET_KEY = 'quantix-wallet'
+const MIGRATION_KEY = 'migratedFromLocalStorage'
+
+// ============================================
+// DATABASE
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve()
+        tx.onerror = () => reject(tx.error)
+        tx.onabort = () => reject(tx.error)
+    })
+}
+
+export function isLedgerAvailable(): boolean {
+    return typeof indexedDB !== 'undefined'
+}
+
+/**
+ * Entries are keyed per portfolio, so a portfolio can never overwrite another's history
+ */
+function createEntryStore(db: IDBDatabase, name: string): IDBObjectStore {
+    const store = db.createObjectStore(name, { keyPath: ['portfolioId', 'id'] })
+    store.createIndex('timestamp', 'timestamp')
+    store.createIndex('portfolioTimestamp', ['portfolioId', 'timestamp'])
+    if (name === ORDER_EVENTS) store.createIndex('orderId', 'orderId')
+    return store
+}
+
+/**
+ * Version 1 keyed entries by bare id; a key path can't change in place,
+ * so copy each store's entries into a new one
+ */
+function rekeyEntryStore(db: IDBDatabase, tx: IDBTransaction, name: string) {
+    const request = tx.objectStore(name).getAll()
+    request.onsuccess = () => {
+        db.deleteObjectStore(name)
+        const store = createEntryStore(db, name)
+        request.result.filter(entry => entry.portfolioId).forEach(entry => store.put(entry))
+    }
+}
+
+function openLedger(): Promise<IDBDatabase> {
+    if (dbPromise) return dbPromise
+
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = (event) => {
+            const db = request.result
+
+            if (event.oldVersion < 1) {
+                createEntryStore(db, TRANSACTIONS)
+                createEntryStore(db, ORDER_EVENTS)
+                db.createObjectStore(META)
+            } else if (event.oldVersion < 2) {
+                rekeyEntryStore(db, request.transaction!, TRANSACTIONS)
+                rekeyEntryStore(db, request.transaction!, ORDER_EVENTS)
+            }
+
+            if (event.oldVersion < 3) db.createObjectStore(SNAPSHOTS)
+        }
+
+        request.onsuccess = () => resolve(request.result)
+        request.onerror = () => reject(request.error)
+    }).then(async (db) => {
+        await migrateFromLocalStorage(db)
+        return db
+    })
+
+    // Let a later call try again after a failed open
+    dbPromise.catch(() => { dbPromise = null })
+
+    return dbPromise
+}
+
+// ============================================
+// WRITES
+// ============================================
+
+/**
+ * Id of an order event; the same order state always maps to the same id,
+ * so writing it twice is harmless
+ */
+export function getOrderEventId(order: Order): string {
+    return `${order.id}:${order.status}:${order.executedQty}:${new Date(order.updatedAt).getTime()}`
+}
+
+export function toOrderEvent(order: Order, portfolioId: string): LedgerOrderEvent {
+    return {
+        id: getOrderEventId(order),
+        portfolioId,
+        orderId: order.id,
+        symbol: order.symbol,
+        status: order.status,
+        timestamp: new Date(order.updatedAt),
+        order,
+    }
+}
+
+async function putAll(
+    db: IDBDatabase,
+    transactions: LedgerTransaction[],
+    orderEvents: LedgerOrderEvent[],
+    clearedPortfolioIds: string[] = []
+): Promise<void> {
+    const tx = db.transaction([TRANSACTIONS, ORDER_EVENTS], 'readwrite')
+    const transactionStore = tx.objectStore(TRANSACTIONS)
+    const orderEventStore = tx.objectStore(ORDER_EVENTS)
+
+    // Every key of a portfolio sorts between [id] and [id, []]
+    clearedPortfolioIds.forEach((portfolioId) => {
+        const range = IDBKeyRange.bound([portfolioId], [portfolioId, []])
+        transactionStore.delete(range)
+        orderEventStore.delete(range)
+    })
+    transactions.forEach(t => transactionStore.put({ ...t, timestamp: new Date(t.timestamp) }))
+    orderEvents.forEach(e => orderEventStore.put(e))
+
+    await transactionDone(tx)
+}
+
+/**
+ * Add entries to the ledger. An existing entry with the same portfolio and id is replaced.
+ */
+export async function appendToLedger(entries: {
+    transactions?: LedgerTransaction[]
+    orderEvents?: LedgerOrderEvent[]
+}): Promise<void> {
+    const { transactions = [], orderEvents = [] } = entries
+    if (!isLedgerAvailable() || (transactions.length === 0 && orderEvents.length === 0)) return
+
+    try {
+        await putAll(await openLedger(), transactions, orderEvents)
+    } catch (error) {
+        console.error('Error writing to ledger:', error)
+    }
+}
+
+/**
+ * Drop the whole history of the given portfolios and write the entries in its place
+ */
+export async function replacePortfolioHistory(portfolioIds: string[], entries: {
+    transactions?: LedgerTransaction[]
+    orderEvents?: LedgerOrderEvent[]
+}): Promise<void> {
+    const { transactions = [], orderEvents = [] } = entries
+    if (!isLedgerAvailable()) return
+
+    try {
+        await putAll(await openLedger(), transactions, orderEvents, portfolioIds)
+    } catch (error) {
+        console.error('Error writing to ledger:', error)
+    }
+}
+
+// ============================================
+// MIGRATION
+// ============================================
+
+/**
+ * The history a saved localStorage wallet holds, for every portfolio in it
+ */
+export function readLegacyHistory(raw: string | null): {
+    transactions: LedgerTransaction[]
+    orderEvents: LedgerOrderEvent[]
+} {
+    const transactions: LedgerTransaction[] = []
+    const orderEvents: LedgerOrderEvent[] = []
+
+    // Timestamps are ISO strings in the saved JSON; the ledger keeps Dates
+    const state = raw ? JSON.parse(raw, reviveDates).state : undefined
+    if (!state) return { transactions, orderEvents }
+
+    const activeId: string = state.activePortfolioId ?? 'main'
+    const portfolios: [string, { transactions?: Transaction[]; orders?: Order[] }][] = [
+        [activeId, state],
+        ...Object.entries<{ transactions?: Transaction[]; orders?: Order[] }>(state.storedPortfolios ?? {}),
+    ]
+
+    portfolios.forEach(([portfolioId, data]) => {
+        transactions.push(...(data.transactions ?? []).map(t => ({ ...t, portfolioId })))
+        orderEvents.push(...(data.orders ?? []).map(o => toOrderEvent(o, portfolioId)))
+    })
+
+    return { transactions, orderEvents }
+}
+
+/**
+ * Copy the history that the localStorage wallet still holds into the ledger,
+ * once per browser
+ */
+async function migrateFromLocalStorage(db: IDBDatabase): Promise<void> {
+    const metaTx = db.transaction(META, 'readonly')
+    const migrated = await requestToPromise(metaTx.objectStore(META).get(MIGRATION_KEY))
+    if (migrated) return
+
+    let history: ReturnType<typeof readLegacyHistory> = { transactions: [], orderEvents: [] }
+    try {
+        history = readLegacyHistory(localStorage.getItem(LEGACY_WALLET_KEY))
+    } catch (error) {
+        console.error('Error reading wallet history for the ledger:', error)
+    }
+
+    await putAll(db, history.transactions, history.orderEvents)
+
+    const doneTx = db.transaction(META, 'readwrite')
+    doneTx.objectStore(META).put(true, MIGRATION_KEY)
+    await transactionDone(doneTx)
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Walk an object store newest first within the date range (and portfolio, if given),
+ * keeping the requested page of entries that pass the filter
+ */
+async function queryStore<T extends { timestamp: Date }>(
+    storeName: string,
+    query: LedgerQuery,
+    matches: (item: T) => boolean
+): Promise<LedgerPage<T>> {
+    const page = query.page ?? 0
+    const pageSize = query.pageSize ?? DEFAULT_PAGE_SIZE
+    const empty = { items: [], total: 0, page, pageSize, hasMore: false }
+
+    if (!isLedgerAvailable()) return empty
+
+    let db: IDBDatabase
+    try {
+        db = await openLedger()
+    } catch (error) {
+        console.error('Error opening ledger:', error)
+        return empty
+    }
+
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName)
+    let index: IDBIndex
+    let range: IDBKeyRange | undefined
+
+    if (query.portfolioId) {
+        index = store.index('portfolioTimestamp')
+        range = IDBKeyRange.bound(
+            [query.portfolioId, query.from ?? MIN_DATE],
+            [query.portfolioId, query.to ?? MAX_DATE]
+        )
+    } else {
+        index = store.index('timestamp')
+        range = query.from && query.to
+            ? IDBKeyRange.bound(query.from, query.to)
+            : query.from
+                ? IDBKeyRange.lowerBound(query.from)
+                : query.to
+                    ? IDBKeyRange.upperBound(query.to)
+                    : undefined
+    }
+
+    const request = index.openCursor(range, 'prev')
+    const start = page * pageSize
+    const items: T[] = []
+    let total = 0
+
+    return new Promise((resolve, reject) => {
+        request.onerror = () => reject(request.error)
+        request.onsuccess = () => {
+            const cursor = request.result
+            if (!cursor) {
+                resolve({ items, total, page, pageSize, hasMore: start + items.length < total })
+                return
+            }
+
+            const item = cursor.value as T
+            if (matches(item)) {
+                if (total >= start && items.length < pageSize) items.push(item)
+                total++
+            }
+            cursor.continue()
+        }
+    })
+}
+
+export function queryTransactions(query: LedgerQuery = {}): Promise<LedgerPage<LedgerTransaction>> {
+    return queryStore<LedgerTransaction>(TRANSACTIONS, query, (t) =>
+        (!query.portfolioId || t.portfolioId === query.portfolioId)
+        && (!query.symbol || t.symbol === query.symbol)
+        && (!query.types?.length || query.types.includes(t.type))
+    )
+}
+
+export function queryOrderEvents(query: LedgerQuery = {}): Promise<LedgerPage<LedgerOrderEvent>> {
+    return queryStore<LedgerOrderEvent>(ORDER_EVENTS, query, (e) =>
+        (!query.portfolioId || e.portfolioId === query.portfolioId)
+        && (!query.symbol || e.symbol === query.symbol)
+        && (!query.types?.length || query.types.includes(e.status))
+    )
+}
+
+/**
+ * Every transaction of a portfolio, oldest first
+ */
+export async function getTransactionHistory(portfolioId: string): Promise<LedgerTransaction[]> {
+    if (!isLedgerAvailable()) return []
+
+    const db = await openLedger()
+    const index = db.transaction(TRANSACTIONS, 'readonly').objectStore(TRANSACTIONS).index('portfolioTimestamp')
+    const range = IDBKeyRange.bound([portfolioId, MIN_DATE], [portfolioId, MAX_DATE])
+
+    return await requestToPromise(index.getAll(range)) as LedgerTransaction[]
+}
+
+/**
+ * Every state an order went through, oldest first
+ */
+export async function getOrderTimeline(orderId: string): Promise<LedgerOrderEvent[]> {
+    if (!isLedgerAvailable()) return []
+
+    const db = await openLedger()
+    const index = db.transaction(ORDER_EVENTS, 'readonly').objectStore(ORDER_EVENTS).index('orderId')
+    const events = await requestToPromise(index.getAll(orderId)) as LedgerOrderEvent[]
+
+    return events.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+}
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+/**
+ * Keep a journal chart image, as a data URL, under the given key.
+ * Throws when it cannot be stored, so the caller can tell the user.
+ */
+export async function saveSnapshot(id: string, image: string): Promise<void> {
+    if (!isLedgerAvailable()) throw new Error('Browser storage is not available')
+
+    const tx = (await openLedger()).transaction(SNAPSHOTS, 'readwrite')
+    tx.objectStore(SNAPSHOTS).put(image, id)
+    await transactionDone(tx)
+}
+
+export async function getSnapshot(id: string): Promise<string | undefined> {
+    if (!isLedgerAvailable()) return undefined
+
+    const db = await openLedger()
+    return await requestToPromise(db.transaction(SNAPSHOTS, 'readonly').objectStore(SNAPSHOTS).get(id)) as string | undefined
+}
+
+export async function deleteSnapshot(id: string): Promise<void> {
+    if (!isLedgerAvailable()) return
+
+    try {
+        const tx = (await openLedger()).transaction(SNAPSHOTS, 'readwrite')
+        tx.objectStore(SNAPSHOTS).delete(id)
+        await transactionDone(tx)
+    } catch (error) {
+        console.error('Error deleting snapshot:', error)
+    }
+}
@@ -0,0 +1,224 @@
+/**
+ * Market data
+ * The interface every market data source implements, and a `marketData`
+ * facade that forwards to the source picked in settings. The VITE_MARKET_DATA
+ * env var overrides the setting, so CI and offline demos can run without Binance.
+ * Replay sources also drive the market clock and the replay controls.
+ */
+
+import type { ExchangeSymbol } from '@/lib/assetRegistry'
+import { setMarketClock } from '@/lib/clock'
+import type { BookSnapshot, DepthUpdate } from '@/lib/orderBook'
+import { useMarketDataStore, type MarketDataSettings } from '@/stores/marketDataStore'
+import { useReplayStore } from '@/stores/replayStore'
+import { binanceProvider, fetchAggTrades, fetchHistoricalKlines, fetchKlineRange } from '@/services/binanceWebSocket'
+import { SyntheticMarketData } from '@/services/syntheticMarketData'
+import { ReplayMarketData, parseRecording, type MarketRecording } from '@/services/replayMarketData'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface KlineData {
+    time: number
+    open: number
+    high: number
+    low: number
+    close: number
+    volume: number
+    closeTime: number
+    quoteVolume: number
+    trades: number
+    isFinal: boolean
+}
+
+export interface TickerData {
+    symbol: string
+    price: number
+    priceChange: number
+    priceChangePercent: number
+    high24h: number
+    low24h: number
+    volume24h: number
+    quoteVolume24h: number
+    lastUpdateTime: number
+}
+
+export interface TradeData {
+    symbol: string
+    price: number
+    quantity: number
+    time: number
+    isBuyerMaker: boolean
+    tradeId: number
+}
+
+export type MarketDataSource = 'binance' | 'synthetic' | 'replay' | 'history'
+
+/**
+ * A source of prices. Subscriptions return their cleanup function.
+ */
+export interface MarketDataProvider {
+    readonly source: MarketDataSource
+
+    subscribeAggTrade(symbol: string, callback: (data: TradeData) => void, throttleMs?: number): () => void
+    subscribeKline(symbol: string, interval: string, callback: (data: KlineData) => void): () => void
+    subscribeTicker(symbol: string, callback: (data: TickerData) => void): () => void
+    subscribeDepth(symbol: string, callback: (data: DepthUpdate) => void): () => void
+
+    fetchHistoricalKlines(symbol: string, interval: string, limit?: number): Promise<KlineData[]>
+    fetchTicker(symbol: string): Promise<TickerData>
+    fetchMultipleTickers(symbols: string[]): Promise<TickerData[]>
+    fetchDepthSnapshot(symbol: string, limit?: number): Promise<BookSnapshot>
+    fetchExchangeInfo(quoteAsset?: string): Promise<ExchangeSymbol[]>
+
+    // Drop every subscription and release connections and timers
+    disconnect(): void
+}
+
+// ============================================
+// SOURCES
+// ============================================
+
+export const MARKET_DATA_SOURCES: Record<MarketDataSource, { id: MarketDataSource; label: string; description: string }> = {
+    binance: {
+        id: 'binance',
+        label: 'Binance (live)',
+        description: 'Real-time prices from the Binance public API',
+    },
+    synthetic: {
+        id: 'synthetic',
+        label: 'Synthetic',
+        description: 'Random-walk prices generated offline; the same seed gives the same market',
+    },
+    replay: {
+        id: 'replay',
+        label: 'Recorded file',
+        description: 'Plays back candles and trades from a JSON recording',
+    },
+    history: {
+        id: 'history',
+        label: 'Historical replay',
+        description: 'Plays back a past period of Binance candles and trades at up to 100x speed',
+    },
+}
+
+function parseSource(value: string | undefined): MarketDataSource | null {
+    return value && value in MARKET_DATA_SOURCES ? value as MarketDataSource : null
+}
+
+// Set by the build, e.g. VITE_MARKET_DATA=synthetic; wins over the setting
+export const ENV_MARKET_DATA_SOURCE = parseSource(import.meta.env.VITE_MARKET_DATA)
+const ENV_REPLAY_FILE = import.meta.env.VITE_MARKET_DATA_FILE || null
+
+export function selectMarketDataSource(state: MarketDataSettings): MarketDataSource {
+    return ENV_MARKET_DATA_SOURCE ?? state.source
+}
+
+/**
+ * Identifies the active provider; it changes whenever the provider is replaced,
+ * so effects that subscribe should list it as a dependency
+ */
+export function selectMarketDataKey(state: MarketDataSettings): string {
+    const source = selectMarketDataSource(state)
+    if (source === 'synthetic') return `synthetic:${state.syntheticSeed}`
+    if (source === 'replay') return `replay:${ENV_REPLAY_FILE ?? state.replayFile}`
+    if (source === 'history') return `history:${state.historySymbols.join(',')}:${state.historyStart}:${state.historyEnd}`
+    return source
+}
+
+// ============================================
+// ACTIVE PROVIDER
+// ============================================
+
+let active: { key: string; provider: MarketDataProvider } | null = null
+
+// Candles from before the range, so 1d candles and 24h stats are complete from the start
+const HISTORY_WARMUP_MS = 24 * 60 * 60 * 1000
+
+/**
+ * 1m candles of the symbols over a range, from Binance
+ */
+async function loadHistory(symbols: string[], startTime: number, endTime: number): Promise<MarketRecording> {
+    const klines = await Promise.all(symbols.map(symbol => fetchKlineRange(symbol, '1m', startTime, endTime)))
+    return parseRecording({
+        symbols: Object.fromEntries(symbols.map((symbol, i) => [symbol, { klines: klines[i] }])),
+    })
+}
+
+function createProvider(state: MarketDataSettings): MarketDataProvider {
+    switch (selectMarketDataSource(state)) {
+        case 'synthetic':
+            return new SyntheticMarketData({
+                seed: state.syntheticSeed,
+                // Read on every step so the setting applies without a restart
+                volatility: () => useMarketDataStore.getState().syntheticVolatility,
+            })
+        case 'replay':
+            return new ReplayMarketData(ENV_REPLAY_FILE ?? state.replayFile)
+        case 'history':
+            return new ReplayMarketData({
+                source: 'history',
+                startTime: state.historyStart,
+                load: () => loadHistory(state.historySymbols, state.historyStart - HISTORY_WARMUP_MS, state.historyEnd),
+                loadTrades: (symbol, startTime, endTime) => fetchAggTrades(symbol, startTime, endTime),
+                loadKlines: (symbol, interval, endTime, limit) => fetchHistoricalKlines(symbol, interval, limit, endTime),
+            })
+        default:
+            return binanceProvider
+    }
+}
+
+/**
+ * The provider for the current settings, replacing the previous one if they changed
+ */
+export function getMarketDataProvider(): MarketDataProvider {
+    const state = useMarketDataStore.getState()
+    const key = selectMarketDataKey(state)
+
+    if (active?.key !== key) {
+        active?.provider.disconnect()
+        active = { key, provider: createProvider(state) }
+        followClock(active.provider)
+    }
+
+    return active.provider
+}
+
+/**
+ * The replay in progress, if the active source is one
+ */
+export function getReplay(): ReplayMarketData | null {
+    const provider = getMarketDataProvider()
+    return provider instanceof ReplayMarketData ? provider : null
+}
+
+// Trading runs on replay time while a replay is active
+function followClock(provider: MarketDataProvider) {
+    if (provider instanceof ReplayMarketData) {
+        setMarketClock(() => provider.now())
+        useReplayStore.getState().attach(provider)
+    } else {
+        setMarketClock(null)
+        useReplayStore.getState().detach()
+    }
+}
+
+export const marketData: MarketDataProvider = {
+    get source() {
+        return getMarketDataProvider().source
+    },
+
+    subscribeAggTrade: (symbol, callback, throttleMs) => getMarketDataProvider().subscribeAggTrade(symbol, callback, throttleMs),
+    subscribeKline: (symbol, interval, callback) => getMarketDataProvider().subscribeKline(symbol, interval, callback),
+    subscribeTicker: (symbol, callback) => getMarketDataProvider().subscribeTicker(symbol, callback),
+    subscribeDepth: (symbol, callback) => getMarketDataProvider().subscribeDepth(symbol, callback),
+
+    fetchHistoricalKlines: (symbol, interval, limit) => getMarketDataProvider().fetchHistoricalKlines(symbol, interval, limit),
+    fetchTicker: (symbol) => getMarketDataProvider().fetchTicker(symbol),
+    fetchMultipleTickers: (symbols) => getMarketDataProvider().fetchMultipleTickers(symbols),
+    fetchDepthSnapshot: (symbol, limit) => getMarketDataProvider().fetchDepthSnapshot(symbol, limit),
+    fetchExchangeInfo: (quoteAsset) => getMarketDataProvider().fetchExchangeInfo(quoteAsset),
+
+    disconnect: () => active?.provider.disconnect(),
+}
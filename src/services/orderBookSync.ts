@@ -0,0 +1,106 @@
+/**
+ * Order book sync
+ * Builds a local order book from the diff-depth stream and a REST snapshot:
+ * events are buffered until the snapshot arrives, stale ones are dropped and
+ * the book is rebuilt whenever the update ids show a missed event
+ */
+
+import { marketData } from '@/services/marketData'
+import { OrderBook, type DepthUpdate, type OrderBookView } from '@/lib/orderBook'
+
+export interface OrderBookOptions {
+    levels?: number       // Levels per side in each view
+    throttleMs?: number   // Minimum time between views
+}
+
+const RESYNC_DELAY_MS = 1000
+
+/**
+ * Keep a local book for a symbol and report its view as it changes.
+ * Returns the cleanup function.
+ */
+export function subscribeOrderBook(
+    symbol: string,
+    onUpdate: (view: OrderBookView) => void,
+    { levels = 20, throttleMs = 250 }: OrderBookOptions = {}
+): () => void {
+    const book = new OrderBook()
+
+    // Events received while a snapshot is loading; null once the book is live
+    let buffer: DepthUpdate[] | null = []
+    let generation = 0
+    let closed = false
+    let emitTimeout: ReturnType<typeof setTimeout> | null = null
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null
+
+    const emit = () => {
+        if (emitTimeout) return
+        emitTimeout = setTimeout(() => {
+            emitTimeout = null
+            if (!closed) onUpdate(book.getView(levels))
+        }, throttleMs)
+    }
+
+    const retry = () => {
+        if (closed || retryTimeout) return
+        retryTimeout = setTimeout(() => {
+            retryTimeout = null
+            resync()
+        }, RESYNC_DELAY_MS)
+    }
+
+    const apply = (update: DepthUpdate): boolean => {
+        if (book.applyUpdate(update) === 'gap') {
+            console.warn(`[Order book] ${symbol} missed updates after ${book.getLastUpdateId()}, resyncing`)
+            resync()
+            return false
+        }
+        return true
+    }
+
+    async function resync() {
+        const current = ++generation
+        buffer = []
+
+        try {
+            const snapshot = await marketData.fetchDepthSnapshot(symbol)
+            if (closed || current !== generation) return
+
+            // The snapshot must not predate the first buffered event
+            if (buffer.length > 0 && snapshot.lastUpdateId < buffer[0].firstUpdateId) {
+                retry()
+                return
+            }
+
+            book.loadSnapshot(snapshot)
+            const pending = buffer
+            buffer = null
+
+            for (const update of pending) {
+                if (!apply(update)) return
+            }
+            emit()
+        } catch (error) {
+            if (closed || current !== generation) return
+            console.error(`Error loading the ${symbol} order book:`, error)
+            retry()
+        }
+    }
+
+    const unsubscribe = marketData.subscribeDepth(symbol, (update) => {
+        if (buffer) {
+            buffer.push(update)
+            return
+        }
+        if (apply(update)) emit()
+    })
+
+    resync()
+
+    return () => {
+        closed = true
+        unsubscribe()
+        if (emitTimeout) clearTimeout(emitTimeout)
+        if (retryTimeout) clearTimeout(retryTimeout)
+    }
+}
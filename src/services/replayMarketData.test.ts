@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { ReplayMarketData } from './replayMarketData'
+
+const start = Date.UTC(2021, 4, 19)
+
+const klines = [45000, 44000, 43000, 42000].map((close, i) => ({
+    time: (start + i * 60_000) / 1000,
+    open: close + 500,
+    high: close + 600,
+    low: close - 100,
+    close,
+    volume: 10,
+    closeTime: start + (i + 1) * 60_000 - 1,
+    quoteVolume: 10 * close,
+    trades: 100,
+    isFinal: true,
+}))
+
+describe('Replay Market Data', () => {
+    it('should step a paused replay one candle at a time', async () => {
+        const replay = new ReplayMarketData({ load: async () => ({ symbols: { BTCUSDT: { klines } } }), autoplay: false })
+
+        try {
+            expect((await replay.fetchTicker('BTCUSDT')).price).toBe(45500)
+            expect(replay.getClockState()).toMatchObject({ time: start, startTime: start, playing: false, loading: false })
+
+            replay.step()
+            replay.step()
+            expect(replay.getClockState()).toMatchObject({ time: start + 120_000, playing: false })
+            expect((await replay.fetchTicker('BTCUSDT')).price).toBe(44000)
+        } finally {
+            replay.disconnect()
+        }
+    })
+})
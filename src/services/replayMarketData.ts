@@ -0,0 +1,551 @@
+/**
+ * Replay market data
+ * Plays back a recording of 1m candles and (optionally) trades on a replay
+ * clock, publishing them through the same callbacks as the live feed. The
+ * clock runs at 1x, 10x or 100x and can be paused and stepped; while it is
+ * active the market clock follows it. Depth is synthesized around the
+ * replayed price.
+ */
+
+import { ASSET_SNAPSHOT } from '@/lib/assetRegistry'
+import { aggregateKlines, getCandleStart, intervalToMs, mergeCandle } from '@/lib/candles'
+import type { BookSnapshot, DepthUpdate } from '@/lib/orderBook'
+import type { KlineData, MarketDataProvider, TickerData, TradeData } from '@/services/marketData'
+import { StreamRegistry, SyntheticDepth, emit } from '@/services/syntheticMarketData'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface RecordedSymbol {
+    klines: KlineData[]     // 1m candles, oldest first
+    trades?: TradeData[]    // Oldest first; without them prices move once a minute
+}
+
+// The JSON file format
+export interface MarketRecording {
+    symbols: Record<string, RecordedSymbol>
+}
+
+export interface ReplayOptions {
+    source?: 'replay' | 'history'
+    load: () => Promise<MarketRecording>
+    startTime?: number      // Where the clock starts; defaults to the first candle
+    autoplay?: boolean      // Defaults to true
+
+    // Trades (ms range) fetched in windows just ahead of the clock instead of up front
+    loadTrades?: (symbol: string, startTime: number, endTime: number) => Promise<TradeData[]>
+    // Chart history from before the clock's current candle (endTime in ms)
+    loadKlines?: (symbol: string, interval: string, endTime: number, limit: number) => Promise<KlineData[]>
+}
+
+export type ReplaySpeed = 1 | 10 | 100
+
+export interface ReplayClockState {
+    time: number
+    startTime: number
+    endTime: number
+    speed: ReplaySpeed
+    playing: boolean
+    loading: boolean
+    error: string | null
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+export const REPLAY_SPEEDS: ReplaySpeed[] = [1, 10, 100]
+
+const CLOCK_TICK_MS = 100
+const MINUTE_MS = 60_000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// Trades are loaded a window at a time, this far ahead of the clock at 1x
+const TRADE_WINDOW_MS = 5 * MINUTE_MS
+const TRADE_LOOKAHEAD_MS = MINUTE_MS
+
+// ============================================
+// HELPERS
+// ============================================
+
+// Index of the first item whose key is greater than `value`
+function upperBound<T>(items: T[], value: number, key: (item: T) => number): number {
+    let low = 0
+    let high = items.length
+    while (low < high) {
+        const mid = (low + high) >>> 1
+        if (key(items[mid]) <= value) low = mid + 1
+        else high = mid
+    }
+    return low
+}
+
+const openTime = (kline: KlineData) => kline.time * 1000
+const tradeTime = (trade: TradeData) => trade.time
+
+/**
+ * Load a recording file from a URL
+ */
+export async function fetchRecording(file: string): Promise<MarketRecording> {
+    const response = await fetch(file)
+    if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`)
+    }
+    return parseRecording(await response.json())
+}
+
+/**
+ * Check a parsed file and sort its contents
+ */
+export function parseRecording(data: unknown): MarketRecording {
+    const symbols = (data as MarketRecording | null)?.symbols
+    if (!symbols || typeof symbols !== 'object') {
+        throw new Error('The recording has no symbols')
+    }
+
+    const parsed: Record<string, RecordedSymbol> = {}
+    for (const [symbol, recorded] of Object.entries(symbols)) {
+        if (!Array.isArray(recorded?.klines) || recorded.klines.length === 0) {
+            throw new Error(`The recording has no candles for ${symbol}`)
+        }
+        parsed[symbol.toUpperCase()] = {
+            klines: [...recorded.klines].sort((a, b) => a.time - b.time),
+            trades: recorded.trades ? [...recorded.trades].sort((a, b) => a.time - b.time) : undefined,
+        }
+    }
+
+    return { symbols: parsed }
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+export class ReplayMarketData implements MarketDataProvider {
+    readonly source: 'replay' | 'history'
+
+    private options: ReplayOptions
+    private recording: MarketRecording | null = null
+    private ready: Promise<void>
+    private streams = new StreamRegistry(() => this.prefetchTrades())
+    private depth: Map<string, SyntheticDepth> = new Map()
+    private timer: ReturnType<typeof setInterval> | null = null
+    private listeners: Set<(state: ReplayClockState) => void> = new Set()
+    private error: string | null = null
+
+    // Replay clock, in recording time
+    private time = 0
+    private startTime = 0
+    private endTime = 0
+    private speed: ReplaySpeed = 1
+    private playing: boolean
+
+    // How far each symbol's trades are loaded, and the loads in flight
+    private tradesUntil: Map<string, number> = new Map()
+    private tradeLoads: Set<string> = new Set()
+
+    /**
+     * Play a recording file from a URL, or a recording from a loader
+     */
+    constructor(source: string | ReplayOptions) {
+        this.options = typeof source === 'string' ? { load: () => fetchRecording(source) } : source
+        this.source = this.options.source ?? 'replay'
+        this.playing = this.options.autoplay ?? true
+
+        const name = typeof source === 'string' ? `the market recording ${source}` : 'market history'
+        this.ready = this.options.load().then((recording) => this.load(recording))
+
+        // Callers see the error when they fetch; don't report it twice
+        this.ready.catch((error) => {
+            console.error(`Error loading ${name}:`, error)
+            this.error = error instanceof Error ? error.message : String(error)
+            this.notify()
+        })
+    }
+
+    private load(recording: MarketRecording) {
+        const all = Object.values(recording.symbols)
+        this.recording = recording
+        this.endTime = Math.max(...all.map(s => s.klines[s.klines.length - 1].closeTime))
+        this.startTime = Math.min(
+            this.options.startTime ?? Math.min(...all.map(s => openTime(s.klines[0]))),
+            this.endTime
+        )
+        this.time = this.startTime
+        this.updateTimer()
+        this.notify()
+    }
+
+    subscribeAggTrade(symbol: string, callback: (data: TradeData) => void, throttleMs?: number): () => void {
+        return this.streams.addTrades(symbol, callback, throttleMs)
+    }
+
+    subscribeKline(symbol: string, interval: string, callback: (data: KlineData) => void): () => void {
+        return this.streams.add('kline', symbol, callback, interval)
+    }
+
+    subscribeTicker(symbol: string, callback: (data: TickerData) => void): () => void {
+        return this.streams.add('ticker', symbol, callback)
+    }
+
+    subscribeDepth(symbol: string, callback: (data: DepthUpdate) => void): () => void {
+        return this.streams.add('depth', symbol, callback)
+    }
+
+    async fetchHistoricalKlines(symbol: string, interval: string, limit: number = 500): Promise<KlineData[]> {
+        await this.ready
+        const intervalMs = intervalToMs(interval)
+
+        // Earlier candles have all closed by the clock, so the source's own history can't leak the future
+        if (this.options.loadKlines) {
+            const current = this.getCandle(symbol, intervalMs, this.time)
+            const before = await this.options.loadKlines(symbol, interval, current.time * 1000 - 1, limit - 1)
+            return [...before, current]
+        }
+
+        const candles = aggregateKlines(this.getSymbol(symbol).klines.slice(0, this.completedMinutes(symbol, this.time)), intervalMs)
+
+        // The last candle is still forming unless the clock sits on its boundary
+        const current = this.getCandle(symbol, intervalMs, this.time)
+        if (candles.length > 0 && candles[candles.length - 1].time === current.time) {
+            candles.pop()
+        }
+        candles.push(current)
+
+        return candles.slice(-limit)
+    }
+
+    async fetchTicker(symbol: string): Promise<TickerData> {
+        await this.ready
+        return this.getTicker(symbol)
+    }
+
+    async fetchMultipleTickers(symbols: string[]): Promise<TickerData[]> {
+        await this.ready
+        return symbols.filter(symbol => this.recording!.symbols[symbol.toUpperCase()]).map(symbol => this.getTicker(symbol))
+    }
+
+    async fetchDepthSnapshot(symbol: string): Promise<BookSnapshot> {
+        await this.ready
+        return this.getDepth(symbol).snapshot(this.getPrice(symbol, this.time))
+    }
+
+    async fetchExchangeInfo() {
+        return ASSET_SNAPSHOT
+    }
+
+    disconnect(): void {
+        this.streams.clear()
+        this.listeners.clear()
+        this.playing = false
+        this.updateTimer()
+    }
+
+    // ============================================
+    // CONTROLS
+    // ============================================
+
+    /**
+     * Current replay time in ms; the configured start until the recording loads
+     */
+    now(): number {
+        return this.recording ? this.time : this.options.startTime ?? Date.now()
+    }
+
+    play() {
+        // The clock stays at the end once it gets there
+        if (this.playing || (this.recording && this.time >= this.endTime)) return
+        this.playing = true
+        this.updateTimer()
+        this.notify()
+    }
+
+    pause() {
+        if (!this.playing) return
+        this.playing = false
+        this.updateTimer()
+        this.notify()
+    }
+
+    setSpeed(speed: ReplaySpeed) {
+        this.speed = speed
+        this.notify()
+    }
+
+    /**
+     * Move the clock forward by `ms`, publishing everything that happens on the way
+     */
+    step(ms: number = MINUTE_MS) {
+        if (!this.recording) return
+        this.advance(ms)
+    }
+
+    getClockState(): ReplayClockState {
+        return {
+            time: this.now(),
+            startTime: this.startTime,
+            endTime: this.endTime,
+            speed: this.speed,
+            playing: this.playing,
+            loading: !this.recording && !this.error,
+            error: this.error,
+        }
+    }
+
+    /**
+     * Hear about every clock change. Returns the cleanup function.
+     */
+    onClockChange(listener: (state: ReplayClockState) => void): () => void {
+        this.listeners.add(listener)
+        listener(this.getClockState())
+        return () => {
+            this.listeners.delete(listener)
+        }
+    }
+
+    private notify() {
+        const state = this.getClockState()
+        this.listeners.forEach(listener => listener(state))
+    }
+
+    // ============================================
+    // RECORDING
+    // ============================================
+
+    private getSymbol(symbol: string): RecordedSymbol {
+        const recorded = this.recording?.symbols[symbol.toUpperCase()]
+        if (!recorded) {
+            throw new Error(`${symbol.toUpperCase()} is not in the recording`)
+        }
+        return recorded
+    }
+
+    private getDepth(symbol: string): SyntheticDepth {
+        const key = symbol.toUpperCase()
+        let depth = this.depth.get(key)
+        if (!depth) {
+            depth = new SyntheticDepth(this.depth.size + 1)
+            this.depth.set(key, depth)
+        }
+        return depth
+    }
+
+    // Number of 1m candles that have closed by `time`
+    private completedMinutes(symbol: string, time: number): number {
+        return upperBound(this.getSymbol(symbol).klines, time - MINUTE_MS, openTime)
+    }
+
+    /**
+     * Last traded price at `time`: the latest trade, or the last closed minute
+     */
+    private getPrice(symbol: string, time: number): number {
+        const { klines, trades } = this.getSymbol(symbol)
+        const completed = this.completedMinutes(symbol, time)
+        const closed = completed > 0 ? klines[completed - 1] : null
+
+        // Loaded trades can stop short of the clock when it outruns the loader
+        if (trades && trades.length > 0) {
+            const index = upperBound(trades, time, tradeTime)
+            if (index > 0 && (!closed || trades[index - 1].time >= openTime(closed))) {
+                return trades[index - 1].price
+            }
+        }
+
+        return closed ? closed.close : klines[0].open
+    }
+
+    /**
+     * The minute in progress, from the trades seen so far
+     */
+    private getFormingMinute(symbol: string, time: number): KlineData | null {
+        const { klines, trades } = this.getSymbol(symbol)
+        const kline = klines[this.completedMinutes(symbol, time)]
+        if (!kline || openTime(kline) > time) return null
+
+        const seen = trades
+            ? trades.slice(upperBound(trades, openTime(kline) - 1, tradeTime), upperBound(trades, time, tradeTime))
+            : []
+        const prices = [kline.open, ...seen.map(t => t.price)]
+        const volume = seen.reduce((sum, t) => sum + t.quantity, 0)
+
+        return {
+            ...kline,
+            high: Math.max(...prices),
+            low: Math.min(...prices),
+            close: prices[prices.length - 1],
+            volume,
+            quoteVolume: seen.reduce((sum, t) => sum + t.quantity * t.price, 0),
+            trades: seen.length,
+            isFinal: false,
+        }
+    }
+
+    /**
+     * The candle of an interval containing `time`, built from what has happened by then
+     */
+    private getCandle(symbol: string, intervalMs: number, time: number): KlineData {
+        const { klines } = this.getSymbol(symbol)
+        const start = getCandleStart(time, intervalMs)
+        const completed = this.completedMinutes(symbol, time)
+
+        const minutes = klines.slice(upperBound(klines, start - 1, openTime), completed)
+        const forming = this.getFormingMinute(symbol, time)
+        if (forming) minutes.push(forming)
+
+        const price = this.getPrice(symbol, time)
+        const empty: KlineData = {
+            time: start / 1000,
+            open: price,
+            high: price,
+            low: price,
+            close: price,
+            volume: 0,
+            closeTime: start + intervalMs - 1,
+            quoteVolume: 0,
+            trades: 0,
+            isFinal: false,
+        }
+
+        const candle = minutes.reduce((merged, minute, i) =>
+            i === 0 ? { ...empty, ...minute, time: empty.time, closeTime: empty.closeTime } : mergeCandle(merged, minute), empty)
+
+        return { ...candle, isFinal: false }
+    }
+
+    private getTicker(symbol: string): TickerData {
+        const { klines } = this.getSymbol(symbol)
+        const price = this.getPrice(symbol, this.time)
+        const day = klines.slice(upperBound(klines, this.time - DAY_MS, openTime), this.completedMinutes(symbol, this.time))
+        const open = day[0]?.open ?? price
+
+        return {
+            symbol: symbol.toUpperCase(),
+            price,
+            priceChange: price - open,
+            priceChangePercent: ((price - open) / open) * 100,
+            high24h: Math.max(price, ...day.map(k => k.high)),
+            low24h: Math.min(price, ...day.map(k => k.low)),
+            volume24h: day.reduce((sum, k) => sum + k.volume, 0),
+            quoteVolume24h: day.reduce((sum, k) => sum + k.quoteVolume, 0),
+            lastUpdateTime: this.time,
+        }
+    }
+
+    // ============================================
+    // CLOCK
+    // ============================================
+
+    private updateTimer() {
+        const shouldRun = this.recording !== null && this.playing
+        if (shouldRun && !this.timer) {
+            this.timer = setInterval(() => this.advance(CLOCK_TICK_MS * this.speed), CLOCK_TICK_MS)
+        } else if (!shouldRun && this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    /**
+     * Move the clock forward and publish what happened; the clock stops at the end
+     * of the recording, since charts cannot go back in time
+     */
+    private advance(ms: number) {
+        const previous = this.time
+        this.time = Math.min(this.time + ms, this.endTime)
+        if (this.time >= this.endTime) {
+            this.playing = false
+            this.updateTimer()
+        }
+        if (this.time === previous) {
+            this.notify()
+            return
+        }
+
+        for (const symbol of this.streams.symbols()) {
+            if (!this.recording!.symbols[symbol]) continue
+            this.publish(symbol, previous)
+        }
+        this.prefetchTrades()
+        this.notify()
+    }
+
+    private prefetchTrades() {
+        if (!this.recording) return
+        for (const symbol of this.streams.symbols()) {
+            if (this.recording.symbols[symbol]) this.loadTrades(symbol)
+        }
+    }
+
+    /**
+     * Load the next window of trades for a symbol once the clock gets close to the loaded ones
+     */
+    private loadTrades(symbol: string) {
+        const { loadTrades } = this.options
+        if (!loadTrades || this.tradeLoads.has(symbol)) return
+
+        // Skip ahead if the clock has passed what was loaded
+        const from = Math.max(this.tradesUntil.get(symbol) ?? this.time, this.time)
+        const horizon = Math.min(this.time + TRADE_LOOKAHEAD_MS * this.speed, this.endTime)
+        if (from > horizon || from >= this.endTime) return
+
+        const to = Math.min(from + Math.max(TRADE_WINDOW_MS, TRADE_LOOKAHEAD_MS * this.speed), this.endTime)
+        this.tradeLoads.add(symbol)
+
+        loadTrades(symbol, from + 1, to)
+            .then((trades) => {
+                const recorded = this.getSymbol(symbol)
+                const existing = recorded.trades ?? []
+                const last = existing.length > 0 ? existing[existing.length - 1].time : -Infinity
+                recorded.trades = [...existing, ...trades.filter(t => t.time > last)]
+
+                // A capped load ends early; the next one carries on from its last trade
+                this.tradesUntil.set(symbol, trades.length > 0 ? Math.max(trades[trades.length - 1].time, from + 1) : to)
+            })
+            .catch((error) => {
+                console.error(`Error loading ${symbol} trades:`, error)
+                this.tradesUntil.set(symbol, to)
+            })
+            .finally(() => this.tradeLoads.delete(symbol))
+    }
+
+    // Whether trades are known at `time`; candles stand in for them where they aren't
+    private hasTradesAt(symbol: string, time: number): boolean {
+        if (!this.getSymbol(symbol).trades) return false
+        return !this.options.loadTrades || (this.tradesUntil.get(symbol) ?? -Infinity) >= time
+    }
+
+    private publish(symbol: string, since: number) {
+        const { klines, trades } = this.getSymbol(symbol)
+
+        // Recorded trades, or one trade per closed minute when there are none
+        const happened: TradeData[] = trades && this.hasTradesAt(symbol, this.time)
+            ? trades.slice(upperBound(trades, since, tradeTime), upperBound(trades, this.time, tradeTime))
+            : klines
+                .slice(this.completedMinutes(symbol, since), this.completedMinutes(symbol, this.time))
+                .map(k => ({ symbol, price: k.close, quantity: k.volume, time: k.closeTime, isBuyerMaker: false, tradeId: k.closeTime }))
+
+        for (const trade of happened) {
+            this.streams.get('aggTrade').filter(s => s.symbol === symbol).forEach(s => emit(s, trade))
+        }
+
+        for (const stream of this.streams.get('kline').filter(s => s.symbol === symbol)) {
+            const intervalMs = intervalToMs(stream.interval!)
+
+            // Close out a candle the clock has just left
+            const start = getCandleStart(this.time, intervalMs)
+            if (getCandleStart(since, intervalMs) !== start) {
+                emit(stream, { ...this.getCandle(symbol, intervalMs, start - 1), isFinal: true })
+            }
+            emit(stream, this.getCandle(symbol, intervalMs, this.time))
+        }
+
+        this.streams.get('ticker').filter(s => s.symbol === symbol).forEach(s => emit(s, this.getTicker(symbol)))
+
+        const depthStreams = this.streams.get('depth').filter(s => s.symbol === symbol)
+        if (depthStreams.length > 0) {
+            const update = this.getDepth(symbol).update(symbol, this.getPrice(symbol, this.time), this.time)
+            depthStreams.forEach(s => emit(s, update))
+        }
+    }
+}
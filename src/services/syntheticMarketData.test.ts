@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach, vi } from 'vitest'
+import { StreamRegistry, SyntheticMarketData, emit } from './syntheticMarketData'
+import type { TickerData } from '@/services/marketData'
+
+describe('Synthetic Market Data', () => {
+    afterEach(() => {
+        vi.useRealTimers()
+    })
+
+    it('should generate the same synthetic market from the same seed', async () => {
+        vi.useFakeTimers()
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+        const first = new SyntheticMarketData({ seed: 7, volatility: () => 60 })
+        const second = new SyntheticMarketData({ seed: 7, volatility: () => 60 })
+
+        const klines = await first.fetchHistoricalKlines('BTCUSDT', '1h', 50)
+        expect(klines).toHaveLength(50)
+        expect(klines).toEqual(await second.fetchHistoricalKlines('BTCUSDT', '1h', 50))
+        expect(klines.every(k => k.high >= Math.max(k.open, k.close) && k.low <= Math.min(k.open, k.close))).toBe(true)
+
+        vi.advanceTimersByTime(60_000)
+        const ticker = await first.fetchTicker('BTCUSDT')
+        expect(ticker.price).toBe((await second.fetchTicker('BTCUSDT')).price)
+        expect(ticker.price).not.toBe(klines[klines.length - 1].close)
+    })
+
+    it('should publish the same stream from the same seed', () => {
+        vi.useFakeTimers()
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+        const run = (seed: number) => {
+            const market = new SyntheticMarketData({ seed, volatility: () => 60 })
+            const prices: number[] = []
+            const stop = market.subscribeTicker('ETHUSDT', (ticker) => prices.push(ticker.price))
+            vi.advanceTimersByTime(5000)
+            stop()
+            return prices
+        }
+
+        const first = run(7)
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+        const again = run(7)
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+        const other = run(8)
+
+        expect(first).toHaveLength(10)
+        expect(again).toEqual(first)
+        expect(other).not.toEqual(first)
+    })
+
+    it('should drive every stream of a symbol from one generator and stop with the last subscriber', () => {
+        vi.useFakeTimers()
+        vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+        const market = new SyntheticMarketData({ seed: 7, volatility: () => 60 })
+        const tickers: number[] = []
+        const closes: number[] = []
+
+        const stopTicker = market.subscribeTicker('BTCUSDT', (ticker) => tickers.push(ticker.price))
+        const stopKline = market.subscribeKline('BTCUSDT', '1m', (kline) => closes.push(kline.close))
+        vi.advanceTimersByTime(2000)
+
+        expect(tickers).toHaveLength(4)
+        expect(closes).toEqual(tickers)
+
+        stopTicker()
+        expect(vi.getTimerCount()).toBe(1)
+
+        stopKline()
+        expect(vi.getTimerCount()).toBe(0)
+    })
+
+    describe('Stream Registry', () => {
+        const ticker = (price: number) => ({ symbol: 'BTCUSDT', price }) as TickerData
+
+        it('should share one stream between subscribers of the same symbol', () => {
+            const onChange = vi.fn()
+            const registry = new StreamRegistry(onChange)
+            const first = vi.fn()
+            const second = vi.fn()
+
+            const stopFirst = registry.add('ticker', 'btcusdt', first)
+            const stopSecond = registry.add('ticker', 'BTCUSDT', second)
+            registry.add('kline', 'BTCUSDT', vi.fn(), '1m')
+
+            expect(registry.size).toBe(2)
+            expect(registry.symbols()).toEqual(['BTCUSDT'])
+
+            registry.get('ticker').forEach(stream => emit(stream, ticker(1)))
+            expect(first).toHaveBeenCalledWith(ticker(1))
+            expect(second).toHaveBeenCalledWith(ticker(1))
+
+            stopFirst()
+            expect(registry.get('ticker')).toHaveLength(1)
+
+            stopSecond()
+            expect(registry.get('ticker')).toEqual([])
+            expect(registry.size).toBe(1)
+            expect(onChange).toHaveBeenCalledTimes(5)
+        })
+    })
+})
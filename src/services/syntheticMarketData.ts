@@ -0,0 +1,519 @@
+/**
+ * Synthetic market data
+ * An offline market: every symbol follows geometric Brownian motion driven by
+ * its own seeded generator and a fixed time step, so the same seed always
+ * produces the same prices. Candles, trades, tickers and depth all derive from
+ * that one price path.
+ */
+
+import { ASSET_SNAPSHOT } from '@/lib/assetRegistry'
+import { getCandleStart, intervalToMs } from '@/lib/candles'
+import { SeededRandom } from '@/lib/random'
+import { createThrottledCallback } from '@/lib/utils'
+import type { DepthLevel } from '@/lib/matchingEngine'
+import type { BookSnapshot, DepthUpdate } from '@/lib/orderBook'
+import type { KlineData, MarketDataProvider, TickerData, TradeData } from '@/services/marketData'
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface SyntheticConfig {
+    seed: number
+    volatility: () => number    // Annualized, %
+}
+
+// What each kind of stream publishes
+interface StreamData {
+    aggTrade: TradeData
+    kline: KlineData
+    ticker: TickerData
+    depth: DepthUpdate
+}
+
+type StreamKind = keyof StreamData
+
+type StreamCallback<K extends StreamKind> = (data: StreamData[K]) => void
+
+interface Stream<K extends StreamKind> {
+    kind: K
+    symbol: string
+    interval?: string
+    callbacks: Set<StreamCallback<K>>
+}
+
+interface SymbolFeed {
+    rng: SeededRandom
+    time: number                      // Time of the last step
+    price: number
+    lastTrade: TradeData | null
+    tradeId: number
+    candles: Map<string, KlineData>   // Current candle per interval
+    day: { open: number; high: number; low: number; volume: number; quoteVolume: number }
+    depth: SyntheticDepth
+}
+
+// ============================================
+// CONSTANTS
+// ============================================
+
+const TICK_MS = 500
+const DAY_MS = 24 * 60 * 60 * 1000
+const YEAR_MS = 365 * DAY_MS
+
+// Candle shape: random-walk points per historical candle
+const CANDLE_SUBSTEPS = 8
+
+// Average quote volume traded per minute, and per synthetic trade
+const QUOTE_VOLUME_PER_MINUTE = 50_000
+const TRADE_NOTIONAL = 400
+
+// Rough prices so the popular pairs start somewhere familiar
+const START_PRICES: Record<string, number> = {
+    BTCUSDT: 60000, ETHUSDT: 3000, BNBUSDT: 550, SOLUSDT: 150, XRPUSDT: 0.55,
+    ADAUSDT: 0.45, DOGEUSDT: 0.12, MATICUSDT: 0.7, DOTUSDT: 7, AVAXUSDT: 35,
+    LINKUSDT: 15, LTCUSDT: 80, TRXUSDT: 0.12, ATOMUSDT: 8, UNIUSDT: 8,
+    NEARUSDT: 5, SHIBUSDT: 0.00002, TONUSDT: 6,
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+// FNV-1a, to give every symbol its own seed
+function hashString(value: string): number {
+    let hash = 0x811c9dc5
+    for (let i = 0; i < value.length; i++) {
+        hash ^= value.charCodeAt(i)
+        hash = Math.imul(hash, 0x01000193)
+    }
+    return hash >>> 0
+}
+
+// Standard normal draw (Box-Muller)
+function normal(rng: SeededRandom): number {
+    const u = 1 - rng.next()
+    const v = rng.next()
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+// Log-return of one GBM step
+function logReturn(rng: SeededRandom, volatilityPercent: number, dtMs: number): number {
+    const sigma = volatilityPercent / 100
+    const dt = dtMs / YEAR_MS
+    return -0.5 * sigma * sigma * dt + sigma * Math.sqrt(dt) * normal(rng)
+}
+
+function roundPrice(price: number): number {
+    return Number(price.toPrecision(8))
+}
+
+// ============================================
+// SHARED PIECES
+// ============================================
+
+/**
+ * Callbacks of simulated streams, keyed like Binance stream names
+ */
+export class StreamRegistry {
+    // One map per kind, so each stream keeps its callbacks' data type
+    private streams: { [K in StreamKind]: Map<string, Stream<K>> } = {
+        aggTrade: new Map(),
+        kline: new Map(),
+        ticker: new Map(),
+        depth: new Map(),
+    }
+
+    constructor(private readonly onChange: () => void) {}
+
+    add<K extends StreamKind>(kind: K, symbol: string, callback: StreamCallback<K>, interval?: string): () => void {
+        const streams: Map<string, Stream<K>> = this.streams[kind]
+        const key = `${symbol.toLowerCase()}@${kind}${interval ? `_${interval}` : ''}`
+        if (!streams.has(key)) {
+            streams.set(key, { kind, symbol: symbol.toUpperCase(), interval, callbacks: new Set() })
+        }
+        streams.get(key)!.callbacks.add(callback)
+        this.onChange()
+
+        return () => {
+            const stream = streams.get(key)
+            if (!stream) return
+            stream.callbacks.delete(callback)
+            if (stream.callbacks.size === 0) streams.delete(key)
+            this.onChange()
+        }
+    }
+
+    /**
+     * Subscribe to trades through a throttled wrapper, as the Binance service does
+     */
+    addTrades(symbol: string, callback: (data: TradeData) => void, throttleMs: number = 250): () => void {
+        const throttled = createThrottledCallback(callback, throttleMs)
+        const remove = this.add('aggTrade', symbol, throttled.call)
+        return () => {
+            throttled.cancel()
+            remove()
+        }
+    }
+
+    get<K extends StreamKind>(kind: K): Stream<K>[] {
+        const streams: Map<string, Stream<K>> = this.streams[kind]
+        return Array.from(streams.values())
+    }
+
+    // Symbol of every stream, one entry per stream
+    private streamSymbols(): string[] {
+        const { aggTrade, kline, ticker, depth } = this.streams
+        return [...aggTrade.values(), ...kline.values(), ...ticker.values(), ...depth.values()].map(s => s.symbol)
+    }
+
+    symbols(): string[] {
+        return Array.from(new Set(this.streamSymbols()))
+    }
+
+    get size(): number {
+        return this.streamSymbols().length
+    }
+
+    clear(): void {
+        Object.values(this.streams).forEach(streams => streams.clear())
+    }
+}
+
+export function emit<K extends StreamKind>(stream: Stream<K>, data: StreamData[K]): void {
+    stream.callbacks.forEach(cb => cb(data))
+}
+
+/**
+ * Made-up depth around a price, published as diff events like Binance's
+ */
+export class SyntheticDepth {
+    private rng: SeededRandom
+    private bids: Map<number, number> = new Map()
+    private asks: Map<number, number> = new Map()
+    private updateId = 1
+
+    constructor(seed: number, private readonly levels: number = 20, private readonly spacingPercent: number = 0.05) {
+        this.rng = new SeededRandom(seed)
+    }
+
+    private build(price: number): { bids: Map<number, number>; asks: Map<number, number> } {
+        const spacing = price * (this.spacingPercent / 100)
+        const levelQty = (levelPrice: number, i: number) =>
+            (QUOTE_VOLUME_PER_MINUTE / 10) * (1 + i / this.levels) * (0.5 + this.rng.next()) / levelPrice
+
+        const bids = new Map<number, number>()
+        const asks = new Map<number, number>()
+        for (let i = 0; i < this.levels; i++) {
+            const ask = roundPrice(price + spacing * (i + 0.5))
+            const bid = roundPrice(price - spacing * (i + 0.5))
+            asks.set(ask, levelQty(ask, i))
+            if (bid > 0) bids.set(bid, levelQty(bid, i))
+        }
+        return { bids, asks }
+    }
+
+    snapshot(price: number): BookSnapshot {
+        if (this.asks.size === 0) {
+            ({ bids: this.bids, asks: this.asks } = this.build(price))
+        }
+
+        const toLevels = (side: Map<number, number>): DepthLevel[] =>
+            Array.from(side, ([levelPrice, quantity]) => ({ price: levelPrice, quantity }))
+
+        return { lastUpdateId: this.updateId, bids: toLevels(this.bids), asks: toLevels(this.asks) }
+    }
+
+    /**
+     * Move the book to a new price; the event lists changed levels and zeroes removed ones
+     */
+    update(symbol: string, price: number, time: number): DepthUpdate {
+        const next = this.build(price)
+
+        const diff = (previous: Map<number, number>, current: Map<number, number>): DepthLevel[] => [
+            ...Array.from(current, ([levelPrice, quantity]) => ({ price: levelPrice, quantity })),
+            ...Array.from(previous.keys())
+                .filter(levelPrice => !current.has(levelPrice))
+                .map(levelPrice => ({ price: levelPrice, quantity: 0 })),
+        ]
+
+        const update: DepthUpdate = {
+            symbol,
+            firstUpdateId: this.updateId + 1,
+            finalUpdateId: this.updateId + 1,
+            bids: diff(this.bids, next.bids),
+            asks: diff(this.asks, next.asks),
+            time,
+        }
+
+        this.bids = next.bids
+        this.asks = next.asks
+        this.updateId++
+        return update
+    }
+}
+
+// ============================================
+// PROVIDER
+// ============================================
+
+export class SyntheticMarketData implements MarketDataProvider {
+    readonly source = 'synthetic' as const
+
+    private feeds: Map<string, SymbolFeed> = new Map()
+    private streams = new StreamRegistry(() => this.updateTimer())
+    private timer: ReturnType<typeof setInterval> | null = null
+
+    constructor(private readonly config: SyntheticConfig) {}
+
+    subscribeAggTrade(symbol: string, callback: (data: TradeData) => void, throttleMs?: number): () => void {
+        return this.streams.addTrades(symbol, callback, throttleMs)
+    }
+
+    subscribeKline(symbol: string, interval: string, callback: (data: KlineData) => void): () => void {
+        return this.streams.add('kline', symbol, callback, interval)
+    }
+
+    subscribeTicker(symbol: string, callback: (data: TickerData) => void): () => void {
+        return this.streams.add('ticker', symbol, callback)
+    }
+
+    subscribeDepth(symbol: string, callback: (data: DepthUpdate) => void): () => void {
+        return this.streams.add('depth', symbol, callback)
+    }
+
+    async fetchHistoricalKlines(symbol: string, interval: string, limit: number = 500): Promise<KlineData[]> {
+        const feed = this.getFeed(symbol)
+        const intervalMs = intervalToMs(interval)
+        const current = this.getCandle(feed, interval, feed.time)
+
+        // Walk backwards from the live candle with a generator of this symbol and interval
+        const rng = new SeededRandom(hashString(`${symbol}:${interval}`) ^ this.config.seed)
+        const candles: KlineData[] = [{ ...current }]
+        let close = current.open
+
+        for (let i = 1; i < limit; i++) {
+            const candle = this.randomCandle(rng, close, current.time * 1000 - i * intervalMs, intervalMs)
+            candles.unshift(candle)
+            close = candle.open
+        }
+
+        return candles
+    }
+
+    async fetchTicker(symbol: string): Promise<TickerData> {
+        return this.getTicker(this.getFeed(symbol), symbol.toUpperCase())
+    }
+
+    async fetchMultipleTickers(symbols: string[]): Promise<TickerData[]> {
+        return symbols.map(symbol => this.getTicker(this.getFeed(symbol), symbol.toUpperCase()))
+    }
+
+    async fetchDepthSnapshot(symbol: string): Promise<BookSnapshot> {
+        const feed = this.getFeed(symbol)
+        return feed.depth.snapshot(feed.price)
+    }
+
+    async fetchExchangeInfo() {
+        return ASSET_SNAPSHOT
+    }
+
+    disconnect(): void {
+        this.streams.clear()
+        this.updateTimer()
+    }
+
+    // ============================================
+    // SIMULATION
+    // ============================================
+
+    /**
+     * The symbol's market, brought up to the present
+     */
+    private getFeed(symbol: string): SymbolFeed {
+        const key = symbol.toUpperCase()
+        let feed = this.feeds.get(key)
+
+        if (feed) {
+            this.advance(feed, key, Date.now())
+        } else {
+            const seed = hashString(key) ^ this.config.seed
+            const rng = new SeededRandom(seed)
+            const price = START_PRICES[key] ?? 1 + (seed % 10000) / 100
+
+            // Yesterday's open, one day of volatility away
+            const open = roundPrice(price / Math.exp(logReturn(rng, this.config.volatility(), DAY_MS)))
+            const quoteVolume = QUOTE_VOLUME_PER_MINUTE * 24 * 60
+
+            feed = {
+                rng,
+                time: Date.now(),
+                price,
+                lastTrade: null,
+                tradeId: 1,
+                candles: new Map(),
+                day: {
+                    open,
+                    high: Math.max(open, price),
+                    low: Math.min(open, price),
+                    volume: quoteVolume / price,
+                    quoteVolume,
+                },
+                depth: new SyntheticDepth(seed + 1),
+            }
+            this.feeds.set(key, feed)
+        }
+
+        return feed
+    }
+
+    /**
+     * The candle of an interval containing `time`, opened at the current price if new
+     */
+    private getCandle(feed: SymbolFeed, interval: string, time: number): KlineData {
+        const intervalMs = intervalToMs(interval)
+        const start = getCandleStart(time, intervalMs)
+        let candle = feed.candles.get(interval)
+
+        if (!candle || candle.time * 1000 !== start) {
+            candle = {
+                time: start / 1000,
+                open: feed.price,
+                high: feed.price,
+                low: feed.price,
+                close: feed.price,
+                volume: 0,
+                closeTime: start + intervalMs - 1,
+                quoteVolume: 0,
+                trades: 0,
+                isFinal: false,
+            }
+            feed.candles.set(interval, candle)
+        }
+
+        return candle
+    }
+
+    /**
+     * A finished candle that closes at `close`
+     */
+    private randomCandle(rng: SeededRandom, close: number, start: number, intervalMs: number): KlineData {
+        const steps = [0]
+        for (let i = 0; i < CANDLE_SUBSTEPS; i++) {
+            steps.push(steps[i] + logReturn(rng, this.config.volatility(), intervalMs / CANDLE_SUBSTEPS))
+        }
+
+        const open = close / Math.exp(steps[CANDLE_SUBSTEPS])
+        const path = steps.map(step => open * Math.exp(step))
+        const quoteVolume = QUOTE_VOLUME_PER_MINUTE * (intervalMs / 60_000) * (0.5 + rng.next())
+
+        return {
+            time: start / 1000,
+            open: roundPrice(open),
+            high: roundPrice(Math.max(...path)),
+            low: roundPrice(Math.min(...path)),
+            close,
+            volume: quoteVolume / ((open + close) / 2),
+            closeTime: start + intervalMs - 1,
+            quoteVolume,
+            trades: Math.round(quoteVolume / TRADE_NOTIONAL),
+            isFinal: true,
+        }
+    }
+
+    private getTicker(feed: SymbolFeed, symbol: string): TickerData {
+        const { day, price } = feed
+        return {
+            symbol,
+            price,
+            priceChange: price - day.open,
+            priceChangePercent: ((price - day.open) / day.open) * 100,
+            high24h: day.high,
+            low24h: day.low,
+            volume24h: day.volume,
+            quoteVolume24h: day.quoteVolume,
+            lastUpdateTime: feed.time,
+        }
+    }
+
+    /**
+     * Take every fixed step between the last one and `now`. Prices depend only on
+     * the number of steps, so symbols nobody watches still move when asked about.
+     */
+    private advance(feed: SymbolFeed, symbol: string, now: number) {
+        while (feed.time + TICK_MS <= now) {
+            feed.time += TICK_MS
+            feed.price = roundPrice(feed.price * Math.exp(logReturn(feed.rng, this.config.volatility(), TICK_MS)))
+
+            const quantity = (TRADE_NOTIONAL * (0.2 + feed.rng.next() * 1.6)) / feed.price
+            feed.lastTrade = {
+                symbol,
+                price: feed.price,
+                quantity,
+                time: feed.time,
+                isBuyerMaker: feed.rng.next() < 0.5,
+                tradeId: feed.tradeId++,
+            }
+
+            feed.day.high = Math.max(feed.day.high, feed.price)
+            feed.day.low = Math.min(feed.day.low, feed.price)
+            feed.day.volume += quantity
+            feed.day.quoteVolume += quantity * feed.price
+
+            for (const interval of feed.candles.keys()) {
+                const candle = this.getCandle(feed, interval, feed.time)
+                candle.high = Math.max(candle.high, feed.price)
+                candle.low = Math.min(candle.low, feed.price)
+                candle.close = feed.price
+                candle.volume += quantity
+                candle.quoteVolume += quantity * feed.price
+                candle.trades++
+            }
+        }
+    }
+
+    private updateTimer() {
+        if (this.streams.size > 0 && !this.timer) {
+            this.timer = setInterval(() => this.tick(), TICK_MS)
+        } else if (this.streams.size === 0 && this.timer) {
+            clearInterval(this.timer)
+            this.timer = null
+        }
+    }
+
+    /**
+     * Bring every subscribed symbol up to date and publish the result
+     */
+    private tick() {
+        for (const symbol of this.streams.symbols()) {
+            const klineStreams = this.streams.get('kline').filter(s => s.symbol === symbol)
+            let feed = this.feeds.get(symbol)
+
+            // Candles as they were, to close out any the step moves past
+            const previous = new Map(klineStreams.map(s => [s, feed?.candles.get(s.interval!)]))
+            const lastTrade = feed?.lastTrade
+            feed = this.getFeed(symbol)
+
+            for (const stream of klineStreams) {
+                const before = previous.get(stream)
+                const candle = this.getCandle(feed, stream.interval!, feed.time)
+                if (before && before !== candle) {
+                    emit(stream, { ...before, isFinal: true })
+                }
+                emit(stream, { ...candle })
+            }
+
+            if (feed.lastTrade && feed.lastTrade !== lastTrade) {
+                const trade = feed.lastTrade
+                this.streams.get('aggTrade').filter(s => s.symbol === symbol).forEach(s => emit(s, trade))
+            }
+            this.streams.get('ticker').filter(s => s.symbol === symbol).forEach(s => emit(s, this.getTicker(feed!, symbol)))
+
+            const depthStreams = this.streams.get('depth').filter(s => s.symbol === symbol)
+            if (depthStreams.length > 0) {
+                const update = feed.depth.update(symbol, feed.price, feed.time)
+                depthStreams.forEach(s => emit(s, update))
+            }
+        }
+    }
+}
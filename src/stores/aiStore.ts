@@ -1,5 +1,8 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { createPersistOptions } from '@/lib/persistence'
+import { generateId } from '@/lib/utils'
+import { uiRandom } from '@/lib/random'
 
 export interface ChatMessage {
     id: string
@@ -59,8 +62,6 @@ interface AIState {
     isLimitReached: () => boolean
 }
 
-const generateId = () => Math.random().toString(36).substring(2) + Date.now().toString(36)
-
 export const useAIStore = create<AIState>()(
     persist(
         (set, get) => ({
@@ -192,8 +193,10 @@ export const useAIStore = create<AIState>()(
                 return remaining === 0
             },
         }),
-        {
+        createPersistOptions({
             name: 'quantix-ai-chat',
+            label: 'AI assistant',
+            version: 1,
             partialize: (state) => ({
                 dailyQueriesUsed: state.dailyQueriesUsed,
                 lastResetDate: state.lastResetDate,
@@ -202,7 +205,7 @@ export const useAIStore = create<AIState>()(
                 lastActiveDate: state.lastActiveDate,
                 bonusQueriesEarned: state.bonusQueriesEarned,
             }),
-        }
+        })
     )
 )
 
@@ -216,19 +219,19 @@ export async function generateAIResponse(
     currentPrice: number
 ): Promise<{ content: string; metadata?: ChatMessage['metadata'] }> {
     // Simulate API delay
-    await new Promise(resolve => setTimeout(resolve, 1200 + Math.random() * 800))
+    await new Promise(resolve => setTimeout(resolve, 1200 + uiRandom() * 800))
 
     const lowerMessage = userMessage.toLowerCase()
     const baseSymbol = symbol.replace('USDT', '')
 
     // Analysis request
     if (lowerMessage.includes('analyze') || lowerMessage.includes('analysis') || lowerMessage.includes('анализ')) {
-        const rsi = 45 + Math.random() * 30
+        const rsi = 45 + uiRandom() * 30
         const trend = rsi > 60 ? 'Bullish' : rsi < 40 ? 'Bearish' : 'Neutral'
-        const support = currentPrice * (0.92 + Math.random() * 0.03)
-        const resistance = currentPrice * (1.05 + Math.random() * 0.05)
+        const support = currentPrice * (0.92 + uiRandom() * 0.03)
+        const resistance = currentPrice * (1.05 + uiRandom() * 0.05)
         const macdSignal = rsi > 50 ? 'Bullish crossover' : 'Bearish divergence'
-        const volumeTrend = Math.random() > 0.5 ? 'Above' : 'Below'
+        const volumeTrend = uiRandom() > 0.5 ? 'Above' : 'Below'
 
         return {
             content: `## 📊 ${baseSymbol} Technical Analysis
@@ -258,9 +261,9 @@ ${trend === 'Bullish' ? '🟢 Bullish momentum building' : trend === 'Bearish' ?
 
     // Prediction request
     if (lowerMessage.includes('predict') || lowerMessage.includes('forecast') || lowerMessage.includes('price') || lowerMessage.includes('прогноз')) {
-        const direction = Math.random() > 0.5 ? 'bullish' : Math.random() > 0.5 ? 'bearish' : 'neutral'
-        const confidence = 55 + Math.random() * 35
-        const changePercent = direction === 'bullish' ? (1 + Math.random() * 10) : direction === 'bearish' ? -(1 + Math.random() * 8) : (Math.random() - 0.5) * 2
+        const direction = uiRandom() > 0.5 ? 'bullish' : uiRandom() > 0.5 ? 'bearish' : 'neutral'
+        const confidence = 55 + uiRandom() * 35
+        const changePercent = direction === 'bullish' ? (1 + uiRandom() * 10) : direction === 'bearish' ? -(1 + uiRandom() * 8) : (uiRandom() - 0.5) * 2
         const targetPrice = currentPrice * (1 + changePercent / 100)
         const stopLoss = currentPrice * (direction === 'bullish' ? 0.95 : 1.05)
 
@@ -290,7 +293,7 @@ ${direction === 'bullish' ? '✅ Consider entry with proper risk management' : d
 
     // Risk assessment
     if (lowerMessage.includes('risk') || lowerMessage.includes('safe') || lowerMessage.includes('риск')) {
-        const riskScore = Math.random()
+        const riskScore = uiRandom()
         const riskLevel = riskScore > 0.7 ? 'High' : riskScore > 0.4 ? 'Medium' : 'Low'
         const riskEmoji = riskScore > 0.7 ? '🔴' : riskScore > 0.4 ? '🟡' : '🟢'
         const positionSize = riskScore > 0.7 ? '1-2%' : riskScore > 0.4 ? '2-5%' : '5-10%'
@@ -304,7 +307,7 @@ ${direction === 'bullish' ? '✅ Consider entry with proper risk management' : d
 |--------|--------|
 | Volatility | ${riskScore > 0.5 ? '🔴 High' : '🟢 Moderate'} |
 | Liquidity | ${riskScore > 0.3 ? '🟢 Good' : '🟢 Excellent'} |
-| Sentiment | ${Math.random() > 0.5 ? '🟡 Mixed' : '🟢 Positive'} |
+| Sentiment | ${uiRandom() > 0.5 ? '🟡 Mixed' : '🟢 Positive'} |
 
 ### Recommendations
 - **Position Size:** ${positionSize} of portfolio
@@ -317,14 +320,14 @@ ${riskScore > 0.6 ? '- ⚠️ Consider waiting for better entry' : '- ✅ Reason
 
     // Strategy request
     if (lowerMessage.includes('strategy') || lowerMessage.includes('buy') || lowerMessage.includes('sell') || lowerMessage.includes('стратегия')) {
-        const trend = Math.random() > 0.5 ? 'uptrend' : 'downtrend'
+        const trend = uiRandom() > 0.5 ? 'uptrend' : 'downtrend'
         const entry = currentPrice * (trend === 'uptrend' ? 0.98 : 1.02)
 
         return {
             content: `## 📈 ${baseSymbol} Trading Strategy
 
 ### Market Context
-Currently in a **${trend}** with ${Math.random() > 0.5 ? 'strong' : 'moderate'} momentum.
+Currently in a **${trend}** with ${uiRandom() > 0.5 ? 'strong' : 'moderate'} momentum.
 
 ### Suggested Strategy
 | Action | Price |
@@ -335,8 +338,8 @@ Currently in a **${trend}** with ${Math.random() > 0.5 ? 'strong' : 'moderate'}
 | Stop Loss | $${(currentPrice * (trend === 'uptrend' ? 0.95 : 1.05)).toFixed(2)} |
 
 ### Risk/Reward
-- **R:R Ratio:** 1:${(2 + Math.random() * 2).toFixed(1)}
-- **Win Rate:** ~${(50 + Math.random() * 20).toFixed(0)}%
+- **R:R Ratio:** 1:${(2 + uiRandom() * 2).toFixed(1)}
+- **Win Rate:** ~${(50 + uiRandom() * 20).toFixed(0)}%
 
 > 🎓 *Practice this strategy in simulation before real trading*`
         }
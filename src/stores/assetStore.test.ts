@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { useAssetStore } from './assetStore'
+import { marketData } from '@/services/marketData'
+import { ASSET_SNAPSHOT, DEFAULT_WATCHLIST, ExchangeSymbol, createAsset } from '@/lib/assetRegistry'
+
+// A pair the exchange lists but the bundled snapshot does not
+const PEPE: ExchangeSymbol = {
+    symbol: 'PEPEUSDT',
+    baseAsset: 'PEPE',
+    quoteAsset: 'USDT',
+    tickSize: 0.00000001,
+    minQty: 1,
+    maxQty: 9000000000,
+    stepSize: 1,
+    minNotional: 5,
+}
+
+const snapshotAssets = () => Object.fromEntries(ASSET_SNAPSHOT.map(createAsset).map(a => [a.symbol, a]))
+
+describe('AssetStore', () => {
+    beforeEach(() => {
+        useAssetStore.setState({
+            assets: snapshotAssets(),
+            source: 'snapshot',
+            isLoading: false,
+            error: null,
+            watchlist: DEFAULT_WATCHLIST,
+            customAssets: {},
+        })
+    })
+
+    afterEach(() => {
+        vi.restoreAllMocks()
+    })
+
+    it('should search the registry and add pairs to the watchlist', () => {
+        const { search, addToWatchlist } = useAssetStore.getState()
+
+        expect(search('link')[0].symbol).toBe('LINKUSDT')
+        expect(addToWatchlist('LINKUSDT').success).toBe(true)
+        expect(useAssetStore.getState().watchlist).toContain('LINKUSDT')
+    })
+
+    it('should reject a pair the registry does not know', () => {
+        const result = useAssetStore.getState().addToWatchlist('NOPEUSDT')
+
+        expect(result.success).toBe(false)
+        expect(result.error).toContain('NOPEUSDT')
+        expect(useAssetStore.getState().watchlist).toEqual(DEFAULT_WATCHLIST)
+    })
+
+    it('should remove a pair and its stored filters from the watchlist', () => {
+        useAssetStore.setState({ assets: { ...snapshotAssets(), PEPEUSDT: createAsset(PEPE) } })
+        useAssetStore.getState().addToWatchlist('PEPEUSDT')
+
+        useAssetStore.getState().removeFromWatchlist('PEPEUSDT')
+        useAssetStore.getState().removeFromWatchlist('BTCUSDT')
+
+        const state = useAssetStore.getState()
+        expect(state.watchlist).not.toContain('PEPEUSDT')
+        expect(state.watchlist).not.toContain('BTCUSDT')
+        expect(state.customAssets).toEqual({})
+    })
+
+    it('should stand in an unknown asset for a pair it does not know', () => {
+        const asset = useAssetStore.getState().getAsset('NOPEUSDT')
+
+        expect(asset.symbol).toBe('NOPEUSDT')
+        expect(asset.shortName).toBe('NOPE')
+        expect(asset.minNotional).toBe(0)
+    })
+
+    it('should keep the filters of watchlisted pairs the snapshot lacks', () => {
+        useAssetStore.setState({ assets: { ...snapshotAssets(), PEPEUSDT: createAsset(PEPE) } })
+        useAssetStore.getState().addToWatchlist('PEPEUSDT')
+        useAssetStore.getState().addToWatchlist('LINKUSDT')
+
+        expect(Object.keys(useAssetStore.getState().customAssets)).toEqual(['PEPEUSDT'])
+
+        // As after a reload without the exchange
+        useAssetStore.setState({ assets: snapshotAssets() })
+        expect(useAssetStore.getState().getAsset('PEPEUSDT').minQty).toBe(1)
+    })
+
+    it('should load pairs from the exchange and refresh stored filters', async () => {
+        useAssetStore.setState({ assets: { ...snapshotAssets(), PEPEUSDT: createAsset(PEPE) } })
+        useAssetStore.getState().addToWatchlist('PEPEUSDT')
+        vi.spyOn(marketData, 'fetchExchangeInfo').mockResolvedValue([ASSET_SNAPSHOT[0], { ...PEPE, minQty: 10 }])
+
+        await useAssetStore.getState().loadExchangeInfo()
+
+        const state = useAssetStore.getState()
+        expect(state.source).toBe('exchange')
+        expect(Object.keys(state.assets)).toEqual(['BTCUSDT', 'PEPEUSDT'])
+        expect(state.customAssets.PEPEUSDT.minQty).toBe(10)
+    })
+
+    it('should fall back to the snapshot when the exchange cannot be reached', async () => {
+        vi.spyOn(marketData, 'fetchExchangeInfo').mockRejectedValue(new Error('Network error'))
+        vi.spyOn(console, 'error').mockImplementation(() => {})
+
+        await useAssetStore.getState().loadExchangeInfo()
+
+        const state = useAssetStore.getState()
+        expect(state.source).toBe('snapshot')
+        expect(state.isLoading).toBe(false)
+        expect(state.error).toBeTruthy()
+        expect(Object.keys(state.assets)).toHaveLength(ASSET_SNAPSHOT.length)
+    })
+})
@@ -0,0 +1,132 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { createPersistOptions } from '@/lib/persistence'
+import { marketData } from '@/services/marketData'
+import {
+    ASSET_SNAPSHOT,
+    DEFAULT_WATCHLIST,
+    REGISTRY_QUOTE_ASSET,
+    createAsset,
+    createUnknownAsset,
+    searchAssets,
+} from '@/lib/assetRegistry'
+import type { Asset } from '@/entities'
+
+interface AssetState {
+    // Every known pair, from the exchange or the bundled snapshot
+    assets: Record<string, Asset>
+    source: 'snapshot' | 'exchange'
+    isLoading: boolean
+    error: string | null
+
+    // Pairs the user trades, shown in the asset pickers
+    watchlist: string[]
+
+    // Watchlisted pairs missing from the snapshot, so their filters survive offline
+    customAssets: Record<string, Asset>
+
+    // Actions
+    loadExchangeInfo: () => Promise<void>
+    addToWatchlist: (symbol: string) => { success: boolean; error?: string }
+    removeFromWatchlist: (symbol: string) => void
+
+    // Getters
+    getAsset: (symbol: string) => Asset
+    getWatchlistAssets: () => Asset[]
+    search: (query: string) => Asset[]
+}
+
+function toRegistry(assets: Asset[]): Record<string, Asset> {
+    return Object.fromEntries(assets.map(a => [a.symbol, a]))
+}
+
+const SNAPSHOT_ASSETS = toRegistry(ASSET_SNAPSHOT.map(createAsset))
+
+export const useAssetStore = create<AssetState>()(
+    persist(
+        (set, get) => ({
+            assets: SNAPSHOT_ASSETS,
+            source: 'snapshot',
+            isLoading: false,
+            error: null,
+            watchlist: DEFAULT_WATCHLIST,
+            customAssets: {},
+
+            loadExchangeInfo: async () => {
+                if (get().isLoading) return
+                set({ isLoading: true, error: null })
+
+                try {
+                    const symbols = await marketData.fetchExchangeInfo(REGISTRY_QUOTE_ASSET)
+                    const assets = toRegistry(symbols.map(createAsset))
+
+                    // Keep the stored filters current for pairs the snapshot lacks
+                    const customAssets = Object.fromEntries(
+                        Object.entries(get().customAssets).map(([symbol, asset]) => [symbol, assets[symbol] ?? asset])
+                    )
+
+                    set({ assets, customAssets, source: 'exchange', isLoading: false })
+                } catch (error) {
+                    console.error('Error loading exchange info:', error)
+                    set({
+                        isLoading: false,
+                        error: 'Could not reach the exchange; using the bundled pair list',
+                    })
+                }
+            },
+
+            addToWatchlist: (symbol) => {
+                const state = get()
+                const asset = state.assets[symbol]
+
+                if (!asset) {
+                    return { success: false, error: `${symbol} is not a trading ${REGISTRY_QUOTE_ASSET} pair` }
+                }
+
+                if (state.watchlist.includes(symbol)) {
+                    return { success: true }
+                }
+
+                set({
+                    watchlist: [...state.watchlist, symbol],
+                    customAssets: SNAPSHOT_ASSETS[symbol]
+                        ? state.customAssets
+                        : { ...state.customAssets, [symbol]: asset },
+                })
+
+                return { success: true }
+            },
+
+            removeFromWatchlist: (symbol) => {
+                set((state) => {
+                    const { [symbol]: _removed, ...customAssets } = state.customAssets
+                    return {
+                        watchlist: state.watchlist.filter(s => s !== symbol),
+                        customAssets,
+                    }
+                })
+            },
+
+            getAsset: (symbol) => {
+                const state = get()
+                return state.assets[symbol] ?? state.customAssets[symbol] ?? createUnknownAsset(symbol)
+            },
+
+            getWatchlistAssets: () => {
+                const state = get()
+                return state.watchlist.map(symbol => state.getAsset(symbol))
+            },
+
+            search: (query) => searchAssets(Object.values(get().assets), query),
+        }),
+        createPersistOptions({
+            name: 'quantix-assets',
+            label: 'asset list',
+            version: 1,
+            partialize: (state) => ({
+                watchlist: state.watchlist,
+                customAssets: state.customAssets,
+            }),
+        })
+    )
+)
@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { createPersistOptions } from '@/lib/persistence'
 
 export interface UserProfile {
     id: string
@@ -193,12 +194,14 @@ export const useAuthStore = create<AuthState>()(
             openOnboardingModal: () => set({ showOnboardingModal: true }),
             closeModals: () => set({ showLoginModal: false, showSignupModal: false, showOnboardingModal: false }),
         }),
-        {
+        createPersistOptions({
             name: 'quantix-auth',
+            label: 'account',
+            version: 1,
             partialize: (state) => ({
                 isAuthenticated: state.isAuthenticated,
                 user: state.user,
             }),
-        }
+        })
     )
 )
@@ -0,0 +1,26 @@
+import { create } from 'zustand'
+import type { TimeInterval } from '@/stores/tradingStore'
+
+export interface ChartCapture {
+    symbol: string
+    interval: TimeInterval
+    image: string           // JPEG data URL
+    takenAt: Date
+}
+
+interface ChartCaptureState {
+    latest: ChartCapture | null
+
+    // Actions
+    capture: (capture: ChartCapture) => void
+}
+
+/**
+ * The last picture taken of the trading chart, ready to attach to a journal
+ * entry. Not persisted: an image is only kept once it is attached.
+ */
+export const useChartCaptureStore = create<ChartCaptureState>()((set) => ({
+    latest: null,
+
+    capture: (capture) => set({ latest: capture }),
+}))
@@ -0,0 +1,89 @@
+import { create } from 'zustand'
+import { persist } from 'zustand/middleware'
+import { createPersistOptions } from '@/lib/persistence'
+import type { MarketDataSource } from '@/services/marketData'
+
+export interface MarketDataSettings {
+    source: MarketDataSource
+
+    // Synthetic prices
+    syntheticSeed: number
+    syntheticVolatility: number   // Annualized, %
+
+    // URL of the recording the replay source plays
+    replayFile: string
+
+    // What the historical replay source plays back (ms)
+    historySymbols: string[]
+    historyStart: number
+    historyEnd: number
+}
+
+interface MarketDataState extends MarketDataSettings {
+    // Actions
+    setSource: (source: MarketDataSource) => void
+    setSynthetic: (settings: Partial<Pick<MarketDataSettings, 'syntheticSeed' | 'syntheticVolatility'>>) => void
+    setReplayFile: (replayFile: string) => void
+    setHistory: (symbols: string[], start: number, end: number) => { success: boolean; error?: string }
+}
+
+export const DEFAULT_SYNTHETIC_SEED = 1
+export const DEFAULT_SYNTHETIC_VOLATILITY = 60
+export const DEFAULT_REPLAY_FILE = '/market-data/recording.json'
+
+// The May 2021 crash: a day with plenty happening
+export const DEFAULT_HISTORY_SYMBOLS = ['BTCUSDT', 'ETHUSDT']
+export const DEFAULT_HISTORY_START = Date.UTC(2021, 4, 19)
+export const DEFAULT_HISTORY_END = Date.UTC(2021, 4, 20)
+
+// Every symbol's minutes are held in memory: about 10k candles per symbol per week
+export const MAX_HISTORY_DAYS = 7
+export const MAX_HISTORY_SYMBOLS = 5
+
+export const useMarketDataStore = create<MarketDataState>()(
+    persist(
+        (set) => ({
+            source: 'binance',
+            syntheticSeed: DEFAULT_SYNTHETIC_SEED,
+            syntheticVolatility: DEFAULT_SYNTHETIC_VOLATILITY,
+            replayFile: DEFAULT_REPLAY_FILE,
+            historySymbols: DEFAULT_HISTORY_SYMBOLS,
+            historyStart: DEFAULT_HISTORY_START,
+            historyEnd: DEFAULT_HISTORY_END,
+
+            setSource: (source) => set({ source }),
+
+            setSynthetic: (settings) => set(settings),
+
+            setReplayFile: (replayFile) => set({ replayFile: replayFile.trim() || DEFAULT_REPLAY_FILE }),
+
+            setHistory: (symbols, start, end) => {
+                const historySymbols = [...new Set(symbols.map(s => s.trim().toUpperCase()).filter(Boolean))]
+
+                if (historySymbols.length === 0) {
+                    return { success: false, error: 'Choose at least one symbol' }
+                }
+                if (historySymbols.length > MAX_HISTORY_SYMBOLS) {
+                    return { success: false, error: `Replay at most ${MAX_HISTORY_SYMBOLS} symbols at once` }
+                }
+                if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) {
+                    return { success: false, error: 'The end must be after the start' }
+                }
+                if (end > Date.now()) {
+                    return { success: false, error: 'The range must be in the past' }
+                }
+                if (end - start > MAX_HISTORY_DAYS * 24 * 60 * 60 * 1000) {
+                    return { success: false, error: `Replay at most ${MAX_HISTORY_DAYS} days at once` }
+                }
+
+                set({ historySymbols, historyStart: start, historyEnd: end })
+                return { success: true }
+            },
+        }),
+        createPersistOptions({
+            name: 'quantix-market-data',
+            label: 'market data settings',
+            version: 1,
+        })
+    )
+)
@@ -0,0 +1,63 @@
+import { create } from 'zustand'
+import type { ReplayClockState, ReplayMarketData, ReplaySpeed } from '@/services/replayMarketData'
+
+interface ReplayState extends ReplayClockState {
+    // Whether a replay is the active market data source
+    active: boolean
+
+    // Actions
+    attach: (replay: ReplayMarketData) => void
+    detach: () => void
+    play: () => void
+    pause: () => void
+    setSpeed: (speed: ReplaySpeed) => void
+    step: (ms?: number) => void
+}
+
+const IDLE: ReplayClockState & { active: boolean } = {
+    active: false,
+    time: 0,
+    startTime: 0,
+    endTime: 0,
+    speed: 1,
+    playing: false,
+    loading: false,
+    error: null,
+}
+
+// The attached replay and its listener cleanup; kept out of state so it never renders
+let attached: { replay: ReplayMarketData; stop: () => void } | null = null
+
+/**
+ * Clock state and controls of the running replay. Not persisted: a replay
+ * starts over whenever the app loads.
+ */
+export const useReplayStore = create<ReplayState>()((set) => ({
+    ...IDLE,
+
+    attach: (replay) => {
+        // End the previous replay first, so each one starts out on its own
+        if (attached) {
+            attached.stop()
+            set(IDLE)
+        }
+        attached = {
+            replay,
+            stop: replay.onClockChange((clock) => set({ active: true, ...clock })),
+        }
+    },
+
+    detach: () => {
+        attached?.stop()
+        attached = null
+        set(IDLE)
+    },
+
+    play: () => attached?.replay.play(),
+
+    pause: () => attached?.replay.pause(),
+
+    setSpeed: (speed) => attached?.replay.setSpeed(speed),
+
+    step: (ms) => attached?.replay.step(ms),
+}))
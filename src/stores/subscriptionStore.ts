@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { createPersistOptions } from '@/lib/persistence'
 
 export type SubscriptionTier = 'free' | 'starter' | 'pro' | 'ultimate'
 export type BillingCycle = 'monthly' | 'yearly'
@@ -247,12 +248,14 @@ export const useSubscriptionStore = create<SubscriptionState>()(
                 return plan?.limits.virtualBalance ?? 500
             },
         }),
-        {
+        createPersistOptions({
             name: 'quantix-subscription',
+            label: 'subscription',
+            version: 1,
             partialize: (state) => ({
                 subscription: state.subscription,
                 selectedCycle: state.selectedCycle,
             }),
-        }
+        })
     )
 )
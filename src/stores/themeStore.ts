@@ -1,7 +1,10 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
+import { createPersistOptions } from '@/lib/persistence'
 
-type Theme = 'dark' | 'light' | 'ocean' | 'sunset' | 'forest'
+export type Theme = 'dark' | 'light' | 'ocean' | 'sunset' | 'forest'
+
+export const THEME_IDS: Theme[] = ['dark', 'light', 'ocean', 'sunset', 'forest']
 
 interface ThemeState {
     theme: Theme
@@ -26,15 +29,17 @@ export const useThemeStore = create<ThemeState>()(
                 applyTheme(newTheme)
             },
         }),
-        {
+        createPersistOptions({
             name: 'quantix-theme',
+            label: 'theme',
+            version: 1,
             onRehydrateStorage: () => (state) => {
                 // Apply theme on rehydration
                 if (state?.theme) {
                     applyTheme(state.theme)
                 }
             },
-        }
+        })
     )
 )
 
@@ -1,28 +1,9 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import { TickerData, TradeData } from '@/services/binanceWebSocket'
-
-export interface CryptoAsset {
-    symbol: string
-    name: string
-    shortName: string
-    icon: string
-    color: string
-}
-
-// Available cryptocurrencies
-export const CRYPTO_ASSETS: CryptoAsset[] = [
-    { symbol: 'BTCUSDT', name: 'Bitcoin', shortName: 'BTC', icon: '₿', color: '#F7931A' },
-    { symbol: 'ETHUSDT', name: 'Ethereum', shortName: 'ETH', icon: 'Ξ', color: '#627EEA' },
-    { symbol: 'BNBUSDT', name: 'BNB', shortName: 'BNB', icon: '◆', color: '#F0B90B' },
-    { symbol: 'SOLUSDT', name: 'Solana', shortName: 'SOL', icon: '◎', color: '#00FFA3' },
-    { symbol: 'XRPUSDT', name: 'XRP', shortName: 'XRP', icon: '✕', color: '#23292F' },
-    { symbol: 'ADAUSDT', name: 'Cardano', shortName: 'ADA', icon: '₳', color: '#0033AD' },
-    { symbol: 'DOGEUSDT', name: 'Dogecoin', shortName: 'DOGE', icon: 'Ð', color: '#C2A633' },
-    { symbol: 'MATICUSDT', name: 'Polygon', shortName: 'MATIC', icon: '⬡', color: '#8247E5' },
-    { symbol: 'DOTUSDT', name: 'Polkadot', shortName: 'DOT', icon: '●', color: '#E6007A' },
-    { symbol: 'AVAXUSDT', name: 'Avalanche', shortName: 'AVAX', icon: 'Ⓐ', color: '#E84142' },
-]
+import { createPersistOptions } from '@/lib/persistence'
+import type { TickerData, TradeData } from '@/services/marketData'
+import { useAssetStore } from '@/stores/assetStore'
+import type { Asset } from '@/entities'
 
 export type TimeInterval = '1m' | '5m' | '15m' | '30m' | '1h' | '4h' | '1d' | '1w'
 
@@ -71,7 +52,7 @@ interface TradingState {
     toggleFavorite: (symbol: string) => void
 
     // Getters
-    getCurrentAsset: () => CryptoAsset | undefined
+    getCurrentAsset: () => Asset
     getCurrentTicker: () => TickerData | undefined
     getCurrentRealtimePrice: () => RealtimePrice | undefined
     getPrice: (symbol: string) => number | undefined
@@ -129,8 +110,7 @@ export const useTradingStore = create<TradingState>()(
                 })),
 
             getCurrentAsset: () => {
-                const state = get()
-                return CRYPTO_ASSETS.find((a) => a.symbol === state.selectedSymbol)
+                return useAssetStore.getState().getAsset(get().selectedSymbol)
             },
 
             getCurrentTicker: () => {
@@ -150,13 +130,15 @@ export const useTradingStore = create<TradingState>()(
                     || state.tickerData[symbol]?.price
             },
         }),
-        {
+        createPersistOptions({
             name: 'quantix-trading',
+            label: 'trading',
+            version: 1,
             partialize: (state) => ({
                 selectedSymbol: state.selectedSymbol,
                 selectedInterval: state.selectedInterval,
                 favorites: state.favorites,
             }),
-        }
+        })
     )
 )
@@ -1,5 +1,23 @@
-import { describe, it, expect, beforeEach } from 'vitest'
-import { useWalletStore } from '../walletStore'
+import 'fake-indexeddb/auto'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPortfolioData, useWalletStore } from './walletStore'
+import { rng, uiRandom } from '@/lib/random'
+import { reviveDates, usePersistenceNotices } from '@/lib/persistence'
+import { ReplayMarketData } from '@/services/replayMarketData'
+import { setMarketClock } from '@/lib/clock'
+import { useReplayStore } from './replayStore'
+import { appendToLedger, deleteSnapshot, getSnapshot } from '@/services/ledger'
+
+vi.mock('@/services/ledger', async (importOriginal) => ({
+    ...(await importOriginal<typeof import('@/services/ledger')>()),
+    appendToLedger: vi.fn(),
+    deleteSnapshot: vi.fn(),
+}))
+
+// Neutral jitter: every simulated depth level holds ~$150
+function mockNeutralRandom() {
+    vi.spyOn(rng, 'next').mockImplementation(() => 0.5)
+}
 
 describe('WalletStore', () => {
     beforeEach(() => {
@@ -16,7 +34,7 @@ describe('WalletStore', () => {
 
         it('should have no holdings initially', () => {
             const state = useWalletStore.getState()
-            expect(Object.keys(state.holdings)).toHaveLength(0)
+            expect(Object.keys(state.positions)).toHaveLength(0)
         })
 
         it('should have initial deposit transaction', () => {
@@ -30,7 +48,7 @@ describe('WalletStore', () => {
         it('should successfully buy crypto', () => {
             const { buy } = useWalletStore.getState()
 
-            const result = buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            const result = buy('BTCUSDT', 100, 50000)
 
             expect(result.success).toBe(true)
             expect(result.executedPrice).toBeDefined()
@@ -40,7 +58,7 @@ describe('WalletStore', () => {
             const { buy } = useWalletStore.getState()
             const initialBalance = useWalletStore.getState().balance
 
-            buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            buy('BTCUSDT', 100, 50000)
 
             const state = useWalletStore.getState()
             // Balance should be less by amount + fee (0.1%)
@@ -49,20 +67,20 @@ describe('WalletStore', () => {
         })
 
         it('should create holding after buy', () => {
-            const { buy, getHolding } = useWalletStore.getState()
+            const { buy, getPosition } = useWalletStore.getState()
 
-            buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            buy('BTCUSDT', 100, 50000)
 
-            const holding = getHolding('BTCUSDT')
+            const holding = getPosition('BTCUSDT')
             expect(holding).toBeDefined()
             expect(holding?.symbol).toBe('BTCUSDT')
-            expect(holding?.amount).toBeGreaterThan(0)
+            expect(holding?.quantity).toBeGreaterThan(0)
         })
 
         it('should fail buy with insufficient balance', () => {
             const { buy } = useWalletStore.getState()
 
-            const result = buy('BTCUSDT', 'Bitcoin', 'BTC', 1000, 50000, '#F7931A')
+            const result = buy('BTCUSDT', 1000, 50000)
 
             expect(result.success).toBe(false)
             expect(result.error).toBe('Insufficient balance')
@@ -71,7 +89,7 @@ describe('WalletStore', () => {
         it('should add fee to transaction', () => {
             const { buy } = useWalletStore.getState()
 
-            buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            buy('BTCUSDT', 100, 50000)
 
             const state = useWalletStore.getState()
             const tx = state.transactions[0]
@@ -79,18 +97,18 @@ describe('WalletStore', () => {
         })
 
         it('should average price on multiple buys', () => {
-            const { buy, getHolding } = useWalletStore.getState()
+            const { buy, getPosition } = useWalletStore.getState()
 
             // Disable slippage for predictable test
             useWalletStore.getState().setSlippage(false)
 
-            buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
-            buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 60000, '#F7931A')
+            buy('BTCUSDT', 100, 50000)
+            buy('BTCUSDT', 100, 60000)
 
-            const holding = getHolding('BTCUSDT')
+            const holding = getPosition('BTCUSDT')
             // Average price should be between 50000 and 60000
-            expect(holding?.avgBuyPrice).toBeGreaterThan(50000)
-            expect(holding?.avgBuyPrice).toBeLessThan(60000)
+            expect(holding?.avgEntryPrice).toBeGreaterThan(50000)
+            expect(holding?.avgEntryPrice).toBeLessThan(60000)
         })
     })
 
@@ -98,36 +116,36 @@ describe('WalletStore', () => {
         beforeEach(() => {
             // Setup: Buy some crypto first
             useWalletStore.getState().setSlippage(false)
-            useWalletStore.getState().buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
         })
 
         it('should successfully sell crypto', () => {
-            const { sell, getHolding } = useWalletStore.getState()
-            const holding = getHolding('BTCUSDT')!
+            const { sell, getPosition } = useWalletStore.getState()
+            const holding = getPosition('BTCUSDT')!
 
-            const result = sell('BTCUSDT', holding.amount, 55000)
+            const result = sell('BTCUSDT', holding.quantity, 55000)
 
             expect(result.success).toBe(true)
         })
 
         it('should increase balance after sell', () => {
-            const { sell, getHolding } = useWalletStore.getState()
-            const holding = getHolding('BTCUSDT')!
+            const { sell, getPosition } = useWalletStore.getState()
+            const holding = getPosition('BTCUSDT')!
             const balanceBefore = useWalletStore.getState().balance
 
-            sell('BTCUSDT', holding.amount, 55000)
+            sell('BTCUSDT', holding.quantity, 55000)
 
             const balanceAfter = useWalletStore.getState().balance
             expect(balanceAfter).toBeGreaterThan(balanceBefore)
         })
 
         it('should remove holding after selling all', () => {
-            const { sell, getHolding } = useWalletStore.getState()
-            const holding = getHolding('BTCUSDT')!
+            const { sell, getPosition } = useWalletStore.getState()
+            const holding = getPosition('BTCUSDT')!
 
-            sell('BTCUSDT', holding.amount, 55000)
+            sell('BTCUSDT', holding.quantity, 55000)
 
-            expect(getHolding('BTCUSDT')).toBeUndefined()
+            expect(getPosition('BTCUSDT')).toBeUndefined()
         })
 
         it('should fail sell with insufficient holdings', () => {
@@ -140,10 +158,65 @@ describe('WalletStore', () => {
         })
     })
 
+    describe('Orders, Trades & Positions', () => {
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+        })
+
+        it('should record a filled market order and its trade', () => {
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            const { orders, trades } = useWalletStore.getState()
+            expect(orders).toHaveLength(1)
+            expect(orders[0].type).toBe('market')
+            expect(orders[0].status).toBe('filled')
+            expect(orders[0].executedQty).toBeCloseTo(0.002, 10)
+
+            expect(trades).toHaveLength(1)
+            expect(trades[0].orderId).toBe(orders[0].id)
+            expect(trades[0].quantity).toBeCloseTo(0.002, 10)
+            expect(trades[0].isMaker).toBe(false)
+        })
+
+        it('should record realized P&L on sell trades', () => {
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+            useWalletStore.getState().sell('BTCUSDT', 0.001, 60000)
+
+            const [sellTrade] = useWalletStore.getState().trades
+            // (60000 - 50000) * 0.001, fees are reported separately
+            expect(sellTrade.side).toBe('sell')
+            expect(sellTrade.realizedPnl).toBeCloseTo(10, 6)
+            expect(sellTrade.fee).toBeCloseTo(0.06, 6)
+
+            const position = useWalletStore.getState().getPosition('BTCUSDT')
+            expect(position?.quantity).toBeCloseTo(0.001, 10)
+            expect(position?.realizedPnl).toBeCloseTo(10, 6)
+        })
+
+        it('should mark positions to current prices', () => {
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            const [position] = useWalletStore.getState().getPositions({ BTCUSDT: 55000 })
+            expect(position.side).toBe('long')
+            expect(position.unrealizedPnl).toBeCloseTo(10, 6)
+            expect(position.unrealizedPnlPercent).toBeCloseTo(10, 6)
+        })
+
+        it('should build the portfolio from positions', () => {
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            const portfolio = useWalletStore.getState().getPortfolio({ BTCUSDT: 50000 })
+            expect(portfolio.assets).toHaveLength(1)
+            expect(portfolio.assets[0].name).toBe('Bitcoin')
+            expect(portfolio.cashBalance).toBeCloseTo(399.9, 6)
+            expect(portfolio.totalValue).toBeCloseTo(499.9, 6)
+        })
+    })
+
     describe('P&L Calculations', () => {
         it('should calculate positive P&L correctly', () => {
             useWalletStore.getState().setSlippage(false)
-            useWalletStore.getState().buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
 
             const { getPortfolioMetrics } = useWalletStore.getState()
 
@@ -156,7 +229,7 @@ describe('WalletStore', () => {
 
         it('should calculate negative P&L correctly', () => {
             useWalletStore.getState().setSlippage(false)
-            useWalletStore.getState().buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
 
             const { getPortfolioMetrics } = useWalletStore.getState()
 
@@ -169,7 +242,7 @@ describe('WalletStore', () => {
 
         it('should calculate portfolio value correctly', () => {
             useWalletStore.getState().setSlippage(false)
-            useWalletStore.getState().buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
 
             const { getPortfolioValue, balance } = useWalletStore.getState()
 
@@ -180,52 +253,619 @@ describe('WalletStore', () => {
         })
     })
 
+    describe('Lot Accounting', () => {
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+            useWalletStore.getState().setCostBasisMethod('fifo')
+            useWalletStore.getState().buy('BTCUSDT', 100, 40000)
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+        })
+
+        it('should realize P&L against the oldest lot with FIFO', () => {
+            useWalletStore.getState().sell('BTCUSDT', 0.0025, 60000)
+
+            const [sellTrade] = useWalletStore.getState().trades
+            expect(sellTrade.realizedPnl).toBeCloseTo(50, 6)
+            expect(sellTrade.lotDisposals).toHaveLength(1)
+            expect(useWalletStore.getState().getPosition('BTCUSDT')?.avgEntryPrice).toBeCloseTo(50000, 6)
+        })
+
+        it('should realize P&L against the newest lot with LIFO', () => {
+            useWalletStore.getState().setCostBasisMethod('lifo')
+            useWalletStore.getState().sell('BTCUSDT', 0.002, 60000)
+
+            expect(useWalletStore.getState().trades[0].realizedPnl).toBeCloseTo(20, 6)
+            expect(useWalletStore.getState().getPosition('BTCUSDT')?.avgEntryPrice).toBeCloseTo(40000, 6)
+        })
+
+        it('should keep the average entry with average cost', () => {
+            useWalletStore.getState().setCostBasisMethod('average')
+            const averageCost = 200 / 0.0045
+            useWalletStore.getState().sell('BTCUSDT', 0.002, 60000)
+
+            expect(useWalletStore.getState().trades[0].realizedPnl).toBeCloseTo(0.002 * (60000 - averageCost), 6)
+            expect(useWalletStore.getState().getPosition('BTCUSDT')?.avgEntryPrice).toBeCloseTo(averageCost, 6)
+        })
+
+        it('should report realized, unrealized and fees separately', () => {
+            useWalletStore.getState().sell('BTCUSDT', 0.0025, 60000)
+            useWalletStore.getState().claimDailyBonus()
+
+            const metrics = useWalletStore.getState().getPortfolioMetrics({ BTCUSDT: 60000 })
+            expect(metrics.realizedPnl).toBeCloseTo(50, 6)
+            expect(metrics.unrealizedPnl).toBeCloseTo(20, 6)
+            expect(metrics.totalFees).toBeCloseTo(0.35, 6)
+            expect(metrics.profitLoss).toBeCloseTo(69.65, 6)
+        })
+    })
+
+    describe('Value History', () => {
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+            useWalletStore.getState().recordValueSnapshot({ BTCUSDT: 50000 })
+        })
+
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        it('should throttle snapshots', () => {
+            useWalletStore.getState().recordValueSnapshot({ BTCUSDT: 51000 })
+
+            expect(useWalletStore.getState().valueSnapshots).toHaveLength(1)
+        })
+
+        it('should compute the day change from snapshots, excluding deposits', () => {
+            vi.setSystemTime(Date.now() + 25 * 60 * 60 * 1000)
+            useWalletStore.getState().deposit(100)
+
+            const metrics = useWalletStore.getState().getPortfolioMetrics({ BTCUSDT: 55000 })
+            expect(metrics.dayChange).toBeCloseTo(10, 6)
+            expect(metrics.dayChangePercent).toBeCloseTo((10 / 499.9) * 100, 6)
+        })
+
+        it('should skip snapshots while a held price is missing', () => {
+            vi.setSystemTime(Date.now() + 60 * 60 * 1000)
+            useWalletStore.getState().recordValueSnapshot({ ETHUSDT: 3000 })
+
+            expect(useWalletStore.getState().valueSnapshots).toHaveLength(1)
+        })
+    })
+
     describe('Limit Orders', () => {
         it('should place limit buy order', () => {
-            const { placeLimitOrder, pendingOrders } = useWalletStore.getState()
+            const { placeLimitOrder } = useWalletStore.getState()
 
-            const result = placeLimitOrder('buy', 'BTCUSDT', 'Bitcoin', 'BTC', 100, 45000, '#F7931A')
+            const result = placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000)
 
             expect(result.success).toBe(true)
             expect(result.orderId).toBeDefined()
-            expect(useWalletStore.getState().pendingOrders).toHaveLength(1)
+            expect(useWalletStore.getState().orders).toHaveLength(1)
         })
 
         it('should cancel pending order', () => {
             const { placeLimitOrder, cancelOrder } = useWalletStore.getState()
 
-            const orderResult = placeLimitOrder('buy', 'BTCUSDT', 'Bitcoin', 'BTC', 100, 45000, '#F7931A')
+            const orderResult = placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000)
             const cancelResult = cancelOrder(orderResult.orderId!)
 
             expect(cancelResult.success).toBe(true)
-            expect(useWalletStore.getState().pendingOrders[0].status).toBe('cancelled')
+            expect(useWalletStore.getState().orders[0].status).toBe('cancelled')
+        })
+    })
+
+    describe('Partial Fills', () => {
+        beforeEach(() => {
+            mockNeutralRandom()
+        })
+
+        afterEach(() => {
+            vi.restoreAllMocks()
+        })
+
+        it('should partially fill a limit order when price only touches the limit', () => {
+            const { placeLimitOrder, checkAndExecuteOrders } = useWalletStore.getState()
+
+            placeLimitOrder('buy', 'BTCUSDT', 400 / 45000, 45000)
+            checkAndExecuteOrders({ BTCUSDT: 45000 })
+
+            const order = useWalletStore.getState().orders[0]
+            expect(order.status).toBe('partially_filled')
+            expect(order.executedQty).toBeCloseTo(150 / 45000, 10)
+            expect(order.remainingQty).toBeCloseTo(order.quantity - order.executedQty, 10)
+            expect(useWalletStore.getState().getPosition('BTCUSDT')?.quantity).toBeCloseTo(order.executedQty, 10)
+        })
+
+        it('should fill the remainder once price trades through the limit', () => {
+            const { placeLimitOrder, checkAndExecuteOrders } = useWalletStore.getState()
+
+            placeLimitOrder('buy', 'BTCUSDT', 400 / 45000, 45000)
+            checkAndExecuteOrders({ BTCUSDT: 45000 })
+            checkAndExecuteOrders({ BTCUSDT: 44000 })
+
+            const order = useWalletStore.getState().orders[0]
+            expect(order.status).toBe('filled')
+            expect(order.remainingQty).toBe(0)
+            expect(order.avgFillPrice).toBeLessThan(45000)
+
+            const fills = useWalletStore.getState().transactions.filter(tx => tx.orderId === order.id)
+            expect(fills).toHaveLength(2)
+        })
+
+        it('should not fill a limit order while price is above the limit', () => {
+            const { placeLimitOrder, checkAndExecuteOrders } = useWalletStore.getState()
+
+            placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000)
+            checkAndExecuteOrders({ BTCUSDT: 46000 })
+
+            const order = useWalletStore.getState().orders[0]
+            expect(order.status).toBe('open')
+            expect(order.executedQty).toBe(0)
+        })
+
+        it('should keep fills when cancelling a partially filled order', () => {
+            const { placeLimitOrder, checkAndExecuteOrders, cancelOrder } = useWalletStore.getState()
+
+            const { orderId } = placeLimitOrder('buy', 'BTCUSDT', 400 / 45000, 45000)
+            checkAndExecuteOrders({ BTCUSDT: 45000 })
+
+            expect(cancelOrder(orderId!).success).toBe(true)
+
+            const order = useWalletStore.getState().orders[0]
+            expect(order.status).toBe('cancelled')
+            expect(order.executedQty).toBeGreaterThan(0)
+            expect(useWalletStore.getState().getPosition('BTCUSDT')).toBeDefined()
+        })
+    })
+
+    describe('Time in Force', () => {
+        beforeEach(() => {
+            mockNeutralRandom()
+        })
+
+        afterEach(() => {
+            vi.restoreAllMocks()
+        })
+
+        it('should not expire GTC orders', () => {
+            const { placeLimitOrder } = useWalletStore.getState()
+
+            placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000)
+
+            expect(useWalletStore.getState().orders[0].expiresAt).toBeUndefined()
+        })
+
+        it('should expire GTD orders with a reason', () => {
+            const { placeLimitOrder, checkAndExecuteOrders } = useWalletStore.getState()
+            const expiresAt = new Date(Date.now() + 60_000)
+
+            placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000, { timeInForce: 'GTD', expiresAt })
+            vi.setSystemTime(Date.now() + 120_000)
+            checkAndExecuteOrders({ BTCUSDT: 50000 })
+            vi.useRealTimers()
+
+            const [order] = useWalletStore.getState().getOrderHistory()
+            expect(order.status).toBe('expired')
+            expect(order.statusReason).toBe('Good-till-date reached')
+        })
+
+        it('should fill what it can and expire the rest for IOC', () => {
+            const { placeLimitOrder } = useWalletStore.getState()
+
+            // ~$150 at the touch, nothing better within the limit
+            const result = placeLimitOrder('buy', 'BTCUSDT', 400 / 45000, 45000, {
+                timeInForce: 'IOC',
+                currentPrice: 45000,
+            })
+
+            const order = useWalletStore.getState().orders[0]
+            expect(result.success).toBe(true)
+            expect(order.status).toBe('expired')
+            expect(order.executedQty).toBeGreaterThan(0)
+            expect(order.executedQty).toBeLessThan(order.quantity)
+        })
+
+        it('should reject FOK orders that cannot fill entirely', () => {
+            const { placeLimitOrder } = useWalletStore.getState()
+
+            const result = placeLimitOrder('buy', 'BTCUSDT', 400 / 45000, 45000, {
+                timeInForce: 'FOK',
+                currentPrice: 45000,
+            })
+
+            const order = useWalletStore.getState().orders[0]
+            expect(result.success).toBe(false)
+            expect(order.status).toBe('rejected')
+            expect(order.executedQty).toBe(0)
+            expect(useWalletStore.getState().balance).toBe(500)
+        })
+    })
+
+    describe('Locked Balances', () => {
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+        })
+
+        it('should lock cash for an open limit buy', () => {
+            const { placeLimitOrder, getBalance } = useWalletStore.getState()
+
+            placeLimitOrder('buy', 'BTCUSDT', 400 / 40000, 40000)
+
+            const cash = getBalance('USDT')
+            expect(cash.total).toBe(500)
+            expect(cash.locked).toBeCloseTo(400.4, 6)
+            expect(cash.free).toBeCloseTo(99.6, 6)
+        })
+
+        it('should not spend locked cash', () => {
+            const { placeLimitOrder, buy } = useWalletStore.getState()
+
+            placeLimitOrder('buy', 'BTCUSDT', 400 / 40000, 40000)
+
+            expect(placeLimitOrder('buy', 'ETHUSDT', 400 / 2000, 2000).success).toBe(false)
+            expect(buy('BTCUSDT', 200, 50000).error).toBe('Balance is locked in open orders')
+        })
+
+        it('should release the lock when the order is cancelled', () => {
+            const { placeLimitOrder, cancelOrder, getBalance } = useWalletStore.getState()
+
+            const result = placeLimitOrder('buy', 'BTCUSDT', 400 / 40000, 40000)
+            cancelOrder(result.orderId!)
+
+            expect(getBalance('USDT').free).toBe(500)
+        })
+
+        it('should lock holdings for an open stop-loss', () => {
+            const { buy, placeStopLoss, sell } = useWalletStore.getState()
+            buy('BTCUSDT', 100, 50000)
+            const quantity = useWalletStore.getState().getPosition('BTCUSDT')!.quantity
+
+            placeStopLoss('BTCUSDT', quantity, 45000)
+
+            const holding = useWalletStore.getState().getBalance('BTCUSDT')
+            expect(holding.locked).toBeCloseTo(quantity, 10)
+            expect(holding.free).toBeCloseTo(0, 10)
+            expect(sell('BTCUSDT', quantity, 50000).error).toBe('Holdings are locked in open orders')
         })
     })
 
     describe('Stop-Loss Orders', () => {
         beforeEach(() => {
             useWalletStore.getState().setSlippage(false)
-            useWalletStore.getState().buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
         })
 
         it('should place stop-loss order', () => {
-            const { placeStopLoss, getHolding } = useWalletStore.getState()
-            const holding = getHolding('BTCUSDT')!
+            const { placeStopLoss, getPosition } = useWalletStore.getState()
+            const holding = getPosition('BTCUSDT')!
 
-            const result = placeStopLoss('BTCUSDT', holding.amount, 45000)
+            const result = placeStopLoss('BTCUSDT', holding.quantity, 45000)
 
             expect(result.success).toBe(true)
             expect(result.orderId).toBeDefined()
         })
 
         it('should execute stop-loss when price drops', () => {
-            const { placeStopLoss, checkAndExecuteOrders, getHolding } = useWalletStore.getState()
-            const holding = getHolding('BTCUSDT')!
+            const { placeStopLoss, checkAndExecuteOrders, getPosition } = useWalletStore.getState()
+            const holding = getPosition('BTCUSDT')!
 
-            placeStopLoss('BTCUSDT', holding.amount, 45000)
+            placeStopLoss('BTCUSDT', holding.quantity, 45000)
             checkAndExecuteOrders({ BTCUSDT: 44000 }) // Price below stop
 
-            expect(useWalletStore.getState().pendingOrders[0].status).toBe('filled')
+            expect(useWalletStore.getState().orders[0].status).toBe('filled')
+        })
+    })
+
+    describe('Stop-Limit & Trailing Stops', () => {
+        beforeEach(() => {
+            mockNeutralRandom()
+            useWalletStore.getState().setSlippage(false)
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+        })
+
+        afterEach(() => {
+            vi.restoreAllMocks()
+        })
+
+        const findOrder = (type: string) => useWalletStore.getState().orders.find(o => o.type === type)!
+
+        it('should raise a trailing stop with the high-water mark', () => {
+            const { placeTrailingStop, checkAndExecuteOrders, getPosition } = useWalletStore.getState()
+            const quantity = getPosition('BTCUSDT')!.quantity
+
+            placeTrailingStop('BTCUSDT', quantity, 10, 'percent', 50000)
+            expect(findOrder('trailing-stop').stopPrice).toBe(45000)
+
+            checkAndExecuteOrders({ BTCUSDT: 60000 })
+            expect(findOrder('trailing-stop').highWaterMark).toBe(60000)
+            expect(findOrder('trailing-stop').stopPrice).toBe(54000)
+
+            // Pullbacks do not lower the stop
+            checkAndExecuteOrders({ BTCUSDT: 55000 })
+            expect(findOrder('trailing-stop').stopPrice).toBe(54000)
+            expect(findOrder('trailing-stop').status).toBe('open')
+
+            checkAndExecuteOrders({ BTCUSDT: 53000 })
+            expect(findOrder('trailing-stop').status).toBe('filled')
+        })
+
+        it('should support an absolute trailing offset', () => {
+            const { placeTrailingStop, getPosition } = useWalletStore.getState()
+            const quantity = getPosition('BTCUSDT')!.quantity
+
+            placeTrailingStop('BTCUSDT', quantity, 1000, 'absolute', 50000)
+
+            expect(findOrder('trailing-stop').stopPrice).toBe(49000)
+        })
+
+        it('should trigger a buy stop-limit when price rises to the stop', () => {
+            const { placeStopLimit, checkAndExecuteOrders } = useWalletStore.getState()
+
+            placeStopLimit('buy', 'BTCUSDT', 50 / 51000, 51000, 51000)
+
+            checkAndExecuteOrders({ BTCUSDT: 50000 })
+            expect(findOrder('stop-limit').triggeredAt).toBeUndefined()
+
+            checkAndExecuteOrders({ BTCUSDT: 51000 })
+            expect(findOrder('stop-limit').status).toBe('filled')
+        })
+
+        it('should rest a triggered stop-limit at its limit price', () => {
+            const { placeStopLimit, checkAndExecuteOrders, getPosition } = useWalletStore.getState()
+            const quantity = getPosition('BTCUSDT')!.quantity
+
+            placeStopLimit('sell', 'BTCUSDT', quantity, 48000, 47500)
+
+            // Gap below the limit: triggered, but no bids at or above 47500
+            checkAndExecuteOrders({ BTCUSDT: 47000 })
+            expect(findOrder('stop-limit').triggeredAt).toBeDefined()
+            expect(findOrder('stop-limit').executedQty).toBe(0)
+
+            checkAndExecuteOrders({ BTCUSDT: 47600 })
+            expect(findOrder('stop-limit').status).toBe('filled')
+        })
+    })
+
+    describe('OCO & Bracket Orders', () => {
+        beforeEach(() => {
+            mockNeutralRandom()
+            useWalletStore.getState().setSlippage(false)
+        })
+
+        afterEach(() => {
+            vi.restoreAllMocks()
+        })
+
+        const groupOrders = (groupId: string) =>
+            useWalletStore.getState().orders.filter(o => o.groupId === groupId)
+
+        it('should reserve holdings once for both OCO legs', () => {
+            const { buy, placeOcoOrder } = useWalletStore.getState()
+            buy('BTCUSDT', 100, 50000)
+            const quantity = useWalletStore.getState().getPosition('BTCUSDT')!.quantity
+
+            const result = placeOcoOrder('BTCUSDT', quantity, 55000, 45000)
+
+            expect(result.success).toBe(true)
+            expect(groupOrders(result.groupId!)).toHaveLength(2)
+            expect(useWalletStore.getState().getBalance('BTCUSDT').locked).toBeCloseTo(quantity, 10)
+        })
+
+        it('should cancel the other leg when one fills', () => {
+            const { buy, placeOcoOrder, checkAndExecuteOrders } = useWalletStore.getState()
+            buy('BTCUSDT', 100, 50000)
+            const quantity = useWalletStore.getState().getPosition('BTCUSDT')!.quantity
+
+            const result = placeOcoOrder('BTCUSDT', quantity, 55000, 45000)
+            checkAndExecuteOrders({ BTCUSDT: 44000 })
+
+            const legs = groupOrders(result.groupId!)
+            expect(legs.find(o => o.type === 'stop-loss')?.status).toBe('filled')
+            expect(legs.find(o => o.type === 'take-profit')?.status).toBe('cancelled')
+            expect(useWalletStore.getState().orderGroups[0].status).toBe('completed')
+        })
+
+        it('should activate bracket exits once the entry fills', () => {
+            const { placeBracketOrder, checkAndExecuteOrders } = useWalletStore.getState()
+
+            const result = placeBracketOrder('BTCUSDT', 100 / 50000, 50000, 55000, 48000)
+            expect(groupOrders(result.groupId!)).toHaveLength(1)
+
+            checkAndExecuteOrders({ BTCUSDT: 49000 })
+
+            const group = useWalletStore.getState().orderGroups[0]
+            const exits = useWalletStore.getState().orders.filter(o => group.orderIds.includes(o.id))
+            expect(group.status).toBe('active')
+            expect(exits.map(o => o.type).sort()).toEqual(['stop-loss', 'take-profit'])
+            expect(exits[0].quantity).toBeCloseTo(100 / 50000, 10)
+
+            checkAndExecuteOrders({ BTCUSDT: 56000 })
+
+            expect(useWalletStore.getState().orderGroups[0].status).toBe('completed')
+            expect(useWalletStore.getState().getPosition('BTCUSDT')).toBeUndefined()
+        })
+
+        it('should cancel a pending bracket with its entry', () => {
+            const { placeBracketOrder, cancelOrder } = useWalletStore.getState()
+
+            const result = placeBracketOrder('BTCUSDT', 100 / 50000, 50000, 55000, 48000)
+            cancelOrder(result.orderId!)
+
+            expect(useWalletStore.getState().orderGroups[0].status).toBe('cancelled')
+            expect(useWalletStore.getState().getOpenOrderGroups()).toHaveLength(0)
+        })
+    })
+
+    describe('Margin Trading', () => {
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+        })
+
+        afterEach(() => {
+            vi.useRealTimers()
+        })
+
+        it('should open an isolated long with a liquidation price', () => {
+            const { openMarginPosition } = useWalletStore.getState()
+
+            const result = openMarginPosition('BTCUSDT', 'long', 100, 10, 50000)
+
+            const [position] = useWalletStore.getState().marginPositions
+            expect(result.success).toBe(true)
+            expect(position.quantity).toBeCloseTo(0.02, 10)
+            expect(position.liquidationPrice).toBeCloseTo(900 / 0.0199, 4)
+            expect(useWalletStore.getState().balance).toBeCloseTo(399, 6) // margin + 1.00 fee
+        })
+
+        it('should reject leverage above the maximum', () => {
+            const { openMarginPosition } = useWalletStore.getState()
+
+            expect(openMarginPosition('BTCUSDT', 'long', 100, 50, 50000).success).toBe(false)
+        })
+
+        it('should close a profitable short', () => {
+            const { openMarginPosition, closeMarginPosition } = useWalletStore.getState()
+
+            const { positionId } = openMarginPosition('BTCUSDT', 'short', 100, 5, 50000)
+            const result = closeMarginPosition(positionId!, 45000)
+
+            // +$50 price move, 0.45 closing fee
+            expect(result.pnl).toBeCloseTo(49.55, 4)
+            expect(useWalletStore.getState().marginPositions).toHaveLength(0)
+            expect(useWalletStore.getState().transactions[0].type).toBe('margin-close')
+        })
+
+        it('should accrue borrow interest against the margin', () => {
+            const { openMarginPosition, updateMarginPositions } = useWalletStore.getState()
+
+            openMarginPosition('BTCUSDT', 'long', 100, 10, 50000)
+            vi.setSystemTime(Date.now() + 10 * 60 * 60 * 1000)
+            updateMarginPositions({ BTCUSDT: 50000 })
+
+            // $900 borrowed at 0.01% per hour for 10 hours
+            const [position] = useWalletStore.getState().marginPositions
+            expect(position.accruedInterest).toBeCloseTo(0.9, 4)
+            expect(position.margin).toBeCloseTo(99.1, 4)
+        })
+
+        it('should accrue interest on the whole base borrowed for a short', () => {
+            const { openMarginPosition, updateMarginPositions } = useWalletStore.getState()
+
+            openMarginPosition('BTCUSDT', 'short', 100, 1, 50000)
+            vi.setSystemTime(Date.now() + 10 * 60 * 60 * 1000)
+            updateMarginPositions({ BTCUSDT: 50000 })
+
+            // 0.002 BTC ($100) borrowed at 0.01% per hour for 10 hours
+            const [position] = useWalletStore.getState().marginPositions
+            expect(position.accruedInterest).toBeCloseTo(0.1, 4)
+        })
+
+        it('should charge no interest when the clock goes back', () => {
+            const { openMarginPosition, updateMarginPositions } = useWalletStore.getState()
+
+            openMarginPosition('BTCUSDT', 'long', 100, 10, 50000)
+            const openedAt = useWalletStore.getState().marginPositions[0].lastAccrualAt!
+            vi.setSystemTime(Date.now() - 10 * 60 * 60 * 1000)
+            updateMarginPositions({ BTCUSDT: 50000 })
+
+            const [position] = useWalletStore.getState().marginPositions
+            expect(position.accruedInterest).toBe(0)
+            expect(position.margin).toBe(100)
+            expect(position.lastAccrualAt).toEqual(openedAt)
+        })
+
+        it('should liquidate when the mark price hits the liquidation price', () => {
+            const { openMarginPosition, updateMarginPositions } = useWalletStore.getState()
+
+            openMarginPosition('BTCUSDT', 'long', 100, 10, 50000)
+            updateMarginPositions({ BTCUSDT: 45000 })
+
+            const state = useWalletStore.getState()
+            expect(state.marginPositions).toHaveLength(0)
+            expect(state.transactions[0].type).toBe('liquidation')
+            expect(state.balance).toBeCloseTo(399, 6)
+        })
+    })
+
+    describe('Fee Schedule', () => {
+        const today = new Date().toISOString().slice(0, 10)
+
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+        })
+
+        afterEach(() => {
+            useWalletStore.setState({ userTier: 'free', payFeesInBnb: false, lastPrices: {} })
+            vi.restoreAllMocks()
+        })
+
+        it('should record the taker rate on market fills', () => {
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            const trade = useWalletStore.getState().trades[0]
+            expect(trade.isMaker).toBe(false)
+            expect(trade.feeRate).toBeCloseTo(0.1, 10)
+            expect(trade.fee).toBeCloseTo(0.1, 10)
+            expect(useWalletStore.getState().transactions[0].feeRate).toBeCloseTo(0.1, 10)
+        })
+
+        it('should charge resting limit orders the maker rate of the volume tier', () => {
+            mockNeutralRandom()
+            useWalletStore.setState({ volumeHistory: { [today]: 20_000 } })
+
+            const { orderId } = useWalletStore.getState().placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000)
+            useWalletStore.getState().checkAndExecuteOrders({ BTCUSDT: 44000 })
+
+            const trade = useWalletStore.getState().trades[0]
+            expect(trade.orderId).toBe(orderId)
+            expect(trade.isMaker).toBe(true)
+            expect(trade.feeRate).toBeCloseTo(0.09, 10)
+            expect(useWalletStore.getState().getTradingFee(false).ratePercent).toBeCloseTo(0.1, 10)
+        })
+
+        it('should apply the subscription tier discount', () => {
+            useWalletStore.setState({ userTier: 'pro' })
+
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            expect(useWalletStore.getState().trades[0].feeRate).toBeCloseTo(0.09, 10)
+            expect(useWalletStore.getState().balance).toBeCloseTo(500 - 100 - 0.09, 10)
+        })
+
+        it('should count traded volume towards the next tier', () => {
+            useWalletStore.getState().deposit(20_000)
+            useWalletStore.getState().buy('BTCUSDT', 10_000, 50000)
+
+            expect(useWalletStore.getState().getTradingFee(true).tier).toBe('VIP 1')
+        })
+
+        it('should take discounted fees from BNB holdings', () => {
+            const { buy, setPayFeesInBnb } = useWalletStore.getState()
+            buy('BNBUSDT', 100, 500)
+            setPayFeesInBnb(true)
+
+            const balanceBefore = useWalletStore.getState().balance
+            const bnbBefore = useWalletStore.getState().getPosition('BNBUSDT')!.quantity
+            buy('BTCUSDT', 100, 50000)
+
+            const trade = useWalletStore.getState().trades[0]
+            expect(trade.feeAsset).toBe('BNB')
+            expect(trade.feeRate).toBeCloseTo(0.075, 10)
+            expect(trade.fee).toBeCloseTo(0.075 / 500, 10)
+            expect(useWalletStore.getState().balance).toBeCloseTo(balanceBefore - 100, 10)
+            expect(useWalletStore.getState().getPosition('BNBUSDT')!.quantity).toBeCloseTo(bnbBefore - 0.075 / 500, 10)
+        })
+
+        it('should fall back to USDT without enough BNB', () => {
+            useWalletStore.getState().setPayFeesInBnb(true)
+            useWalletStore.setState({ lastPrices: { BNBUSDT: 500 } })
+
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            const trade = useWalletStore.getState().trades[0]
+            expect(trade.feeAsset).toBe('USDT')
+            expect(trade.feeRate).toBeCloseTo(0.1, 10)
         })
     })
 
@@ -234,7 +874,7 @@ describe('WalletStore', () => {
             useWalletStore.getState().setSlippage(true, 0.5) // 0.5% max slippage
 
             const { buy } = useWalletStore.getState()
-            const result = buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            const result = buy('BTCUSDT', 100, 50000)
 
             // Executed price should be different (higher for buy)
             expect(result.executedPrice).toBeGreaterThanOrEqual(50000)
@@ -244,20 +884,414 @@ describe('WalletStore', () => {
             useWalletStore.getState().setSlippage(false)
 
             const { buy } = useWalletStore.getState()
-            const result = buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            const result = buy('BTCUSDT', 100, 50000)
 
             expect(result.executedPrice).toBe(50000)
         })
+
+        describe('Models', () => {
+            beforeEach(() => {
+                useWalletStore.getState().setSlippage(true, 0.1)
+            })
+
+            afterEach(() => {
+                useWalletStore.setState({ slippageModel: 'sqrt-impact', marketConditions: {} })
+                vi.restoreAllMocks()
+            })
+
+            it('should apply a fixed slippage', () => {
+                useWalletStore.getState().setSlippageModel('fixed')
+
+                const result = useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+                expect(result.executedPrice).toBeCloseTo(50050, 6)
+            })
+
+            it('should scale market impact with order size against 24h volume', () => {
+                const { setSlippageModel, updateMarketConditions, deposit } = useWalletStore.getState()
+                setSlippageModel('sqrt-impact')
+                updateMarketConditions([{ symbol: 'BTCUSDT', quoteVolume24h: 1e9, high24h: 51000, low24h: 49000 }])
+                deposit(200_000)
+
+                const small = useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+                const large = useWalletStore.getState().buy('BTCUSDT', 100_000, 50000)
+
+                // 4% daily range * sqrt(size / volume)
+                expect(small.executedPrice).toBeCloseTo(50000 * (1 + 0.04 * Math.sqrt(100 / 1e9)), 6)
+                expect(large.executedPrice).toBeCloseTo(50000 * (1 + 0.04 * Math.sqrt(100_000 / 1e9)), 6)
+            })
+
+            it('should walk the simulated book for large orders', () => {
+                mockNeutralRandom()
+                useWalletStore.getState().setSlippageModel('depth-walk')
+
+                const small = useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+                const large = useWalletStore.getState().buy('BTCUSDT', 300, 50000)
+
+                expect(small.executedPrice).toBeCloseTo(50000, 6)
+                expect(large.executedPrice).toBeGreaterThan(50000)
+            })
+        })
+    })
+
+    describe('Portfolios', () => {
+        const initial = useWalletStore.getState()
+
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+        })
+
+        afterEach(() => {
+            useWalletStore.setState({
+                portfolios: initial.portfolios,
+                activePortfolioId: initial.activePortfolioId,
+                storedPortfolios: {},
+            })
+        })
+
+        it('should keep balances and holdings separate per portfolio', () => {
+            const { createPortfolio, switchPortfolio, buy } = useWalletStore.getState()
+            buy('BTCUSDT', 100, 50000)
+
+            const { portfolioId } = createPortfolio('Scalping')
+            expect(switchPortfolio(portfolioId!).success).toBe(true)
+
+            let state = useWalletStore.getState()
+            expect(state.balance).toBe(500)
+            expect(state.getPosition('BTCUSDT')).toBeUndefined()
+
+            state.buy('ETHUSDT', 50, 3000)
+            switchPortfolio(initial.activePortfolioId)
+
+            state = useWalletStore.getState()
+            expect(state.balance).toBeCloseTo(500 - 100.1, 10)
+            expect(state.getPosition('BTCUSDT')).toBeDefined()
+            expect(state.getPosition('ETHUSDT')).toBeUndefined()
+        })
+
+        it('should clone a portfolio with its settings', () => {
+            const { buy, setCostBasisMethod, clonePortfolio, switchPortfolio } = useWalletStore.getState()
+            buy('BTCUSDT', 100, 50000)
+            setCostBasisMethod('lifo')
+
+            const { portfolioId } = clonePortfolio(initial.activePortfolioId, 'Copy')
+            setCostBasisMethod('fifo')
+            switchPortfolio(portfolioId!)
+
+            const state = useWalletStore.getState()
+            expect(state.costBasisMethod).toBe('lifo')
+            expect(state.getPosition('BTCUSDT')?.quantity).toBeCloseTo(100 / 50000, 10)
+
+            switchPortfolio(initial.activePortfolioId)
+            expect(useWalletStore.getState().costBasisMethod).toBe('fifo')
+        })
+
+        it('should not park a portfolio with open orders or margin positions', () => {
+            const { createPortfolio, clonePortfolio, switchPortfolio, placeLimitOrder, cancelOrder, openMarginPosition, closeMarginPosition } = useWalletStore.getState()
+            const { portfolioId } = createPortfolio('Parked')
+
+            const { orderId } = placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000)
+            expect(switchPortfolio(portfolioId!).success).toBe(false)
+            expect(clonePortfolio(initial.activePortfolioId, 'Copy').success).toBe(false)
+            cancelOrder(orderId!)
+
+            const { positionId } = openMarginPosition('BTCUSDT', 'long', 50, 2, 50000)
+            expect(switchPortfolio(portfolioId!).success).toBe(false)
+            closeMarginPosition(positionId!, 50000)
+
+            expect(switchPortfolio(portfolioId!).success).toBe(true)
+            switchPortfolio(initial.activePortfolioId)
+        })
+
+        it('should validate names and not archive the active portfolio', () => {
+            const { createPortfolio, renamePortfolio, archivePortfolio, switchPortfolio } = useWalletStore.getState()
+            const { portfolioId } = createPortfolio('DCA test')
+
+            expect(createPortfolio('  ').success).toBe(false)
+            expect(createPortfolio('dca TEST').success).toBe(false)
+            expect(renamePortfolio(portfolioId!, 'Class demo').success).toBe(true)
+            expect(archivePortfolio(initial.activePortfolioId).success).toBe(false)
+
+            expect(archivePortfolio(portfolioId!).success).toBe(true)
+            expect(switchPortfolio(portfolioId!).success).toBe(false)
+            expect(useWalletStore.getState().portfolios.find(p => p.id === portfolioId)).toMatchObject({
+                name: 'Class demo',
+                archived: true,
+            })
+        })
+
+        it('should compare metrics across portfolios', () => {
+            const { buy, createPortfolio, getPortfolioComparison } = useWalletStore.getState()
+            buy('BTCUSDT', 100, 50000)
+            createPortfolio('Idle')
+
+            const comparison = getPortfolioComparison({ BTCUSDT: 55000 })
+
+            expect(comparison).toHaveLength(2)
+            expect(comparison[0].metrics.unrealizedPnl).toBeCloseTo(10, 6)
+            expect(comparison[0].trades).toBe(1)
+            expect(comparison[1].metrics.totalValue).toBe(500)
+            expect(comparison[1].metrics.profitLoss).toBe(0)
+        })
+
+        it('should merge imported portfolios under free names', () => {
+            const { buy, importPortfolios } = useWalletStore.getState()
+            buy('BTCUSDT', 100, 50000)
+            const exported = JSON.parse(JSON.stringify(useWalletStore.getState()), reviveDates)
+
+            const result = importPortfolios(exported, 'merge')
+
+            const state = useWalletStore.getState()
+            expect(result.success).toBe(true)
+            expect(state.portfolios.map(p => p.name)).toEqual(['Main', 'Main (2)'])
+            expect(state.storedPortfolios[result.portfolioIds![0]].trades).toHaveLength(1)
+            expect(state.activePortfolioId).toBe(initial.activePortfolioId)
+        })
+
+        it('should replace all portfolios on import', () => {
+            const { buy, importPortfolios } = useWalletStore.getState()
+            const exported = JSON.parse(JSON.stringify(useWalletStore.getState()), reviveDates)
+            buy('BTCUSDT', 100, 50000)
+
+            expect(importPortfolios({ ...exported, balance: 1234 }, 'replace').success).toBe(true)
+
+            const state = useWalletStore.getState()
+            expect(state.portfolios).toHaveLength(1)
+            expect(state.balance).toBe(1234)
+            expect(state.trades).toHaveLength(0)
+        })
+    })
+
+    describe('Ledger', () => {
+        const ledgerWrites = () => vi.mocked(appendToLedger).mock.calls.map(([entries]) => entries)
+
+        beforeEach(() => {
+            vi.mocked(appendToLedger).mockClear()
+        })
+
+        it('should record new transactions and order state changes', () => {
+            const { buy, placeLimitOrder, cancelOrder, activePortfolioId } = useWalletStore.getState()
+
+            const { orderId } = placeLimitOrder('buy', 'BTCUSDT', 100 / 45000, 45000)
+            cancelOrder(orderId!)
+            buy('BTCUSDT', 100, 50000)
+
+            const orderEvents = ledgerWrites().flatMap(e => e.orderEvents ?? [])
+            const transactions = ledgerWrites().flatMap(e => e.transactions ?? [])
+
+            expect(orderEvents.filter(e => e.orderId === orderId).map(e => e.status)).toEqual(['open', 'cancelled'])
+            expect(transactions).toHaveLength(1)
+            expect(transactions[0]).toMatchObject({ type: 'buy', symbol: 'BTCUSDT', portfolioId: activePortfolioId })
+        })
+
+        it('should not record history again when switching portfolios', () => {
+            const { createPortfolio, switchPortfolio, activePortfolioId } = useWalletStore.getState()
+            const { portfolioId } = createPortfolio('Ledger test')
+            vi.mocked(appendToLedger).mockClear()
+
+            switchPortfolio(portfolioId!)
+            switchPortfolio(activePortfolioId)
+
+            expect(appendToLedger).not.toHaveBeenCalled()
+            useWalletStore.setState({
+                portfolios: useWalletStore.getState().portfolios.filter(p => p.id !== portfolioId),
+                storedPortfolios: {},
+            })
+        })
+
+        it('should keep only the imported history after a replacing import', async () => {
+            const ledger = await vi.importActual<typeof import('@/services/ledger')>('@/services/ledger')
+            const { buy, importPortfolios, activePortfolioId } = useWalletStore.getState()
+            const exported = JSON.parse(JSON.stringify(useWalletStore.getState()), reviveDates)
+            buy('BTCUSDT', 100, 50000)
+            await ledger.appendToLedger({
+                transactions: useWalletStore.getState().transactions.map(t => ({ ...t, portfolioId: activePortfolioId })),
+            })
+
+            importPortfolios(exported, 'replace')
+
+            const history = await ledger.getTransactionHistory(activePortfolioId)
+            expect(history.map(t => t.id)).toEqual(exported.transactions.map((t: { id: string }) => t.id))
+        })
+    })
+
+    describe('Seeded Sessions', () => {
+        afterEach(() => {
+            useWalletStore.setState({ slippageModel: 'sqrt-impact' })
+        })
+
+        const runSession = (seed: number, between: () => void = () => {}) => {
+            const { resetWallet, setSlippage, setSlippageModel } = useWalletStore.getState()
+            resetWallet(seed)
+            setSlippage(true, 0.5)
+            setSlippageModel('volatility')
+
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+            between()
+            useWalletStore.getState().buy('ETHUSDT', 50, 3000)
+
+            const { session, trades } = useWalletStore.getState()
+            return { session, trades: trades.map(t => ({ id: t.id, price: t.price })) }
+        }
+
+        it('should replay identical fills from the same seed with fresh ids', () => {
+            const first = runSession(42)
+            const second = runSession(42)
+
+            expect(second.session.seed).toBe(42)
+            expect(second.trades.map(t => t.price)).toEqual(first.trades.map(t => t.price))
+
+            // Saved records keep their ids, so a replayed session must not reuse them
+            expect(second.session.id).not.toBe(first.session.id)
+            expect(second.trades.map(t => t.id)).not.toContain(first.trades[0].id)
+        })
+
+        it('should replay identical fills whatever the display draws in between', () => {
+            const first = runSession(42)
+            const second = runSession(42, () => {
+                for (let i = 0; i < 10; i++) uiRandom()
+            })
+
+            expect(second.trades.map(t => t.price)).toEqual(first.trades.map(t => t.price))
+        })
+
+        it('should diverge with a different seed', () => {
+            const first = runSession(42)
+            const other = runSession(7)
+
+            expect(other.trades[0].price).not.toBe(first.trades[0].price)
+        })
+    })
+
+    describe('Persistence', () => {
+        afterEach(() => {
+            localStorage.removeItem('quantix-wallet')
+            usePersistenceNotices.setState({ notices: [] })
+        })
+
+        it('should revive dates and migrate legacy holdings', async () => {
+            localStorage.setItem('quantix-wallet', JSON.stringify({
+                version: 0,
+                state: {
+                    balance: 250,
+                    holdings: { BTCUSDT: { symbol: 'BTCUSDT', amount: 0.01, avgBuyPrice: 50000 } },
+                    pendingOrders: [{
+                        id: 'legacy-1', type: 'limit', side: 'buy', symbol: 'ETHUSDT',
+                        amount: 100, targetPrice: 2000, createdAt: new Date(), status: 'pending',
+                    }],
+                    transactions: [{ id: 'tx-1', type: 'deposit', symbol: 'USD', timestamp: new Date() }],
+                },
+            }))
+
+            await useWalletStore.persist.rehydrate()
+
+            const state = useWalletStore.getState()
+            expect(state.balance).toBe(250)
+            expect(state.positions['BTCUSDT'].quantity).toBe(0.01)
+            expect(state.lots['BTCUSDT'][0].price).toBe(50000)
+            expect(state.orders[0]).toMatchObject({ id: 'legacy-1', type: 'limit', quantity: 0.05, price: 2000 })
+            expect(state.transactions[0].timestamp).toBeInstanceOf(Date)
+            expect(usePersistenceNotices.getState().notices).toHaveLength(0)
+        })
+
+        it('should reset unreadable fields and keep the rest', async () => {
+            localStorage.setItem('quantix-wallet', JSON.stringify({
+                version: 1,
+                state: { balance: 'lots', realizedPnl: 42 },
+            }))
+
+            await useWalletStore.persist.rehydrate()
+
+            const state = useWalletStore.getState()
+            expect(state.balance).toBe(500)
+            expect(state.realizedPnl).toBe(42)
+            expect(usePersistenceNotices.getState().notices[0].severity).toBe('warning')
+        })
+
+        it('should move inline journal snapshots into the ledger', async () => {
+            const image = 'data:image/jpeg;base64,AA=='
+            const entry = { id: 'entry-1', transactionId: 'tx-1', note: 'Note', tags: [], createdAt: new Date(), updatedAt: new Date() }
+            localStorage.setItem('quantix-wallet', JSON.stringify({
+                version: 1,
+                state: {
+                    journalEntries: [{ ...entry, snapshot: image }],
+                    storedPortfolios: { other: { ...createPortfolioData(), journalEntries: [{ ...entry, id: 'entry-2', snapshot: image }] } },
+                },
+            }))
+
+            await useWalletStore.persist.rehydrate()
+
+            const [moved] = useWalletStore.getState().journalEntries
+            const stored = useWalletStore.getState().storedPortfolios.other.journalEntries[0]
+            expect(moved).not.toHaveProperty('snapshot')
+            expect(stored).not.toHaveProperty('snapshot')
+            expect(await getSnapshot(moved.snapshotId!)).toBe(image)
+            expect(await getSnapshot(stored.snapshotId!)).toBe(image)
+            expect(localStorage.getItem('quantix-wallet')).not.toContain(image)
+            useWalletStore.setState({ storedPortfolios: {} })
+        })
+
+        it('should keep working with a notice when storage is full', () => {
+            const setItem = vi.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+                throw new DOMException('Quota exceeded', 'QuotaExceededError')
+            })
+            vi.spyOn(console, 'error').mockImplementation(() => {})
+
+            useWalletStore.getState().setSlippage(false)
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            expect(useWalletStore.getState().positions['BTCUSDT']).toBeDefined()
+            expect(usePersistenceNotices.getState().notices).toEqual([
+                expect.objectContaining({ id: 'quantix-wallet', severity: 'danger' }),
+            ])
+            setItem.mockRestore()
+            vi.mocked(console.error).mockRestore()
+        })
+
+        it('should reset a corrupted payload with a notice', async () => {
+            localStorage.setItem('quantix-wallet', '{"state": {"balance": 12')
+
+            await useWalletStore.persist.rehydrate()
+
+            expect(useWalletStore.getState().balance).toBe(500)
+            expect(localStorage.getItem('quantix-wallet')).toBeNull()
+            expect(usePersistenceNotices.getState().notices[0]).toMatchObject({
+                id: 'quantix-wallet',
+                severity: 'danger',
+            })
+        })
+
+        it('should leave data from a newer version untouched and save nothing', async () => {
+            const saved = JSON.stringify({ version: 99, state: { balance: 12345 } })
+            localStorage.setItem('quantix-wallet', saved)
+            vi.mocked(appendToLedger).mockClear()
+
+            await useWalletStore.persist.rehydrate()
+            useWalletStore.getState().setSlippage(false)
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+
+            expect(useWalletStore.getState().positions['BTCUSDT']).toBeDefined()
+            expect(localStorage.getItem('quantix-wallet')).toBe(saved)
+            expect(appendToLedger).not.toHaveBeenCalled()
+            expect(usePersistenceNotices.getState().notices[0]).toMatchObject({
+                id: 'quantix-wallet',
+                severity: 'danger',
+            })
+
+            // Saving resumes once the newer data is gone
+            localStorage.removeItem('quantix-wallet')
+            await useWalletStore.persist.rehydrate()
+        })
     })
 
     describe('Trading Journal', () => {
         beforeEach(() => {
             useWalletStore.getState().setSlippage(false)
-            useWalletStore.getState().buy('BTCUSDT', 'Bitcoin', 'BTC', 100, 50000, '#F7931A')
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
         })
 
         it('should add journal note to transaction', () => {
-            const { addJournalNote, transactions, journalEntries } = useWalletStore.getState()
+            const { addJournalNote, transactions } = useWalletStore.getState()
             const txId = transactions[0].id
 
             addJournalNote(txId, 'Test trade note', ['bitcoin', 'test'])
@@ -275,5 +1309,159 @@ describe('WalletStore', () => {
             expect(journal?.note).toBe('My trade analysis')
             expect(journal?.tags).toContain('analysis')
         })
+
+        it('should update details and delete journal entries', () => {
+            const { addJournalNote, transactions } = useWalletStore.getState()
+            addJournalNote(transactions[0].id, 'Note', [], { snapshotId: 'snapshot-1' })
+            const entry = useWalletStore.getState().journalEntries[0]
+            vi.mocked(deleteSnapshot).mockClear()
+
+            useWalletStore.getState().updateJournalNote(entry.id, 'Edited', undefined, { riskAmount: 10 })
+            const updated = useWalletStore.getState().journalEntries[0]
+            expect(updated.riskAmount).toBe(10)
+            expect(updated.snapshotId).toBe('snapshot-1')
+            expect(deleteSnapshot).not.toHaveBeenCalled()
+
+            useWalletStore.getState().updateJournalNote(entry.id, 'Edited', undefined, { snapshotId: 'snapshot-2' })
+            expect(deleteSnapshot).toHaveBeenCalledWith('snapshot-1')
+
+            useWalletStore.getState().deleteJournalNote(entry.id)
+            expect(useWalletStore.getState().journalEntries).toHaveLength(0)
+            expect(deleteSnapshot).toHaveBeenCalledWith('snapshot-2')
+        })
+    })
+
+    describe('Exchange Filters', () => {
+        beforeEach(() => {
+            useWalletStore.getState().setSlippage(false)
+        })
+
+        it('should reject orders below the minimum value or off the price tick', () => {
+            const { buy, placeLimitOrder } = useWalletStore.getState()
+
+            expect(buy('BTCUSDT', 2, 50000)).toMatchObject({ success: false, error: 'Minimum order value is 5 USDT' })
+            expect(placeLimitOrder('buy', 'BTCUSDT', 0.001, 45000.005).error).toBe('Prices must be a multiple of 0.01')
+            expect(placeLimitOrder('buy', 'BTCUSDT', 0.001, 45000.01).success).toBe(true)
+        })
+    })
+
+    describe('Replay Time', () => {
+        const start = Date.UTC(2021, 4, 19)
+        const klines = [45000, 44000, 43000, 42000].map((close, i) => ({
+            time: (start + i * 60_000) / 1000,
+            open: close + 500,
+            high: close + 600,
+            low: close - 100,
+            close,
+            volume: 10,
+            closeTime: start + (i + 1) * 60_000 - 1,
+            quoteVolume: 10 * close,
+            trades: 100,
+            isFinal: true,
+        }))
+
+        it('should run orders on replay time', async () => {
+            const replay = new ReplayMarketData({ load: async () => ({ symbols: { BTCUSDT: { klines } } }), autoplay: false })
+            setMarketClock(() => replay.now())
+
+            try {
+                await replay.fetchTicker('BTCUSDT')
+                const { placeLimitOrder, checkAndExecuteOrders } = useWalletStore.getState()
+                placeLimitOrder('buy', 'BTCUSDT', 100 / 40000, 40000, {
+                    timeInForce: 'GTD',
+                    expiresAt: new Date(start + 150_000),
+                })
+                expect(useWalletStore.getState().orders[0].createdAt.getTime()).toBe(start)
+
+                replay.step()
+                replay.step()
+
+                checkAndExecuteOrders({ BTCUSDT: 44000 })
+                expect(useWalletStore.getState().orders[0].status).toBe('open')
+
+                replay.step()
+                checkAndExecuteOrders({ BTCUSDT: 43000 })
+                expect(useWalletStore.getState().getOrderHistory()[0].status).toBe('expired')
+            } finally {
+                setMarketClock(null)
+                replay.disconnect()
+            }
+        })
+
+        it('should trade a replay on a throwaway portfolio', async () => {
+            useWalletStore.getState().setSlippage(false)
+            useWalletStore.getState().buy('BTCUSDT', 100, 50000)
+            useWalletStore.getState().openMarginPosition('BTCUSDT', 'long', 100, 2, 50000)
+            const live = useWalletStore.getState()
+            vi.mocked(appendToLedger).mockClear()
+
+            const replay = new ReplayMarketData({ load: async () => ({ symbols: { BTCUSDT: { klines } } }), autoplay: false })
+            setMarketClock(() => replay.now())
+            useReplayStore.getState().attach(replay)
+
+            try {
+                await replay.fetchTicker('BTCUSDT')
+                const state = useWalletStore.getState()
+                expect(state).toMatchObject({ balance: 500, positions: {}, marginPositions: [], slippageEnabled: false })
+                expect(state.transactions.map(t => t.timestamp.getTime())).toEqual([start])
+
+                state.buy('BTCUSDT', 100, 45000)
+                expect(useWalletStore.getState().trades[0].timestamp.getTime()).toBe(start)
+                expect(state.clonePortfolio(live.activePortfolioId, 'Copy').success).toBe(false)
+
+                // Saved and exported wallets hold the real portfolio
+                const { partialize } = useWalletStore.persist.getOptions()
+                expect((partialize!(useWalletStore.getState()) as { balance: number }).balance).toBe(live.balance)
+            } finally {
+                useReplayStore.getState().detach()
+                setMarketClock(null)
+                replay.disconnect()
+            }
+
+            const state = useWalletStore.getState()
+            expect(state.balance).toBe(live.balance)
+            expect(state.marginPositions).toBe(live.marginPositions)
+            expect(state.transactions).toBe(live.transactions)
+            expect(state.replayBackup).toBeNull()
+            expect(appendToLedger).not.toHaveBeenCalled()
+        })
+
+        it('should keep a replay run as a portfolio on request', async () => {
+            useWalletStore.getState().setSlippage(false)
+            const replay = new ReplayMarketData({ load: async () => ({ symbols: { BTCUSDT: { klines } } }), autoplay: false })
+            setMarketClock(() => replay.now())
+            useReplayStore.getState().attach(replay)
+            let portfolioId: string | undefined
+
+            try {
+                await replay.fetchTicker('BTCUSDT')
+                useWalletStore.getState().buy('BTCUSDT', 100, 45000)
+                vi.mocked(appendToLedger).mockClear()
+
+                const result = useWalletStore.getState().saveReplayPortfolio('Replay run')
+                portfolioId = result.portfolioId
+
+                expect(result.success).toBe(true)
+                expect(useWalletStore.getState().saveReplayPortfolio('Replay run').success).toBe(false)
+                expect(useWalletStore.getState().trades).toHaveLength(1)
+                expect(vi.mocked(appendToLedger).mock.calls[0][0].transactions).toEqual(
+                    useWalletStore.getState().transactions.map(t => ({ ...t, portfolioId }))
+                )
+            } finally {
+                useReplayStore.getState().detach()
+                setMarketClock(null)
+                replay.disconnect()
+            }
+
+            const state = useWalletStore.getState()
+            expect(state.portfolios.map(p => p.name)).toContain('Replay run')
+            expect(state.storedPortfolios[portfolioId!].trades[0].timestamp.getTime()).toBe(start)
+            expect(state.saveReplayPortfolio('Later').success).toBe(false)
+
+            useWalletStore.setState({
+                portfolios: state.portfolios.filter(p => p.id !== portfolioId),
+                storedPortfolios: {},
+            })
+        })
     })
 })
@@ -1,51 +1,95 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
 import { generateId } from '@/lib/utils'
+import { marketDate, marketNow } from '@/lib/clock'
+import { rng, createSeed } from '@/lib/random'
+import { Migrations, createPersistOptions, isReadOnly } from '@/lib/persistence'
+import { generateDepthSnapshot, matchOrder, MatchResult } from '@/lib/matchingEngine'
+import {
+    MAX_LEVERAGE,
+    calculateBorrowInterest,
+    calculateLiquidationPrice,
+    isLiquidatable,
+} from '@/lib/margin'
+import { consumeLots, getAverageCost, getLotsQuantity } from '@/lib/lotAccounting'
+import {
+    PortfolioSnapshot,
+    ChangePeriod,
+    ValueChange,
+    appendSnapshot,
+    calculateValueChange,
+} from '@/lib/portfolioHistory'
+import {
+    FeeQuote,
+    VolumeHistory,
+    MAX_FEE_PERCENT,
+    addVolume,
+    get30dVolume,
+    getFeeQuote,
+} from '@/lib/feeSchedule'
+import { MarketConditions, SlippageModelId, applySlippage } from '@/lib/slippageModels'
+import {
+    LedgerOrderEvent,
+    LedgerTransaction,
+    appendToLedger,
+    deleteSnapshot,
+    replacePortfolioHistory,
+    saveSnapshot,
+    toOrderEvent,
+} from '@/services/ledger'
+import { useAssetStore } from '@/stores/assetStore'
+import { useReplayStore } from '@/stores/replayStore'
+import {
+    Order,
+    OrderGroup,
+    OrderSide,
+    OrderStatus,
+    OrderType,
+    TimeInForce,
+    TrailingOffsetType,
+    Trade,
+    Position,
+    Balance,
+    WalletBalance,
+    Lot,
+    CostBasisMethod,
+    Portfolio,
+    PortfolioAsset,
+    calculatePnL,
+    createMarketOrder,
+    createLimitOrder,
+    createStopLossOrder,
+    createTakeProfitOrder,
+    createStopLimitOrder,
+    createTrailingStopOrder,
+    calculateTrailingStopPrice,
+    validateOrderFilters,
+} from '@/entities'
 
 // ============================================
 // TYPES & INTERFACES
 // ============================================
 
-export interface Holding {
-    symbol: string
-    name: string
-    shortName: string
-    amount: number
-    avgBuyPrice: number
-    color: string
-}
-
-// Order types for realistic trading simulation
-export type OrderType = 'market' | 'limit' | 'stop-loss' | 'take-profit'
-export type OrderSide = 'buy' | 'sell'
-export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'expired'
-
-export interface PendingOrder {
-    id: string
-    type: OrderType
-    side: OrderSide
-    symbol: string
-    name: string
-    shortName: string
-    amount: number          // USD amount for buy, crypto amount for sell
-    targetPrice: number     // Price at which order triggers
-    createdAt: Date
-    expiresAt?: Date
-    status: OrderStatus
-    color: string
-}
-
-// Extended transaction with order info
+// Account activity feed: cash movements plus one entry per trade
 export interface Transaction {
     id: string
-    type: 'buy' | 'sell' | 'deposit' | 'bonus'
+    type: 'buy' | 'sell' | 'deposit' | 'bonus' | 'margin-open' | 'margin-close' | 'liquidation'
     orderType?: OrderType
+    positionId?: string     // Margin position this entry belongs to
+    positionSide?: 'long' | 'short'
+    interest?: number       // Borrow interest paid over the position's life
+    realizedPnl?: number    // Sells, margin closes and liquidations, before fees
+    orderId?: string        // Order this fill belongs to
+    tradeId?: string        // Trade record of this fill
     symbol: string
     name: string
     amount: number
     price: number
     total: number
-    fee: number
+    fee: number             // USD value, whichever asset paid it
+    feeAsset?: 'USDT' | 'BNB'
+    feeAmount?: number      // In the fee asset; BNB paid is a disposal of BNB
+    feeRate?: number        // Percent of total charged as fee
     slippage?: number       // Simulated slippage amount
     timestamp: Date
     note?: string           // Trading journal entry
@@ -54,82 +98,258 @@ export interface Transaction {
 export interface PortfolioMetrics {
     totalValue: number
     totalCost: number
-    profitLoss: number
+    realizedPnl: number     // Closed trades, before fees
+    unrealizedPnl: number   // Open spot and margin positions
+    totalFees: number
+    profitLoss: number      // realized + unrealized - fees
     profitLossPercent: number
     dayChange: number
     dayChangePercent: number
 }
 
+// One run of the simulator: fills follow from the seed; ids stay unique
+export interface SimulationSession {
+    id: string
+    seed: number
+    startedAt: Date
+    randomState?: number    // Position in the fill random sequence, saved with the wallet
+}
+
+// A named paper-trading account; its data is kept apart from the others
+export interface PortfolioInfo {
+    id: string
+    name: string
+    archived: boolean
+    createdAt: Date
+}
+
+export interface PortfolioComparison {
+    portfolio: PortfolioInfo
+    metrics: PortfolioMetrics
+    trades: number
+    openPositions: number
+}
+
 // Trading journal entry
 export interface JournalEntry {
     id: string
     transactionId: string
     note: string
     tags: string[]
+    riskAmount?: number     // USD the trade planned to risk, for R multiples
+    snapshotId?: string     // Key of the chart image in the ledger
     createdAt: Date
     updatedAt: Date
 }
 
+export type JournalDetails = Pick<JournalEntry, 'riskAmount' | 'snapshotId'>
+
+type OrderResult = { success: boolean; orderId?: string; groupId?: string; error?: string }
+
+type MarginResult = { success: boolean; positionId?: string; pnl?: number; error?: string }
+
+type PortfolioResult = { success: boolean; portfolioId?: string; error?: string }
+
+type ImportResult = { success: boolean; portfolioIds?: string[]; error?: string }
+
+export interface LimitOrderOptions {
+    timeInForce?: TimeInForce   // Defaults to GTC
+    expiresAt?: Date            // Required for GTD
+    currentPrice?: number       // Required for IOC / FOK, which match once at placement
+}
+
 interface WalletState {
-    // Virtual USD balance
+    session: SimulationSession
+
+    // Portfolios. The active one's data is the top-level state below,
+    // the others are parked in storedPortfolios until switched to.
+    portfolios: PortfolioInfo[]
+    activePortfolioId: string
+    storedPortfolios: Record<string, PortfolioData>
+
+    // The active portfolio's own data while a replay trades on a fresh one in its place (not persisted)
+    replayBackup: PortfolioData | null
+
+    // Virtual USD balance, including funds locked in open orders
     balance: number
     initialDeposit: number
 
-    // Holdings (crypto positions)
-    holdings: Record<string, Holding>
+    // Open positions, derived from trades
+    positions: Record<string, Position>
+
+    // Unsold buy lots per symbol and how sells consume them
+    lots: Record<string, Lot[]>
+    costBasisMethod: CostBasisMethod
+
+    // Running totals that survive the trade history cap
+    realizedPnl: number
+    feesPaid: number
+
+    // Account value over time, kept apart from the capped transaction list
+    valueSnapshots: PortfolioSnapshot[]
+
+    // Orders (market, limit, stop-loss, take-profit, stop-limit, trailing-stop) and their fills
+    orders: Order[]
+    trades: Trade[]
+
+    // OCO pairs and brackets linking the orders above
+    orderGroups: OrderGroup[]
+
+    // Isolated-margin positions, each backed by its own collateral
+    marginPositions: Position[]
 
     // Transaction history
     transactions: Transaction[]
 
-    // Pending orders (limit, stop-loss, take-profit)
-    pendingOrders: PendingOrder[]
-
     // Trading journal
     journalEntries: JournalEntry[]
 
-    // User tier affects daily bonus
+    // User tier affects daily bonus and fee discount
     userTier: 'free' | 'starter' | 'pro' | 'ultimate'
     lastBonusClaim: string | null
 
+    // Traded volume for the 30-day fee tier, and paying fees from BNB holdings
+    volumeHistory: VolumeHistory
+    payFeesInBnb: boolean
+
+    // Last seen prices, used to value BNB fees (not persisted)
+    lastPrices: Record<string, number>
+
+    // 24h ticker statistics used by the slippage models (not persisted)
+    marketConditions: Record<string, MarketConditions>
+
     // Trading settings
     slippageEnabled: boolean
     slippagePercent: number // 0.05% - 0.5% typically
+    slippageModel: SlippageModelId
 
     // Actions
     deposit: (amount: number) => void
-    buy: (symbol: string, name: string, shortName: string, amount: number, price: number, color: string) => { success: boolean; error?: string; executedPrice?: number }
-    sell: (symbol: string, amount: number, price: number) => { success: boolean; error?: string; executedPrice?: number }
+    buy: (symbol: string, quoteAmount: number, price: number) => { success: boolean; error?: string; executedPrice?: number }
+    sell: (symbol: string, quantity: number, price: number) => { success: boolean; error?: string; executedPrice?: number }
 
     // Advanced orders
-    placeLimitOrder: (side: OrderSide, symbol: string, name: string, shortName: string, amount: number, targetPrice: number, color: string) => { success: boolean; orderId?: string; error?: string }
-    placeStopLoss: (symbol: string, amount: number, stopPrice: number) => { success: boolean; orderId?: string; error?: string }
-    placeTakeProfit: (symbol: string, amount: number, targetPrice: number) => { success: boolean; orderId?: string; error?: string }
+    placeLimitOrder: (
+        side: OrderSide,
+        symbol: string,
+        quantity: number,
+        price: number,
+        options?: LimitOrderOptions
+    ) => OrderResult
+    placeStopLoss: (symbol: string, quantity: number, stopPrice: number) => OrderResult
+    placeTakeProfit: (symbol: string, quantity: number, targetPrice: number) => OrderResult
+    placeStopLimit: (side: OrderSide, symbol: string, quantity: number, stopPrice: number, limitPrice: number) => OrderResult
+    placeTrailingStop: (
+        symbol: string,
+        quantity: number,
+        offset: number,
+        offsetType: TrailingOffsetType,
+        currentPrice: number
+    ) => OrderResult
+    placeOcoOrder: (symbol: string, quantity: number, takeProfitPrice: number, stopLossPrice: number) => OrderResult
+    placeBracketOrder: (
+        symbol: string,
+        quantity: number,
+        entryPrice: number,
+        takeProfitPrice: number,
+        stopLossPrice: number
+    ) => OrderResult
     cancelOrder: (orderId: string) => { success: boolean; error?: string }
     checkAndExecuteOrders: (currentPrices: Record<string, number>) => void
 
+    // Margin trading
+    openMarginPosition: (
+        symbol: string,
+        side: 'long' | 'short',
+        margin: number,
+        leverage: number,
+        price: number
+    ) => MarginResult
+    closeMarginPosition: (positionId: string, price: number) => MarginResult
+    updateMarginPositions: (markPrices: Record<string, number>) => void
+
+    // Value history
+    recordValueSnapshot: (prices: Record<string, number>) => void
+
     // Trading journal
-    addJournalNote: (transactionId: string, note: string, tags?: string[]) => void
-    updateJournalNote: (entryId: string, note: string, tags?: string[]) => void
+    addJournalNote: (transactionId: string, note: string, tags?: string[], details?: JournalDetails) => void
+    updateJournalNote: (entryId: string, note: string, tags?: string[], details?: JournalDetails) => void
+    deleteJournalNote: (entryId: string) => void
     getJournalForTransaction: (transactionId: string) => JournalEntry | undefined
 
     claimDailyBonus: () => { success: boolean; amount: number; error?: string }
-    resetWallet: () => void
+    // Resets the active portfolio and starts a new session; pass a seed to replay an earlier one
+    resetWallet: (seed?: number) => void
+
+    // Replays run on a throwaway portfolio; the active one is set aside until the replay ends
+    startReplay: () => void
+    endReplay: () => void
+    saveReplayPortfolio: (name: string) => PortfolioResult
+
+    // Portfolios
+    createPortfolio: (name: string) => PortfolioResult
+    clonePortfolio: (portfolioId: string, name: string) => PortfolioResult
+    renamePortfolio: (portfolioId: string, name: string) => PortfolioResult
+    archivePortfolio: (portfolioId: string) => PortfolioResult
+    restorePortfolio: (portfolioId: string) => PortfolioResult
+    switchPortfolio: (portfolioId: string) => PortfolioResult
+    // Adds another wallet's portfolios next to these, or puts them in their place
+    importPortfolios: (wallet: WalletTransfer, mode: 'merge' | 'replace') => ImportResult
     setSlippage: (enabled: boolean, percent?: number) => void
+    setSlippageModel: (model: SlippageModelId) => void
+    updateMarketConditions: (tickers: (MarketConditions & { symbol: string })[]) => void
+    setCostBasisMethod: (method: CostBasisMethod) => void
+    setPayFeesInBnb: (enabled: boolean) => void
 
     // Getters
-    getHolding: (symbol: string) => Holding | undefined
+    getBalance: (asset: string) => Balance
+    getWalletBalance: (prices: Record<string, number>) => WalletBalance
+    getPosition: (symbol: string) => Position | undefined
+    getPositions: (prices: Record<string, number>) => Position[]
+    getPortfolio: (prices: Record<string, number>) => Portfolio
     getPortfolioValue: (prices: Record<string, number>) => number
     getPortfolioMetrics: (prices: Record<string, number>) => PortfolioMetrics
-    getHoldingsWithValue: (prices: Record<string, number>) => (Holding & { currentValue: number; pnl: number; pnlPercent: number })[]
-    getPendingOrdersForSymbol: (symbol: string) => PendingOrder[]
+    getValueChange: (prices: Record<string, number>, period: ChangePeriod) => ValueChange
+    getOpenOrders: (symbol?: string) => Order[]
+    getOrderHistory: (limit?: number) => Order[]
+    getOpenOrderGroups: () => OrderGroup[]
+    getMarginPositions: (prices: Record<string, number>) => Position[]
+    getTradingFee: (isMaker: boolean) => FeeQuote
+    getActivePortfolio: () => PortfolioInfo
+    getPortfolioComparison: (prices: Record<string, number>) => PortfolioComparison[]
 }
 
+// Everything that belongs to one portfolio
+export type PortfolioData = Pick<
+    WalletState,
+    | 'balance'
+    | 'initialDeposit'
+    | 'positions'
+    | 'lots'
+    | 'costBasisMethod'
+    | 'realizedPnl'
+    | 'feesPaid'
+    | 'valueSnapshots'
+    | 'orders'
+    | 'trades'
+    | 'orderGroups'
+    | 'marginPositions'
+    | 'transactions'
+    | 'journalEntries'
+    | 'volumeHistory'
+    | 'payFeesInBnb'
+    | 'slippageEnabled'
+    | 'slippagePercent'
+    | 'slippageModel'
+>
+
+// A whole wallet's portfolios, as found in an account export
+export type WalletTransfer = Pick<WalletState, 'portfolios' | 'activePortfolioId' | 'storedPortfolios'> & PortfolioData
+
 // ============================================
 // CONSTANTS
 // ============================================
 
-const TRADING_FEE_PERCENT = 0.1 // 0.1% trading fee (realistic Binance fee)
-
 const DAILY_BONUS = {
     free: 0,
     starter: 50,
@@ -139,60 +359,975 @@ const DAILY_BONUS = {
 
 const INITIAL_BALANCE = 500
 
+export const QUOTE_ASSET = 'USDT'
+
+// Name of the deposit that starts a wallet over; history before it belongs to an earlier run
+export const WALLET_RESET_NAME = 'Wallet Reset'
+
+const BNB_SYMBOL = 'BNBUSDT'
+
+const DUST_QUANTITY = 0.00000001
+
+const ORDER_HISTORY_LIMIT = 100
+
+const MAX_PORTFOLIOS = 20
+
+const REPLAY_PORTFOLIO_ERROR = 'Switch back to live market data to manage portfolios'
+
 // ============================================
 // HELPER FUNCTIONS
 // ============================================
 
 /**
- * Calculate slippage for market orders
- * Simulates realistic price deviation during execution
+ * Seed the fill generator for a new session
+ */
+function startSession(seed: number = createSeed()): SimulationSession {
+    rng.seed(seed)
+    return { id: generateId(), seed, startedAt: new Date() }
+}
+
+/**
+ * Execution price of a market order under the selected slippage model
+ */
+function getExecutedPrice(state: WalletState, symbol: string, side: OrderSide, price: number, quoteQty: number): number {
+    if (!state.slippageEnabled) return price
+
+    return applySlippage(state.slippageModel, {
+        symbol,
+        side,
+        price,
+        quoteQty,
+        slippagePercent: state.slippagePercent,
+        market: state.marketConditions[symbol],
+    })
+}
+
+/**
+ * Display name for a trading pair
+ */
+function getAssetName(symbol: string): string {
+    return useAssetStore.getState().getAsset(symbol).name
+}
+
+/**
+ * First exchange filter of the pair the order breaks. Quantities are not held
+ * to the lot step: fills leave holdings off the step grid, and selling a whole
+ * position must stay possible.
+ */
+function checkOrderFilters(symbol: string, quantity: number, price: number, limitPrices: number[] = []): string | undefined {
+    const asset = useAssetStore.getState().getAsset(symbol)
+    return validateOrderFilters(quantity, price, asset, limitPrices).error
+}
+
+/**
+ * Orders that can still receive fills
+ */
+function isOrderActive(order: Order): boolean {
+    return order.status === 'pending' || order.status === 'open' || order.status === 'partially_filled'
+}
+
+/**
+ * Check whether the current price reaches the order's trigger.
+ * Stop orders that already started filling keep executing as market orders.
+ */
+function isOrderTriggered(order: Order, currentPrice: number): boolean {
+    switch (order.type) {
+        case 'limit':
+            return order.side === 'buy'
+                ? currentPrice <= order.price!
+                : currentPrice >= order.price!
+
+        case 'stop-limit':
+            // Once the stop is hit the order rests as a plain limit order
+            if (order.triggeredAt) {
+                return order.side === 'buy'
+                    ? currentPrice <= order.price!
+                    : currentPrice >= order.price!
+            }
+            return order.side === 'buy'
+                ? currentPrice >= order.stopPrice!
+                : currentPrice <= order.stopPrice!
+
+        case 'stop-loss':
+        case 'trailing-stop':
+            return order.status === 'partially_filled' || currentPrice <= order.stopPrice!
+
+        case 'take-profit':
+            return order.status === 'partially_filled' || currentPrice >= order.stopPrice!
+
+        default:
+            return false
+    }
+}
+
+/**
+ * Move an order to a final status, recording why
+ */
+function closeOrder(orders: Order[], orderId: string, status: OrderStatus, reason: string): Order[] {
+    const now = marketDate()
+    return orders.map(o =>
+        o.id === orderId ? { ...o, status, statusReason: reason, updatedAt: now } : o
+    )
+}
+
+/**
+ * Move a trailing stop up when the price makes a new high.
+ * Returns undefined when the high-water mark is unchanged.
+ */
+function trailStopPrice(order: Order, currentPrice: number): Order | undefined {
+    if (order.type !== 'trailing-stop' || order.status === 'partially_filled') return undefined
+    if (currentPrice <= (order.highWaterMark ?? 0)) return undefined
+
+    return {
+        ...order,
+        highWaterMark: currentPrice,
+        stopPrice: calculateTrailingStopPrice(currentPrice, order.trailingOffset!, order.trailingOffsetType!),
+        updatedAt: marketDate(),
+    }
+}
+
+/**
+ * Whether two orders draw on the same reserved funds (same order or same group)
+ */
+function sharesReservation(order: Order, other?: Order): boolean {
+    if (!other) return false
+    return order.id === other.id || (!!order.groupId && order.groupId === other.groupId)
+}
+
+/**
+ * Sum the amount reserved by each order. Legs of a linked group can only
+ * fill one at a time, so a group reserves just its largest leg.
+ */
+function sumReserved(orders: Order[], amount: (order: Order) => number): number {
+    const groups = new Map<string, number>()
+    let total = 0
+
+    orders.forEach((o) => {
+        const value = amount(o)
+        if (o.groupId) {
+            groups.set(o.groupId, Math.max(groups.get(o.groupId) ?? 0, value))
+        } else {
+            total += value
+        }
+    })
+
+    groups.forEach((value) => { total += value })
+    return total
+}
+
+/**
+ * Cash reserved by open buy orders: remaining quantity at the order price plus fees
+ */
+function getLockedCash(orders: Order[], exclude?: Order): number {
+    return sumReserved(
+        orders.filter(o => o.side === 'buy' && isOrderActive(o) && !sharesReservation(o, exclude)),
+        (o) => o.remainingQty * (o.price ?? o.stopPrice ?? 0) * (1 + MAX_FEE_PERCENT / 100)
+    )
+}
+
+/**
+ * Holdings reserved by open sell orders
+ */
+function getLockedQuantity(orders: Order[], symbol: string, exclude?: Order): number {
+    return sumReserved(
+        orders.filter(o => o.side === 'sell' && o.symbol === symbol && isOrderActive(o) && !sharesReservation(o, exclude)),
+        (o) => o.remainingQty
+    )
+}
+
+function toBalance(asset: string, total: number, locked: number): Balance {
+    const clampedLocked = Math.min(locked, total)
+    return {
+        asset,
+        free: total - clampedLocked,
+        locked: clampedLocked,
+        total,
+    }
+}
+
+interface Fill {
+    quantity: number        // Crypto amount
+    quoteQty: number        // USD value before fees
+    price: number           // Average execution price
+    isMaker: boolean
+    slippage?: number
+}
+
+interface FeeCharge {
+    amount: number          // In the fee asset
+    asset: 'USDT' | 'BNB'
+    usd: number
+    ratePercent: number
+}
+
+/**
+ * Current fee rate for the account's volume tier and subscription
+ */
+function getFeeRate(state: WalletState, isMaker: boolean, payInBnb: boolean): number {
+    return getFeeQuote({
+        isMaker,
+        volume30d: get30dVolume(state.volumeHistory),
+        subscriptionTier: state.userTier,
+        payInBnb,
+    }).ratePercent
+}
+
+/**
+ * Fee for a fill. In BNB mode the discounted fee is taken from free BNB
+ * at the last known price; without enough BNB (or when the fill trades
+ * BNB itself) it falls back to the full rate in USDT.
+ */
+function chargeFee(state: WalletState, symbol: string, quoteQty: number, isMaker: boolean): FeeCharge {
+    const bnbPrice = state.lastPrices[BNB_SYMBOL]
+
+    if (state.payFeesInBnb && bnbPrice && symbol !== BNB_SYMBOL) {
+        const ratePercent = getFeeRate(state, isMaker, true)
+        const usd = quoteQty * (ratePercent / 100)
+        const freeBnb = (state.positions[BNB_SYMBOL]?.quantity ?? 0) - getLockedQuantity(state.orders, BNB_SYMBOL)
+
+        if (usd / bnbPrice <= freeBnb) {
+            return { amount: usd / bnbPrice, asset: 'BNB', usd, ratePercent }
+        }
+    }
+
+    const ratePercent = getFeeRate(state, isMaker, false)
+    const usd = quoteQty * (ratePercent / 100)
+    return { amount: usd, asset: 'USDT', usd, ratePercent }
+}
+
+/**
+ * Part of a fee paid from cash
+ */
+function cashFee(charge: FeeCharge): number {
+    return charge.asset === 'USDT' ? charge.usd : 0
+}
+
+/**
+ * Turn a depth match into a single fill at the average price
+ */
+function matchToFill(match: MatchResult, isMaker: boolean): Fill | undefined {
+    if (match.executedQty <= 0 || match.avgPrice === null) return undefined
+
+    return {
+        quantity: match.executedQty,
+        quoteQty: match.executedQuoteQty,
+        price: match.avgPrice,
+        isMaker,
+    }
+}
+
+/**
+ * Apply a fill to its order
+ */
+function applyFillToOrder(order: Order, fill: Fill, charge: FeeCharge, now: Date): Order {
+    const executedQty = order.executedQty + fill.quantity
+    const executedQuoteQty = order.executedQuoteQty + fill.quoteQty
+    const remainingQty = order.remainingQty - fill.quantity > DUST_QUANTITY
+        ? order.remainingQty - fill.quantity
+        : 0
+
+    return {
+        ...order,
+        executedQty,
+        remainingQty,
+        executedQuoteQty,
+        avgFillPrice: executedQuoteQty / executedQty,
+        fee: order.fee + charge.usd,
+        feeAsset: charge.asset,
+        status: remainingQty > 0 ? 'partially_filled' : 'filled',
+        updatedAt: now,
+        filledAt: remainingQty > 0 ? order.filledAt : now,
+    }
+}
+
+/**
+ * Lots of a symbol, topped up at the position's average entry when they
+ * fall short (positions opened before lot tracking existed)
+ */
+function getPositionLots(state: WalletState, symbol: string): Lot[] {
+    const lots = state.lots[symbol] ?? []
+    const position = state.positions[symbol]
+    const missing = (position?.quantity ?? 0) - getLotsQuantity(lots)
+
+    if (!position || missing <= DUST_QUANTITY) return lots
+
+    return [
+        ...lots,
+        {
+            id: generateId(),
+            symbol,
+            tradeId: '',
+            quantity: missing,
+            price: position.avgEntryPrice,
+            acquiredAt: position.openedAt,
+        },
+    ]
+}
+
+/**
+ * Apply a trade to the position it belongs to.
+ * Returns undefined once the position is fully closed.
+ */
+function applyTradeToPosition(position: Position | undefined, trade: Trade, lots: Lot[]): Position | undefined {
+    if (trade.side === 'buy') {
+        if (!position) {
+            return {
+                symbol: trade.symbol,
+                side: 'long',
+                quantity: trade.quantity,
+                avgEntryPrice: trade.price,
+                unrealizedPnl: 0,
+                unrealizedPnlPercent: 0,
+                realizedPnl: 0,
+                openedAt: trade.timestamp,
+                updatedAt: trade.timestamp,
+            }
+        }
+
+        const quantity = position.quantity + trade.quantity
+        return {
+            ...position,
+            quantity,
+            avgEntryPrice: (position.quantity * position.avgEntryPrice + trade.quoteQty) / quantity,
+            updatedAt: trade.timestamp,
+        }
+    }
+
+    if (!position) return undefined
+
+    const quantity = position.quantity - trade.quantity
+    if (quantity <= DUST_QUANTITY) return undefined
+
+    // Entry price of what is left depends on which lots were sold
+    return {
+        ...position,
+        quantity,
+        avgEntryPrice: lots.length > 0 ? getAverageCost(lots) : position.avgEntryPrice,
+        realizedPnl: position.realizedPnl + (trade.realizedPnl ?? 0),
+        updatedAt: trade.timestamp,
+    }
+}
+
+/**
+ * Take a fee out of the BNB holding. Spending BNB disposes of it at the
+ * current price, so the gain or loss on the lots used is realized.
+ */
+function spendBnb(state: WalletState, charge: FeeCharge, now: Date): {
+    position?: Position
+    lots: Lot[]
+    realizedPnl: number
+} {
+    const position = state.positions[BNB_SYMBOL]
+    const spent = consumeLots(getPositionLots(state, BNB_SYMBOL), charge.amount, state.costBasisMethod)
+    const realizedPnl = charge.usd - spent.costBasis
+    const quantity = (position?.quantity ?? 0) - charge.amount
+
+    if (!position || quantity <= DUST_QUANTITY) {
+        return { lots: [], realizedPnl }
+    }
+
+    return {
+        position: {
+            ...position,
+            quantity,
+            avgEntryPrice: spent.lots.length > 0 ? getAverageCost(spent.lots) : position.avgEntryPrice,
+            realizedPnl: position.realizedPnl + realizedPnl,
+            updatedAt: now,
+        },
+        lots: spent.lots,
+        realizedPnl,
+    }
+}
+
+/**
+ * State changes for one fill of an order: record the trade,
+ * update order, position and cash, and log the transaction
+ */
+function applyFill(state: WalletState, order: Order, fill: Fill): Partial<WalletState> {
+    const now = marketDate()
+    const position = state.positions[order.symbol]
+    const tradeId = generateId()
+    const charge = chargeFee(state, order.symbol, fill.quoteQty, fill.isMaker)
+
+    // Buys open a lot, sells consume lots by the chosen cost basis method
+    let symbolLots = getPositionLots(state, order.symbol)
+    let sale: ReturnType<typeof consumeLots> | undefined
+
+    if (order.side === 'buy') {
+        symbolLots = [
+            ...symbolLots,
+            {
+                id: generateId(),
+                symbol: order.symbol,
+                tradeId,
+                quantity: fill.quantity,
+                price: fill.price,
+                acquiredAt: now,
+            },
+        ]
+    } else {
+        sale = consumeLots(symbolLots, fill.quantity, state.costBasisMethod)
+        symbolLots = sale.lots
+    }
+
+    const trade: Trade = {
+        id: tradeId,
+        orderId: order.id,
+        symbol: order.symbol,
+        side: order.side,
+        price: fill.price,
+        quantity: fill.quantity,
+        quoteQty: fill.quoteQty,
+        fee: charge.amount,
+        feeAsset: charge.asset,
+        feeRate: charge.ratePercent,
+        isMaker: fill.isMaker,
+        timestamp: now,
+        realizedPnl: sale ? fill.quoteQty - sale.costBasis : undefined,
+        costBasis: sale?.costBasis,
+        lotDisposals: sale?.disposals,
+    }
+
+    const newPositions = { ...state.positions }
+    const newLots = { ...state.lots }
+    const updatedPosition = applyTradeToPosition(position, trade, symbolLots)
+    if (updatedPosition) {
+        newPositions[order.symbol] = updatedPosition
+        newLots[order.symbol] = symbolLots
+    } else {
+        delete newPositions[order.symbol]
+        delete newLots[order.symbol]
+    }
+
+    let feeRealizedPnl = 0
+    if (charge.asset === 'BNB') {
+        const bnb = spendBnb(state, charge, now)
+        feeRealizedPnl = bnb.realizedPnl
+        if (bnb.position) {
+            newPositions[BNB_SYMBOL] = bnb.position
+            newLots[BNB_SYMBOL] = bnb.lots
+        } else {
+            delete newPositions[BNB_SYMBOL]
+            delete newLots[BNB_SYMBOL]
+        }
+    }
+
+    const cashChange = order.side === 'buy'
+        ? -(fill.quoteQty + cashFee(charge))
+        : fill.quoteQty - cashFee(charge)
+
+    const hasOrder = state.orders.some(o => o.id === order.id)
+    const updatedOrder = applyFillToOrder(order, fill, charge, now)
+
+    return {
+        balance: state.balance + cashChange,
+        positions: newPositions,
+        lots: newLots,
+        realizedPnl: state.realizedPnl + (trade.realizedPnl ?? 0) + feeRealizedPnl,
+        feesPaid: state.feesPaid + charge.usd,
+        volumeHistory: addVolume(state.volumeHistory, fill.quoteQty),
+        lastPrices: { ...state.lastPrices, [order.symbol]: fill.price },
+        orders: hasOrder
+            ? state.orders.map(o => o.id === order.id ? updatedOrder : o)
+            : [...state.orders, updatedOrder],
+        trades: [trade, ...state.trades],
+        transactions: [
+            {
+                id: generateId(),
+                type: order.side,
+                orderType: order.type,
+                orderId: order.id,
+                tradeId: trade.id,
+                symbol: order.symbol,
+                name: getAssetName(order.symbol),
+                amount: fill.quantity,
+                price: fill.price,
+                total: fill.quoteQty,
+                fee: charge.usd,
+                feeAsset: charge.asset,
+                feeAmount: charge.amount,
+                feeRate: charge.ratePercent,
+                realizedPnl: trade.realizedPnl,
+                slippage: fill.slippage,
+                timestamp: now,
+            },
+            ...state.transactions,
+        ],
+    }
+}
+
+/**
+ * Keep an order's group consistent after the order changed.
+ * A finished bracket entry places the take-profit / stop-loss pair;
+ * any fill, cancel or expiry on an exit leg cancels its siblings.
+ */
+function settleOrderGroup(state: WalletState, orderId: string): Partial<WalletState> {
+    const order = state.orders.find(o => o.id === orderId)
+    const group = order?.groupId ? state.orderGroups.find(g => g.id === order.groupId) : undefined
+    if (!order || !group) return {}
+
+    const now = marketDate()
+    const updateGroup = (changes: Partial<OrderGroup>) =>
+        state.orderGroups.map(g => g.id === group.id ? { ...g, ...changes, updatedAt: now } : g)
+
+    if (group.status === 'pending') {
+        if (order.id !== group.entryOrderId || isOrderActive(order)) return {}
+
+        if (order.executedQty <= 0) {
+            return { orderGroups: updateGroup({ status: 'cancelled' }) }
+        }
+
+        // Exits cover whatever the entry actually bought
+        const legs = [
+            {
+                id: generateId(),
+                ...createTakeProfitOrder({ symbol: group.symbol, quantity: order.executedQty, stopPrice: group.takeProfitPrice }),
+                groupId: group.id,
+            },
+            {
+                id: generateId(),
+                ...createStopLossOrder({ symbol: group.symbol, quantity: order.executedQty, stopPrice: group.stopLossPrice }),
+                groupId: group.id,
+            },
+        ] as Order[]
+
+        return {
+            orders: [...state.orders, ...legs],
+            orderGroups: updateGroup({ status: 'active', orderIds: legs.map(o => o.id) }),
+        }
+    }
+
+    if (group.status !== 'active' || !group.orderIds.includes(order.id)) return {}
+    if (order.executedQty <= 0 && isOrderActive(order)) return {}
+
+    const reason = order.executedQty > 0 ? 'Linked order executed' : 'Linked order closed'
+    const orders = state.orders.map(o =>
+        group.orderIds.includes(o.id) && o.id !== order.id && isOrderActive(o)
+            ? { ...o, status: 'cancelled' as const, statusReason: reason, updatedAt: now }
+            : o
+    )
+    const legs = orders.filter(o => group.orderIds.includes(o.id))
+    const status = legs.some(isOrderActive)
+        ? 'active'
+        : legs.some(o => o.executedQty > 0) ? 'completed' : 'cancelled'
+
+    return { orders, orderGroups: updateGroup({ status }) }
+}
+
+/**
+ * Charge borrow interest since the last accrual against the position's margin,
+ * which moves its liquidation price closer
+ */
+function accrueInterest(position: Position, markPrice: number, now: Date): Position {
+    const lastAccrual = position.lastAccrualAt?.getTime() ?? now.getTime()
+    // A clock that went back charges nothing rather than refunding
+    const interest = calculateBorrowInterest(position, markPrice, Math.max(now.getTime() - lastAccrual, 0))
+    const margin = Math.max((position.margin ?? 0) - interest, 0)
+
+    return {
+        ...position,
+        margin,
+        accruedInterest: (position.accruedInterest ?? 0) + interest,
+        liquidationPrice: calculateLiquidationPrice(position.side, position.avgEntryPrice, position.quantity, margin),
+        lastAccrualAt: new Date(Math.max(now.getTime(), lastAccrual)),
+        updatedAt: now,
+    }
+}
+
+/**
+ * Active orders plus the most recent closed ones for the order history
+ */
+function keepRecentOrders(orders: Order[]): Order[] {
+    const recentClosed = new Set(orders.filter(o => !isOrderActive(o)).slice(-ORDER_HISTORY_LIMIT))
+    return orders.filter(o => isOrderActive(o) || recentClosed.has(o))
+}
+
+/**
+ * Error message for an empty, duplicate or surplus portfolio name
+ */
+function validatePortfolioName(state: WalletState, name: string, portfolioId?: string): string | undefined {
+    const trimmed = name.trim()
+    if (!trimmed) return 'Portfolio name is required'
+
+    if (state.portfolios.some(p => p.id !== portfolioId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+        return 'A portfolio with this name already exists'
+    }
+
+    if (!portfolioId && state.portfolios.length >= MAX_PORTFOLIOS) {
+        return `You can have up to ${MAX_PORTFOLIOS} portfolios`
+    }
+
+    return undefined
+}
+
+/**
+ * A fresh portfolio with the starting balance
+ */
+export function createPortfolioData(): PortfolioData {
+    return {
+        balance: INITIAL_BALANCE,
+        initialDeposit: INITIAL_BALANCE,
+        positions: {},
+        lots: {},
+        costBasisMethod: 'fifo',
+        realizedPnl: 0,
+        feesPaid: 0,
+        valueSnapshots: [],
+        orders: [],
+        trades: [],
+        orderGroups: [],
+        marginPositions: [],
+        transactions: [
+            {
+                id: generateId(),
+                type: 'deposit',
+                symbol: 'USD',
+                name: 'Initial Deposit',
+                amount: INITIAL_BALANCE,
+                price: 1,
+                total: INITIAL_BALANCE,
+                fee: 0,
+                timestamp: marketDate(),
+            }
+        ],
+        journalEntries: [],
+        volumeHistory: {},
+        payFeesInBnb: false,
+        slippageEnabled: true,
+        slippagePercent: 0.1, // Default 0.1% slippage
+        slippageModel: 'sqrt-impact',
+    }
+}
+
+/**
+ * The portfolio fields of a state
+ */
+function pickPortfolioData(state: PortfolioData): PortfolioData {
+    return {
+        balance: state.balance,
+        initialDeposit: state.initialDeposit,
+        positions: state.positions,
+        lots: state.lots,
+        costBasisMethod: state.costBasisMethod,
+        realizedPnl: state.realizedPnl,
+        feesPaid: state.feesPaid,
+        valueSnapshots: state.valueSnapshots,
+        orders: state.orders,
+        trades: state.trades,
+        orderGroups: state.orderGroups,
+        marginPositions: state.marginPositions,
+        transactions: state.transactions,
+        journalEntries: state.journalEntries,
+        volumeHistory: state.volumeHistory,
+        payFeesInBnb: state.payFeesInBnb,
+        slippageEnabled: state.slippageEnabled,
+        slippagePercent: state.slippagePercent,
+        slippageModel: state.slippageModel,
+    }
+}
+
+/**
+ * Why a portfolio can't be parked, if it can't. Orders and margin positions only
+ * run on the active portfolio, so parked ones would freeze until switched back to.
+ */
+function getParkingError(data: PortfolioData): string | null {
+    if (data.orders.some(isOrderActive)) {
+        return 'Cancel the open orders first'
+    }
+    if (data.marginPositions.length > 0) {
+        return 'Close the margin positions first'
+    }
+    return null
+}
+
+/**
+ * Portfolio data from outside the store, with defaults for anything missing
+ */
+function fillPortfolioData(data: Partial<PortfolioData>): PortfolioData {
+    return pickPortfolioData({ ...createPortfolioData(), ...data })
+}
+
+/**
+ * Trim a portfolio's history to what is worth persisting
+ */
+function compactPortfolioData(data: PortfolioData): PortfolioData {
+    return {
+        ...pickPortfolioData(data),
+        orders: keepRecentOrders(data.orders),
+        orderGroups: data.orderGroups.filter(g => g.status === 'pending' || g.status === 'active'),
+        trades: data.trades.slice(0, 100),
+        transactions: data.transactions.slice(0, 100),
+        journalEntries: data.journalEntries.slice(-200),
+    }
+}
+
+/**
+ * Spot positions marked to the given prices
+ */
+function markPositions(data: PortfolioData, prices: Record<string, number>): Position[] {
+    return Object.values(data.positions).map((position) => {
+        const currentPrice = prices[position.symbol] || 0
+        const { pnl, pnlPercent } = calculatePnL(
+            position.avgEntryPrice,
+            currentPrice,
+            position.quantity,
+            position.side
+        )
+
+        return {
+            ...position,
+            unrealizedPnl: pnl,
+            unrealizedPnlPercent: pnlPercent,
+        }
+    })
+}
+
+/**
+ * Margin positions marked to the given prices; P&L is relative to the posted margin
+ */
+function markMarginPositions(data: PortfolioData, prices: Record<string, number>): Position[] {
+    return data.marginPositions.map((position) => {
+        const markPrice = prices[position.symbol] || position.avgEntryPrice
+        const { pnl } = calculatePnL(position.avgEntryPrice, markPrice, position.quantity, position.side)
+        const margin = position.margin ?? 0
+
+        return {
+            ...position,
+            unrealizedPnl: pnl,
+            unrealizedPnlPercent: margin > 0 ? (pnl / margin) * 100 : 0,
+        }
+    })
+}
+
+function buildPortfolio(data: PortfolioData, prices: Record<string, number>): Portfolio {
+    const assets: PortfolioAsset[] = markPositions(data, prices).map((position) => {
+        const asset = useAssetStore.getState().getAsset(position.symbol)
+        const currentPrice = prices[position.symbol] || 0
+
+        return {
+            symbol: position.symbol,
+            name: asset.name,
+            quantity: position.quantity,
+            avgBuyPrice: position.avgEntryPrice,
+            currentPrice,
+            value: position.quantity * currentPrice,
+            cost: position.quantity * position.avgEntryPrice,
+            pnl: position.unrealizedPnl,
+            pnlPercent: position.unrealizedPnlPercent,
+            allocation: 0,
+            color: asset.color,
+        }
+    })
+
+    const holdingsValue = assets.reduce((sum, a) => sum + a.value, 0)
+    const totalCost = assets.reduce((sum, a) => sum + a.cost, 0)
+    const marginEquity = markMarginPositions(data, prices)
+        .reduce((sum, p) => sum + Math.max((p.margin ?? 0) + p.unrealizedPnl, 0), 0)
+    const totalValue = data.balance + holdingsValue + marginEquity
+    const totalPnl = holdingsValue - totalCost
+
+    return {
+        assets: assets
+            .map(a => ({ ...a, allocation: totalValue > 0 ? (a.value / totalValue) * 100 : 0 }))
+            .sort((a, b) => b.value - a.value),
+        totalValue,
+        totalCost,
+        totalPnl,
+        totalPnlPercent: totalCost > 0 ? (totalPnl / totalCost) * 100 : 0,
+        cashBalance: data.balance,
+        lastUpdated: new Date(),
+    }
+}
+
+/**
+ * Trading results only: deposits and bonuses are not profit
  */
-function calculateSlippage(price: number, slippagePercent: number, isBuy: boolean): number {
-    // Random slippage within the percentage range
-    const randomFactor = Math.random() * slippagePercent
-    const slippageAmount = price * (randomFactor / 100)
+function calculatePortfolioMetrics(data: PortfolioData, prices: Record<string, number>): PortfolioMetrics {
+    const { totalValue, totalCost } = buildPortfolio(data, prices)
+
+    const unrealizedPnl = [...markPositions(data, prices), ...markMarginPositions(data, prices)]
+        .reduce((sum, p) => sum + p.unrealizedPnl, 0)
+    const profitLoss = data.realizedPnl + unrealizedPnl - data.feesPaid
+
+    // Relative to the capital put in, i.e. the value without trading results
+    const capital = totalValue - profitLoss
+    const profitLossPercent = capital > 0 ? (profitLoss / capital) * 100 : 0
+
+    const day = calculateValueChange(data.valueSnapshots, { value: totalValue, capital }, '24h', marketNow())
+
+    return {
+        totalValue,
+        totalCost,
+        realizedPnl: data.realizedPnl,
+        unrealizedPnl,
+        totalFees: data.feesPaid,
+        profitLoss,
+        profitLossPercent,
+        dayChange: day.change,
+        dayChangePercent: day.changePercent,
+    }
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
 
-    // Slippage is unfavorable: higher price for buys, lower for sells
-    return isBuy ? slippageAmount : -slippageAmount
+const WALLET_VERSION = 2
+
+const WALLET_STORAGE_KEY = 'quantix-wallet'
+
+// Wallet shape from before orders, trades and positions
+interface LegacyHolding {
+    symbol: string
+    amount: number
+    avgBuyPrice: number
+}
+
+interface LegacyPendingOrder {
+    id: string
+    type: 'market' | 'limit' | 'stop-loss' | 'take-profit'
+    side: OrderSide
+    symbol: string
+    amount: number          // USD for limit orders, crypto for stops
+    targetPrice: number
+    createdAt?: Date
+    expiresAt?: Date
+    status: string
 }
 
+// Journal entry from when its chart snapshot was kept inline as a data URL
+type LegacyJournalEntry = JournalEntry & { snapshot?: string }
+
 /**
- * Apply slippage to get executed price
+ * Open order equivalent of a legacy pending order
  */
-function getExecutedPrice(price: number, slippagePercent: number, isBuy: boolean): number {
-    const slippage = calculateSlippage(price, slippagePercent, isBuy)
-    return price + slippage
+function migrateLegacyOrder(legacy: LegacyPendingOrder): Order | undefined {
+    const { symbol, side, amount, targetPrice } = legacy
+    if (!(amount > 0) || !(targetPrice > 0)) return undefined
+
+    const order = legacy.type === 'limit'
+        ? createLimitOrder({
+            symbol,
+            side,
+            quantity: amount / targetPrice,
+            price: targetPrice,
+            timeInForce: legacy.expiresAt ? 'GTD' : 'GTC',
+        })
+        : legacy.type === 'stop-loss'
+            ? createStopLossOrder({ symbol, quantity: amount, stopPrice: targetPrice })
+            : legacy.type === 'take-profit'
+                ? createTakeProfitOrder({ symbol, quantity: amount, stopPrice: targetPrice })
+                : undefined
+    if (!order) return undefined
+
+    const createdAt = legacy.createdAt instanceof Date ? legacy.createdAt : new Date()
+    return {
+        ...order,
+        id: legacy.id,
+        createdAt,
+        updatedAt: createdAt,
+        expiresAt: legacy.expiresAt instanceof Date ? legacy.expiresAt : undefined,
+    } as Order
+}
+
+const WALLET_MIGRATIONS: Migrations = {
+    // Holdings become positions with a single lot, pending orders open orders
+    1: (state) => {
+        const { holdings, pendingOrders, ...rest } = state as {
+            holdings?: Record<string, LegacyHolding>
+            pendingOrders?: LegacyPendingOrder[]
+        } & Record<string, unknown>
+        if (!holdings && !pendingOrders) return rest
+
+        const now = new Date()
+        const positions: Record<string, Position> = {}
+        const lots: Record<string, Lot[]> = {}
+
+        Object.values(holdings ?? {}).forEach((holding) => {
+            if (!(holding.amount > 0)) return
+
+            positions[holding.symbol] = {
+                symbol: holding.symbol,
+                side: 'long',
+                quantity: holding.amount,
+                avgEntryPrice: holding.avgBuyPrice,
+                unrealizedPnl: 0,
+                unrealizedPnlPercent: 0,
+                realizedPnl: 0,
+                openedAt: now,
+                updatedAt: now,
+            }
+            lots[holding.symbol] = [{
+                id: `legacy-${holding.symbol}`,
+                symbol: holding.symbol,
+                tradeId: '',
+                quantity: holding.amount,
+                price: holding.avgBuyPrice,
+                acquiredAt: now,
+            }]
+        })
+
+        const orders = (pendingOrders ?? [])
+            .filter(o => o.status === 'pending')
+            .map(migrateLegacyOrder)
+            .filter((o): o is Order => o !== undefined)
+
+        return { ...rest, positions, lots, orders }
+    },
+
+    // Chart snapshots move out of localStorage into the ledger
+    2: (state) => {
+        const { journalEntries, storedPortfolios, ...rest } = state as {
+            journalEntries?: LegacyJournalEntry[]
+            storedPortfolios?: Record<string, { journalEntries?: LegacyJournalEntry[] }>
+        } & Record<string, unknown>
+
+        const moveSnapshots = (entries: LegacyJournalEntry[]): JournalEntry[] =>
+            entries.map(({ snapshot, ...entry }) => {
+                if (typeof snapshot !== 'string') return entry
+
+                const snapshotId = generateId()
+                saveSnapshot(snapshotId, snapshot).catch(error => console.error('Error moving a journal snapshot:', error))
+                return { ...entry, snapshotId }
+            })
+
+        return {
+            ...rest,
+            ...(journalEntries && { journalEntries: moveSnapshots(journalEntries) }),
+            ...(storedPortfolios && {
+                storedPortfolios: Object.fromEntries(Object.entries(storedPortfolios).map(([id, data]) => [
+                    id,
+                    data.journalEntries ? { ...data, journalEntries: moveSnapshots(data.journalEntries) } : data,
+                ])),
+            }),
+        }
+    },
 }
 
 // ============================================
 // STORE
 // ============================================
 
+const DEFAULT_PORTFOLIO: PortfolioInfo = {
+    id: 'main',
+    name: 'Main',
+    archived: false,
+    createdAt: new Date(),
+}
+
 export const useWalletStore = create<WalletState>()(
     persist(
         (set, get) => ({
-            balance: INITIAL_BALANCE,
-            initialDeposit: INITIAL_BALANCE,
-            holdings: {},
-            transactions: [
-                {
-                    id: generateId(),
-                    type: 'deposit',
-                    symbol: 'USD',
-                    name: 'Initial Deposit',
-                    amount: INITIAL_BALANCE,
-                    price: 1,
-                    total: INITIAL_BALANCE,
-                    fee: 0,
-                    timestamp: new Date(),
-                }
-            ],
-            pendingOrders: [],
-            journalEntries: [],
+            session: startSession(),
+            portfolios: [DEFAULT_PORTFOLIO],
+            activePortfolioId: DEFAULT_PORTFOLIO.id,
+            storedPortfolios: {},
+            replayBackup: null,
+            ...createPortfolioData(),
             userTier: 'free',
             lastBonusClaim: null,
-            slippageEnabled: true,
-            slippagePercent: 0.1, // Default 0.1% slippage
+            lastPrices: {},
+            marketConditions: {},
 
             deposit: (amount) => {
                 set((state) => ({
@@ -208,129 +1343,88 @@ export const useWalletStore = create<WalletState>()(
                             price: 1,
                             total: amount,
                             fee: 0,
-                            timestamp: new Date(),
+                            timestamp: marketDate(),
                         },
                         ...state.transactions,
                     ],
                 }))
             },
 
-            buy: (symbol, name, shortName, amount, price, color) => {
+            buy: (symbol, quoteAmount, price) => {
                 const state = get()
 
+                const filterError = checkOrderFilters(symbol, quoteAmount / price, price)
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
                 // Apply slippage for realistic execution
-                const executedPrice = state.slippageEnabled
-                    ? getExecutedPrice(price, state.slippagePercent, true)
-                    : price
+                const executedPrice = getExecutedPrice(state, symbol, 'buy', price, quoteAmount)
                 const slippage = executedPrice - price
 
-                const fee = amount * (TRADING_FEE_PERCENT / 100)
-                const totalCost = amount + fee
+                const fee = cashFee(chargeFee(state, symbol, quoteAmount, false))
+                const totalCost = quoteAmount + fee
 
                 if (totalCost > state.balance) {
                     return { success: false, error: 'Insufficient balance' }
                 }
 
-                const cryptoAmount = amount / executedPrice
-                const existingHolding = state.holdings[symbol]
-
-                // Calculate new average price
-                let newAvgPrice = executedPrice
-                let newAmount = cryptoAmount
-
-                if (existingHolding) {
-                    const totalValue = (existingHolding.amount * existingHolding.avgBuyPrice) + amount
-                    newAmount = existingHolding.amount + cryptoAmount
-                    newAvgPrice = totalValue / newAmount
+                if (totalCost > state.getBalance(QUOTE_ASSET).free) {
+                    return { success: false, error: 'Balance is locked in open orders' }
                 }
 
-                set((state) => ({
-                    balance: state.balance - totalCost,
-                    holdings: {
-                        ...state.holdings,
-                        [symbol]: {
-                            symbol,
-                            name,
-                            shortName,
-                            amount: newAmount,
-                            avgBuyPrice: newAvgPrice,
-                            color,
-                        },
-                    },
-                    transactions: [
-                        {
-                            id: generateId(),
-                            type: 'buy',
-                            orderType: 'market',
-                            symbol,
-                            name,
-                            amount: cryptoAmount,
-                            price: executedPrice,
-                            total: amount,
-                            fee,
-                            slippage: slippage > 0 ? slippage : undefined,
-                            timestamp: new Date(),
-                        },
-                        ...state.transactions,
-                    ],
+                const quantity = quoteAmount / executedPrice
+                const order = {
+                    id: generateId(),
+                    ...createMarketOrder({ symbol, side: 'buy', quantity, quoteQty: quoteAmount }),
+                } as Order
+
+                set((state) => applyFill(state, order, {
+                    quantity,
+                    quoteQty: quoteAmount,
+                    price: executedPrice,
+                    isMaker: false,
+                    slippage: slippage > 0 ? slippage : undefined,
                 }))
 
                 return { success: true, executedPrice }
             },
 
-            sell: (symbol, amount, price) => {
+            sell: (symbol, quantity, price) => {
                 const state = get()
-                const holding = state.holdings[symbol]
+                const position = state.positions[symbol]
 
-                if (!holding || holding.amount < amount) {
+                if (!position || position.quantity < quantity) {
                     return { success: false, error: 'Insufficient holdings' }
                 }
 
-                // Apply slippage for realistic execution
-                const executedPrice = state.slippageEnabled
-                    ? getExecutedPrice(price, state.slippagePercent, false)
-                    : price
-                const slippage = price - executedPrice
-
-                const totalValue = amount * executedPrice
-                const fee = totalValue * (TRADING_FEE_PERCENT / 100)
-                const netValue = totalValue - fee
+                const filterError = checkOrderFilters(symbol, quantity, price)
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
 
-                const newAmount = holding.amount - amount
+                if (state.getBalance(symbol).free < quantity) {
+                    return { success: false, error: 'Holdings are locked in open orders' }
+                }
 
-                set((state) => {
-                    const newHoldings = { ...state.holdings }
+                // Apply slippage for realistic execution
+                const executedPrice = getExecutedPrice(state, symbol, 'sell', price, quantity * price)
+                const slippage = price - executedPrice
 
-                    if (newAmount <= 0.00000001) {
-                        delete newHoldings[symbol]
-                    } else {
-                        newHoldings[symbol] = {
-                            ...holding,
-                            amount: newAmount,
-                        }
-                    }
+                const totalValue = quantity * executedPrice
 
-                    return {
-                        balance: state.balance + netValue,
-                        holdings: newHoldings,
-                        transactions: [
-                            {
-                                id: generateId(),
-                                type: 'sell',
-                                orderType: 'market',
-                                symbol,
-                                name: holding.name,
-                                amount,
-                                price: executedPrice,
-                                total: totalValue,
-                                fee,
-                                slippage: slippage > 0 ? slippage : undefined,
-                                timestamp: new Date(),
-                            },
-                            ...state.transactions,
-                        ],
-                    }
-                })
+                const order = {
+                    id: generateId(),
+                    ...createMarketOrder({ symbol, side: 'sell', quantity, quoteQty: totalValue }),
+                } as Order
+
+                set((state) => applyFill(state, order, {
+                    quantity,
+                    quoteQty: totalValue,
+                    price: executedPrice,
+                    isMaker: false,
+                    slippage: slippage > 0 ? slippage : undefined,
+                }))
 
                 return { success: true, executedPrice }
             },
@@ -339,219 +1433,594 @@ export const useWalletStore = create<WalletState>()(
             // LIMIT ORDERS
             // ============================================
 
-            placeLimitOrder: (side, symbol, name, shortName, amount, targetPrice, color) => {
+            placeLimitOrder: (side, symbol, quantity, price, options = {}) => {
                 const state = get()
+                const { timeInForce = 'GTC', expiresAt, currentPrice } = options
+
+                if (timeInForce === 'GTD' && (!expiresAt || expiresAt.getTime() <= marketNow())) {
+                    return { success: false, error: 'Good-till-date orders need a future expiry' }
+                }
 
+                if ((timeInForce === 'IOC' || timeInForce === 'FOK') && !currentPrice) {
+                    return { success: false, error: `${timeInForce} orders need the current price` }
+                }
+
+                const filterError = checkOrderFilters(symbol, quantity, price, [price])
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
+                // Funds for the whole order are locked until it fills, is cancelled or expires
                 if (side === 'buy') {
-                    // Check if user has enough balance for potential execution
-                    const fee = amount * (TRADING_FEE_PERCENT / 100)
-                    if (amount + fee > state.balance) {
+                    const quoteQty = quantity * price
+                    const fee = quoteQty * (MAX_FEE_PERCENT / 100)
+                    if (quoteQty + fee > state.getBalance(QUOTE_ASSET).free) {
                         return { success: false, error: 'Insufficient balance for limit order' }
                     }
                 } else {
-                    // Check if user has enough holdings
-                    const holding = state.holdings[symbol]
-                    const cryptoAmount = amount / targetPrice
-                    if (!holding || holding.amount < cryptoAmount) {
+                    if (state.getBalance(symbol).free < quantity) {
                         return { success: false, error: 'Insufficient holdings for limit order' }
                     }
                 }
 
-                const orderId = generateId()
-                const order: PendingOrder = {
-                    id: orderId,
-                    type: 'limit',
-                    side,
+                const order = {
+                    id: generateId(),
+                    ...createLimitOrder({ symbol, side, quantity, price, timeInForce }),
+                    expiresAt: timeInForce === 'GTD' ? expiresAt : undefined,
+                } as Order
+
+                set((state) => ({
+                    orders: [...state.orders, order],
+                }))
+
+                if (timeInForce === 'GTC' || timeInForce === 'GTD') {
+                    return { success: true, orderId: order.id }
+                }
+
+                // IOC / FOK never rest: match once against the book at the current price
+                const snapshot = generateDepthSnapshot(symbol, currentPrice!)
+                const match = matchOrder(snapshot, side, quantity, price)
+
+                if (timeInForce === 'FOK' && match.remainingQty > 0) {
+                    set((state) => ({
+                        orders: closeOrder(state.orders, order.id, 'rejected', 'FOK: not enough liquidity to fill entirely'),
+                    }))
+                    return { success: false, orderId: order.id, error: 'Fill-or-kill order could not be filled entirely' }
+                }
+
+                const fill = matchToFill(match, false)
+                if (fill) {
+                    set((s) => applyFill(s, s.orders.find(o => o.id === order.id) ?? order, fill))
+                }
+
+                if (match.remainingQty > 0) {
+                    const reason = fill ? 'IOC: unfilled remainder cancelled' : 'IOC: no liquidity at limit price'
+                    set((state) => ({
+                        orders: closeOrder(state.orders, order.id, 'expired', reason),
+                    }))
+                }
+
+                if (!fill) {
+                    return { success: false, orderId: order.id, error: 'No liquidity at the limit price' }
+                }
+
+                return { success: true, orderId: order.id }
+            },
+
+            placeStopLoss: (symbol, quantity, stopPrice) => {
+                const filterError = checkOrderFilters(symbol, quantity, stopPrice, [stopPrice])
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
+                if (get().getBalance(symbol).free < quantity) {
+                    return { success: false, error: 'Insufficient holdings for stop-loss' }
+                }
+
+                const order = {
+                    id: generateId(),
+                    ...createStopLossOrder({ symbol, quantity, stopPrice }),
+                } as Order
+
+                set((state) => ({
+                    orders: [...state.orders, order],
+                }))
+
+                return { success: true, orderId: order.id }
+            },
+
+            placeTakeProfit: (symbol, quantity, targetPrice) => {
+                const filterError = checkOrderFilters(symbol, quantity, targetPrice, [targetPrice])
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
+                if (get().getBalance(symbol).free < quantity) {
+                    return { success: false, error: 'Insufficient holdings for take-profit' }
+                }
+
+                const order = {
+                    id: generateId(),
+                    ...createTakeProfitOrder({ symbol, quantity, stopPrice: targetPrice }),
+                } as Order
+
+                set((state) => ({
+                    orders: [...state.orders, order],
+                }))
+
+                return { success: true, orderId: order.id }
+            },
+
+            placeStopLimit: (side, symbol, quantity, stopPrice, limitPrice) => {
+                const state = get()
+
+                if (stopPrice <= 0 || limitPrice <= 0) {
+                    return { success: false, error: 'Invalid stop or limit price' }
+                }
+
+                const filterError = checkOrderFilters(symbol, quantity, limitPrice, [stopPrice, limitPrice])
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
+                if (side === 'buy') {
+                    const quoteQty = quantity * limitPrice
+                    const fee = quoteQty * (MAX_FEE_PERCENT / 100)
+                    if (quoteQty + fee > state.getBalance(QUOTE_ASSET).free) {
+                        return { success: false, error: 'Insufficient balance for stop-limit' }
+                    }
+                } else {
+                    if (state.getBalance(symbol).free < quantity) {
+                        return { success: false, error: 'Insufficient holdings for stop-limit' }
+                    }
+                }
+
+                const order = {
+                    id: generateId(),
+                    ...createStopLimitOrder({ symbol, side, quantity, stopPrice, price: limitPrice }),
+                } as Order
+
+                set((state) => ({
+                    orders: [...state.orders, order],
+                }))
+
+                return { success: true, orderId: order.id }
+            },
+
+            placeTrailingStop: (symbol, quantity, offset, offsetType, currentPrice) => {
+                if (offset <= 0 || (offsetType === 'percent' && offset >= 100) || offset >= currentPrice) {
+                    return { success: false, error: 'Invalid trailing offset' }
+                }
+
+                const filterError = checkOrderFilters(symbol, quantity, currentPrice)
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
+                if (get().getBalance(symbol).free < quantity) {
+                    return { success: false, error: 'Insufficient holdings for trailing stop' }
+                }
+
+                const order = {
+                    id: generateId(),
+                    ...createTrailingStopOrder({ symbol, quantity, offset, offsetType, currentPrice }),
+                } as Order
+
+                set((state) => ({
+                    orders: [...state.orders, order],
+                }))
+
+                return { success: true, orderId: order.id }
+            },
+
+            // ============================================
+            // LINKED ORDERS
+            // ============================================
+
+            placeOcoOrder: (symbol, quantity, takeProfitPrice, stopLossPrice) => {
+                if (takeProfitPrice <= stopLossPrice || stopLossPrice <= 0) {
+                    return { success: false, error: 'Take-profit must be above stop-loss' }
+                }
+
+                const filterError = checkOrderFilters(symbol, quantity, stopLossPrice, [takeProfitPrice, stopLossPrice])
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
+                // Both legs share one reservation of the holdings
+                if (get().getBalance(symbol).free < quantity) {
+                    return { success: false, error: 'Insufficient holdings for OCO order' }
+                }
+
+                const now = marketDate()
+                const groupId = generateId()
+                const legs = [
+                    {
+                        id: generateId(),
+                        ...createTakeProfitOrder({ symbol, quantity, stopPrice: takeProfitPrice }),
+                        groupId,
+                    },
+                    {
+                        id: generateId(),
+                        ...createStopLossOrder({ symbol, quantity, stopPrice: stopLossPrice }),
+                        groupId,
+                    },
+                ] as Order[]
+
+                const group: OrderGroup = {
+                    id: groupId,
+                    type: 'oco',
+                    symbol,
+                    status: 'active',
+                    orderIds: legs.map(o => o.id),
+                    takeProfitPrice,
+                    stopLossPrice,
+                    createdAt: now,
+                    updatedAt: now,
+                }
+
+                set((state) => ({
+                    orders: [...state.orders, ...legs],
+                    orderGroups: [...state.orderGroups, group],
+                }))
+
+                return { success: true, orderId: legs[0].id, groupId }
+            },
+
+            placeBracketOrder: (symbol, quantity, entryPrice, takeProfitPrice, stopLossPrice) => {
+                if (!(stopLossPrice > 0 && stopLossPrice < entryPrice && entryPrice < takeProfitPrice)) {
+                    return { success: false, error: 'Bracket prices must be stop-loss < entry < take-profit' }
+                }
+
+                const filterError = checkOrderFilters(symbol, quantity, entryPrice, [entryPrice, takeProfitPrice, stopLossPrice])
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
+
+                const quoteQty = quantity * entryPrice
+                const fee = quoteQty * (MAX_FEE_PERCENT / 100)
+                if (quoteQty + fee > get().getBalance(QUOTE_ASSET).free) {
+                    return { success: false, error: 'Insufficient balance for bracket order' }
+                }
+
+                const now = marketDate()
+                const groupId = generateId()
+                const entry = {
+                    id: generateId(),
+                    ...createLimitOrder({ symbol, side: 'buy', quantity, price: entryPrice }),
+                    groupId,
+                } as Order
+
+                const group: OrderGroup = {
+                    id: groupId,
+                    type: 'bracket',
                     symbol,
-                    name,
-                    shortName,
-                    amount,
-                    targetPrice,
-                    createdAt: new Date(),
-                    expiresAt: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000), // 7 days
                     status: 'pending',
-                    color,
+                    entryOrderId: entry.id,
+                    orderIds: [],
+                    takeProfitPrice,
+                    stopLossPrice,
+                    createdAt: now,
+                    updatedAt: now,
+                }
+
+                set((state) => ({
+                    orders: [...state.orders, entry],
+                    orderGroups: [...state.orderGroups, group],
+                }))
+
+                return { success: true, orderId: entry.id, groupId }
+            },
+
+            cancelOrder: (orderId) => {
+                const state = get()
+                const order = state.orders.find(o => o.id === orderId)
+
+                if (!order) {
+                    return { success: false, error: 'Order not found' }
                 }
 
+                if (!isOrderActive(order)) {
+                    return { success: false, error: 'Order cannot be cancelled' }
+                }
+
+                // Fills that already happened stay; the remainder is cancelled and its lock released
                 set((state) => ({
-                    pendingOrders: [...state.pendingOrders, order],
+                    orders: closeOrder(state.orders, orderId, 'cancelled', 'Cancelled by user'),
                 }))
+                set((state) => settleOrderGroup(state, orderId))
 
-                return { success: true, orderId }
+                return { success: true }
             },
 
-            placeStopLoss: (symbol, amount, stopPrice) => {
+            checkAndExecuteOrders: (currentPrices) => {
+                const now = marketDate()
+
+                set((s) => ({ lastPrices: { ...s.lastPrices, ...currentPrices } }))
+
+                get().orders.forEach((pending) => {
+                    // Re-read: a sibling leg filled earlier in this pass may have cancelled it
+                    let order = get().orders.find(o => o.id === pending.id) ?? pending
+                    if (!isOrderActive(order)) return
+
+                    // Good-till-date orders expire once their date passes
+                    if (order.expiresAt && order.expiresAt < now) {
+                        set((s) => ({
+                            orders: closeOrder(s.orders, order.id, 'expired', 'Good-till-date reached'),
+                        }))
+                        set((s) => settleOrderGroup(s, order.id))
+                        return
+                    }
+
+                    const currentPrice = currentPrices[order.symbol]
+                    if (!currentPrice) return
+
+                    const trailed = trailStopPrice(order, currentPrice)
+                    if (trailed) {
+                        order = trailed
+                        set((s) => ({
+                            orders: s.orders.map(o => o.id === trailed.id ? trailed : o),
+                        }))
+                    }
+
+                    if (!isOrderTriggered(order, currentPrice)) return
+
+                    // A triggered stop-limit keeps resting at its limit price until filled
+                    const restingLimit = order.type === 'stop-limit' && !!order.triggeredAt
+                    if (order.type === 'stop-limit' && !order.triggeredAt) {
+                        const triggered: Order = { ...order, triggeredAt: now, updatedAt: now }
+                        order = triggered
+                        set((s) => ({
+                            orders: s.orders.map(o => o.id === triggered.id ? triggered : o),
+                        }))
+                    }
+
+                    // Match the remainder against simulated depth. Limit orders only take
+                    // liquidity up to their limit price, triggered stops walk the book.
+                    const snapshot = generateDepthSnapshot(order.symbol, currentPrice)
+                    const limitPrice = order.type === 'limit' || order.type === 'stop-limit' ? order.price : undefined
+                    const match = matchOrder(snapshot, order.side, order.remainingQty, limitPrice)
+                    const fill = matchToFill(match, order.type === 'limit' || restingLimit)
+                    if (!fill) return
+
+                    // The order may spend its own locked funds, but not those of other orders
+                    const state = get()
+
+                    if (order.side === 'buy') {
+                        const available = state.balance - getLockedCash(state.orders, order)
+                        const fee = cashFee(chargeFee(state, order.symbol, fill.quoteQty, fill.isMaker))
+                        if (fill.quoteQty + fee > available) return
+                    } else {
+                        const quantity = state.positions[order.symbol]?.quantity ?? 0
+                        const available = quantity - getLockedQuantity(state.orders, order.symbol, order)
+                        if (fill.quantity > available) return
+                    }
+
+                    set((s) => applyFill(s, s.orders.find(o => o.id === order.id) ?? order, fill))
+                    set((s) => settleOrderGroup(s, order.id))
+                })
+            },
+
+            // ============================================
+            // MARGIN TRADING
+            // ============================================
+
+            openMarginPosition: (symbol, side, margin, leverage, price) => {
                 const state = get()
-                const holding = state.holdings[symbol]
 
-                if (!holding || holding.amount < amount) {
-                    return { success: false, error: 'Insufficient holdings for stop-loss' }
+                if (leverage < 1 || leverage > MAX_LEVERAGE) {
+                    return { success: false, error: `Leverage must be between 1x and ${MAX_LEVERAGE}x` }
                 }
 
-                const orderId = generateId()
-                const order: PendingOrder = {
-                    id: orderId,
-                    type: 'stop-loss',
-                    side: 'sell',
-                    symbol,
-                    name: holding.name,
-                    shortName: holding.shortName,
-                    amount,
-                    targetPrice: stopPrice,
-                    createdAt: new Date(),
-                    status: 'pending',
-                    color: holding.color,
+                if (margin <= 0 || price <= 0) {
+                    return { success: false, error: 'Invalid margin amount' }
                 }
 
-                set((state) => ({
-                    pendingOrders: [...state.pendingOrders, order],
-                }))
-
-                return { success: true, orderId }
-            },
+                const filterError = checkOrderFilters(symbol, (margin * leverage) / price, price)
+                if (filterError) {
+                    return { success: false, error: filterError }
+                }
 
-            placeTakeProfit: (symbol, amount, targetPrice) => {
-                const state = get()
-                const holding = state.holdings[symbol]
+                // Margin fees are always taker fees paid in USDT
+                const notional = margin * leverage
+                const executedPrice = getExecutedPrice(state, symbol, side === 'long' ? 'buy' : 'sell', price, notional)
+                const feeRate = getFeeRate(state, false, false)
+                const fee = notional * (feeRate / 100)
 
-                if (!holding || holding.amount < amount) {
-                    return { success: false, error: 'Insufficient holdings for take-profit' }
+                if (margin + fee > state.getBalance(QUOTE_ASSET).free) {
+                    return { success: false, error: 'Insufficient balance for margin' }
                 }
 
-                const orderId = generateId()
-                const order: PendingOrder = {
-                    id: orderId,
-                    type: 'take-profit',
-                    side: 'sell',
+                const now = marketDate()
+                const quantity = notional / executedPrice
+                const position: Position = {
+                    id: generateId(),
                     symbol,
-                    name: holding.name,
-                    shortName: holding.shortName,
-                    amount,
-                    targetPrice,
-                    createdAt: new Date(),
-                    status: 'pending',
-                    color: holding.color,
+                    side,
+                    quantity,
+                    avgEntryPrice: executedPrice,
+                    unrealizedPnl: 0,
+                    unrealizedPnlPercent: 0,
+                    realizedPnl: 0,
+                    margin,
+                    leverage,
+                    liquidationPrice: calculateLiquidationPrice(side, executedPrice, quantity, margin),
+                    accruedInterest: 0,
+                    lastAccrualAt: now,
+                    openedAt: now,
+                    updatedAt: now,
                 }
 
                 set((state) => ({
-                    pendingOrders: [...state.pendingOrders, order],
+                    balance: state.balance - margin - fee,
+                    feesPaid: state.feesPaid + fee,
+                    volumeHistory: addVolume(state.volumeHistory, notional),
+                    marginPositions: [...state.marginPositions, position],
+                    transactions: [
+                        {
+                            id: generateId(),
+                            type: 'margin-open',
+                            positionId: position.id,
+                            positionSide: side,
+                            symbol,
+                            name: getAssetName(symbol),
+                            amount: quantity,
+                            price: executedPrice,
+                            total: margin,
+                            fee,
+                            feeRate,
+                            timestamp: now,
+                        },
+                        ...state.transactions,
+                    ],
                 }))
 
-                return { success: true, orderId }
+                return { success: true, positionId: position.id }
             },
 
-            cancelOrder: (orderId) => {
+            closeMarginPosition: (positionId, price) => {
                 const state = get()
-                const order = state.pendingOrders.find(o => o.id === orderId)
+                const current = state.marginPositions.find(p => p.id === positionId)
 
-                if (!order) {
-                    return { success: false, error: 'Order not found' }
+                if (!current) {
+                    return { success: false, error: 'Position not found' }
                 }
 
-                if (order.status !== 'pending') {
-                    return { success: false, error: 'Order cannot be cancelled' }
-                }
+                const now = marketDate()
+                const position = accrueInterest(current, price, now)
+
+                // Closing a long sells, closing a short buys back
+                const executedPrice = getExecutedPrice(
+                    state,
+                    position.symbol,
+                    position.side === 'long' ? 'sell' : 'buy',
+                    price,
+                    position.quantity * price
+                )
+                const { pnl } = calculatePnL(position.avgEntryPrice, executedPrice, position.quantity, position.side)
+                const notional = position.quantity * executedPrice
+                const feeRate = getFeeRate(state, false, false)
+                const fee = notional * (feeRate / 100)
+                const returned = Math.max((position.margin ?? 0) + pnl - fee, 0)
+
+                // Against the margin originally posted, so borrow interest counts as a loss
+                const postedMargin = (position.margin ?? 0) + (position.accruedInterest ?? 0)
+                const realizedPnl = returned + fee - postedMargin
 
                 set((state) => ({
-                    pendingOrders: state.pendingOrders.map(o =>
-                        o.id === orderId ? { ...o, status: 'cancelled' as OrderStatus } : o
-                    ),
+                    balance: state.balance + returned,
+                    realizedPnl: state.realizedPnl + realizedPnl,
+                    feesPaid: state.feesPaid + fee,
+                    volumeHistory: addVolume(state.volumeHistory, notional),
+                    marginPositions: state.marginPositions.filter(p => p.id !== positionId),
+                    transactions: [
+                        {
+                            id: generateId(),
+                            type: 'margin-close',
+                            positionId,
+                            positionSide: position.side,
+                            symbol: position.symbol,
+                            name: getAssetName(position.symbol),
+                            amount: position.quantity,
+                            price: executedPrice,
+                            total: returned,
+                            fee,
+                            feeRate,
+                            interest: position.accruedInterest,
+                            realizedPnl,
+                            timestamp: now,
+                        },
+                        ...state.transactions,
+                    ],
                 }))
 
-                return { success: true }
+                return { success: true, positionId, pnl: pnl - fee }
             },
 
-            checkAndExecuteOrders: (currentPrices) => {
-                const state = get()
-                const now = new Date()
-
-                state.pendingOrders.forEach((order) => {
-                    if (order.status !== 'pending') return
+            // Accrue interest and liquidate positions whose mark price hit the liquidation price
+            updateMarginPositions: (markPrices) => {
+                const now = marketDate()
+                const remaining: Position[] = []
+                const liquidations: Transaction[] = []
 
-                    // Check expiration
-                    if (order.expiresAt && new Date(order.expiresAt) < now) {
-                        set((s) => ({
-                            pendingOrders: s.pendingOrders.map(o =>
-                                o.id === order.id ? { ...o, status: 'expired' as OrderStatus } : o
-                            ),
-                        }))
+                get().marginPositions.forEach((current) => {
+                    const markPrice = markPrices[current.symbol]
+                    if (!markPrice) {
+                        remaining.push(current)
                         return
                     }
 
-                    const currentPrice = currentPrices[order.symbol]
-                    if (!currentPrice) return
+                    const position = accrueInterest(current, markPrice, now)
 
-                    let shouldExecute = false
-
-                    switch (order.type) {
-                        case 'limit':
-                            if (order.side === 'buy' && currentPrice <= order.targetPrice) {
-                                shouldExecute = true
-                            } else if (order.side === 'sell' && currentPrice >= order.targetPrice) {
-                                shouldExecute = true
-                            }
-                            break
-
-                        case 'stop-loss':
-                            if (currentPrice <= order.targetPrice) {
-                                shouldExecute = true
-                            }
-                            break
-
-                        case 'take-profit':
-                            if (currentPrice >= order.targetPrice) {
-                                shouldExecute = true
-                            }
-                            break
+                    if (!isLiquidatable(position, markPrice)) {
+                        remaining.push(position)
+                        return
                     }
 
-                    if (shouldExecute) {
-                        // Execute the order
-                        if (order.side === 'buy') {
-                            const result = get().buy(
-                                order.symbol,
-                                order.name,
-                                order.shortName,
-                                order.amount,
-                                order.targetPrice,
-                                order.color
-                            )
-
-                            if (result.success) {
-                                set((s) => ({
-                                    pendingOrders: s.pendingOrders.map(o =>
-                                        o.id === order.id ? { ...o, status: 'filled' as OrderStatus } : o
-                                    ),
-                                }))
-                            }
-                        } else {
-                            const cryptoAmount = order.amount / order.targetPrice
-                            const result = get().sell(order.symbol, cryptoAmount, order.targetPrice)
-
-                            if (result.success) {
-                                set((s) => ({
-                                    pendingOrders: s.pendingOrders.map(o =>
-                                        o.id === order.id ? { ...o, status: 'filled' as OrderStatus } : o
-                                    ),
-                                }))
-                            }
-                        }
-                    }
+                    // The remaining collateral is forfeited
+                    liquidations.push({
+                        id: generateId(),
+                        type: 'liquidation',
+                        positionId: position.id,
+                        positionSide: position.side,
+                        symbol: position.symbol,
+                        name: getAssetName(position.symbol),
+                        amount: position.quantity,
+                        price: markPrice,
+                        total: position.margin ?? 0,
+                        fee: 0,
+                        interest: position.accruedInterest,
+                        realizedPnl: -((position.margin ?? 0) + (position.accruedInterest ?? 0)),
+                        timestamp: now,
+                    })
                 })
+
+                set((state) => ({
+                    marginPositions: remaining,
+                    realizedPnl: liquidations.reduce((sum, tx) => sum + (tx.realizedPnl ?? 0), state.realizedPnl),
+                    transactions: [...liquidations, ...state.transactions],
+                }))
+            },
+
+            // ============================================
+            // VALUE HISTORY
+            // ============================================
+
+            recordValueSnapshot: (prices) => {
+                const state = get()
+
+                // A holding without a price would be valued at zero
+                const symbols = [
+                    ...Object.keys(state.positions),
+                    ...state.marginPositions.map(p => p.symbol),
+                ]
+                if (symbols.some(symbol => !prices[symbol])) return
+
+                const { totalValue, profitLoss } = state.getPortfolioMetrics(prices)
+                const snapshot: PortfolioSnapshot = {
+                    timestamp: marketNow(),
+                    value: totalValue,
+                    capital: totalValue - profitLoss,
+                }
+
+                set((state) => ({
+                    valueSnapshots: appendSnapshot(state.valueSnapshots, snapshot),
+                }))
             },
 
             // ============================================
             // TRADING JOURNAL
             // ============================================
 
-            addJournalNote: (transactionId, note, tags = []) => {
+            addJournalNote: (transactionId, note, tags = [], details = {}) => {
                 const entry: JournalEntry = {
                     id: generateId(),
                     transactionId,
                     note,
                     tags,
-                    createdAt: new Date(),
-                    updatedAt: new Date(),
+                    ...details,
+                    createdAt: marketDate(),
+                    updatedAt: marketDate(),
                 }
 
                 set((state) => ({
@@ -559,16 +2028,29 @@ export const useWalletStore = create<WalletState>()(
                 }))
             },
 
-            updateJournalNote: (entryId, note, tags) => {
+            updateJournalNote: (entryId, note, tags, details = {}) => {
+                const previous = get().journalEntries.find(entry => entry.id === entryId)
+                if ('snapshotId' in details && details.snapshotId !== previous?.snapshotId) {
+                    discardSnapshot(previous?.snapshotId)
+                }
+
                 set((state) => ({
                     journalEntries: state.journalEntries.map(entry =>
                         entry.id === entryId
-                            ? { ...entry, note, tags: tags || entry.tags, updatedAt: new Date() }
+                            ? { ...entry, ...details, note, tags: tags || entry.tags, updatedAt: marketDate() }
                             : entry
                     ),
                 }))
             },
 
+            deleteJournalNote: (entryId) => {
+                discardSnapshot(get().journalEntries.find(entry => entry.id === entryId)?.snapshotId)
+
+                set((state) => ({
+                    journalEntries: state.journalEntries.filter(entry => entry.id !== entryId),
+                }))
+            },
+
             getJournalForTransaction: (transactionId) => {
                 return get().journalEntries.find(e => e.transactionId === transactionId)
             },
@@ -581,6 +2063,11 @@ export const useWalletStore = create<WalletState>()(
                 const state = get()
                 const today = new Date().toDateString()
 
+                // The replay portfolio is thrown away, and the bonus with it
+                if (state.replayBackup) {
+                    return { success: false, amount: 0, error: 'Claim the daily bonus on live market data' }
+                }
+
                 if (state.lastBonusClaim === today) {
                     return { success: false, amount: 0, error: 'Already claimed today' }
                 }
@@ -604,7 +2091,7 @@ export const useWalletStore = create<WalletState>()(
                             price: 1,
                             total: bonusAmount,
                             fee: 0,
-                            timestamp: new Date(),
+                            timestamp: marketDate(),
                         },
                         ...state.transactions,
                     ],
@@ -613,28 +2100,320 @@ export const useWalletStore = create<WalletState>()(
                 return { success: true, amount: bonusAmount }
             },
 
-            resetWallet: () => {
+            resetWallet: (seed) => {
+                const session = startSession(seed)
+                get().journalEntries.forEach(entry => discardSnapshot(entry.snapshotId))
+
                 set({
+                    session,
                     balance: INITIAL_BALANCE,
                     initialDeposit: INITIAL_BALANCE,
-                    holdings: {},
+                    positions: {},
+                    lots: {},
+                    realizedPnl: 0,
+                    feesPaid: 0,
+                    valueSnapshots: [],
+                    orders: [],
+                    trades: [],
+                    orderGroups: [],
+                    marginPositions: [],
                     transactions: [
                         {
                             id: generateId(),
                             type: 'deposit',
                             symbol: 'USD',
-                            name: 'Wallet Reset',
+                            name: WALLET_RESET_NAME,
                             amount: INITIAL_BALANCE,
                             price: 1,
                             total: INITIAL_BALANCE,
                             fee: 0,
-                            timestamp: new Date(),
+                            timestamp: marketDate(),
                         }
                     ],
-                    pendingOrders: [],
                     journalEntries: [],
                     lastBonusClaim: null,
+                    volumeHistory: {},
+                })
+            },
+
+            // ============================================
+            // REPLAY
+            // ============================================
+
+            // Replay time never reaches the active portfolio's orders, margin or history:
+            // the replay trades on a fresh portfolio with the same settings instead
+            startReplay: () => {
+                set((state) => {
+                    const own = state.replayBackup ?? pickPortfolioData(state)
+
+                    return {
+                        ...createPortfolioData(),
+                        costBasisMethod: own.costBasisMethod,
+                        payFeesInBnb: own.payFeesInBnb,
+                        slippageEnabled: own.slippageEnabled,
+                        slippagePercent: own.slippagePercent,
+                        slippageModel: own.slippageModel,
+                        replayBackup: own,
+                    }
+                })
+            },
+
+            // Drops the replay portfolio and brings the active one back as it was
+            endReplay: () => {
+                const { replayBackup } = get()
+                if (!replayBackup) return
+
+                set({ ...replayBackup, replayBackup: null })
+            },
+
+            // Keeps what the replay has traded so far as a new portfolio; the replay carries on
+            saveReplayPortfolio: (name) => {
+                const state = get()
+                if (!state.replayBackup) return { success: false, error: 'No replay is running' }
+
+                const data = pickPortfolioData(state)
+                const error = validatePortfolioName(state, name) ?? getParkingError(data)
+                if (error) return { success: false, error }
+
+                const portfolio: PortfolioInfo = {
+                    id: generateId(),
+                    name: name.trim(),
+                    archived: false,
+                    createdAt: new Date(),
+                }
+
+                set((state) => ({
+                    portfolios: [...state.portfolios, portfolio],
+                    storedPortfolios: { ...state.storedPortfolios, [portfolio.id]: data },
+                }))
+                recordPortfolioHistory([{ info: portfolio, data }])
+
+                return { success: true, portfolioId: portfolio.id }
+            },
+
+            // ============================================
+            // PORTFOLIOS
+            // ============================================
+
+            createPortfolio: (name) => {
+                if (get().replayBackup) return { success: false, error: REPLAY_PORTFOLIO_ERROR }
+
+                const error = validatePortfolioName(get(), name)
+                if (error) return { success: false, error }
+
+                const portfolio: PortfolioInfo = {
+                    id: generateId(),
+                    name: name.trim(),
+                    archived: false,
+                    createdAt: new Date(),
+                }
+
+                set((state) => ({
+                    portfolios: [...state.portfolios, portfolio],
+                    storedPortfolios: { ...state.storedPortfolios, [portfolio.id]: createPortfolioData() },
+                }))
+
+                return { success: true, portfolioId: portfolio.id }
+            },
+
+            // Copies balance, holdings, orders, journal and settings as they are now
+            clonePortfolio: (portfolioId, name) => {
+                const state = get()
+                if (state.replayBackup) return { success: false, error: REPLAY_PORTFOLIO_ERROR }
+
+                const source = portfolioId === state.activePortfolioId
+                    ? pickPortfolioData(state)
+                    : state.storedPortfolios[portfolioId]
+
+                if (!source) {
+                    return { success: false, error: 'Portfolio not found' }
+                }
+
+                // The copy starts out parked
+                const parkingError = getParkingError(source)
+                if (parkingError) {
+                    return { success: false, error: `${parkingError}: a copy can't hold live orders or margin` }
+                }
+
+                const error = validatePortfolioName(state, name)
+                if (error) return { success: false, error }
+
+                const portfolio: PortfolioInfo = {
+                    id: generateId(),
+                    name: name.trim(),
+                    archived: false,
+                    createdAt: new Date(),
+                }
+
+                set((state) => ({
+                    portfolios: [...state.portfolios, portfolio],
+                    storedPortfolios: { ...state.storedPortfolios, [portfolio.id]: { ...source } },
+                }))
+
+                return { success: true, portfolioId: portfolio.id }
+            },
+
+            renamePortfolio: (portfolioId, name) => {
+                const state = get()
+                if (!state.portfolios.some(p => p.id === portfolioId)) {
+                    return { success: false, error: 'Portfolio not found' }
+                }
+
+                const error = validatePortfolioName(state, name, portfolioId)
+                if (error) return { success: false, error }
+
+                set((state) => ({
+                    portfolios: state.portfolios.map(p => p.id === portfolioId ? { ...p, name: name.trim() } : p),
+                }))
+
+                return { success: true, portfolioId }
+            },
+
+            // Archived portfolios keep their data but are hidden from the switcher
+            archivePortfolio: (portfolioId) => {
+                const state = get()
+                if (!state.portfolios.some(p => p.id === portfolioId)) {
+                    return { success: false, error: 'Portfolio not found' }
+                }
+
+                if (portfolioId === state.activePortfolioId) {
+                    return { success: false, error: 'Switch to another portfolio before archiving this one' }
+                }
+
+                set((state) => ({
+                    portfolios: state.portfolios.map(p => p.id === portfolioId ? { ...p, archived: true } : p),
+                }))
+
+                return { success: true, portfolioId }
+            },
+
+            restorePortfolio: (portfolioId) => {
+                if (!get().portfolios.some(p => p.id === portfolioId)) {
+                    return { success: false, error: 'Portfolio not found' }
+                }
+
+                set((state) => ({
+                    portfolios: state.portfolios.map(p => p.id === portfolioId ? { ...p, archived: false } : p),
+                }))
+
+                return { success: true, portfolioId }
+            },
+
+            // Parks the active portfolio's data and loads the other one in its place
+            switchPortfolio: (portfolioId) => {
+                const state = get()
+                if (state.replayBackup) return { success: false, error: REPLAY_PORTFOLIO_ERROR }
+
+                const portfolio = state.portfolios.find(p => p.id === portfolioId)
+
+                if (!portfolio) {
+                    return { success: false, error: 'Portfolio not found' }
+                }
+
+                if (portfolio.archived) {
+                    return { success: false, error: 'Restore the portfolio before switching to it' }
+                }
+
+                if (portfolioId === state.activePortfolioId) {
+                    return { success: true, portfolioId }
+                }
+
+                const parkingError = getParkingError(state)
+                if (parkingError) {
+                    return { success: false, error: `${parkingError}: they only run while their portfolio is active` }
+                }
+
+                set((state) => {
+                    const { [portfolioId]: target, ...others } = state.storedPortfolios
+
+                    return {
+                        ...(target ?? createPortfolioData()),
+                        activePortfolioId: portfolioId,
+                        storedPortfolios: { ...others, [state.activePortfolioId]: pickPortfolioData(state) },
+                    }
+                })
+
+                return { success: true, portfolioId }
+            },
+
+            importPortfolios: (wallet, mode) => {
+                const state = get()
+                if (state.replayBackup) return { success: false, error: REPLAY_PORTFOLIO_ERROR }
+
+                const incoming = wallet.portfolios.flatMap((info) => {
+                    const data = info.id === wallet.activePortfolioId ? wallet : wallet.storedPortfolios[info.id]
+                    return data ? [{ info, data: fillPortfolioData(data) }] : []
+                })
+
+                if (incoming.length === 0) {
+                    return { success: false, error: 'The import holds no portfolios' }
+                }
+
+                // Whatever doesn't become the active portfolio is parked
+                const active = mode === 'replace'
+                    ? incoming.find(p => p.info.id === wallet.activePortfolioId && !p.info.archived)
+                        ?? incoming.find(p => !p.info.archived)
+                    : undefined
+                const live = incoming.find(p => p !== active && getParkingError(p.data))
+                if (live) {
+                    return { success: false, error: `${live.info.name} has open orders or margin positions, which only run on the active portfolio` }
+                }
+
+                if (mode === 'replace') {
+                    if (!active) {
+                        return { success: false, error: 'The import holds only archived portfolios' }
+                    }
+
+                    set({
+                        ...active.data,
+                        portfolios: incoming.map(p => p.info),
+                        activePortfolioId: active.info.id,
+                        storedPortfolios: Object.fromEntries(
+                            incoming.filter(p => p !== active).map(p => [p.info.id, p.data])
+                        ),
+                    })
+                    // The old portfolios are gone, and the imported ones bring their own history
+                    recordPortfolioHistory(incoming, [
+                        ...new Set([...state.portfolios, ...incoming.map(p => p.info)].map(p => p.id)),
+                    ])
+
+                    return { success: true, portfolioIds: incoming.map(p => p.info.id) }
+                }
+
+                if (state.portfolios.length + incoming.length > MAX_PORTFOLIOS) {
+                    return { success: false, error: `You can have up to ${MAX_PORTFOLIOS} portfolios` }
+                }
+
+                // Fresh ids, and a numbered name wherever the name is taken
+                const portfolios = [...state.portfolios]
+                const added = incoming.map(({ info, data }) => {
+                    const isTaken = (name: string) => portfolios.some(p => p.name.toLowerCase() === name.toLowerCase())
+                    let name = info.name
+                    for (let i = 2; isTaken(name); i++) name = `${info.name} (${i})`
+
+                    const portfolio: PortfolioInfo = { ...info, id: generateId(), name }
+                    portfolios.push(portfolio)
+                    return { info: portfolio, data }
                 })
+
+                set((state) => ({
+                    portfolios,
+                    storedPortfolios: {
+                        ...state.storedPortfolios,
+                        ...Object.fromEntries(added.map(p => [p.info.id, p.data])),
+                    },
+                }))
+                recordPortfolioHistory(added)
+
+                return { success: true, portfolioIds: added.map(p => p.info.id) }
+            },
+
+            setCostBasisMethod: (method) => {
+                set({ costBasisMethod: method })
+            },
+
+            setPayFeesInBnb: (enabled) => {
+                set({ payFeesInBnb: enabled })
             },
 
             setSlippage: (enabled, percent) => {
@@ -644,88 +2423,241 @@ export const useWalletStore = create<WalletState>()(
                 })
             },
 
+            setSlippageModel: (model) => {
+                set({ slippageModel: model })
+            },
+
+            updateMarketConditions: (tickers) => {
+                set((state) => {
+                    const marketConditions = { ...state.marketConditions }
+                    tickers.forEach(({ symbol, quoteVolume24h, high24h, low24h }) => {
+                        marketConditions[symbol] = { quoteVolume24h, high24h, low24h }
+                    })
+                    return { marketConditions }
+                })
+            },
+
             // ============================================
             // GETTERS
             // ============================================
 
-            getHolding: (symbol) => get().holdings[symbol],
+            // Cash (QUOTE_ASSET) or a holding, split into free and locked
+            getBalance: (asset) => {
+                const state = get()
+
+                if (asset === QUOTE_ASSET) {
+                    return toBalance(asset, state.balance, getLockedCash(state.orders))
+                }
+
+                const total = state.positions[asset]?.quantity ?? 0
+                return toBalance(asset, total, getLockedQuantity(state.orders, asset))
+            },
 
-            getPortfolioValue: (prices) => {
+            getWalletBalance: (prices) => {
                 const state = get()
-                let holdingsValue = 0
+                const balances: Record<string, Balance> = {
+                    [QUOTE_ASSET]: state.getBalance(QUOTE_ASSET),
+                }
 
-                Object.values(state.holdings).forEach((holding) => {
-                    const price = prices[holding.symbol] || 0
-                    holdingsValue += holding.amount * price
+                let totalValueUSD = state.balance
+                Object.keys(state.positions).forEach((symbol) => {
+                    balances[symbol] = state.getBalance(symbol)
+                    totalValueUSD += balances[symbol].total * (prices[symbol] || 0)
                 })
 
-                return state.balance + holdingsValue
+                return { balances, totalValueUSD }
             },
 
-            getPortfolioMetrics: (prices) => {
+            getPosition: (symbol) => get().positions[symbol],
+
+            // Positions marked to the given prices
+            getPositions: (prices) => markPositions(get(), prices),
+
+            getPortfolio: (prices) => buildPortfolio(get(), prices),
+
+            getPortfolioValue: (prices) => get().getPortfolio(prices).totalValue,
+
+            getPortfolioMetrics: (prices) => calculatePortfolioMetrics(get(), prices),
+
+            getValueChange: (prices, period) => {
                 const state = get()
-                let holdingsValue = 0
-                let totalCost = 0
+                const { totalValue, profitLoss } = state.getPortfolioMetrics(prices)
+
+                return calculateValueChange(
+                    state.valueSnapshots,
+                    { value: totalValue, capital: totalValue - profitLoss },
+                    period,
+                    marketNow()
+                )
+            },
 
-                Object.values(state.holdings).forEach((holding) => {
-                    const price = prices[holding.symbol] || 0
-                    holdingsValue += holding.amount * price
-                    totalCost += holding.amount * holding.avgBuyPrice
-                })
+            getOpenOrders: (symbol) => {
+                return get().orders.filter(o => isOrderActive(o) && (!symbol || o.symbol === symbol))
+            },
 
-                const totalValue = state.balance + holdingsValue
-                const profitLoss = totalValue - state.initialDeposit
-                const profitLossPercent = state.initialDeposit > 0
-                    ? (profitLoss / state.initialDeposit) * 100
-                    : 0
+            // Closed orders (filled, cancelled, expired, rejected), most recent first
+            getOrderHistory: (limit = 50) => {
+                return get().orders
+                    .filter(o => !isOrderActive(o))
+                    .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+                    .slice(0, limit)
+            },
 
-                return {
-                    totalValue,
-                    totalCost,
-                    profitLoss,
-                    profitLossPercent,
-                    dayChange: 0,
-                    dayChangePercent: 0,
-                }
+            getOpenOrderGroups: () => {
+                return get().orderGroups.filter(g => g.status === 'pending' || g.status === 'active')
             },
 
-            getHoldingsWithValue: (prices) => {
-                const state = get()
+            getMarginPositions: (prices) => markMarginPositions(get(), prices),
 
-                return Object.values(state.holdings).map((holding) => {
-                    const currentPrice = prices[holding.symbol] || 0
-                    const currentValue = holding.amount * currentPrice
-                    const costBasis = holding.amount * holding.avgBuyPrice
-                    const pnl = currentValue - costBasis
-                    const pnlPercent = costBasis > 0 ? (pnl / costBasis) * 100 : 0
+            // Nominal rate for the next fill; BNB fees fall back to USDT without enough BNB
+            getTradingFee: (isMaker) => {
+                const state = get()
+                return getFeeQuote({
+                    isMaker,
+                    volume30d: get30dVolume(state.volumeHistory),
+                    subscriptionTier: state.userTier,
+                    payInBnb: state.payFeesInBnb,
+                })
+            },
 
-                    return {
-                        ...holding,
-                        currentValue,
-                        pnl,
-                        pnlPercent,
-                    }
-                }).sort((a, b) => b.currentValue - a.currentValue)
+            getActivePortfolio: () => {
+                const state = get()
+                return state.portfolios.find(p => p.id === state.activePortfolioId) ?? DEFAULT_PORTFOLIO
             },
 
-            getPendingOrdersForSymbol: (symbol) => {
-                return get().pendingOrders.filter(o => o.symbol === symbol && o.status === 'pending')
+            // Metrics of every portfolio side by side, archived ones included
+            getPortfolioComparison: (prices) => {
+                const state = get()
+
+                return state.portfolios.flatMap((portfolio) => {
+                    const data = portfolio.id === state.activePortfolioId
+                        ? state
+                        : state.storedPortfolios[portfolio.id]
+                    if (!data) return []
+
+                    return [{
+                        portfolio,
+                        metrics: calculatePortfolioMetrics(data, prices),
+                        trades: data.trades.length,
+                        openPositions: Object.keys(data.positions).length + data.marginPositions.length,
+                    }]
+                })
             },
         }),
-        {
-            name: 'quantix-wallet',
+        createPersistOptions({
+            name: WALLET_STORAGE_KEY,
+            label: 'wallet',
+            version: WALLET_VERSION,
+            migrations: WALLET_MIGRATIONS,
             partialize: (state) => ({
-                balance: state.balance,
-                initialDeposit: state.initialDeposit,
-                holdings: state.holdings,
-                transactions: state.transactions.slice(0, 100),
-                pendingOrders: state.pendingOrders.filter(o => o.status === 'pending'),
-                journalEntries: state.journalEntries.slice(0, 200),
+                session: { ...state.session, randomState: rng.getState() },
+                portfolios: state.portfolios,
+                activePortfolioId: state.activePortfolioId,
+                storedPortfolios: Object.fromEntries(
+                    Object.entries(state.storedPortfolios).map(([id, data]) => [id, compactPortfolioData(data)])
+                ),
+                // Never the replay portfolio: a reload comes back to the real one
+                ...compactPortfolioData(state.replayBackup ?? state),
                 userTier: state.userTier,
                 lastBonusClaim: state.lastBonusClaim,
-                slippageEnabled: state.slippageEnabled,
-                slippagePercent: state.slippagePercent,
             }),
-        }
+            onRehydrateStorage: () => (state) => {
+                // Continue the saved session's random sequence where it left off
+                if (state?.session) {
+                    rng.seed(state.session.randomState ?? state.session.seed)
+                }
+            },
+        })
     )
 )
+
+// ============================================
+// LEDGER
+// ============================================
+
+/**
+ * Transactions and order state changes between two states of the same portfolio
+ */
+function collectLedgerChanges(state: WalletState, prev: WalletState): {
+    transactions: LedgerTransaction[]
+    orderEvents: LedgerOrderEvent[]
+} {
+    const portfolioId = state.activePortfolioId
+
+    // Switching loads another portfolio's existing history, which is nothing new,
+    // and nothing from a replay portfolio is kept
+    if (portfolioId !== prev.activePortfolioId || state.replayBackup || prev.replayBackup) {
+        return { transactions: [], orderEvents: [] }
+    }
+
+    const transactions: LedgerTransaction[] = []
+    if (state.transactions !== prev.transactions) {
+        const known = new Set(prev.transactions.map(t => t.id))
+        state.transactions.forEach((t) => {
+            if (!known.has(t.id)) transactions.push({ ...t, portfolioId })
+        })
+    }
+
+    const orderEvents: LedgerOrderEvent[] = []
+    if (state.orders !== prev.orders) {
+        const previous = new Map(prev.orders.map(o => [o.id, o]))
+        state.orders.forEach((order) => {
+            const before = previous.get(order.id)
+            if (before && before.status === order.status && before.executedQty === order.executedQty) return
+            orderEvents.push(toOrderEvent(order, portfolioId))
+        })
+    }
+
+    return { transactions, orderEvents }
+}
+
+/**
+ * Write the history that imported portfolios bring with them, in place of
+ * any history kept under the replaced portfolio ids
+ */
+function recordPortfolioHistory(
+    portfolios: { info: PortfolioInfo; data: PortfolioData }[],
+    replacedIds: string[] = []
+): void {
+    if (isReadOnly(WALLET_STORAGE_KEY)) return
+    const entries = {
+        transactions: portfolios.flatMap(({ info, data }) =>
+            data.transactions.map(t => ({ ...t, portfolioId: info.id }))
+        ),
+        orderEvents: portfolios.flatMap(({ info, data }) =>
+            data.orders.map(o => toOrderEvent(o, info.id))
+        ),
+    }
+
+    if (replacedIds.length > 0) {
+        replacePortfolioHistory(replacedIds, entries)
+    } else {
+        appendToLedger(entries)
+    }
+}
+
+/**
+ * Delete a journal chart image that no entry points to any more
+ */
+function discardSnapshot(snapshotId: string | undefined): void {
+    if (snapshotId && !isReadOnly(WALLET_STORAGE_KEY)) deleteSnapshot(snapshotId)
+}
+
+// The store keeps recent history only; the ledger keeps all of it, unless
+// a newer version of the app owns the saved data
+useWalletStore.subscribe((state, prev) => {
+    if (isReadOnly(WALLET_STORAGE_KEY)) return
+    const changes = collectLedgerChanges(state, prev)
+    if (changes.transactions.length > 0 || changes.orderEvents.length > 0) {
+        appendToLedger(changes)
+    }
+})
+
+// A replay gets a fresh portfolio once loaded, so it starts at the replay's first moment
+useReplayStore.subscribe((replay, prev) => {
+    if (replay.active && (!prev.active || (prev.loading && !replay.loading))) {
+        useWalletStore.getState().startReplay()
+    } else if (!replay.active && prev.active) {
+        useWalletStore.getState().endReplay()
+    }
+})
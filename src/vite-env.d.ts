@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+    // Market data source forced at build time: 'binance', 'synthetic' or 'replay'
+    readonly VITE_MARKET_DATA?: string
+    // Recording played by the replay source
+    readonly VITE_MARKET_DATA_FILE?: string
+}